@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "lockedAt" TIMESTAMP(3),
+ADD COLUMN     "lockedBy" TEXT,
+ADD COLUMN     "queuedAt" TIMESTAMP(3),
+ADD COLUMN     "recoveryCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "nextNodeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_status_queuedAt_idx" ON "workflow_executions"("status", "queuedAt");
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_status_heartbeatAt_idx" ON "workflow_executions"("status", "heartbeatAt");
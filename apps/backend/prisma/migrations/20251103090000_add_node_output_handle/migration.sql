@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "outputHandle" TEXT;
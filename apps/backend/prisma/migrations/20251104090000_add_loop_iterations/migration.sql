@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "iteration" INTEGER,
+ADD COLUMN     "loopNodeId" TEXT;
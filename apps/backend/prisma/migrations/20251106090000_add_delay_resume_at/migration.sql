@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "resumeAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "resumeAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_status_resumeAt_idx" ON "workflow_executions"("status", "resumeAt");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "resumeToken" TEXT,
+ADD COLUMN     "waitingFor" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "node_executions_resumeToken_key" ON "node_executions"("resumeToken");
+
+-- Executions paused for approval before resume tokens existed: the approval node waits for its decision
+UPDATE "node_executions"
+SET "status" = 'waiting', "waitingFor" = 'approval', "resumeToken" = gen_random_uuid()::text, "completedAt" = NULL
+WHERE "nodeType" = 'manual_approval'
+  AND "status" = 'completed'
+  AND "executionId" IN (SELECT "id" FROM "workflow_executions" WHERE "status" = 'pending_approval');
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "approval_row_decisions" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "nodeExecutionId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "rowIndex" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "originalContent" TEXT,
+    "editedContent" TEXT,
+    "comment" TEXT,
+    "reviewerId" TEXT NOT NULL,
+    "decidedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_row_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_row_decisions_executionId_idx" ON "approval_row_decisions"("executionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_row_decisions_nodeExecutionId_rowIndex_key" ON "approval_row_decisions"("nodeExecutionId", "rowIndex");
+
+-- AddForeignKey
+ALTER TABLE "approval_row_decisions" ADD CONSTRAINT "approval_row_decisions_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "workflow_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_row_decisions" ADD CONSTRAINT "approval_row_decisions_nodeExecutionId_fkey" FOREIGN KEY ("nodeExecutionId") REFERENCES "node_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "approvalDueAt" TIMESTAMP(3),
+ADD COLUMN     "escalateAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "remindAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "node_executions_status_waitingFor_idx" ON "node_executions"("status", "waitingFor");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "roles" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "approverEmails" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "approverRoles" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "approverUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "requiredApprovals" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "approval_votes" (
+    "id" TEXT NOT NULL,
+    "executionId" TEXT NOT NULL,
+    "nodeExecutionId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "approved" BOOLEAN NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_votes_executionId_idx" ON "approval_votes"("executionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_votes_nodeExecutionId_reviewerId_key" ON "approval_votes"("nodeExecutionId", "reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "approval_votes" ADD CONSTRAINT "approval_votes_nodeExecutionId_fkey" FOREIGN KEY ("nodeExecutionId") REFERENCES "node_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "replayFromNodeId" TEXT,
+ADD COLUMN     "replayOfExecutionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "node_executions" ADD COLUMN     "reused" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_replayOfExecutionId_idx" ON "workflow_executions"("replayOfExecutionId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_executions" ADD CONSTRAINT "workflow_executions_replayOfExecutionId_fkey" FOREIGN KEY ("replayOfExecutionId") REFERENCES "workflow_executions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_status_priority_queuedAt_idx" ON "workflow_executions"("status", "priority", "queuedAt");
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_workflowId_status_idx" ON "workflow_executions"("workflowId", "status");
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_userId_status_idx" ON "workflow_executions"("userId", "status");
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "scheduleId" TEXT,
+ADD COLUMN     "scheduledFor" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "workflow_schedules" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "catchUp" TEXT NOT NULL DEFAULT 'none',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastExecutionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_schedules_isActive_nextRunAt_idx" ON "workflow_schedules"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_schedules_workflowId_nodeId_key" ON "workflow_schedules"("workflowId", "nodeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_executions_scheduleId_scheduledFor_key" ON "workflow_executions"("scheduleId", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "workflow_executions" ADD CONSTRAINT "workflow_executions_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "workflow_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_schedules" ADD CONSTRAINT "workflow_schedules_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
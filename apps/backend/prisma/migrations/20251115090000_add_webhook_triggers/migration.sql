@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "entryNodeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "webhook_triggers" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "authentication" TEXT NOT NULL DEFAULT 'none',
+    "secret" TEXT NOT NULL,
+    "responseMode" TEXT NOT NULL DEFAULT 'async',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastReceivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_triggers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_triggers_webhookId_key" ON "webhook_triggers"("webhookId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_triggers_workflowId_nodeId_key" ON "webhook_triggers"("workflowId", "nodeId");
+
+-- AddForeignKey
+ALTER TABLE "webhook_triggers" ADD CONSTRAINT "webhook_triggers_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
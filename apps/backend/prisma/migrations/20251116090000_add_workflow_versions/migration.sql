@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "publishedVersionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "workflowVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "workflow_versions" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "definition" JSONB NOT NULL,
+    "note" TEXT,
+    "publishedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflows_publishedVersionId_key" ON "workflows"("publishedVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_versions_workflowId_version_key" ON "workflow_versions"("workflowId", "version");
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_publishedVersionId_fkey" FOREIGN KEY ("publishedVersionId") REFERENCES "workflow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
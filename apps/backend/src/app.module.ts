@@ -19,6 +19,8 @@ import { PublicApiModule } from './public-api/public-api.module';
 import { ApiKeysModule } from './api-keys/api-keys.module';
 import { HealthModule } from './health/health.module';
 import { ComplianceRAGModule } from './compliance-rag/compliance-rag.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { WebhookTriggersModule } from './webhook-triggers/webhook-triggers.module';
 
 @Module({
   imports: [
@@ -52,6 +54,12 @@ import { ComplianceRAGModule } from './compliance-rag/compliance-rag.module';
     BfsiModule,
     ApiKeysModule,
 
+    // Scheduler module (starts executions of scheduled Trigger nodes)
+    SchedulerModule,
+
+    // Webhook triggers module (starts workflows from inbound requests to /hooks/:webhookId)
+    WebhookTriggersModule,
+
     // Public API module (API key-based auth for customer-facing websites)
     PublicApiModule,
   ],
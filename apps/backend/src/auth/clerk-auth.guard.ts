@@ -49,12 +49,14 @@ export class ClerkAuthGuard implements CanActivate {
       const clerkId = payload.sub;
       const email = (payload as any).email || 'unknown@example.com'; // Clerk includes email in JWT
       const name = (payload as any).name || (payload as any).firstName || null;
+      const roles = this.extractRoles(payload);
 
       // Find or create user in our database
       const dbUser = await this.usersService.findOrCreateUser({
         clerkId,
         email,
         name,
+        roles,
       });
 
       console.log('[Auth] Synced user to database, dbUserId:', dbUser.id);
@@ -73,6 +75,21 @@ export class ClerkAuthGuard implements CanActivate {
     }
   }
 
+  /**
+   * Approver roles from the session token
+   * Reads a custom "roles" claim (configured in the Clerk session token template) or the
+   * organization role; undefined when the token carries neither
+   */
+  private extractRoles(payload: any): string[] | undefined {
+    if (Array.isArray(payload.roles)) {
+      return payload.roles.filter((role: unknown) => typeof role === 'string');
+    }
+    if (typeof payload.org_role === 'string') {
+      return [payload.org_role.replace(/^org:/, '')];
+    }
+    return undefined;
+  }
+
   private extractTokenFromHeader(request: any): string | undefined {
     const authorization = request.headers.authorization;
 
@@ -15,6 +15,7 @@ import {
 } from '../../nodes/executors/node-executor.interface';
 import { AIContentGeneratorNodeConfig, NodeConfig } from '@workflow/shared-types';
 import { AIContentService } from '../services/ai-content.service';
+import { buildRowTemplateScope, renderTemplate } from '../../nodes/utils/template.util';
 
 @Injectable()
 export class AIContentGeneratorNodeExecutor extends BaseNodeExecutor {
@@ -72,6 +73,9 @@ export class AIContentGeneratorNodeExecutor extends BaseNodeExecutor {
       let totalTokens = 0;
 
       for (const row of inputRows) {
+        // Stop generating once the engine aborted the node (timeout or execution deadline)
+        context.signal?.throwIfAborted();
+
         try {
           // Build variables from row data - include ALL row fields for personalization
           const variables: Record<string, string> = {};
@@ -109,13 +113,9 @@ export class AIContentGeneratorNodeExecutor extends BaseNodeExecutor {
             contextString =
               customerInfo.length > 0 ? `Customer Profile:\n${customerInfo.join('\n')}` : '';
           } else {
-            // Replace variables in context template
-            for (const [key, value] of Object.entries(row)) {
-              contextString = contextString.replace(
-                new RegExp(`\\{\\{${key}\\}\\}`, 'g'),
-                String(value)
-              );
-            }
+            // Fill the context template; row fields are available as {{row.name}}, and by name
+            // ({{name}}, {{Customer Name}}) unless the column is named like a scope root
+            contextString = renderTemplate(contextString, buildRowTemplateScope(context, row));
           }
 
           // Generate content using execution input (if provided) or node config
@@ -128,6 +128,7 @@ export class AIContentGeneratorNodeExecutor extends BaseNodeExecutor {
             maxLength: config.maxLength,
             variables,
             context: contextString || undefined,
+            signal: context.signal,
           });
 
           // Add generated content to row
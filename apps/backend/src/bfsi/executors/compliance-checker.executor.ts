@@ -79,6 +79,9 @@ export class ComplianceCheckerNodeExecutor extends BaseNodeExecutor {
 
       // Check each row for compliance
       for (const row of inputRows) {
+        // Stop checking once the engine aborted the node (timeout or execution deadline)
+        context.signal?.throwIfAborted();
+
         try {
           // Get content from the specified field (default to 'generated_content')
           const fieldToCheck = config.contentField || 'generated_content';
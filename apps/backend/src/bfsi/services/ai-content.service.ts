@@ -23,6 +23,7 @@ export interface ContentGenerationRequest {
   maxLength?: number; // Character limit
   variables?: Record<string, string>; // Variables for personalization (e.g., {customer_name}, {offer_details})
   context?: string; // Additional context
+  signal?: AbortSignal; // Cancels the API call and any retries (e.g. when the node times out)
 }
 
 export interface ContentGenerationResult {
@@ -71,6 +72,7 @@ export class AIContentService {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      request.signal?.throwIfAborted();
       try {
         if (this.AI_PROVIDER === 'gemini') {
           return await this.generateWithGemini(request, prompt);
@@ -78,6 +80,9 @@ export class AIContentService {
           return await this.generateWithOpenAI(request, prompt);
         }
       } catch (error) {
+        if (request.signal?.aborted) {
+          throw error;
+        }
         lastError = error;
         console.error(`AI content generation attempt ${attempt} failed:`, error);
 
@@ -106,6 +111,7 @@ export class AIContentService {
         'Content-Type': 'application/json',
         Authorization: `Bearer ${this.OPENAI_API_KEY}`,
       },
+      signal: request.signal,
       body: JSON.stringify({
         model: this.OPENAI_MODEL,
         messages: [
@@ -159,6 +165,7 @@ export class AIContentService {
       headers: {
         'Content-Type': 'application/json',
       },
+      signal: request.signal,
       body: JSON.stringify({
         contents: [
           {
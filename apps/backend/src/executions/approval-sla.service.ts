@@ -0,0 +1,96 @@
+/**
+ * Approval SLA Service
+ * Bookkeeping for deadlines, reminders and escalations of pending approvals
+ *
+ * Waiting Manual Approval nodes keep their next reminder, escalation and deadline on the
+ * node_executions row. The queue worker periodically picks up the ones that are due; reminders
+ * and escalations are claimed with a conditional update so only one worker sends each of them,
+ * and deadlines are enforced through the same claim that decides an approval.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only handles SLA bookkeeping (find due, claim reminders/escalations)
+ * - Dependency Injection: Receives PrismaService through constructor
+ */
+
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExecutionStatus } from '@workflow/shared-types';
+import { APPROVAL_DECIDABLE_STATUSES } from './utils/approval-assignment.util';
+
+@Injectable()
+export class ApprovalSlaService {
+  readonly batchSize = Number(process.env.APPROVAL_SLA_BATCH_SIZE) || 50;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Pending approvals whose deadline, reminder or escalation is due
+   * @param now - Current time
+   */
+  async findDue(now: Date) {
+    return this.prisma.nodeExecution.findMany({
+      where: {
+        status: ExecutionStatus.WAITING,
+        waitingFor: 'approval',
+        execution: { status: { in: APPROVAL_DECIDABLE_STATUSES } },
+        OR: [
+          { approvalDueAt: { lte: now } },
+          { remindAt: { lte: now } },
+          { escalateAt: { lte: now } },
+        ],
+      },
+      include: {
+        execution: { select: { workflowId: true, userId: true, workflowSnapshot: true } },
+      },
+      orderBy: { startedAt: 'asc' },
+      take: this.batchSize,
+    });
+  }
+
+  /**
+   * Claim a due reminder and schedule the next one
+   * @param nodeExecutionId - Waiting approval node execution
+   * @param remindAt - When the reminder was due (as read by findDue)
+   * @param next - Next reminder, or null if none is left before the deadline
+   * @returns Whether this worker should send the reminder
+   */
+  async claimReminder(
+    nodeExecutionId: string,
+    remindAt: Date,
+    next: Date | null
+  ): Promise<boolean> {
+    const result = await this.prisma.nodeExecution.updateMany({
+      where: { id: nodeExecutionId, status: ExecutionStatus.WAITING, remindAt },
+      data: { remindAt: next },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Claim a due escalation and add the escalation assignees as approvers
+   * @param nodeExecutionId - Waiting approval node execution
+   * @param escalateAt - When the escalation was due (as read by findDue)
+   * @param now - Current time, stored as escalatedAt
+   * @param assignees - User IDs and (lowercase) emails the approval is escalated to
+   * @returns Whether this worker should escalate the approval
+   */
+  async claimEscalation(
+    nodeExecutionId: string,
+    escalateAt: Date,
+    now: Date,
+    assignees: { userIds: string[]; emails: string[] }
+  ): Promise<boolean> {
+    const result = await this.prisma.nodeExecution.updateMany({
+      where: { id: nodeExecutionId, status: ExecutionStatus.WAITING, escalateAt },
+      data: {
+        escalateAt: null,
+        escalatedAt: now,
+        approverUserIds: { push: assignees.userIds },
+        approverEmails: { push: assignees.emails },
+      },
+    });
+
+    return result.count > 0;
+  }
+}
@@ -2,7 +2,7 @@
  * Data Transfer Object for executing a workflow
  */
 
-import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
+import { IsString, IsOptional, IsNotEmpty, IsBoolean, IsInt, Min, Max } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ExecuteWorkflowDto {
@@ -21,4 +21,26 @@ export class ExecuteWorkflowDto {
   })
   @IsOptional()
   input?: unknown;
+
+  @ApiProperty({
+    description:
+      'Dry run: email, WhatsApp, calendar and non-GET HTTP nodes record what they would send instead of sending it',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    description:
+      "Queue priority: higher priorities start first when the workflow's concurrency limit is reached (defaults to the workflow's settings.priority)",
+    required: false,
+    example: 10,
+  })
+  @IsInt()
+  @Min(-100)
+  @Max(100)
+  @IsOptional()
+  priority?: number;
 }
@@ -0,0 +1,19 @@
+/**
+ * Data Transfer Object for replaying an execution
+ */
+
+import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReplayExecutionDto {
+  @ApiProperty({
+    description:
+      'Node to re-execute from; upstream nodes reuse their outputs from the replayed execution. Omit to replay the whole workflow',
+    required: false,
+    example: 'node-3',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  fromNodeId?: string;
+}
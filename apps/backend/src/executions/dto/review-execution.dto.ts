@@ -0,0 +1,69 @@
+/**
+ * Data Transfer Objects for approving or rejecting an execution paused for review
+ */
+
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ApprovalRowAction } from '@workflow/shared-types';
+
+export class ApprovalRowDecisionDto {
+  @ApiProperty({ description: 'Index of the row in the reviewed data', example: 0 })
+  @IsInt()
+  @Min(0)
+  rowIndex: number;
+
+  @ApiProperty({
+    description: 'Decision for the row; "edit" approves it with new generated content',
+    enum: ['approve', 'reject', 'edit'],
+  })
+  @IsIn(['approve', 'reject', 'edit'])
+  action: ApprovalRowAction;
+
+  @ApiProperty({
+    description: 'Replacement generated_content (required for "edit")',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  generatedContent?: string;
+}
+
+export class RejectExecutionDto {
+  @ApiProperty({ description: 'Comment from the reviewer', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  comment?: string;
+
+  @ApiProperty({
+    description: 'Approval node to decide; required when several approvals are pending',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  resumeToken?: string;
+}
+
+export class ApproveExecutionDto extends RejectExecutionDto {
+  @ApiProperty({
+    description: 'Per-row decisions; rows without one are approved',
+    required: false,
+    type: [ApprovalRowDecisionDto],
+  })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalRowDecisionDto)
+  decisions?: ApprovalRowDecisionDto[];
+}
@@ -0,0 +1,295 @@
+/**
+ * Execution Queue Service
+ * Postgres-backed job queue for workflow executions
+ *
+ * Executions are persisted as `pending` rows in workflow_executions and claimed
+ * by worker instances with `FOR UPDATE SKIP LOCKED`, so several backend
+ * instances can share the same queue without running an execution twice.
+ * The owning worker keeps a heartbeat on every execution it runs; executions
+ * whose heartbeat goes stale (process crashed or was redeployed) are put back
+ * in the queue and resumed from their last checkpoint by any live worker.
+ * Executions paused by a Delay node wait as `waiting` rows until their resume
+ * time, then go back in the queue the same way; executions paused for approval
+ * are queued again once every pending approval is decided.
+ *
+ * Pending executions start by priority, then first in first out, but only while
+ * fewer executions of their workflow (settings.maxConcurrency) and of their user
+ * (EXECUTION_MAX_CONCURRENCY_PER_USER) are running; the others stay pending
+ * until a slot frees up. Claims are serialized with an advisory lock so two
+ * workers can't both take the last free slot.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only handles queue bookkeeping (claim, heartbeat, recovery)
+ * - Dependency Injection: Receives PrismaService through constructor
+ */
+
+import { Injectable } from '@nestjs/common';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExecutionQueueStats, ExecutionStatus } from '@workflow/shared-types';
+
+@Injectable()
+export class ExecutionQueueService {
+  /**
+   * Unique ID of this worker instance, stored in `lockedBy` on claimed executions
+   */
+  readonly workerId = `${hostname()}-${process.pid}-${randomBytes(4).toString('hex')}`;
+
+  readonly concurrency = Number(process.env.EXECUTION_WORKER_CONCURRENCY) || 5;
+  readonly maxConcurrencyPerUser = Number(process.env.EXECUTION_MAX_CONCURRENCY_PER_USER) || 0; // 0 = no limit
+  readonly pollIntervalMs = Number(process.env.EXECUTION_POLL_INTERVAL_MS) || 5000;
+  readonly heartbeatIntervalMs = Number(process.env.EXECUTION_HEARTBEAT_INTERVAL_MS) || 10000;
+  readonly staleAfterMs = Number(process.env.EXECUTION_STALE_AFTER_MS) || 60000;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Put an execution (back) into the queue
+   * @param executionId - ID of the execution to queue
+   */
+  async enqueue(executionId: string): Promise<void> {
+    await this.prisma.workflowExecution.update({
+      where: { id: executionId },
+      data: {
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+        heartbeatAt: null,
+      },
+    });
+  }
+
+  /**
+   * Put an execution paused for approval back in the queue
+   * Does nothing if it isn't paused (e.g. requeued for a due Delay node or running already)
+   * @param executionId - ID of the execution to requeue
+   * @returns Whether the execution was requeued
+   */
+  async enqueuePaused(executionId: string): Promise<boolean> {
+    const result = await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: ExecutionStatus.PENDING_APPROVAL },
+      data: {
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+        heartbeatAt: null,
+      },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Atomically claim the next pending execution for this worker
+   * Highest priority first, then the oldest; executions whose workflow or user is at its
+   * concurrency limit are passed over
+   * @returns ID of the claimed execution, or null if nothing can start right now
+   */
+  async claimNext(): Promise<string | null> {
+    return this.prisma.$transaction(async (tx) => {
+      // Held until the transaction ends, so the running counts below can't go stale
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('workflow_executions.claim'))`;
+
+      const rows = await tx.$queryRaw<Array<{ id: string }>>`
+        UPDATE "workflow_executions"
+        SET "status" = ${ExecutionStatus.RUNNING},
+            "lockedBy" = ${this.workerId},
+            "lockedAt" = NOW(),
+            "heartbeatAt" = NOW()
+        WHERE "id" = (
+          SELECT e."id" FROM "workflow_executions" e
+          JOIN "workflows" w ON w."id" = e."workflowId"
+          CROSS JOIN LATERAL (
+            SELECT CASE
+              WHEN jsonb_typeof(w."definition"->'settings'->'maxConcurrency') = 'number'
+              THEN (w."definition"->'settings'->>'maxConcurrency')::numeric
+            END AS "maxConcurrency"
+          ) l
+          WHERE e."status" = ${ExecutionStatus.PENDING}
+            AND (
+              l."maxConcurrency" IS NULL
+              OR l."maxConcurrency" < 1
+              OR (
+                SELECT COUNT(*) FROM "workflow_executions" r
+                WHERE r."workflowId" = e."workflowId" AND r."status" = ${ExecutionStatus.RUNNING}
+              ) < l."maxConcurrency"
+            )
+            AND (
+              ${this.maxConcurrencyPerUser}::int < 1
+              OR (
+                SELECT COUNT(*) FROM "workflow_executions" r
+                WHERE r."userId" = e."userId" AND r."status" = ${ExecutionStatus.RUNNING}
+              ) < ${this.maxConcurrencyPerUser}::int
+            )
+          ORDER BY e."priority" DESC, e."queuedAt" ASC NULLS LAST, e."startedAt" ASC
+          FOR UPDATE OF e SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING "id"
+      `;
+
+      return rows.length > 0 ? rows[0].id : null;
+    });
+  }
+
+  /**
+   * Claim a specific pending execution if no other worker took it yet
+   * Used to start sub-workflow executions right away on the parent's worker
+   * @param executionId - ID of the execution to claim
+   * @returns Whether this worker claimed the execution
+   */
+  async claimPending(executionId: string): Promise<boolean> {
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE "workflow_executions"
+      SET "status" = ${ExecutionStatus.RUNNING},
+          "lockedBy" = ${this.workerId},
+          "lockedAt" = NOW(),
+          "heartbeatAt" = NOW()
+      WHERE "id" = ${executionId} AND "status" = ${ExecutionStatus.PENDING}
+      RETURNING "id"
+    `;
+
+    return rows.length > 0;
+  }
+
+  /**
+   * Queue state of a workflow's executions
+   * @param workflowId - ID of the workflow
+   * @param maxConcurrency - The workflow's concurrency limit (settings.maxConcurrency)
+   */
+  async getQueueStats(workflowId: string, maxConcurrency?: number): Promise<ExecutionQueueStats> {
+    const [pending, running] = await Promise.all([
+      this.prisma.workflowExecution.count({
+        where: { workflowId, status: ExecutionStatus.PENDING },
+      }),
+      this.prisma.workflowExecution.count({
+        where: { workflowId, status: ExecutionStatus.RUNNING },
+      }),
+    ]);
+
+    return {
+      pending,
+      running,
+      maxConcurrency: maxConcurrency && maxConcurrency > 0 ? maxConcurrency : undefined,
+      maxConcurrencyPerUser:
+        this.maxConcurrencyPerUser > 0 ? this.maxConcurrencyPerUser : undefined,
+    };
+  }
+
+  /**
+   * Positions of a workflow's pending executions in claim order (1 = next)
+   * @param workflowId - ID of the workflow
+   * @returns Position by execution ID
+   */
+  async getQueuePositions(workflowId: string): Promise<Map<string, number>> {
+    const pending = await this.prisma.workflowExecution.findMany({
+      where: { workflowId, status: ExecutionStatus.PENDING },
+      orderBy: [
+        { priority: 'desc' },
+        { queuedAt: { sort: 'asc', nulls: 'last' } },
+        { startedAt: 'asc' },
+      ],
+      select: { id: true },
+    });
+
+    return new Map(pending.map((e, index) => [e.id, index + 1]));
+  }
+
+  /**
+   * Refresh the heartbeat of executions owned by this worker
+   * @param executionIds - Executions currently running in this process
+   * @returns IDs of executions that are no longer running or owned by this worker
+   *          (cancelled or taken over elsewhere) and should be stopped locally
+   */
+  async heartbeat(executionIds: string[]): Promise<string[]> {
+    if (executionIds.length === 0) {
+      return [];
+    }
+
+    await this.prisma.workflowExecution.updateMany({
+      where: {
+        id: { in: executionIds },
+        lockedBy: this.workerId,
+        status: ExecutionStatus.RUNNING,
+      },
+      data: { heartbeatAt: new Date() },
+    });
+
+    const owned = await this.prisma.workflowExecution.findMany({
+      where: {
+        id: { in: executionIds },
+        lockedBy: this.workerId,
+        status: ExecutionStatus.RUNNING,
+      },
+      select: { id: true },
+    });
+    const ownedIds = new Set(owned.map((e) => e.id));
+
+    return executionIds.filter((id) => !ownedIds.has(id));
+  }
+
+  /**
+   * Release the lock on an execution once this worker stops running it
+   * @param executionId - ID of the execution to release
+   */
+  async release(executionId: string): Promise<void> {
+    await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, lockedBy: this.workerId },
+      data: { lockedBy: null, lockedAt: null, heartbeatAt: null },
+    });
+  }
+
+  /**
+   * Requeue paused executions whose resume time has passed
+   * The run continues from its checkpoints, completing the Delay nodes that are due
+   * (approvals still pending keep waiting and the execution pauses again)
+   * @returns Number of executions put back in the queue
+   */
+  async releaseDueWaits(): Promise<number> {
+    const result = await this.prisma.workflowExecution.updateMany({
+      where: {
+        status: { in: [ExecutionStatus.WAITING, ExecutionStatus.PENDING_APPROVAL] },
+        resumeAt: { lte: new Date() },
+      },
+      data: {
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
+        resumeAt: null,
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Requeue running executions whose worker stopped sending heartbeats
+   * Executions left `running` by versions without heartbeats are treated as orphaned too
+   * @returns Number of executions put back in the queue
+   */
+  async recoverOrphaned(): Promise<number> {
+    const staleBefore = new Date(Date.now() - this.staleAfterMs);
+
+    const result = await this.prisma.workflowExecution.updateMany({
+      where: {
+        status: ExecutionStatus.RUNNING,
+        OR: [
+          { heartbeatAt: { lt: staleBefore } },
+          { heartbeatAt: null, startedAt: { lt: staleBefore } },
+        ],
+      },
+      data: {
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+        heartbeatAt: null,
+        recoveryCount: { increment: 1 },
+      },
+    });
+
+    return result.count;
+  }
+}
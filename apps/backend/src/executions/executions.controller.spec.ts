@@ -0,0 +1,56 @@
+import { AuthenticatedUser } from '../auth/user.decorator';
+import { ExecutionsController } from './executions.controller';
+import { WorkflowEngineService } from './workflow-engine.service';
+
+const execution = {
+  id: 'exec-1',
+  workflowId: 'wf-1',
+  userId: 'owner',
+  status: 'pending_approval',
+  output: { approvalData: { rows: ['payload of the other approval'] }, secret: 'owner only' },
+  startedAt: new Date('2024-05-01T10:00:00Z'),
+};
+
+const approval = {
+  nodeId: 'approval-2',
+  resumeToken: 'token-2',
+  output: { approvalData: { rows: ['assigned payload'] } },
+  votes: [],
+  canDecide: true,
+};
+
+function createController(approvals: unknown[]) {
+  const workflowEngine = {
+    getPendingApprovals: jest.fn().mockResolvedValue({ execution, approvals }),
+  };
+  return new ExecutionsController(workflowEngine as unknown as WorkflowEngineService);
+}
+
+const user = (userId: string) => ({ userId }) as AuthenticatedUser;
+
+describe('ExecutionsController', () => {
+  describe('getPendingApproval', () => {
+    it('shows an assigned approver only the approvals assigned to them', async () => {
+      const response = await createController([approval]).getPendingApproval(
+        user('approver'),
+        'exec-1'
+      );
+
+      expect(response).toMatchObject({
+        approvalData: { rows: ['assigned payload'] },
+        approvals: [{ nodeId: 'approval-2', approvalData: { rows: ['assigned payload'] } }],
+      });
+      expect(JSON.stringify(response)).not.toContain('owner only');
+      expect(JSON.stringify(response)).not.toContain('payload of the other approval');
+    });
+
+    it('falls back to the execution output for the owner', async () => {
+      const response = await createController([]).getPendingApproval(user('owner'), 'exec-1');
+
+      expect(response).toMatchObject({
+        approvalData: { rows: ['payload of the other approval'] },
+        approvals: [],
+      });
+    });
+  });
+});
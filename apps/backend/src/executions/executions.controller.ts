@@ -18,6 +18,8 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { WorkflowEngineService } from './workflow-engine.service';
 import { ExecuteWorkflowDto } from './dto/execute-workflow.dto';
+import { ApproveExecutionDto, RejectExecutionDto } from './dto/review-execution.dto';
+import { ReplayExecutionDto } from './dto/replay-execution.dto';
 import { ClerkAuthGuard } from '../auth/clerk-auth.guard';
 import { User, AuthenticatedUser } from '../auth/user.decorator';
 
@@ -40,7 +42,9 @@ export class ExecutionsController {
     return this.workflowEngine.executeWorkflow(
       executeWorkflowDto.workflowId,
       testUserId,
-      executeWorkflowDto.input
+      executeWorkflowDto.input,
+      executeWorkflowDto.dryRun,
+      executeWorkflowDto.priority
     );
   }
 
@@ -61,7 +65,9 @@ export class ExecutionsController {
     return this.workflowEngine.executeWorkflow(
       executeWorkflowDto.workflowId,
       user.userId,
-      executeWorkflowDto.input
+      executeWorkflowDto.input,
+      executeWorkflowDto.dryRun,
+      executeWorkflowDto.priority
     );
   }
 
@@ -84,6 +90,18 @@ export class ExecutionsController {
     return this.workflowEngine.getExecutions(workflowId, user.userId, page, limit);
   }
 
+  /**
+   * Get approvals waiting for the current user across all workflows
+   * GET /api/v1/executions/approvals/inbox
+   */
+  @Get('approvals/inbox')
+  @UseGuards(ClerkAuthGuard)
+  @ApiOperation({ summary: 'List approvals assigned to the current user' })
+  @ApiResponse({ status: 200, description: 'Pending approvals the user may decide' })
+  async getApprovalInbox(@User() user: AuthenticatedUser) {
+    return this.workflowEngine.getApprovalInbox(user.userId);
+  }
+
   /**
    * Get pending approval data for an execution
    * GET /api/v1/executions/:id/pending-approval
@@ -98,9 +116,10 @@ export class ExecutionsController {
     @User() user: AuthenticatedUser,
     @Param('id') id: string
   ) {
-    const execution = await this.workflowEngine.getExecution(id, user.userId);
+    const { execution, approvals } = await this.workflowEngine.getPendingApprovals(id, user.userId);
 
-    if (execution.status !== 'pending_approval') {
+    // Approvals stay open while the execution runs a due Delay node on another branch
+    if (execution.status !== 'pending_approval' && approvals.length === 0) {
       return {
         statusCode: 400,
         message: 'Execution is not pending approval',
@@ -108,15 +127,22 @@ export class ExecutionsController {
       };
     }
 
-    // Return approval data from execution output
+    // Approval nodes still waiting that this user may see (parallel branches can pause on several)
     // The output contains a nested approvalData field with the structured format
-    const outputData = execution.output as any;
+    const visible = approvals.map(({ output, ...approval }) => ({
+      ...approval,
+      approvalData: (output as any)?.approvalData || output,
+    }));
+
+    // Only the owner may see the execution output; approvers see the approvals assigned to them
+    const outputData = execution.userId === user.userId ? (execution.output as any) : undefined;
 
     return {
       executionId: execution.id,
       workflowId: execution.workflowId,
       status: execution.status,
-      approvalData: outputData?.approvalData || outputData,
+      approvalData: visible[0]?.approvalData ?? (outputData?.approvalData || outputData),
+      approvals: visible,
       startedAt: execution.startedAt,
     };
   }
@@ -134,12 +160,22 @@ export class ExecutionsController {
   async approveExecution(
     @User() user: AuthenticatedUser,
     @Param('id') id: string,
-    @Body() body: { comment?: string }
+    @Body() body: ApproveExecutionDto
   ) {
-    await this.workflowEngine.resumeExecution(id, user.userId, true, body.comment);
+    const progress = await this.workflowEngine.resumeExecution(
+      id,
+      user.userId,
+      true,
+      body.comment,
+      body.resumeToken,
+      body.decisions
+    );
     return {
-      message: 'Content approved successfully, workflow will resume',
+      message: progress.decided
+        ? 'Content approved successfully, workflow will resume'
+        : `Approval recorded (${progress.approvals}/${progress.requiredApprovals}), waiting for more approvers`,
       executionId: id,
+      ...progress,
     };
   }
 
@@ -156,15 +192,39 @@ export class ExecutionsController {
   async rejectExecution(
     @User() user: AuthenticatedUser,
     @Param('id') id: string,
-    @Body() body: { comment?: string }
+    @Body() body: RejectExecutionDto
   ) {
-    await this.workflowEngine.resumeExecution(id, user.userId, false, body.comment);
+    await this.workflowEngine.resumeExecution(
+      id,
+      user.userId,
+      false,
+      body.comment,
+      body.resumeToken
+    );
     return {
       message: 'Content rejected, workflow stopped',
       executionId: id,
     };
   }
 
+  /**
+   * Replay an execution as a new execution, optionally from a node
+   * POST /api/v1/executions/:id/replay
+   */
+  @Post(':id/replay')
+  @UseGuards(ClerkAuthGuard)
+  @ApiOperation({ summary: 'Re-run an execution, reusing outputs upstream of a node' })
+  @ApiResponse({ status: 201, description: 'Replay execution started successfully' })
+  @ApiResponse({ status: 404, description: 'Execution or node not found' })
+  @ApiResponse({ status: 400, description: 'Execution has not finished yet' })
+  async replayExecution(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() body: ReplayExecutionDto
+  ) {
+    return this.workflowEngine.replayExecution(id, user.userId, body.fromNodeId);
+  }
+
   /**
    * Get execution by ID
    * GET /api/v1/executions/:id
@@ -7,6 +7,8 @@ import { Module } from '@nestjs/common';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { ExecutionsController } from './executions.controller';
 import { WorkflowEngineService } from './workflow-engine.service';
+import { ExecutionQueueService } from './execution-queue.service';
+import { ApprovalSlaService } from './approval-sla.service';
 import { NodesModule } from '../nodes/nodes.module';
 
 @Module({
@@ -15,7 +17,7 @@ import { NodesModule } from '../nodes/nodes.module';
     EventEmitterModule.forRoot(), // Add EventEmitter support
   ],
   controllers: [ExecutionsController],
-  providers: [WorkflowEngineService],
+  providers: [WorkflowEngineService, ExecutionQueueService, ApprovalSlaService],
   exports: [WorkflowEngineService],
 })
 export class ExecutionsModule {}
@@ -0,0 +1,69 @@
+import {
+  isAssignedApprover,
+  resolveApproverAssignment,
+  splitAssignees,
+} from './approval-assignment.util';
+
+const reviewer = { id: 'user-2', email: 'Priya@Example.com', roles: ['checker'] };
+
+describe('approval-assignment.util', () => {
+  describe('resolveApproverAssignment', () => {
+    it('splits approvers into user IDs and lowercase emails', () => {
+      expect(
+        resolveApproverAssignment({
+          approvers: [' user-7 ', 'Lead@Example.com', ''],
+          approvalRoles: ['checker', ''],
+          requiredApprovals: 2,
+        })
+      ).toEqual({
+        approverUserIds: ['user-7'],
+        approverEmails: ['lead@example.com'],
+        approverRoles: ['checker'],
+        requiredApprovals: 2,
+      });
+    });
+
+    it('requires at least one whole approval', () => {
+      expect(resolveApproverAssignment(undefined).requiredApprovals).toBe(1);
+      expect(resolveApproverAssignment({ requiredApprovals: 0 }).requiredApprovals).toBe(1);
+      expect(resolveApproverAssignment({ requiredApprovals: 2.6 }).requiredApprovals).toBe(2);
+    });
+  });
+
+  describe('splitAssignees', () => {
+    it('handles missing assignees', () => {
+      expect(splitAssignees()).toEqual({ userIds: [], emails: [] });
+    });
+  });
+
+  describe('isAssignedApprover', () => {
+    const unassigned = { approverUserIds: [], approverEmails: [], approverRoles: [] };
+
+    it('lets only the owner decide unassigned approvals', () => {
+      expect(isAssignedApprover(unassigned, reviewer, 'user-2')).toBe(true);
+      expect(isAssignedApprover(unassigned, reviewer, 'user-1')).toBe(false);
+    });
+
+    it('matches assigned users by ID, email or role', () => {
+      expect(
+        isAssignedApprover({ ...unassigned, approverUserIds: ['user-2'] }, reviewer, 'user-1')
+      ).toBe(true);
+      expect(
+        isAssignedApprover(
+          { ...unassigned, approverEmails: ['priya@example.com'] },
+          reviewer,
+          'user-1'
+        )
+      ).toBe(true);
+      expect(
+        isAssignedApprover({ ...unassigned, approverRoles: ['checker'] }, reviewer, 'user-1')
+      ).toBe(true);
+    });
+
+    it('does not let the owner decide approvals assigned to others', () => {
+      expect(
+        isAssignedApprover({ ...unassigned, approverUserIds: ['user-7'] }, reviewer, 'user-2')
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Approval Assignment Utility
+ * Resolves who may decide a Manual Approval node and how many approvals it needs
+ */
+
+import { ExecutionStatus, ManualApprovalNodeConfig } from '@workflow/shared-types';
+
+/**
+ * Execution statuses in which a waiting approval may be decided
+ * Besides pausing for approval, an execution is requeued and runs while a Delay node on a
+ * parallel branch completes; decisions made meanwhile are picked up when it pauses again
+ */
+export const APPROVAL_DECIDABLE_STATUSES: string[] = [
+  ExecutionStatus.PENDING_APPROVAL,
+  ExecutionStatus.PENDING,
+  ExecutionStatus.RUNNING,
+];
+
+/**
+ * Approvers of a waiting approval, as stored on its node execution
+ * All lists empty means only the execution owner may decide
+ */
+export interface ApproverAssignment {
+  approverUserIds: string[];
+  approverEmails: string[]; // Lowercase
+  approverRoles: string[];
+  requiredApprovals: number;
+}
+
+/**
+ * User deciding an approval
+ */
+export interface ApprovalReviewer {
+  id: string;
+  email: string;
+  roles: string[];
+}
+
+/**
+ * Approver assignment of an approval node that just paused
+ * @param config - Configuration of the Manual Approval node
+ */
+export function resolveApproverAssignment(
+  config: ManualApprovalNodeConfig['config'] | undefined
+): ApproverAssignment {
+  const { userIds, emails } = splitAssignees(config?.approvers);
+  const requiredApprovals = Math.floor(Number(config?.requiredApprovals) || 1);
+
+  return {
+    approverUserIds: userIds,
+    approverEmails: emails,
+    approverRoles: (config?.approvalRoles || []).filter(Boolean),
+    requiredApprovals: Math.max(1, requiredApprovals),
+  };
+}
+
+/**
+ * Split assignees given as user IDs or emails
+ * @param assignees - User IDs and emails, e.g. from `approvers` or `escalationAssignees`
+ */
+export function splitAssignees(assignees?: string[]): { userIds: string[]; emails: string[] } {
+  const values = (assignees || []).map((assignee) => assignee.trim()).filter(Boolean);
+
+  return {
+    userIds: values.filter((value) => !value.includes('@')),
+    emails: values.filter((value) => value.includes('@')).map((email) => email.toLowerCase()),
+  };
+}
+
+/**
+ * Whether an approval is assigned to anyone (otherwise only the execution owner decides)
+ */
+export function hasAssignedApprovers(assignment: Omit<ApproverAssignment, 'requiredApprovals'>) {
+  return (
+    assignment.approverUserIds.length > 0 ||
+    assignment.approverEmails.length > 0 ||
+    assignment.approverRoles.length > 0
+  );
+}
+
+/**
+ * Whether a user may decide an approval
+ * @param assignment - Approvers stored on the waiting node execution
+ * @param reviewer - User deciding
+ * @param ownerId - Owner of the execution, who decides approvals nobody is assigned to
+ */
+export function isAssignedApprover(
+  assignment: Omit<ApproverAssignment, 'requiredApprovals'>,
+  reviewer: ApprovalReviewer,
+  ownerId: string
+): boolean {
+  if (!hasAssignedApprovers(assignment)) {
+    return reviewer.id === ownerId;
+  }
+
+  return (
+    assignment.approverUserIds.includes(reviewer.id) ||
+    assignment.approverEmails.includes(reviewer.email.toLowerCase()) ||
+    reviewer.roles.some((role) => assignment.approverRoles.includes(role))
+  );
+}
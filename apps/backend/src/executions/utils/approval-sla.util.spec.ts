@@ -0,0 +1,78 @@
+import { nextReminder, resolveTimeoutAction, scheduleApproval } from './approval-sla.util';
+
+const HOUR = 3600000;
+const pausedAt = new Date('2024-05-01T10:00:00Z');
+const at = (hours: number) => new Date(pausedAt.getTime() + hours * HOUR);
+
+describe('approval-sla.util', () => {
+  describe('scheduleApproval', () => {
+    it('schedules the deadline, first reminder and escalation', () => {
+      expect(
+        scheduleApproval(
+          {
+            deadlineMs: 24 * HOUR,
+            reminderIntervalMs: 4 * HOUR,
+            escalateAfterMs: 8 * HOUR,
+            escalationAssignees: ['lead@example.com'],
+          },
+          pausedAt
+        )
+      ).toEqual({ approvalDueAt: at(24), remindAt: at(4), escalateAt: at(8) });
+    });
+
+    it('schedules nothing without SLA settings', () => {
+      expect(scheduleApproval(undefined, pausedAt)).toEqual({
+        approvalDueAt: null,
+        remindAt: null,
+        escalateAt: null,
+      });
+    });
+
+    it('only escalates to someone', () => {
+      expect(scheduleApproval({ escalateAfterMs: HOUR }, pausedAt).escalateAt).toBeNull();
+    });
+
+    it('drops reminders and escalations due after the deadline', () => {
+      expect(
+        scheduleApproval(
+          {
+            deadlineMs: 2 * HOUR,
+            reminderIntervalMs: 2 * HOUR,
+            escalateAfterMs: 3 * HOUR,
+            escalationAssignees: ['lead@example.com'],
+          },
+          pausedAt
+        )
+      ).toEqual({ approvalDueAt: at(2), remindAt: null, escalateAt: null });
+    });
+  });
+
+  describe('nextReminder', () => {
+    const config = { reminderIntervalMs: 4 * HOUR };
+
+    it('schedules the next reminder one interval later', () => {
+      expect(nextReminder(config, at(4), null, at(4))).toEqual(at(8));
+    });
+
+    it('skips reminders missed while no worker ran', () => {
+      expect(nextReminder(config, at(4), null, at(13))).toEqual(at(16));
+    });
+
+    it('stops at the deadline', () => {
+      expect(nextReminder(config, at(4), at(8), at(4))).toBeNull();
+      expect(nextReminder(config, at(4), at(9), at(4))).toEqual(at(8));
+    });
+
+    it('does not remind without an interval', () => {
+      expect(nextReminder({}, at(4), null, at(4))).toBeNull();
+    });
+  });
+
+  describe('resolveTimeoutAction', () => {
+    it('defaults to reject', () => {
+      expect(resolveTimeoutAction(undefined)).toBe('reject');
+      expect(resolveTimeoutAction({ timeoutAction: 'approve' })).toBe('approve');
+      expect(resolveTimeoutAction({ timeoutAction: 'timeout_branch' })).toBe('timeout_branch');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Approval SLA Utility
+ * Computes deadlines, reminders and escalations of Manual Approval nodes waiting for a decision
+ */
+
+import { ApprovalTimeoutAction, ManualApprovalNodeConfig } from '@workflow/shared-types';
+
+/**
+ * When a waiting approval is reminded, escalated and decided by its timeout action
+ */
+export interface ApprovalSchedule {
+  approvalDueAt: Date | null;
+  remindAt: Date | null;
+  escalateAt: Date | null;
+}
+
+/**
+ * Schedule the SLA of an approval node that just paused
+ * Reminders and escalations that would only happen after the deadline are not scheduled
+ * @param config - Configuration of the Manual Approval node
+ * @param pausedAt - When the node started waiting for a decision
+ */
+export function scheduleApproval(
+  config: ManualApprovalNodeConfig['config'] | undefined,
+  pausedAt: Date
+): ApprovalSchedule {
+  const approvalDueAt = afterMs(pausedAt, config?.deadlineMs);
+  const beforeDeadline = (date: Date | null) =>
+    date && (!approvalDueAt || date < approvalDueAt) ? date : null;
+
+  return {
+    approvalDueAt,
+    remindAt: beforeDeadline(afterMs(pausedAt, config?.reminderIntervalMs)),
+    escalateAt: config?.escalationAssignees?.length
+      ? beforeDeadline(afterMs(pausedAt, config.escalateAfterMs))
+      : null,
+  };
+}
+
+/**
+ * Next reminder after one was sent
+ * Skips reminders missed while no worker was running; none is scheduled past the deadline
+ * @param config - Configuration of the Manual Approval node
+ * @param remindAt - When the reminder that was just sent was due
+ * @param approvalDueAt - Deadline of the approval (optional)
+ * @param now - Current time
+ */
+export function nextReminder(
+  config: ManualApprovalNodeConfig['config'] | undefined,
+  remindAt: Date,
+  approvalDueAt: Date | null,
+  now: Date
+): Date | null {
+  const intervalMs = config?.reminderIntervalMs;
+  if (!intervalMs || intervalMs <= 0) {
+    return null;
+  }
+
+  const missed = Math.floor((now.getTime() - remindAt.getTime()) / intervalMs);
+  const next = new Date(remindAt.getTime() + (missed + 1) * intervalMs);
+
+  return approvalDueAt && next >= approvalDueAt ? null : next;
+}
+
+/**
+ * Timeout action of an approval node (default: reject)
+ * @param config - Configuration of the Manual Approval node
+ */
+export function resolveTimeoutAction(
+  config: ManualApprovalNodeConfig['config'] | undefined
+): ApprovalTimeoutAction {
+  const action = config?.timeoutAction;
+  return action === 'approve' || action === 'timeout_branch' ? action : 'reject';
+}
+
+/**
+ * @private
+ */
+function afterMs(from: Date, ms?: number): Date | null {
+  return ms && ms > 0 ? new Date(from.getTime() + ms) : null;
+}
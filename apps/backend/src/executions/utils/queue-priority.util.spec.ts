@@ -0,0 +1,21 @@
+import { resolveExecutionPriority } from './queue-priority.util';
+
+describe('resolveExecutionPriority', () => {
+  it('prefers the requested priority over the workflow default', () => {
+    expect(resolveExecutionPriority({ settings: { priority: 5 } }, 10)).toBe(10);
+    expect(resolveExecutionPriority({ settings: { priority: 5 } }, 0)).toBe(0);
+  });
+
+  it('falls back to the workflow default, then to 0', () => {
+    expect(resolveExecutionPriority({ settings: { priority: -20 } })).toBe(-20);
+    expect(resolveExecutionPriority({})).toBe(0);
+    expect(resolveExecutionPriority(undefined)).toBe(0);
+  });
+
+  it('makes priorities whole numbers', () => {
+    expect(resolveExecutionPriority(undefined, 7.9)).toBe(7);
+    expect(resolveExecutionPriority(undefined, -2.5)).toBe(-2);
+    expect(resolveExecutionPriority(undefined, NaN)).toBe(0);
+    expect(resolveExecutionPriority(undefined, Infinity)).toBe(0);
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Queue Priority Utility
+ * Resolves the queue priority a new execution is created with
+ */
+
+import { WorkflowDefinition } from '@workflow/shared-types';
+
+/**
+ * Priority of a new execution: the requested one, else the workflow's default, else 0
+ * Priorities are whole numbers; higher priorities start first
+ * @param definition - Definition of the executed workflow
+ * @param requested - Priority requested by the caller (optional)
+ */
+export function resolveExecutionPriority(
+  definition: Pick<WorkflowDefinition, 'settings'> | undefined,
+  requested?: number
+): number {
+  const priority = requested ?? definition?.settings?.priority ?? 0;
+  return Number.isFinite(priority) ? Math.trunc(priority) : 0;
+}
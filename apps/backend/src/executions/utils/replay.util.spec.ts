@@ -0,0 +1,48 @@
+import { WorkflowEdge } from '@workflow/shared-types';
+import { collectReplayedNodes } from './replay.util';
+
+const edge = (source: string, target: string, sourceHandle?: string): WorkflowEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+});
+
+describe('collectReplayedNodes', () => {
+  it('collects the node and everything downstream of it, but nothing upstream', () => {
+    const edges = [
+      edge('trigger', 'fetch'),
+      edge('fetch', 'transform'),
+      edge('transform', 'email'),
+      edge('fetch', 'log'),
+      edge('trigger', 'audit'),
+    ];
+
+    expect(collectReplayedNodes(edges, 'fetch')).toEqual(
+      new Set(['fetch', 'transform', 'email', 'log'])
+    );
+  });
+
+  it('follows every handle', () => {
+    const edges = [
+      edge('approval', 'send'),
+      edge('approval', 'notify', 'rejected'),
+      edge('approval', 'escalate', 'timeout'),
+      edge('send', 'alert', 'error'),
+    ];
+
+    expect(collectReplayedNodes(edges, 'approval')).toEqual(
+      new Set(['approval', 'send', 'notify', 'escalate', 'alert'])
+    );
+  });
+
+  it('visits nodes reached by several paths once', () => {
+    const edges = [edge('a', 'b'), edge('a', 'c'), edge('b', 'd'), edge('c', 'd')];
+
+    expect([...collectReplayedNodes(edges, 'a')]).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('replays a node without outgoing edges alone', () => {
+    expect(collectReplayedNodes([edge('a', 'b')], 'b')).toEqual(new Set(['b']));
+  });
+});
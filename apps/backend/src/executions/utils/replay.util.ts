@@ -0,0 +1,30 @@
+/**
+ * Replay Utility
+ * Decides which nodes of a finished execution a replay runs again and which outputs it reuses
+ */
+
+import { WorkflowEdge } from '@workflow/shared-types';
+
+/**
+ * Nodes a replay from a node executes again: the node itself and everything downstream of it
+ * Edges of every handle (error, loop item, rejected, timeout) are followed, since any of them
+ * may run again with the new output
+ * @param edges - Edges of the replayed workflow snapshot
+ * @param fromNodeId - Node the replay starts from
+ */
+export function collectReplayedNodes(edges: WorkflowEdge[], fromNodeId: string): Set<string> {
+  const replayed = new Set<string>([fromNodeId]);
+  const queue = [fromNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    edges
+      .filter((edge) => edge.source === nodeId && !replayed.has(edge.target))
+      .forEach((edge) => {
+        replayed.add(edge.target);
+        queue.push(edge.target);
+      });
+  }
+
+  return replayed;
+}
@@ -0,0 +1,139 @@
+import { NodeType } from '@workflow/shared-types';
+import {
+  classifyNodeError,
+  getRetryDelay,
+  hasSideEffects,
+  isRetryableError,
+  resolveRetryPolicy,
+} from './retry-policy.util';
+
+describe('retry-policy.util', () => {
+  describe('resolveRetryPolicy', () => {
+    it('applies the defaults', () => {
+      expect(resolveRetryPolicy()).toEqual({
+        maxAttempts: 3,
+        backoff: 'linear',
+        initialDelayMs: 1000,
+        maxDelayMs: 30000,
+        jitter: false,
+        retryOn: ['network', 'timeout', 'rate_limit', 'server_error', 'unknown'],
+      });
+    });
+
+    it('keeps attempts and delays in range', () => {
+      expect(
+        resolveRetryPolicy({ maxAttempts: 0, initialDelayMs: -5, maxDelayMs: -1 })
+      ).toMatchObject({ maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0 });
+      expect(resolveRetryPolicy({ maxAttempts: 2.7 }).maxAttempts).toBe(2);
+    });
+
+    it.each([
+      [{ type: NodeType.WHATSAPP, config: {} }],
+      [{ type: NodeType.EMAIL, config: {} }],
+      [{ type: NodeType.GOOGLE_CALENDAR, config: {} }],
+      [{ type: NodeType.EXECUTE_WORKFLOW, config: {} }],
+      [{ type: NodeType.HTTP_REQUEST, config: { method: 'POST' } }],
+    ])('makes a single attempt by default for side-effecting node %o', (node) => {
+      expect(resolveRetryPolicy(undefined, node as never).maxAttempts).toBe(1);
+      expect(resolveRetryPolicy({ backoff: 'fixed' }, node as never).maxAttempts).toBe(1);
+    });
+
+    it('keeps retrying side-effecting nodes that opt in', () => {
+      const node = { type: NodeType.WHATSAPP, config: {} } as never;
+
+      expect(resolveRetryPolicy({ maxAttempts: 4 }, node).maxAttempts).toBe(4);
+    });
+
+    it('keeps the default attempts for nodes without side effects', () => {
+      const get = { type: NodeType.HTTP_REQUEST, config: { method: 'GET' } } as never;
+      const transform = { type: NodeType.DATA_TRANSFORM, config: {} } as never;
+
+      expect(resolveRetryPolicy(undefined, get).maxAttempts).toBe(3);
+      expect(resolveRetryPolicy(undefined, transform).maxAttempts).toBe(3);
+    });
+  });
+
+  describe('hasSideEffects', () => {
+    it('only counts HTTP requests that are not GET', () => {
+      expect(
+        hasSideEffects({ type: NodeType.HTTP_REQUEST, config: { method: 'get' } } as never)
+      ).toBe(false);
+      expect(
+        hasSideEffects({ type: NodeType.HTTP_REQUEST, config: { method: 'DELETE' } } as never)
+      ).toBe(true);
+      expect(hasSideEffects({ type: NodeType.LOOP, config: {} } as never)).toBe(false);
+    });
+  });
+
+  describe('classifyNodeError', () => {
+    it.each([
+      [429, 'rate_limit'],
+      [408, 'timeout'],
+      [503, 'server_error'],
+      [404, 'client_error'],
+    ])('classifies status %i as %s', (statusCode, kind) => {
+      expect(classifyNodeError('anything', statusCode)).toBe(kind);
+    });
+
+    it.each([
+      ['Node timed out after 500ms', 'timeout'],
+      ['The operation was aborted', 'timeout'],
+      ['Rate limit exceeded', 'rate_limit'],
+      ['connect ECONNREFUSED 127.0.0.1:443', 'network'],
+      ['fetch failed', 'network'],
+      ['Credential not found', 'client_error'],
+      ['Something odd happened', 'unknown'],
+      [undefined, 'unknown'],
+    ])('classifies "%s" as %s', (message, kind) => {
+      expect(classifyNodeError(message)).toBe(kind);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('retries the error kinds the policy lists', () => {
+      const policy = resolveRetryPolicy({ retryOn: ['network'] });
+
+      expect(isRetryableError(policy, 'network')).toBe(true);
+      expect(isRetryableError(policy, 'timeout')).toBe(false);
+    });
+
+    it('decides by status code when the policy lists status codes', () => {
+      const policy = resolveRetryPolicy({ retryOn: ['server_error'], retryOnStatusCodes: [409] });
+
+      expect(isRetryableError(policy, 'client_error', 409)).toBe(true);
+      expect(isRetryableError(policy, 'server_error', 500)).toBe(false);
+      expect(isRetryableError(policy, 'server_error')).toBe(true);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it.each([
+      ['fixed', [500, 500, 500]],
+      ['linear', [500, 1000, 1500]],
+      ['exponential', [500, 1000, 2000]],
+    ] as const)('grows %s delays', (backoff, delays) => {
+      const policy = resolveRetryPolicy({ backoff, initialDelayMs: 500 });
+
+      expect([1, 2, 3].map((attempt) => getRetryDelay(policy, attempt))).toEqual(delays);
+    });
+
+    it('caps delays at maxDelayMs', () => {
+      const policy = resolveRetryPolicy({
+        backoff: 'exponential',
+        initialDelayMs: 1000,
+        maxDelayMs: 5000,
+      });
+
+      expect(getRetryDelay(policy, 10)).toBe(5000);
+    });
+
+    it('picks a jittered delay between 0 and the computed delay', () => {
+      const policy = resolveRetryPolicy({ initialDelayMs: 1000, jitter: true });
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay(policy, 2)).toBe(1000);
+
+      jest.restoreAllMocks();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Retry Policy Utility
+ * Resolves per-node retry policies, classifies node errors and computes backoff delays
+ */
+
+import {
+  HttpMethod,
+  NodeConfig,
+  NodeErrorKind,
+  NodeType,
+  RetryPolicy,
+} from '@workflow/shared-types';
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'retryOnStatusCodes'>> &
+  Pick<RetryPolicy, 'retryOnStatusCodes'>;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  backoff: 'linear',
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: false,
+  retryOn: ['network', 'timeout', 'rate_limit', 'server_error', 'unknown'],
+};
+
+/**
+ * Node types whose attempts send something outside the platform
+ * A failed attempt may already have been delivered, so these are not retried unless the node asks for it
+ */
+const SIDE_EFFECTING_NODE_TYPES = new Set<NodeType>([
+  NodeType.WHATSAPP,
+  NodeType.EMAIL,
+  NodeType.GOOGLE_CALENDAR,
+  NodeType.EXECUTE_WORKFLOW,
+]);
+
+/**
+ * Checks whether retrying a failed attempt of the node could repeat a side effect
+ * HTTP Request nodes only count when they use a method other than GET
+ * @param node - Node configuration
+ */
+export function hasSideEffects(node: Pick<NodeConfig, 'type' | 'config'>): boolean {
+  if (node.type === NodeType.HTTP_REQUEST) {
+    const method = String((node.config as { method?: string })?.method || HttpMethod.GET);
+    return method.toUpperCase() !== HttpMethod.GET;
+  }
+
+  return SIDE_EFFECTING_NODE_TYPES.has(node.type);
+}
+
+/**
+ * Merges a node's retry policy with the engine defaults
+ * Side-effecting nodes default to a single attempt; an explicit maxAttempts still applies
+ * @param policy - Retry policy from the node configuration (optional)
+ * @param node - Node the policy belongs to (optional, used for side-effect defaults)
+ */
+export function resolveRetryPolicy(
+  policy?: RetryPolicy,
+  node?: Pick<NodeConfig, 'type' | 'config'>
+): ResolvedRetryPolicy {
+  const defaults =
+    node && hasSideEffects(node)
+      ? { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 }
+      : DEFAULT_RETRY_POLICY;
+  const resolved = { ...defaults, ...(policy || {}) };
+
+  return {
+    ...resolved,
+    maxAttempts: Math.max(1, Math.floor(resolved.maxAttempts)),
+    initialDelayMs: Math.max(0, resolved.initialDelayMs),
+    maxDelayMs: Math.max(0, resolved.maxDelayMs),
+  };
+}
+
+/**
+ * Classifies a failed node attempt
+ * Uses the HTTP status code when the executor reported one, otherwise the error message
+ * @param error - Error message returned or thrown by the executor
+ * @param statusCode - HTTP status code reported by the executor (optional)
+ */
+export function classifyNodeError(error: string | undefined, statusCode?: number): NodeErrorKind {
+  if (statusCode) {
+    if (statusCode === 429) return 'rate_limit';
+    if (statusCode === 408) return 'timeout';
+    if (statusCode >= 500) return 'server_error';
+    if (statusCode >= 400) return 'client_error';
+  }
+
+  const message = (error || '').toLowerCase();
+
+  if (message.includes('timeout') || message.includes('timed out') || message.includes('aborted')) {
+    return 'timeout';
+  }
+  if (message.includes('rate limit') || message.includes('too many requests')) {
+    return 'rate_limit';
+  }
+  if (
+    message.includes('econnrefused') ||
+    message.includes('econnreset') ||
+    message.includes('enotfound') ||
+    message.includes('eai_again') ||
+    message.includes('socket hang up') ||
+    message.includes('fetch failed') ||
+    message.includes('network')
+  ) {
+    return 'network';
+  }
+  if (
+    message.includes('not found') ||
+    message.includes('forbidden') ||
+    message.includes('unauthorized') ||
+    message.includes('invalid') ||
+    message.includes('must have')
+  ) {
+    return 'client_error';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Checks whether a failed attempt should be retried under the given policy
+ * @param policy - Resolved retry policy
+ * @param errorKind - Classified error kind
+ * @param statusCode - HTTP status code reported by the executor (optional)
+ */
+export function isRetryableError(
+  policy: ResolvedRetryPolicy,
+  errorKind: NodeErrorKind,
+  statusCode?: number
+): boolean {
+  if (statusCode && policy.retryOnStatusCodes) {
+    return policy.retryOnStatusCodes.includes(statusCode);
+  }
+
+  return policy.retryOn.includes(errorKind);
+}
+
+/**
+ * Computes the delay before the next attempt
+ * @param policy - Resolved retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ */
+export function getRetryDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+  let delay: number;
+
+  switch (policy.backoff) {
+    case 'fixed':
+      delay = policy.initialDelayMs;
+      break;
+    case 'exponential':
+      delay = policy.initialDelayMs * Math.pow(2, attempt - 1);
+      break;
+    case 'linear':
+    default:
+      delay = policy.initialDelayMs * attempt;
+      break;
+  }
+
+  delay = Math.min(delay, policy.maxDelayMs);
+
+  // Full jitter: pick a random delay between 0 and the computed delay
+  if (policy.jitter) {
+    delay = Math.floor(Math.random() * delay);
+  }
+
+  return delay;
+}
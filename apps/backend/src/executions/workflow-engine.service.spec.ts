@@ -0,0 +1,435 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  ERROR_HANDLE,
+  ExecutionStatus,
+  JoinMode,
+  LOOP_ITEM_HANDLE,
+  NodeConfig,
+  NodeType,
+  WorkflowDefinition,
+} from '@workflow/shared-types';
+import { ExecutorFactory } from '../nodes/executors/executor.factory';
+import { ExecutionContext, NodeExecutionResult } from '../nodes/executors/node-executor.interface';
+import { PrismaService } from '../prisma/prisma.service';
+import { ApprovalSlaService } from './approval-sla.service';
+import { ExecutionQueueService } from './execution-queue.service';
+import { WorkflowEngineService } from './workflow-engine.service';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Checks a row against the subset of Prisma filters the engine and the queue use
+ */
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') {
+      return (condition as Row[]).some((branch) => matches(row, branch));
+    }
+
+    const value = row[key] ?? null;
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      const {
+        in: oneOf,
+        notIn,
+        lt,
+      } = condition as { in?: unknown[]; notIn?: unknown[]; lt?: Date };
+      return (
+        (!oneOf || oneOf.includes(value)) &&
+        (!notIn || !notIn.includes(value)) &&
+        (!lt || (value instanceof Date && value < lt))
+      );
+    }
+
+    return value === (condition ?? null);
+  });
+}
+
+function applyData(row: Row, data: Row) {
+  Object.entries(data).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const increment = (value as { increment?: number })?.increment;
+    row[key] = increment !== undefined ? Number(row[key] || 0) + increment : value;
+  });
+}
+
+/**
+ * In-memory Prisma table
+ */
+function createTable(prefix: string, defaults: Row = {}) {
+  const rows: Row[] = [];
+  let clock = Date.parse('2024-05-01T10:00:00Z');
+
+  const table = {
+    rows,
+    insert: (data: Row) => {
+      const row: Row = { id: `${prefix}-${rows.length + 1}`, startedAt: new Date(clock++) };
+      applyData(row, { ...defaults, ...data });
+      rows.push(row);
+      return row;
+    },
+    create: async ({ data }: { data: Row }) => ({ ...table.insert(data) }),
+    findUnique: async ({ where }: { where: Row }) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      return row ? { ...row } : null;
+    },
+    findFirst: async ({ where }: { where: Row }) => table.findUnique({ where }),
+    findMany: async ({ where }: { where: Row }) =>
+      rows
+        .filter((row) => matches(row, where))
+        .sort((a, b) => (a.startedAt as Date).getTime() - (b.startedAt as Date).getTime())
+        .map((row) => ({ ...row })),
+    count: async ({ where }: { where: Row }) => rows.filter((row) => matches(row, where)).length,
+    update: async ({ where, data }: { where: Row; data: Row }) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      if (!row) throw new Error(`${prefix} not found`);
+      applyData(row, data);
+      return { ...row };
+    },
+    updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+      const updated = rows.filter((row) => matches(row, where));
+      updated.forEach((row) => applyData(row, data));
+      return { count: updated.length };
+    },
+  };
+  return table;
+}
+
+const node = (nodeId: string, type = NodeType.DATA_TRANSFORM, extra: Partial<NodeConfig> = {}) =>
+  ({
+    nodeId,
+    type,
+    label: nodeId,
+    position: { x: 0, y: 0 },
+    config: {},
+    retryPolicy: { maxAttempts: 1 },
+    ...extra,
+  }) as NodeConfig;
+
+const edge = (source: string, target: string, sourceHandle?: string) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+});
+
+type Behaviour = (context: ExecutionContext) => NodeExecutionResult | Promise<NodeExecutionResult>;
+
+function createHarness(definition: WorkflowDefinition) {
+  const prisma = {
+    workflowExecution: createTable('exec'),
+    nodeExecution: createTable('ne', {
+      output: null,
+      error: null,
+      attempts: 1,
+      nextNodeId: null,
+      outputHandle: null,
+      loopNodeId: null,
+      iteration: null,
+      waitingFor: null,
+      resumeAt: null,
+      completedAt: null,
+      reused: false,
+    }),
+  };
+  const queue = new ExecutionQueueService(prisma as unknown as PrismaService);
+  // Claims the oldest pending execution (the real claim is a raw SQL query)
+  jest.spyOn(queue, 'claimNext').mockImplementation(async () => {
+    const pending = prisma.workflowExecution.rows.find(
+      (row) => row.status === ExecutionStatus.PENDING
+    );
+    if (!pending) return null;
+    applyData(pending, { status: ExecutionStatus.RUNNING, lockedBy: queue.workerId });
+    return pending.id as string;
+  });
+
+  const behaviours: Record<string, Behaviour> = {};
+  const ran: Array<{ nodeId: string; context: ExecutionContext }> = [];
+  const executorFactory = {
+    getExecutorFor: (target: NodeConfig) => ({
+      execute: async (executed: NodeConfig, context: ExecutionContext) => {
+        ran.push({ nodeId: executed.nodeId, context });
+        const behaviour = behaviours[target.nodeId];
+        return behaviour
+          ? behaviour(context)
+          : { success: true, output: { [executed.nodeId]: true } };
+      },
+    }),
+  };
+
+  const eventEmitter = { emit: jest.fn() };
+  const engine = new WorkflowEngineService(
+    prisma as unknown as PrismaService,
+    executorFactory as unknown as ExecutorFactory,
+    eventEmitter as unknown as EventEmitter2,
+    queue,
+    {} as ApprovalSlaService
+  );
+
+  const execution = prisma.workflowExecution.insert({
+    workflowId: 'wf-1',
+    userId: 'user-1',
+    status: ExecutionStatus.RUNNING,
+    lockedBy: queue.workerId,
+    heartbeatAt: new Date(),
+    input: { orderId: 7 },
+    workflowSnapshot: definition,
+    dryRun: false,
+    recoveryCount: 0,
+  });
+
+  return {
+    engine,
+    prisma,
+    queue,
+    behaviours,
+    execution,
+    ran: () => ran.map((entry) => entry.nodeId),
+    inputOf: (nodeId: string) => ran.find((entry) => entry.nodeId === nodeId)?.context,
+    emitted: (event: string) =>
+      eventEmitter.emit.mock.calls.filter(([name]) => name === event).map(([, payload]) => payload),
+    nodeRows: (nodeId: string) => prisma.nodeExecution.rows.filter((row) => row.nodeId === nodeId),
+    // Runs an execution this worker claimed, until it finishes or pauses
+    run: () =>
+      (
+        engine as unknown as { startClaimedExecution(executionId: string): Promise<void> }
+      ).startClaimedExecution(execution.id as string),
+  };
+}
+
+describe('WorkflowEngineService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recovery', () => {
+    it('resumes an orphaned execution from its checkpoints on the worker that recovers it', async () => {
+      const harness = createHarness({
+        nodes: [node('trigger', NodeType.TRIGGER), node('fetch'), node('notify')],
+        edges: [edge('trigger', 'fetch'), edge('fetch', 'notify')],
+      });
+      const { prisma, queue, execution } = harness;
+      // A dead worker completed the trigger and fetch, and stopped while notify ran
+      applyData(execution, {
+        lockedBy: 'dead-worker',
+        heartbeatAt: new Date(Date.now() - 10 * 60 * 1000),
+      });
+      const doneAt = Date.now() - 11 * 60 * 1000;
+      prisma.nodeExecution.insert({
+        executionId: execution.id,
+        nodeId: 'trigger',
+        nodeType: NodeType.TRIGGER,
+        status: ExecutionStatus.COMPLETED,
+        output: { orderId: 7 },
+        completedAt: new Date(doneAt),
+      });
+      prisma.nodeExecution.insert({
+        executionId: execution.id,
+        nodeId: 'fetch',
+        nodeType: NodeType.DATA_TRANSFORM,
+        status: ExecutionStatus.COMPLETED,
+        output: { customer: 'Ada' },
+        completedAt: new Date(doneAt + 1),
+      });
+      prisma.nodeExecution.insert({
+        executionId: execution.id,
+        nodeId: 'notify',
+        nodeType: NodeType.DATA_TRANSFORM,
+        status: ExecutionStatus.RUNNING,
+      });
+
+      await expect(queue.recoverOrphaned()).resolves.toBe(1);
+      expect(execution).toMatchObject({ status: ExecutionStatus.PENDING, recoveryCount: 1 });
+      await expect(queue.claimNext()).resolves.toBe(execution.id);
+      await harness.run();
+
+      expect(harness.ran()).toEqual(['notify']);
+      expect(harness.inputOf('notify')?.previousNodeOutput).toEqual({ customer: 'Ada' });
+      expect(harness.nodeRows('notify').map((row) => row.status)).toEqual([
+        ExecutionStatus.FAILED,
+        ExecutionStatus.COMPLETED,
+      ]);
+      expect(execution).toMatchObject({
+        status: ExecutionStatus.COMPLETED,
+        output: { notify: true },
+        lockedBy: null,
+      });
+      expect(harness.emitted('execution.started')).toHaveLength(0);
+      expect(harness.emitted('execution.completed')).toHaveLength(1);
+    });
+  });
+
+  describe('joins', () => {
+    it.each([
+      ['merge', { approved: true }],
+      ['array', [{ approved: true }]],
+      ['first', { approved: true }],
+    ] as const)(
+      'joins with %s using only the parent on the branch that was taken',
+      async (joinMode: JoinMode, input) => {
+        const harness = createHarness({
+          nodes: [
+            node('trigger', NodeType.TRIGGER),
+            node('check', NodeType.CONDITIONAL),
+            node('approve'),
+            node('decline'),
+            node('join', NodeType.DATA_TRANSFORM, { joinMode }),
+          ],
+          edges: [
+            edge('trigger', 'check'),
+            edge('check', 'approve', 'true'),
+            edge('check', 'decline', 'false'),
+            edge('approve', 'join'),
+            edge('decline', 'join'),
+          ],
+        });
+        harness.behaviours.check = () => ({ success: true, output: {}, outputHandle: 'true' });
+        harness.behaviours.approve = () => ({ success: true, output: { approved: true } });
+
+        await harness.run();
+
+        expect(harness.ran()).toEqual(['trigger', 'check', 'approve', 'join']);
+        expect(harness.inputOf('join')?.previousNodeOutput).toEqual(input);
+        expect(harness.nodeRows('decline')).toEqual([
+          expect.objectContaining({ status: ExecutionStatus.SKIPPED }),
+        ]);
+        expect(harness.execution.status).toBe(ExecutionStatus.COMPLETED);
+      }
+    );
+  });
+
+  describe('node failures', () => {
+    const failing = (extra: Partial<NodeConfig> = {}, edges = [edge('send', 'next')]) => {
+      const harness = createHarness({
+        nodes: [
+          node('trigger', NodeType.TRIGGER),
+          node('send', NodeType.DATA_TRANSFORM, extra),
+          node('next'),
+          node('handle'),
+        ],
+        edges: [edge('trigger', 'send'), ...edges],
+      });
+      harness.behaviours.send = () => ({ success: false, error: 'Provider rejected the message' });
+      return harness;
+    };
+
+    it('routes the error to the error handle and skips the regular outputs', async () => {
+      const harness = failing({ continueOnFailure: true }, [
+        edge('send', 'next'),
+        edge('send', 'handle', ERROR_HANDLE),
+      ]);
+
+      await harness.run();
+
+      expect(harness.ran()).toEqual(['trigger', 'send', 'handle']);
+      expect(harness.inputOf('handle')?.previousNodeOutput).toMatchObject({
+        error: { message: 'Provider rejected the message', nodeId: 'send' },
+      });
+      expect(harness.nodeRows('next')).toEqual([
+        expect.objectContaining({ status: ExecutionStatus.SKIPPED }),
+      ]);
+      expect(harness.nodeRows('send')[0]).toMatchObject({ outputHandle: ERROR_HANDLE });
+      expect(harness.execution.status).toBe(ExecutionStatus.COMPLETED);
+    });
+
+    it('passes the error to the regular outputs with continueOnFailure and no error handle', async () => {
+      const harness = failing({ continueOnFailure: true });
+
+      await harness.run();
+
+      expect(harness.ran()).toEqual(['trigger', 'send', 'next']);
+      expect(harness.inputOf('next')?.previousNodeOutput).toMatchObject({
+        error: { message: 'Provider rejected the message' },
+      });
+      expect(harness.execution.status).toBe(ExecutionStatus.COMPLETED);
+    });
+
+    it('fails the execution when the failure is not handled', async () => {
+      const harness = failing();
+
+      await harness.run();
+
+      expect(harness.ran()).toEqual(['trigger', 'send']);
+      expect(harness.execution).toMatchObject({
+        status: ExecutionStatus.FAILED,
+        error: 'Provider rejected the message',
+      });
+      expect(harness.emitted('execution.failed')).toHaveLength(1);
+    });
+  });
+
+  it("cancels a Loop's body once the loop times out", async () => {
+    const harness = createHarness({
+      nodes: [
+        node('trigger', NodeType.TRIGGER),
+        node('loop', NodeType.LOOP, { timeoutMs: 50 }),
+        node('body'),
+        node('after'),
+      ],
+      edges: [
+        edge('trigger', 'loop'),
+        edge('loop', 'body', LOOP_ITEM_HANDLE),
+        edge('loop', 'after'),
+      ],
+    });
+    harness.behaviours.loop = () => ({ success: true, output: { items: [1, 2] } });
+    // Hangs until the engine gives up on it
+    harness.behaviours.body = () => new Promise(() => undefined);
+
+    await harness.run();
+
+    const bodySignal = harness.inputOf('body')?.signal;
+    expect(bodySignal?.aborted).toBe(true);
+    expect(bodySignal?.reason).toEqual(new Error('Loop timed out after 50ms'));
+    expect(harness.ran()).toEqual(['trigger', 'loop', 'body']);
+    expect(harness.nodeRows('loop')[0]).toMatchObject({ status: ExecutionStatus.TIMED_OUT });
+    expect(harness.execution).toMatchObject({
+      status: ExecutionStatus.TIMED_OUT,
+      error: 'Iteration 1 of 2 failed: body: Loop timed out after 50ms',
+    });
+  });
+
+  describe('finishing a run', () => {
+    const lastNodeDoes = (behaviour: (harness: ReturnType<typeof createHarness>) => unknown) => {
+      const harness = createHarness({
+        nodes: [node('trigger', NodeType.TRIGGER), node('last')],
+        edges: [edge('trigger', 'last')],
+      });
+      harness.behaviours.last = async () => {
+        await behaviour(harness);
+        return { success: true, output: { done: true } };
+      };
+      return harness;
+    };
+
+    it('keeps a cancellation that raced the completion', async () => {
+      const harness = lastNodeDoes(({ engine }) => engine.cancelExecution('exec-1', 'user-1'));
+
+      await harness.run();
+
+      expect(harness.execution).toMatchObject({
+        status: ExecutionStatus.FAILED,
+        error: 'Execution cancelled by user',
+      });
+      expect(harness.emitted('execution.cancelled')).toHaveLength(1);
+      expect(harness.emitted('execution.completed')).toHaveLength(0);
+    });
+
+    it('leaves an execution another worker took over alone', async () => {
+      const harness = lastNodeDoes(({ execution }) => {
+        execution.lockedBy = 'other-worker';
+      });
+
+      await harness.run();
+
+      expect(harness.execution).toMatchObject({
+        status: ExecutionStatus.RUNNING,
+        lockedBy: 'other-worker',
+      });
+      expect(harness.emitted('execution.completed')).toHaveLength(0);
+    });
+  });
+});
@@ -8,33 +8,173 @@
  * - Strategy Pattern: Uses ExecutorFactory to get appropriate executors
  */
 
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
 import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { ExecutorFactory } from '../nodes/executors/executor.factory';
-import { ExecutionContext } from '../nodes/executors/node-executor.interface';
+import { ExecutionContext, LoopIterationContext } from '../nodes/executors/node-executor.interface';
+import { ExecutionQueueService } from './execution-queue.service';
+import { ApprovalSlaService } from './approval-sla.service';
+import {
+  resolveRetryPolicy,
+  classifyNodeError,
+  isRetryableError,
+  getRetryDelay,
+} from './utils/retry-policy.util';
+import { scheduleApproval, nextReminder, resolveTimeoutAction } from './utils/approval-sla.util';
+import {
+  ApprovalReviewer,
+  resolveApproverAssignment,
+  splitAssignees,
+  hasAssignedApprovers,
+  isAssignedApprover,
+  APPROVAL_DECIDABLE_STATUSES,
+} from './utils/approval-assignment.util';
+import { collectReplayedNodes } from './utils/replay.util';
+import { resolveExecutionPriority } from './utils/queue-priority.util';
 import {
   WorkflowDefinition,
   NodeConfig,
   ExecutionStatus,
   WorkflowExecution,
+  NodeErrorKind,
+  NodeErrorOutput,
+  NodeType,
+  WorkflowEdge,
+  LoopNodeConfig,
+  LoopNodeOutput,
+  ERROR_HANDLE,
+  LOOP_ITEM_HANDLE,
+  LOOP_DONE_HANDLE,
+  APPROVAL_REJECTED_HANDLE,
+  APPROVAL_TIMEOUT_HANDLE,
+  ApprovalRowDecision,
+  ApprovalProgress,
+  ApprovalInboxItem,
+  ManualApprovalNodeConfig,
 } from '@workflow/shared-types';
+import {
+  decideApprovalRows,
+  getApprovalSummary,
+  toRejectedOutput,
+} from '../nodes/utils/approval-decision.util';
+import { abortableDelay, anySignal } from '../nodes/utils/abort-signal.util';
+
+/**
+ * State rebuilt from persisted node checkpoints when a run starts or resumes
+ */
+interface ExecutionCheckpoint {
+  executedNodes: Set<string>;
+  nodeOutputs: Map<string, any>;
+  processingQueue: string[];
+  branches: BranchState;
+  waitingNodes: Map<string, WaitingNode>; // Delay nodes not yet due and nodes waiting for a signal
+  resumed: boolean;
+}
+
+/**
+ * Node paused until a time (Delay nodes) or an external signal (e.g. an approval decision)
+ */
+interface WaitingNode {
+  resumeAt?: Date; // When a Delay node completes
+  waitingFor?: string; // External signal the node waits for
+  resumeToken?: string; // Presented by the signal to resume this node
+  approvalDueAt?: Date; // Deadline of a waiting approval
+  output?: unknown;
+  restored?: boolean; // Paused in an earlier run and already announced
+}
+
+/**
+ * Branches taken so far
+ * A node only runs when at least one parent continued to it; once all of its parents are done
+ * without any of them doing so, the node is skipped (and so are its descendants, transitively)
+ */
+interface BranchState {
+  activatedBy: Map<string, Set<string>>; // Parents that continued to each node
+  skippedNodes: Set<string>;
+}
+
+/**
+ * Adjacency lists built from the workflow edges
+ */
+interface WorkflowGraph {
+  adjacencyList: Map<string, string[]>; // Regular outputs, followed when a node succeeds
+  handleAdjacencyList: Map<string, Map<string, string[]>>; // Regular outputs grouped by source handle
+  errorAdjacencyList: Map<string, string[]>; // Targets of the "error" handle, followed when a node fails
+  loopBodyAdjacencyList: Map<string, string[]>; // Targets of a Loop node's "item" handle, run once per item
+  rejectedAdjacencyList: Map<string, string[]>; // Targets of a Manual Approval node's "rejected" handle
+  timeoutAdjacencyList: Map<string, string[]>; // Targets of a Manual Approval node's "timeout" handle
+  reverseAdjacencyList: Map<string, string[]>; // Parents of every node (including error edges)
+}
+
+/**
+ * Execution deadline armed while a run is active on this worker
+ */
+interface ExecutionDeadline {
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+}
+
+const DEADLINE_EXCEEDED_MESSAGE = 'Execution deadline exceeded';
+const APPROVAL_EXPIRED_MESSAGE = 'Approval deadline passed';
+const APPROVAL_TIMEOUT_REVIEWER = 'system'; // Reviewer recorded when a timeout action decides
 
 @Injectable()
-export class WorkflowEngineService {
+export class WorkflowEngineService implements OnApplicationBootstrap, OnModuleDestroy {
   private runningExecutions = new Map<string, boolean>();
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAY_MS = 1000;
+  private executionDeadlines = new Map<string, ExecutionDeadline>();
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private polling = false;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly executorFactory: ExecutorFactory,
-    private readonly eventEmitter: EventEmitter2
+    private readonly eventEmitter: EventEmitter2,
+    private readonly executionQueue: ExecutionQueueService,
+    private readonly approvalSla: ApprovalSlaService
   ) {}
 
+  /**
+   * Start the queue worker once the application is up
+   * Orphaned executions from a previous run are requeued before polling starts
+   */
+  async onApplicationBootstrap() {
+    try {
+      const recovered = await this.executionQueue.recoverOrphaned();
+      if (recovered > 0) {
+        console.log(`[Workflow Engine] Requeued ${recovered} orphaned execution(s)`);
+      }
+    } catch (error) {
+      console.error('[Workflow Engine] Failed to recover orphaned executions:', error);
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.recoverAndPoll();
+    }, this.executionQueue.pollIntervalMs);
+
+    this.heartbeatTimer = setInterval(() => {
+      this.sendHeartbeat();
+    }, this.executionQueue.heartbeatIntervalMs);
+
+    console.log(`[Workflow Engine] Queue worker ${this.executionQueue.workerId} started`);
+    this.pollQueue();
+  }
+
+  /**
+   * Stop the queue worker
+   * Executions still running here are recovered by another worker once their heartbeat goes stale
+   */
+  onModuleDestroy() {
+    clearInterval(this.pollTimer);
+    clearInterval(this.heartbeatTimer);
+  }
+
   /**
    * Event listener for execution.start
    * Triggered when Public API creates a new execution
+   * The execution is already persisted as pending, so this only wakes up the queue worker
    */
   @OnEvent('execution.start')
   async handleExecutionStart(payload: {
@@ -48,46 +188,40 @@ export class WorkflowEngineService {
     );
 
     try {
-      // Load the execution from database
-      const execution = await this.prisma.workflowExecution.findUnique({
-        where: { id: payload.executionId },
-      });
-
-      if (!execution) {
-        console.error(`[Workflow Engine] Execution ${payload.executionId} not found`);
-        return;
-      }
-
-      if (execution.status !== 'pending') {
-        console.log(
-          `[Workflow Engine] Execution ${payload.executionId} is not pending (status: ${execution.status}), skipping`
-        );
-        return;
-      }
-
-      // Update status to running
       await this.prisma.workflowExecution.update({
         where: { id: payload.executionId },
-        data: { status: ExecutionStatus.RUNNING },
+        data: { queuedAt: new Date() },
       });
 
-      // Get workflow definition from snapshot
-      const definition = execution.workflowSnapshot as any as WorkflowDefinition;
-
-      // Start workflow execution asynchronously
-      this.runWorkflow(payload.executionId, definition, payload.userId, payload.input).catch(
-        (error) => {
-          console.error(
-            `[Workflow Engine] Workflow execution ${payload.executionId} failed:`,
-            error
-          );
-        }
+      this.pollQueue();
+    } catch (error) {
+      console.error(
+        `[Workflow Engine] Error handling execution.start for ${payload.executionId}:`,
+        error
       );
+    }
+  }
+
+  /**
+   * Event listener for execution.child_start
+   * Triggered when an Execute Workflow node starts a sub-workflow
+   * The child runs right away on this worker, outside the concurrency limit, so parents
+   * waiting for their children can't take up every worker slot
+   */
+  @OnEvent('execution.child_start')
+  async handleChildExecutionStart(payload: { executionId: string; parentExecutionId: string }) {
+    console.log(
+      `[Workflow Engine] Starting sub-workflow execution ${payload.executionId} for ${payload.parentExecutionId}`
+    );
 
-      console.log(`[Workflow Engine] Started workflow execution ${payload.executionId}`);
+    try {
+      if (await this.executionQueue.claimPending(payload.executionId)) {
+        this.runningExecutions.set(payload.executionId, true);
+        this.startClaimedExecution(payload.executionId);
+      }
     } catch (error) {
       console.error(
-        `[Workflow Engine] Error handling execution.start for ${payload.executionId}:`,
+        `[Workflow Engine] Error starting sub-workflow execution ${payload.executionId}:`,
         error
       );
     }
@@ -95,15 +229,20 @@ export class WorkflowEngineService {
 
   /**
    * Execute a workflow
+   * The execution is persisted as pending and picked up by a queue worker
    * @param workflowId - ID of the workflow to execute
    * @param userId - ID of the user executing the workflow
    * @param input - Initial input data
+   * @param dryRun - Record side-effecting nodes instead of executing them
+   * @param priority - Queue priority (defaults to the workflow's settings.priority)
    * @returns Execution result
    */
   async executeWorkflow(
     workflowId: string,
     userId: string,
-    input?: unknown
+    input?: unknown,
+    dryRun = false,
+    priority?: number
   ): Promise<WorkflowExecution> {
     // Fetch workflow
     const workflow = await this.prisma.workflow.findUnique({
@@ -118,21 +257,26 @@ export class WorkflowEngineService {
       throw new Error('Workflow is not active');
     }
 
-    // Create execution record
+    // Create execution record in the queue
     const execution = await this.prisma.workflowExecution.create({
       data: {
         workflowId,
         userId,
-        status: ExecutionStatus.RUNNING,
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
         input: input as any,
         workflowSnapshot: workflow.definition as any,
+        dryRun,
+        priority: resolveExecutionPriority(workflow.definition as any, priority),
       },
     });
 
-    // Execute workflow asynchronously
-    this.runWorkflow(execution.id, workflow.definition as any, userId, input).catch((error) => {
-      console.error('Workflow execution failed:', error);
-    });
+    if (dryRun) {
+      console.log(`[Workflow Engine] Execution ${execution.id} is a dry run`);
+    }
+
+    // Wake up the queue worker
+    this.pollQueue();
 
     return {
       id: execution.id,
@@ -141,11 +285,13 @@ export class WorkflowEngineService {
       startedAt: execution.startedAt,
       input: execution.input,
       nodeExecutions: [],
+      dryRun: execution.dryRun || undefined,
+      priority: execution.priority,
     };
   }
 
   /**
-   * Cancel a running workflow execution
+   * Cancel a queued or running workflow execution
    */
   async cancelExecution(executionId: string, userId: string): Promise<void> {
     // Check if execution exists and belongs to user
@@ -161,12 +307,19 @@ export class WorkflowEngineService {
       throw new Error('Access forbidden');
     }
 
-    if (execution.status !== ExecutionStatus.RUNNING) {
+    if (
+      execution.status !== ExecutionStatus.RUNNING &&
+      execution.status !== ExecutionStatus.PENDING &&
+      execution.status !== ExecutionStatus.WAITING &&
+      execution.status !== ExecutionStatus.PENDING_APPROVAL
+    ) {
       throw new Error('Execution is not running');
     }
 
-    // Mark for cancellation
-    this.runningExecutions.set(executionId, false);
+    // Mark for cancellation (workers on other instances notice on their next heartbeat)
+    if (this.runningExecutions.has(executionId)) {
+      this.runningExecutions.set(executionId, false);
+    }
 
     // Update database
     await this.prisma.workflowExecution.update({
@@ -175,6 +328,7 @@ export class WorkflowEngineService {
         status: ExecutionStatus.FAILED,
         error: 'Execution cancelled by user',
         completedAt: new Date(),
+        resumeAt: null,
       },
     });
 
@@ -186,9 +340,248 @@ export class WorkflowEngineService {
     });
   }
 
+  /**
+   * Replay a finished execution as a new execution with the same workflow snapshot and input
+   * Nodes upstream of fromNodeId keep their outputs from the original run: they are copied as
+   * reused node executions, which the new run restores like checkpoints. fromNodeId and everything
+   * downstream of it run again; without fromNodeId the whole workflow runs again
+   * @param executionId - ID of the execution to replay
+   * @param userId - ID of the user replaying the execution
+   * @param fromNodeId - Node to re-execute from
+   * @returns The new execution
+   */
+  async replayExecution(
+    executionId: string,
+    userId: string,
+    fromNodeId?: string
+  ): Promise<WorkflowExecution> {
+    const original = await this.prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      include: { nodeExecutions: { orderBy: { startedAt: 'asc' } } },
+    });
+
+    if (!original) {
+      throw new Error('Execution not found');
+    }
+
+    if (original.userId !== userId) {
+      throw new Error('Access forbidden');
+    }
+
+    if (
+      original.status === ExecutionStatus.PENDING ||
+      original.status === ExecutionStatus.RUNNING ||
+      original.status === ExecutionStatus.WAITING ||
+      original.status === ExecutionStatus.PENDING_APPROVAL
+    ) {
+      throw new Error('Execution has not finished yet');
+    }
+
+    const definition = original.workflowSnapshot as any as WorkflowDefinition;
+    let startNodeId = fromNodeId;
+    let reused: typeof original.nodeExecutions = [];
+
+    if (fromNodeId) {
+      if (!definition.nodes.some((node) => node.nodeId === fromNodeId)) {
+        throw new Error(`Node ${fromNodeId} not found in the execution's workflow`);
+      }
+
+      const runs = original.nodeExecutions.filter(
+        (ne) => ne.nodeId === fromNodeId && ne.status !== ExecutionStatus.SKIPPED
+      );
+      if (runs.length === 0) {
+        throw new Error(`Node ${fromNodeId} did not run in this execution`);
+      }
+
+      // Nodes inside a loop body only run with their loop, so the (outermost) loop runs again
+      let loopNodeId = runs[0].loopNodeId;
+      while (loopNodeId) {
+        startNodeId = loopNodeId;
+        const loopRun = original.nodeExecutions.find(
+          (ne) => ne.nodeId === startNodeId && ne.loopNodeId
+        );
+        loopNodeId = loopRun?.loopNodeId || null;
+      }
+
+      // Same nodes loadCheckpoint treats as done
+      const replayed = collectReplayedNodes(definition.edges, startNodeId!);
+      reused = original.nodeExecutions.filter(
+        (ne) =>
+          !replayed.has(ne.nodeId) &&
+          (ne.status === ExecutionStatus.COMPLETED ||
+            ne.status === ExecutionStatus.SKIPPED ||
+            ne.outputHandle === ERROR_HANDLE) &&
+          (ne.nodeType !== NodeType.LOOP || ne.outputHandle !== null)
+      );
+    }
+
+    // Reused node executions are created with the execution, before a worker can claim it
+    const execution = await this.prisma.workflowExecution.create({
+      data: {
+        workflowId: original.workflowId,
+        userId,
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
+        input: original.input as any,
+        workflowSnapshot: original.workflowSnapshot as any,
+        replayOfExecutionId: original.id,
+        replayFromNodeId: startNodeId || null,
+        dryRun: original.dryRun,
+        priority: original.priority,
+        entryNodeId: original.entryNodeId,
+        workflowVersion: original.workflowVersion,
+        nodeExecutions: {
+          create: reused.map((ne) => ({
+            nodeId: ne.nodeId,
+            nodeType: ne.nodeType,
+            status: ne.status,
+            input: (ne.input ?? undefined) as any,
+            output: (ne.output ?? undefined) as any,
+            error: ne.error,
+            attempts: ne.attempts,
+            nextNodeId: ne.nextNodeId,
+            outputHandle: ne.outputHandle,
+            loopNodeId: ne.loopNodeId,
+            iteration: ne.iteration,
+            startedAt: ne.startedAt,
+            completedAt: ne.completedAt,
+            reused: true,
+          })),
+        },
+      },
+    });
+
+    console.log(
+      `[Workflow Engine] Replaying execution ${executionId} as ${execution.id}` +
+        (startNodeId ? ` from node ${startNodeId} (${reused.length} output(s) reused)` : '')
+    );
+
+    // Wake up the queue worker
+    this.pollQueue();
+
+    return {
+      id: execution.id,
+      workflowId: execution.workflowId,
+      status: execution.status as ExecutionStatus,
+      startedAt: execution.startedAt,
+      input: execution.input,
+      nodeExecutions: [],
+      replayOfExecutionId: original.id,
+      replayFromNodeId: startNodeId,
+      dryRun: original.dryRun || undefined,
+      priority: execution.priority,
+    };
+  }
+
+  /**
+   * Claim pending executions from the queue until this worker is at capacity
+   * @private
+   */
+  private async pollQueue(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      while (this.runningExecutions.size < this.executionQueue.concurrency) {
+        const executionId = await this.executionQueue.claimNext();
+        if (!executionId) {
+          break;
+        }
+
+        // Reserve the slot before the execution is loaded
+        this.runningExecutions.set(executionId, true);
+        this.startClaimedExecution(executionId);
+      }
+    } catch (error) {
+      console.error('[Workflow Engine] Failed to poll execution queue:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Requeue executions orphaned by dead workers and waits that are due, enforce approval SLAs,
+   * then claim work
+   * @private
+   */
+  private async recoverAndPoll(): Promise<void> {
+    try {
+      const recovered = await this.executionQueue.recoverOrphaned();
+      if (recovered > 0) {
+        console.log(`[Workflow Engine] Requeued ${recovered} orphaned execution(s)`);
+      }
+    } catch (error) {
+      console.error('[Workflow Engine] Failed to recover orphaned executions:', error);
+    }
+
+    try {
+      const resumed = await this.executionQueue.releaseDueWaits();
+      if (resumed > 0) {
+        console.log(`[Workflow Engine] Requeued ${resumed} waiting execution(s)`);
+      }
+    } catch (error) {
+      console.error('[Workflow Engine] Failed to requeue waiting executions:', error);
+    }
+
+    try {
+      await this.enforceApprovalSlas();
+    } catch (error) {
+      console.error('[Workflow Engine] Failed to enforce approval SLAs:', error);
+    }
+
+    await this.pollQueue();
+  }
+
+  /**
+   * Refresh heartbeats and stop executions that were cancelled or taken over elsewhere
+   * @private
+   */
+  private async sendHeartbeat(): Promise<void> {
+    try {
+      const lost = await this.executionQueue.heartbeat(Array.from(this.runningExecutions.keys()));
+      lost.forEach((executionId) => {
+        if (this.runningExecutions.has(executionId)) {
+          this.runningExecutions.set(executionId, false);
+        }
+      });
+    } catch (error) {
+      console.error('[Workflow Engine] Failed to send heartbeat:', error);
+    }
+  }
+
+  /**
+   * Load a claimed execution and run it from its last checkpoint
+   * @private
+   */
+  private async startClaimedExecution(executionId: string): Promise<void> {
+    try {
+      const execution = await this.prisma.workflowExecution.findUnique({
+        where: { id: executionId },
+      });
+
+      if (!execution) {
+        console.error(`[Workflow Engine] Execution ${executionId} not found`);
+        this.runningExecutions.delete(executionId);
+        return;
+      }
+
+      // Get workflow definition from snapshot
+      const definition = execution.workflowSnapshot as any as WorkflowDefinition;
+
+      console.log(`[Workflow Engine] Worker claimed execution ${executionId}`);
+      await this.runWorkflow(executionId, definition, execution.userId, execution.input);
+    } catch (error) {
+      console.error(`[Workflow Engine] Workflow execution ${executionId} failed:`, error);
+      this.runningExecutions.delete(executionId);
+    }
+  }
+
   /**
    * Run workflow execution
    * Processes nodes with parallel execution support
+   * Nodes already completed in a previous attempt (checkpoints) are not executed again
    * @private
    */
   private async runWorkflow(
@@ -200,27 +593,32 @@ export class WorkflowEngineService {
     // Mark execution as running
     this.runningExecutions.set(executionId, true);
 
-    // Emit execution started event
-    this.eventEmitter.emit('execution.started', {
-      executionId,
-      userId,
-      timestamp: new Date(),
-    });
-
     try {
       const { nodes, edges } = definition;
 
-      // Find trigger node (starting point)
-      const triggerNode = nodes.find((n) => n.type === 'trigger');
-      if (!triggerNode) {
-        throw new Error('Workflow must have a trigger node');
-      }
-
       // Get workflow from execution
       const execution = await this.prisma.workflowExecution.findUnique({
         where: { id: executionId },
       });
 
+      // Find trigger node (starting point): the node the execution was started from (e.g. the
+      // Webhook node that received the request), else the Trigger node, else (workflows started
+      // only by webhooks) the first Webhook node
+      const entryNodeId = execution?.entryNodeId;
+      const triggerNode = entryNodeId
+        ? nodes.find((n) => n.nodeId === entryNodeId)
+        : nodes.find((n) => n.type === NodeType.TRIGGER) ||
+          nodes.find((n) => n.type === NodeType.WEBHOOK);
+      if (!triggerNode) {
+        throw new Error(
+          entryNodeId
+            ? `Entry node ${entryNodeId} not found in workflow`
+            : 'Workflow must have a Trigger or Webhook node'
+        );
+      }
+
+      const signal = await this.startDeadline(executionId, definition, execution?.deadlineAt);
+
       // Create execution context
       const context: ExecutionContext = {
         executionId,
@@ -229,29 +627,46 @@ export class WorkflowEngineService {
         variables: definition.variables || {},
         previousNodeOutput: input,
         input: input,
+        signal,
+        dryRun: execution?.dryRun,
       };
 
-      // Build adjacency list and reverse adjacency list for graph traversal
-      const adjacencyList = new Map<string, string[]>();
-      const reverseAdjacencyList = new Map<string, string[]>();
-      const nodeOutputs = new Map<string, any>();
+      // Build adjacency lists for graph traversal
+      const graph = this.buildGraph(edges);
+      const { reverseAdjacencyList } = graph;
 
-      edges.forEach((edge) => {
-        if (!adjacencyList.has(edge.source)) {
-          adjacencyList.set(edge.source, []);
-        }
-        adjacencyList.get(edge.source)!.push(edge.target);
+      // Restore progress from node checkpoints (empty for a fresh run)
+      const { executedNodes, nodeOutputs, processingQueue, branches, waitingNodes, resumed } =
+        await this.loadCheckpoint(executionId, triggerNode.nodeId, graph, input);
 
-        if (!reverseAdjacencyList.has(edge.target)) {
-          reverseAdjacencyList.set(edge.target, []);
-        }
-        reverseAdjacencyList.get(edge.target)!.push(edge.source);
-      });
+      if (executedNodes.size > 0) {
+        console.log(
+          resumed
+            ? `[Workflow Engine] Resuming execution ${executionId} after ${executedNodes.size} completed node(s)`
+            : `[Workflow Engine] Replaying execution ${executionId} after ${executedNodes.size} reused node(s)`
+        );
+
+        // The previous worker may have stopped before marking untaken branches as skipped,
+        // and a replay only reused the nodes upstream of where it starts
+        await this.skipUntakenBranches(
+          executionId,
+          Array.from(executedNodes),
+          nodes,
+          graph,
+          executedNodes,
+          branches,
+          context
+        );
+      }
 
-      // Execute nodes with parallel support
-      const executedNodes = new Set<string>();
-      const processingQueue: string[] = [triggerNode.nodeId];
-      nodeOutputs.set(triggerNode.nodeId, input);
+      if (!resumed) {
+        // Emit execution started event
+        this.eventEmitter.emit('execution.started', {
+          executionId,
+          userId,
+          timestamp: new Date(),
+        });
+      }
 
       while (processingQueue.length > 0) {
         // Check if execution was cancelled
@@ -259,14 +674,27 @@ export class WorkflowEngineService {
           throw new Error('Execution cancelled');
         }
 
-        // Get all nodes ready to execute (all dependencies satisfied)
-        const readyNodes = processingQueue.filter((nodeId) => {
-          const dependencies = reverseAdjacencyList.get(nodeId) || [];
-          return dependencies.every((dep) => executedNodes.has(dep));
-        });
+        if (signal.aborted) {
+          throw new Error(DEADLINE_EXCEEDED_MESSAGE);
+        }
+
+        // Get all nodes ready to execute (dependencies satisfied per join mode)
+        const readyNodes = processingQueue.filter((nodeId) =>
+          this.isNodeReady(
+            nodeId,
+            nodes.find((n) => n.nodeId === nodeId),
+            reverseAdjacencyList.get(nodeId) || [],
+            executedNodes,
+            branches
+          )
+        );
 
         if (readyNodes.length === 0) {
-          break;
+          // Everything left depends on a node that is still waiting
+          if (waitingNodes.size > 0) {
+            break;
+          }
+          throw new Error(this.describeStalledNodes(processingQueue, nodes));
         }
 
         // Remove ready nodes from queue
@@ -278,6 +706,7 @@ export class WorkflowEngineService {
         });
 
         // Execute ready nodes in parallel
+        const arrivalOrder: string[] = [];
         const nodeResults = await Promise.all(
           readyNodes.map(async (nodeId) => {
             const node = nodes.find((n) => n.nodeId === nodeId);
@@ -285,120 +714,140 @@ export class WorkflowEngineService {
               throw new Error(`Node ${nodeId} not found`);
             }
 
-            // Get input from previous node(s)
+            // Get input from the parent(s) that continued to this node
             const dependencies = reverseAdjacencyList.get(nodeId) || [];
-            const previousOutput =
+            const { previousOutput, parentOutputs } =
               dependencies.length > 0
-                ? nodeOutputs.get(dependencies[0])
-                : nodeOutputs.get(triggerNode.nodeId);
+                ? this.resolveNodeInput(
+                    node,
+                    this.getTakenParents(nodeId, dependencies, branches),
+                    nodeOutputs,
+                    executedNodes,
+                    graph
+                  )
+                : { previousOutput: nodeOutputs.get(triggerNode.nodeId), parentOutputs: {} };
 
             // Update context - preserve original input, only update previousNodeOutput
             const nodeContext = {
               ...context,
               previousNodeOutput: previousOutput,
+              parentOutputs,
+              nodeOutputs: Object.fromEntries(nodeOutputs),
               // Keep original input unchanged so nodes can access execution parameters
             };
 
-            // Execute node with retry logic
-            const result = await this.executeNodeWithRetry(executionId, node, nodeContext);
+            // Execute node with retry logic (Loop nodes also run their body per item)
+            const result = await this.runNode(executionId, node, nodeContext, nodes, graph);
+            arrivalOrder.push(nodeId);
 
-            return { nodeId, result };
+            return { nodeId, node, input: previousOutput, result };
           })
         );
 
-        // Process results
-        for (const { nodeId, result } of nodeResults) {
+        // Process results in the order they arrived so "first" joins see the earliest parent
+        nodeResults.sort((a, b) => arrivalOrder.indexOf(a.nodeId) - arrivalOrder.indexOf(b.nodeId));
+        for (const { nodeId, node, input: nodeInput, result } of nodeResults) {
+          // Failures can be routed to the node's error branch instead of failing the execution
+          if (!result.success && !signal.aborted) {
+            const errorRoute = await this.routeNodeFailure(
+              executionId,
+              node,
+              nodeInput,
+              result,
+              graph
+            );
+            if (errorRoute) {
+              executedNodes.add(nodeId);
+              nodeOutputs.set(nodeId, errorRoute.output);
+              this.takeBranches(
+                nodeId,
+                errorRoute.children,
+                branches,
+                executedNodes,
+                processingQueue
+              );
+              continue;
+            }
+          }
+
           if (!result.success) {
-            // Node failed after retries
-            await this.prisma.workflowExecution.update({
-              where: { id: executionId },
-              data: {
-                status: ExecutionStatus.FAILED,
-                error: result.error,
-                completedAt: new Date(),
-              },
+            // Node failed after retries (a node timeout also times out the execution)
+            const status =
+              result.timedOut || signal.aborted
+                ? ExecutionStatus.TIMED_OUT
+                : ExecutionStatus.FAILED;
+
+            const finished = await this.finishExecution(executionId, {
+              status,
+              error: result.error,
             });
+            if (!finished) {
+              return;
+            }
 
             // Emit failure event
             this.eventEmitter.emit('execution.failed', {
               executionId,
               workflowId: context.workflowId,
               userId,
+              status,
               error: result.error,
               timestamp: new Date(),
             });
 
-            // Clean up
-            this.runningExecutions.delete(executionId);
             return;
           }
 
-          // Check if node requires approval (manual approval node)
-          if (result.requiresApproval) {
-            // Pause workflow execution and wait for approval
-            await this.prisma.workflowExecution.update({
-              where: { id: executionId },
-              data: {
-                status: 'pending_approval' as any,
-                approvalData: result.output as any,
-                approvalStatus: 'pending_approval',
-                output: result.output as any,
-              },
-            });
-
-            // Emit pending approval event
-            this.eventEmitter.emit('execution.pending_approval', {
-              executionId,
-              workflowId: context.workflowId,
-              userId,
-              approvalData: result.output,
-              timestamp: new Date(),
+          // Delay and approval nodes wait outside the worker; their children run once they complete
+          if (result.resumeAt || result.awaitSignal) {
+            waitingNodes.set(nodeId, {
+              resumeAt: result.resumeAt ? new Date(result.resumeAt) : undefined,
+              waitingFor: result.awaitSignal,
+              resumeToken: result.resumeToken,
+              approvalDueAt: result.approvalDueAt || undefined,
+              output: result.output,
             });
-
-            console.log(
-              `[Workflow Engine] Execution ${executionId} paused for approval at node ${nodeId}`
-            );
-
-            // Clean up and exit - workflow will resume when approved
-            this.runningExecutions.delete(executionId);
-            return;
+            continue;
           }
 
           // Mark node as executed
           executedNodes.add(nodeId);
           nodeOutputs.set(nodeId, result.output);
 
-          // Add child nodes to queue
-          const childNodes = adjacencyList.get(nodeId) || [];
-
-          // Handle conditional nodes with nextNodeId
-          if (result.nextNodeId) {
-            if (!processingQueue.includes(result.nextNodeId)) {
-              processingQueue.push(result.nextNodeId);
-            }
-          } else {
-            // Add all child nodes
-            childNodes.forEach((childId) => {
-              if (!executedNodes.has(childId) && !processingQueue.includes(childId)) {
-                processingQueue.push(childId);
-              }
-            });
-          }
+          // Add child nodes to queue (only the selected branch for conditional/switch nodes)
+          const childNodes = this.getNextChildren(nodeId, result, graph);
+          this.takeBranches(nodeId, childNodes, branches, executedNodes, processingQueue);
         }
+
+        // Nodes left only on branches that weren't taken will never run
+        await this.skipUntakenBranches(
+          executionId,
+          readyNodes,
+          nodes,
+          graph,
+          executedNodes,
+          branches,
+          context
+        );
+      }
+
+      // Other branches ran as far as they could; continue once a waiting node is due or signalled
+      if (waitingNodes.size > 0) {
+        await this.pauseExecution(executionId, waitingNodes, context);
+        return;
       }
 
       // Execution completed successfully
       const finalOutput = nodeOutputs.get(Array.from(executedNodes).pop() || '');
 
-      await this.prisma.workflowExecution.update({
-        where: { id: executionId },
-        data: {
-          status: ExecutionStatus.COMPLETED,
-          output: finalOutput as any,
-          completedAt: new Date(),
-        },
+      const finished = await this.finishExecution(executionId, {
+        status: ExecutionStatus.COMPLETED,
+        output: finalOutput as any,
       });
-
+      if (!finished) {
+        return;
+      }
+
       // Emit completion event
       this.eventEmitter.emit('execution.completed', {
         executionId,
@@ -407,19 +856,26 @@ export class WorkflowEngineService {
         output: finalOutput,
         timestamp: new Date(),
       });
-
-      // Clean up
-      this.runningExecutions.delete(executionId);
     } catch (error) {
+      // Cancelled by the user or taken over by another worker - the database already
+      // reflects the new owner/state, so don't overwrite it
+      if (this.runningExecutions.get(executionId) === false) {
+        console.log(`[Workflow Engine] Execution ${executionId} stopped on this worker`);
+        return;
+      }
+
       // Handle unexpected errors
-      await this.prisma.workflowExecution.update({
-        where: { id: executionId },
-        data: {
-          status: ExecutionStatus.FAILED,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          completedAt: new Date(),
-        },
+      const status = this.isDeadlineExceeded(executionId)
+        ? ExecutionStatus.TIMED_OUT
+        : ExecutionStatus.FAILED;
+
+      const finished = await this.finishExecution(executionId, {
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      if (!finished) {
+        return;
+      }
 
       // Emit failure event
       const execution = await this.prisma.workflowExecution.findUnique({
@@ -430,664 +886,2013 @@ export class WorkflowEngineService {
         executionId,
         workflowId: execution?.workflowId || '',
         userId,
+        status,
         error: error instanceof Error ? error.message : 'Unknown error',
         timestamp: new Date(),
       });
-
-      // Clean up
+    } finally {
+      // Clean up and free the worker slot for the next queued execution
       this.runningExecutions.delete(executionId);
+      this.clearDeadline(executionId);
+      await this.executionQueue.release(executionId).catch((error) => {
+        console.error(`[Workflow Engine] Failed to release execution ${executionId}:`, error);
+      });
+      this.pollQueue();
     }
   }
 
   /**
-   * Execute a single node with retry logic
+   * Record the final status of a run
+   * Only an execution still running on this worker is updated, so a cancellation or another
+   * worker's takeover that happened meanwhile is not overwritten
+   * @returns Whether the execution was updated (callers skip their events otherwise)
    * @private
    */
-  private async executeNodeWithRetry(
+  private async finishExecution(
     executionId: string,
-    node: NodeConfig,
-    context: ExecutionContext
-  ): Promise<any> {
-    let lastError: string | undefined;
-    let attempt = 0;
-
-    // Emit node started event
-    this.eventEmitter.emit('node.started', {
-      executionId,
-      nodeId: node.nodeId,
-      nodeType: node.type,
-      timestamp: new Date(),
+    data: { status: ExecutionStatus; output?: any; error?: string }
+  ): Promise<boolean> {
+    const finished = await this.prisma.workflowExecution.updateMany({
+      where: {
+        id: executionId,
+        lockedBy: this.executionQueue.workerId,
+        status: ExecutionStatus.RUNNING,
+      },
+      data: { ...data, completedAt: new Date() },
     });
 
-    while (attempt < this.MAX_RETRIES) {
-      attempt++;
-
-      try {
-        const result = await this.executeNode(executionId, node, context, attempt);
+    if (finished.count === 0) {
+      console.log(
+        `[Workflow Engine] Execution ${executionId} is no longer running on this worker, keeping its status`
+      );
+      return false;
+    }
 
-        if (result.success) {
-          // Emit node completed event
-          this.eventEmitter.emit('node.completed', {
-            executionId,
-            nodeId: node.nodeId,
-            nodeType: node.type,
-            output: result.output,
-            timestamp: new Date(),
-          });
+    return true;
+  }
 
-          return result;
-        }
+  /**
+   * Pause an execution on its waiting nodes and release the worker slot
+   * Executions with nodes waiting for approval stay pending_approval until every approval is
+   * decided (see resumeExecution); paused executions are requeued once the earliest Delay node is due
+   * @private
+   */
+  private async pauseExecution(
+    executionId: string,
+    waitingNodes: Map<string, WaitingNode>,
+    context: ExecutionContext
+  ): Promise<void> {
+    const waits = Array.from(waitingNodes.entries());
+    const resumeTimes = waits
+      .map(([, wait]) => wait.resumeAt?.getTime())
+      .filter((time): time is number => time !== undefined);
+    const resumeAt = resumeTimes.length > 0 ? new Date(Math.min(...resumeTimes)) : null;
+
+    const approvals = waits.filter(([, wait]) => wait.waitingFor === 'approval');
+    const newApprovals = approvals.filter(([, wait]) => !wait.restored);
+    // Reviewers see the latest approval request
+    const latest = newApprovals.length > 0 ? newApprovals : approvals;
+    const shownApproval = latest.length > 0 ? latest[latest.length - 1][1] : undefined;
+
+    // Only a running execution is paused (it may have been cancelled meanwhile)
+    const paused = await this.prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: ExecutionStatus.RUNNING },
+      data: {
+        status: shownApproval ? ExecutionStatus.PENDING_APPROVAL : ExecutionStatus.WAITING,
+        resumeAt,
+        // Time spent waiting doesn't count towards the deadline
+        deadlineAt: null,
+        ...(shownApproval && {
+          approvalData: shownApproval.output as any,
+          approvalStatus: 'pending_approval',
+          output: shownApproval.output as any,
+        }),
+      },
+    });
 
-        lastError = result.error;
+    if (paused.count === 0) {
+      return;
+    }
 
-        // Don't retry for certain types of errors
-        if (
-          result.error?.includes('not found') ||
-          result.error?.includes('forbidden') ||
-          result.error?.includes('unauthorized')
-        ) {
-          break;
-        }
+    // Approvals decided while this run was going on (see resumeExecution) continue it at once
+    if (approvals.length > 0 && (await this.requeueIfApprovalsDecided(executionId))) {
+      return;
+    }
 
-        // Wait before retry
-        if (attempt < this.MAX_RETRIES) {
-          // Emit retry event
-          this.eventEmitter.emit('node.retry', {
-            executionId,
-            nodeId: node.nodeId,
-            nodeType: node.type,
-            attempt,
-            maxRetries: this.MAX_RETRIES,
-            error: lastError,
-            timestamp: new Date(),
-          });
+    for (const [nodeId, wait] of newApprovals) {
+      this.eventEmitter.emit('execution.pending_approval', {
+        executionId,
+        workflowId: context.workflowId,
+        userId: context.userId,
+        nodeId,
+        resumeToken: wait.resumeToken,
+        approvalDueAt: wait.approvalDueAt,
+        approvalData: wait.output,
+        timestamp: new Date(),
+      });
 
-          await new Promise((resolve) => setTimeout(resolve, this.RETRY_DELAY_MS * attempt));
-        }
-      } catch (error) {
-        lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.log(
+        `[Workflow Engine] Execution ${executionId} paused for approval at node ${nodeId}`
+      );
+    }
 
-        if (attempt < this.MAX_RETRIES) {
-          // Emit retry event
-          this.eventEmitter.emit('node.retry', {
-            executionId,
-            nodeId: node.nodeId,
-            nodeType: node.type,
-            attempt,
-            maxRetries: this.MAX_RETRIES,
-            error: lastError,
-            timestamp: new Date(),
-          });
+    if (!shownApproval) {
+      this.eventEmitter.emit('execution.waiting', {
+        executionId,
+        workflowId: context.workflowId,
+        userId: context.userId,
+        resumeAt,
+        nodeIds: Array.from(waitingNodes.keys()),
+        timestamp: new Date(),
+      });
 
-          await new Promise((resolve) => setTimeout(resolve, this.RETRY_DELAY_MS * attempt));
-        }
-      }
+      console.log(
+        `[Workflow Engine] Execution ${executionId} waiting until ${resumeAt?.toISOString()}`
+      );
     }
+  }
 
-    // All retries failed
-    // Emit node failed event
-    this.eventEmitter.emit('node.failed', {
-      executionId,
-      nodeId: node.nodeId,
-      nodeType: node.type,
-      error: lastError,
-      attempts: this.MAX_RETRIES,
-      timestamp: new Date(),
+  /**
+   * Requeue an execution that paused for approval when none of its approvals is pending anymore
+   * @returns Whether the execution was requeued
+   * @private
+   */
+  private async requeueIfApprovalsDecided(executionId: string): Promise<boolean> {
+    const stillPending = await this.prisma.nodeExecution.count({
+      where: { executionId, status: ExecutionStatus.WAITING, waitingFor: 'approval' },
     });
+    if (stillPending > 0 || !(await this.executionQueue.enqueuePaused(executionId))) {
+      return false;
+    }
 
-    return {
-      success: false,
-      error: lastError || 'Node execution failed after retries',
-    };
+    console.log(
+      `[Workflow Engine] Approvals of execution ${executionId} were decided while it ran, requeued`
+    );
+    this.pollQueue();
+    return true;
   }
 
   /**
-   * Execute a single node
+   * Arm the execution deadline for a run on this worker
+   * The deadline is persisted on the first run so recovered executions keep the original one
+   * @returns Signal that is aborted once the deadline passes
    * @private
    */
-  private async executeNode(
+  private async startDeadline(
     executionId: string,
-    node: NodeConfig,
-    context: ExecutionContext,
-    attempt: number = 1
-  ): Promise<any> {
-    // Create node execution record (only on first attempt)
-    let nodeExecution;
-    if (attempt === 1) {
-      nodeExecution = await this.prisma.nodeExecution.create({
-        data: {
-          executionId,
-          nodeId: node.nodeId,
-          nodeType: node.type,
-          status: ExecutionStatus.RUNNING,
-          input: context.previousNodeOutput as any,
-        },
-      });
-    } else {
-      // Find existing node execution for retry attempts
-      const existingExecutions = await this.prisma.nodeExecution.findMany({
-        where: {
-          executionId,
-          nodeId: node.nodeId,
-        },
-        orderBy: {
-          startedAt: 'desc',
-        },
-        take: 1,
+    definition: WorkflowDefinition,
+    deadlineAt?: Date | null
+  ): Promise<AbortSignal> {
+    const controller = new AbortController();
+    const timeoutMs = definition.settings?.executionTimeoutMs;
+
+    if (!deadlineAt && timeoutMs && timeoutMs > 0) {
+      deadlineAt = new Date(Date.now() + timeoutMs);
+      await this.prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: { deadlineAt },
       });
-      nodeExecution = existingExecutions[0];
     }
 
-    if (!nodeExecution) {
-      throw new Error('Node execution record not found');
+    let timer: NodeJS.Timeout | undefined;
+    if (deadlineAt) {
+      const remainingMs = Math.max(0, deadlineAt.getTime() - Date.now());
+      timer = setTimeout(() => {
+        console.log(`[Workflow Engine] Execution ${executionId} exceeded its deadline`);
+        controller.abort(new Error(DEADLINE_EXCEEDED_MESSAGE));
+      }, remainingMs);
     }
 
-    try {
-      // Get appropriate executor
-      const executor = this.executorFactory.getExecutor(node.type);
-
-      // Execute node
-      const result = await executor.execute(node, context);
-
-      // Update node execution record
-      await this.prisma.nodeExecution.update({
-        where: { id: nodeExecution.id },
-        data: {
-          status: result.success ? ExecutionStatus.COMPLETED : ExecutionStatus.FAILED,
-          output: result.output as any,
-          error: result.error,
-          completedAt: new Date(),
-        },
-      });
+    this.executionDeadlines.set(executionId, { controller, timer });
+    return controller.signal;
+  }
 
-      return result;
-    } catch (error) {
-      // Update node execution with error
-      await this.prisma.nodeExecution.update({
-        where: { id: nodeExecution.id },
-        data: {
-          status: ExecutionStatus.FAILED,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          completedAt: new Date(),
-        },
-      });
+  /**
+   * Check whether the deadline of an execution running on this worker has passed
+   * @private
+   */
+  private isDeadlineExceeded(executionId: string): boolean {
+    return this.executionDeadlines.get(executionId)?.controller.signal.aborted === true;
+  }
 
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+  /**
+   * Disarm the execution deadline once the run stops on this worker
+   * @private
+   */
+  private clearDeadline(executionId: string): void {
+    const deadline = this.executionDeadlines.get(executionId);
+    if (deadline?.timer) {
+      clearTimeout(deadline.timer);
     }
+    this.executionDeadlines.delete(executionId);
   }
 
   /**
-   * Get execution by ID
+   * Build adjacency lists from the workflow edges
+   * Edges leaving the "error" handle are kept apart so they only run on failure,
+   * edges leaving a Loop node's "item" handle so they only run inside the loop
+   * @private
    */
-  async getExecution(executionId: string, userId: string): Promise<WorkflowExecution> {
-    const execution = await this.prisma.workflowExecution.findUnique({
-      where: { id: executionId },
-      include: {
-        nodeExecutions: {
-          orderBy: { startedAt: 'asc' },
-        },
-      },
-    });
+  private buildGraph(edges: WorkflowEdge[]): WorkflowGraph {
+    const adjacencyList = new Map<string, string[]>();
+    const handleAdjacencyList = new Map<string, Map<string, string[]>>();
+    const errorAdjacencyList = new Map<string, string[]>();
+    const loopBodyAdjacencyList = new Map<string, string[]>();
+    const rejectedAdjacencyList = new Map<string, string[]>();
+    const timeoutAdjacencyList = new Map<string, string[]>();
+    const reverseAdjacencyList = new Map<string, string[]>();
+
+    edges.forEach((edge) => {
+      let outgoing = adjacencyList;
+      if (edge.sourceHandle === ERROR_HANDLE) {
+        outgoing = errorAdjacencyList;
+      } else if (edge.sourceHandle === LOOP_ITEM_HANDLE) {
+        outgoing = loopBodyAdjacencyList;
+      } else if (edge.sourceHandle === APPROVAL_REJECTED_HANDLE) {
+        outgoing = rejectedAdjacencyList;
+      } else if (edge.sourceHandle === APPROVAL_TIMEOUT_HANDLE) {
+        outgoing = timeoutAdjacencyList;
+      }
+      if (!outgoing.has(edge.source)) {
+        outgoing.set(edge.source, []);
+      }
+      outgoing.get(edge.source)!.push(edge.target);
 
-    if (!execution) {
-      throw new Error('Execution not found');
-    }
+      if (outgoing === adjacencyList && edge.sourceHandle) {
+        if (!handleAdjacencyList.has(edge.source)) {
+          handleAdjacencyList.set(edge.source, new Map());
+        }
+        const byHandle = handleAdjacencyList.get(edge.source)!;
+        byHandle.set(edge.sourceHandle, [...(byHandle.get(edge.sourceHandle) || []), edge.target]);
+      }
 
-    if (execution.userId !== userId) {
-      throw new Error('Access forbidden');
-    }
+      if (!reverseAdjacencyList.has(edge.target)) {
+        reverseAdjacencyList.set(edge.target, []);
+      }
+      reverseAdjacencyList.get(edge.target)!.push(edge.source);
+    });
 
     return {
-      id: execution.id,
-      workflowId: execution.workflowId,
-      status: execution.status as ExecutionStatus,
-      startedAt: execution.startedAt,
-      completedAt: execution.completedAt || undefined,
-      input: execution.input,
-      output: execution.output,
-      error: execution.error || undefined,
-      nodeExecutions: execution.nodeExecutions.map((ne) => ({
-        nodeId: ne.nodeId,
-        status: ne.status as ExecutionStatus,
-        startedAt: ne.startedAt,
-        completedAt: ne.completedAt || undefined,
-        output: ne.output,
-        error: ne.error || undefined,
-      })),
+      adjacencyList,
+      handleAdjacencyList,
+      errorAdjacencyList,
+      loopBodyAdjacencyList,
+      rejectedAdjacencyList,
+      timeoutAdjacencyList,
+      reverseAdjacencyList,
     };
   }
 
   /**
-   * Get all executions for a workflow
+   * Children to run after a node succeeds
+   * Nodes that pick a branch only continue along the edges of the selected output handle
+   * (or to the node named by nextNodeId), other nodes along all regular outputs. Decided Manual
+   * Approval nodes continue with the approved rows and along the "rejected" handle with the
+   * rejected rows; a side without rows is not taken. Approvals that expired into their timeout
+   * branch only continue along the "timeout" handle
+   * @private
    */
-  async getExecutions(workflowId: string, userId: string, page = 1, limit = 10) {
-    const skip = (page - 1) * limit;
-
-    const [executions, total] = await Promise.all([
-      this.prisma.workflowExecution.findMany({
-        where: { workflowId, userId },
-        skip,
-        take: limit,
-        orderBy: { startedAt: 'desc' },
-      }),
-      this.prisma.workflowExecution.count({ where: { workflowId, userId } }),
-    ]);
+  private getNextChildren(
+    nodeId: string,
+    result: { nextNodeId?: string | null; outputHandle?: string | null; output?: unknown },
+    graph: WorkflowGraph
+  ): string[] {
+    if (result.outputHandle === APPROVAL_TIMEOUT_HANDLE) {
+      return graph.timeoutAdjacencyList.get(nodeId) || [];
+    }
+    const approval = getApprovalSummary(result.output);
+    if (approval) {
+      return [
+        ...(approval.approved > 0 || approval.rejected === 0
+          ? graph.adjacencyList.get(nodeId) || []
+          : []),
+        ...(approval.rejected > 0 ? graph.rejectedAdjacencyList.get(nodeId) || [] : []),
+      ];
+    }
+    if (result.outputHandle) {
+      return graph.handleAdjacencyList.get(nodeId)?.get(result.outputHandle) || [];
+    }
+    if (result.nextNodeId) {
+      return [result.nextNodeId];
+    }
+    return graph.adjacencyList.get(nodeId) || [];
+  }
 
-    return {
-      data: executions.map((e) => ({
-        id: e.id,
-        workflowId: e.workflowId,
-        status: e.status as ExecutionStatus,
-        startedAt: e.startedAt,
-        completedAt: e.completedAt || undefined,
-        error: e.error || undefined,
-      })),
-      total,
-      page,
-      pageSize: limit,
-      totalPages: Math.ceil(total / limit),
-    };
+  /**
+   * Children that receive a failed node's error output
+   * The error branch when one is wired, otherwise the regular outputs (continueOnFailure)
+   * @private
+   */
+  private getErrorChildren(nodeId: string, graph: WorkflowGraph): string[] {
+    const errorChildren = graph.errorAdjacencyList.get(nodeId) || [];
+    return errorChildren.length > 0 ? errorChildren : graph.adjacencyList.get(nodeId) || [];
   }
 
   /**
-   * Event listener for execution.approved
-   * Triggered when PublicAPI approves an execution
+   * Route a node that failed after retries to its error branch
+   * The failure is checkpointed with the "error" output handle so a resumed run takes the same path
+   * @returns Error output and the children to run next, or null if the failure should fail the execution
+   * @private
    */
-  @OnEvent('execution.approved')
-  async handleExecutionApproved(payload: {
-    executionId: string;
-    workflowId: string;
-    userId: string;
-    comment?: string;
-    timestamp: Date;
-  }) {
-    console.log(`[Workflow Engine] Received execution.approved event for ${payload.executionId}`);
+  private async routeNodeFailure(
+    executionId: string,
+    node: NodeConfig,
+    input: unknown,
+    result: any,
+    graph: WorkflowGraph
+  ): Promise<{ output: NodeErrorOutput; children: string[] } | null> {
+    const hasErrorBranch = (graph.errorAdjacencyList.get(node.nodeId) || []).length > 0;
+    if (!hasErrorBranch && !node.continueOnFailure) {
+      return null;
+    }
 
-    try {
-      // Check if execution is still pending approval to prevent duplicate processing
-      const execution = await this.prisma.workflowExecution.findUnique({
-        where: { id: payload.executionId },
-        select: { status: true },
-      });
+    const output: NodeErrorOutput = {
+      error: {
+        message: result.error || 'Node execution failed',
+        kind: result.errorKind,
+        nodeId: node.nodeId,
+        nodeType: node.type,
+        timedOut: result.timedOut === true,
+      },
+      input,
+    };
 
-      if (!execution) {
-        console.error(`[Workflow Engine] Execution ${payload.executionId} not found`);
-        return;
-      }
+    await this.prisma.nodeExecution.updateMany({
+      where: result.nodeExecutionId
+        ? { id: result.nodeExecutionId }
+        : { executionId, nodeId: node.nodeId },
+      data: { output: output as any, outputHandle: ERROR_HANDLE },
+    });
 
-      if (execution.status !== 'pending_approval') {
-        console.log(
-          `[Workflow Engine] Execution ${payload.executionId} already processed (status: ${execution.status}), skipping`
-        );
-        return;
+    console.log(
+      `[Workflow Engine] Node ${node.nodeId} failed, continuing on ${hasErrorBranch ? 'error branch' : 'regular outputs'}`
+    );
+
+    return { output, children: this.getErrorChildren(node.nodeId, graph) };
+  }
+
+  /**
+   * Check whether a queued node can run
+   * Nodes joining with "first" run once any parent continued to them, all others wait until
+   * every parent completed or was skipped
+   * @private
+   */
+  private isNodeReady(
+    nodeId: string,
+    node: NodeConfig | undefined,
+    dependencies: string[],
+    executedNodes: Set<string>,
+    branches: BranchState
+  ): boolean {
+    if (dependencies.length === 0) {
+      return true;
+    }
+
+    if (node?.joinMode === 'first') {
+      return (branches.activatedBy.get(nodeId)?.size || 0) > 0;
+    }
+
+    return dependencies.every((dep) => executedNodes.has(dep) || branches.skippedNodes.has(dep));
+  }
+
+  /**
+   * Parents that continued to a node, in edge order
+   * Parents that were skipped or took another branch don't contribute to its input
+   * @private
+   */
+  private getTakenParents(nodeId: string, dependencies: string[], branches: BranchState): string[] {
+    const activatedBy = branches.activatedBy.get(nodeId);
+    return dependencies.filter((dep) => activatedBy?.has(dep));
+  }
+
+  /**
+   * Continue from a node to the given children and queue the ones that haven't run yet
+   * @private
+   */
+  private takeBranches(
+    nodeId: string,
+    children: string[],
+    branches: BranchState,
+    executedNodes: Set<string>,
+    processingQueue: string[]
+  ) {
+    children.forEach((childId) => {
+      if (!branches.activatedBy.has(childId)) {
+        branches.activatedBy.set(childId, new Set());
       }
+      branches.activatedBy.get(childId)!.add(nodeId);
+
+      if (
+        !executedNodes.has(childId) &&
+        !branches.skippedNodes.has(childId) &&
+        !processingQueue.includes(childId)
+      ) {
+        processingQueue.push(childId);
+      }
+    });
+  }
 
-      await this.resumeExecution(payload.executionId, payload.userId, true, payload.comment);
-    } catch (error) {
-      console.error(
-        `[Workflow Engine] Error handling execution.approved for ${payload.executionId}:`,
-        error
+  /**
+   * Mark nodes as skipped when all their parents are done but none continued to them
+   * Starts from the children of the given nodes and follows skipped nodes down the graph
+   * @private
+   */
+  private async skipUntakenBranches(
+    executionId: string,
+    resolvedNodeIds: string[],
+    nodes: NodeConfig[],
+    graph: WorkflowGraph,
+    executedNodes: Set<string>,
+    branches: BranchState,
+    context: ExecutionContext
+  ) {
+    const successors = (nodeId: string) => [
+      ...(graph.adjacencyList.get(nodeId) || []),
+      ...(graph.errorAdjacencyList.get(nodeId) || []),
+      ...(graph.rejectedAdjacencyList.get(nodeId) || []),
+      ...(graph.timeoutAdjacencyList.get(nodeId) || []),
+    ];
+    const candidates = resolvedNodeIds.flatMap(successors);
+
+    while (candidates.length > 0) {
+      const nodeId = candidates.shift()!;
+      if (
+        executedNodes.has(nodeId) ||
+        branches.skippedNodes.has(nodeId) ||
+        (branches.activatedBy.get(nodeId)?.size || 0) > 0
+      ) {
+        continue;
+      }
+
+      const dependencies = graph.reverseAdjacencyList.get(nodeId) || [];
+      const allParentsDone = dependencies.every(
+        (dep) => executedNodes.has(dep) || branches.skippedNodes.has(dep)
       );
+      if (!allParentsDone) {
+        continue;
+      }
+
+      branches.skippedNodes.add(nodeId);
+      const node = nodes.find((n) => n.nodeId === nodeId);
+      if (node) {
+        await this.recordSkippedNode(executionId, node, context);
+      }
+      candidates.push(...successors(nodeId));
     }
   }
 
   /**
-   * Resume a paused execution after approval/rejection
-   * @param executionId - ID of the paused execution
-   * @param userId - ID of the user approving/rejecting
-   * @param approved - Whether the content was approved
-   * @param comment - Optional comment from reviewer
+   * Persist and broadcast a skipped node
+   * @private
    */
-  async resumeExecution(
+  private async recordSkippedNode(
     executionId: string,
-    userId: string,
-    approved: boolean,
-    comment?: string
-  ): Promise<void> {
-    console.log(
-      `[Workflow Engine] resumeExecution called for ${executionId}, approved=${approved}`
+    node: NodeConfig,
+    context: ExecutionContext
+  ) {
+    const now = new Date();
+    await this.prisma.nodeExecution.create({
+      data: {
+        executionId,
+        nodeId: node.nodeId,
+        nodeType: node.type,
+        status: ExecutionStatus.SKIPPED,
+        startedAt: now,
+        completedAt: now,
+        loopNodeId: context.loop?.nodeId,
+        iteration: context.loop?.index,
+      },
+    });
+
+    this.eventEmitter.emit('node.skipped', {
+      executionId,
+      nodeId: node.nodeId,
+      nodeType: node.type,
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Error for a run that can't make progress
+   * Happens when queued nodes wait on parents that can never run (e.g. unconnected nodes)
+   * @private
+   */
+  private describeStalledNodes(processingQueue: string[], nodes: NodeConfig[]): string {
+    const labels = processingQueue.map(
+      (nodeId) => nodes.find((n) => n.nodeId === nodeId)?.label || nodeId
     );
+    return `Execution stalled: ${labels.join(', ')} can't run because some of their parents will never complete`;
+  }
 
-    // Load the paused execution
-    const execution = await this.prisma.workflowExecution.findUnique({
-      where: { id: executionId },
-      include: {
-        nodeExecutions: {
-          orderBy: { startedAt: 'asc' },
-        },
-      },
+  /**
+   * Build the input of a node from its parents' outputs according to its join mode
+   * A single parent's output is passed through unchanged unless joinMode is "array"
+   * @private
+   */
+  private resolveNodeInput(
+    node: NodeConfig,
+    dependencies: string[],
+    nodeOutputs: Map<string, any>,
+    executedNodes: Set<string>,
+    graph: WorkflowGraph
+  ): { previousOutput: unknown; parentOutputs: Record<string, unknown> } {
+    // Nodes on a Manual Approval node's "rejected" branch receive the rejected rows
+    const outputOf = (parentId: string) =>
+      graph.rejectedAdjacencyList.get(parentId)?.includes(node.nodeId)
+        ? toRejectedOutput(nodeOutputs.get(parentId))
+        : nodeOutputs.get(parentId);
+
+    // Parents that have completed, in arrival order
+    const completedParents = Array.from(executedNodes).filter((id) => dependencies.includes(id));
+    const parentOutputs: Record<string, unknown> = {};
+    completedParents.forEach((id) => {
+      parentOutputs[id] = outputOf(id);
     });
 
-    if (!execution) {
-      console.error(`[Workflow Engine] Execution ${executionId} not found`);
-      throw new Error('Execution not found');
+    const joinMode = node.joinMode || 'merge';
+
+    if (joinMode === 'first') {
+      return { previousOutput: parentOutputs[completedParents[0]], parentOutputs };
     }
 
-    console.log(`[Workflow Engine] Execution status: ${execution.status}`);
-    console.log(`[Workflow Engine] Node executions count: ${execution.nodeExecutions.length}`);
-    execution.nodeExecutions.forEach((ne) => {
-      console.log(`  - Node ${ne.nodeId} (${ne.nodeType}): status=${ne.status}`);
-    });
+    // Wait-for-all modes use edge order so the result doesn't depend on timing
+    const orderedOutputs = dependencies
+      .filter((id, index) => dependencies.indexOf(id) === index)
+      .map((id) => ({ id, output: outputOf(id) }));
 
-    if (execution.status !== 'pending_approval') {
-      console.error(
-        `[Workflow Engine] Execution is not pending approval, status is: ${execution.status}`
-      );
-      throw new Error('Execution is not pending approval');
+    if (joinMode === 'array') {
+      return { previousOutput: orderedOutputs.map((o) => o.output), parentOutputs };
     }
 
-    // Update approval status
-    await this.prisma.workflowExecution.update({
-      where: { id: executionId },
-      data: {
-        approvalStatus: approved ? 'approved' : 'rejected',
-        approvedBy: userId,
-        approvedAt: new Date(),
-      },
+    if (orderedOutputs.length === 1) {
+      return { previousOutput: orderedOutputs[0].output, parentOutputs };
+    }
+
+    const merged: Record<string, unknown> = {};
+    orderedOutputs.forEach(({ id, output }) => {
+      if (output && typeof output === 'object' && !Array.isArray(output)) {
+        Object.assign(merged, output);
+      } else {
+        merged[id] = output;
+      }
     });
 
-    if (!approved) {
-      // Rejection - mark execution as cancelled
-      await this.prisma.workflowExecution.update({
-        where: { id: executionId },
+    return { previousOutput: merged, parentOutputs };
+  }
+
+  /**
+   * Rebuild execution progress from persisted node checkpoints
+   * Completed NodeExecution rows are treated as done and their outputs reused;
+   * nodes interrupted mid-run by a dead worker are marked failed and run again
+   * (side-effecting nodes therefore have at-least-once semantics across restarts)
+   * @private
+   */
+  private async loadCheckpoint(
+    executionId: string,
+    triggerNodeId: string,
+    graph: WorkflowGraph,
+    input?: unknown
+  ): Promise<ExecutionCheckpoint> {
+    const executedNodes = new Set<string>();
+    const nodeOutputs = new Map<string, any>();
+    const nextNodeIds = new Map<string, string | null>();
+    const outputHandles = new Map<string, string | null>();
+    const failedOver = new Set<string>();
+    const branches: BranchState = { activatedBy: new Map(), skippedNodes: new Set() };
+
+    const nodeExecutions = await this.prisma.nodeExecution.findMany({
+      where: { executionId },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    // Node executions left running by a dead worker will never complete
+    const interrupted = nodeExecutions.filter((ne) => ne.status === ExecutionStatus.RUNNING);
+    if (interrupted.length > 0) {
+      await this.prisma.nodeExecution.updateMany({
+        where: { id: { in: interrupted.map((ne) => ne.id) } },
         data: {
-          status: ExecutionStatus.CANCELLED,
-          error: comment || 'Content rejected by reviewer',
+          status: ExecutionStatus.FAILED,
+          error: 'Interrupted: worker stopped before the node completed',
           completedAt: new Date(),
         },
       });
+    }
 
-      // Emit rejection event
-      this.eventEmitter.emit('execution.rejected', {
-        executionId,
-        workflowId: execution.workflowId,
-        userId,
-        comment,
-        timestamp: new Date(),
+    // Waiting Delay nodes complete once their resume time has passed; nodes waiting for a
+    // signal (completed by resumeExecution) and Delay nodes not yet due keep waiting
+    const waitingNodes = new Map<string, WaitingNode>();
+    const now = new Date();
+    for (const ne of nodeExecutions.filter((ne) => ne.status === ExecutionStatus.WAITING)) {
+      if (ne.waitingFor || (ne.resumeAt && ne.resumeAt > now)) {
+        waitingNodes.set(ne.nodeId, {
+          resumeAt: ne.resumeAt || undefined,
+          waitingFor: ne.waitingFor || undefined,
+          resumeToken: ne.resumeToken || undefined,
+          approvalDueAt: ne.approvalDueAt || undefined,
+          output: ne.output,
+          restored: true,
+        });
+        continue;
+      }
+
+      await this.prisma.nodeExecution.update({
+        where: { id: ne.id },
+        data: { status: ExecutionStatus.COMPLETED, completedAt: now },
       });
+      ne.status = ExecutionStatus.COMPLETED;
+      ne.completedAt = now;
 
-      console.log(`[Workflow Engine] Execution ${executionId} rejected by user ${userId}`);
-      return;
+      this.eventEmitter.emit('node.completed', {
+        executionId,
+        nodeId: ne.nodeId,
+        nodeType: ne.nodeType,
+        output: ne.output,
+        attempts: ne.attempts,
+        timestamp: now,
+      });
     }
 
-    // Approval - resume workflow execution
-    console.log(
-      `[Workflow Engine] Execution ${executionId} approved by user ${userId}, resuming...`
-    );
+    // Restore completed nodes in the order they finished (arrival order matters for joins)
+    // Failures routed to an error branch and skipped nodes count as done as well. Loop nodes only count once all
+    // iterations finished; nodes run inside a loop body are redone with their loop.
+    nodeExecutions
+      .filter(
+        (ne) =>
+          ne.iteration === null &&
+          (ne.status === ExecutionStatus.COMPLETED ||
+            ne.status === ExecutionStatus.SKIPPED ||
+            ne.outputHandle === ERROR_HANDLE) &&
+          (ne.nodeType !== NodeType.LOOP || ne.outputHandle !== null)
+      )
+      .sort((a, b) => (a.completedAt?.getTime() || 0) - (b.completedAt?.getTime() || 0))
+      .forEach((ne) => {
+        if (ne.status === ExecutionStatus.SKIPPED) {
+          branches.skippedNodes.add(ne.nodeId);
+          return;
+        }
+        executedNodes.add(ne.nodeId);
+        nodeOutputs.set(ne.nodeId, ne.output);
+        nextNodeIds.set(ne.nodeId, ne.nextNodeId);
+        if (ne.outputHandle === ERROR_HANDLE) {
+          failedOver.add(ne.nodeId);
+        } else if (ne.nodeType !== NodeType.LOOP) {
+          // A Loop node's "done" handle only marks it as finished, it doesn't select a branch
+          outputHandles.set(ne.nodeId, ne.outputHandle);
+        }
+      });
 
-    // Update status to running
-    await this.prisma.workflowExecution.update({
-      where: { id: executionId },
-      data: {
-        status: ExecutionStatus.RUNNING,
-      },
-    });
+    if (!executedNodes.has(triggerNodeId)) {
+      nodeOutputs.set(triggerNodeId, input);
+      return {
+        executedNodes,
+        nodeOutputs,
+        processingQueue: [triggerNodeId],
+        branches,
+        waitingNodes,
+        resumed: executedNodes.size > 0,
+      };
+    }
 
-    // Emit approval event
-    this.eventEmitter.emit('execution.approved', {
-      executionId,
-      workflowId: execution.workflowId,
-      userId,
-      comment,
-      timestamp: new Date(),
+    // Continue from the frontier: children of completed nodes that haven't run yet
+    const processingQueue: string[] = [];
+    executedNodes.forEach((nodeId) => {
+      const children = failedOver.has(nodeId)
+        ? this.getErrorChildren(nodeId, graph)
+        : this.getNextChildren(
+            nodeId,
+            {
+              nextNodeId: nextNodeIds.get(nodeId),
+              outputHandle: outputHandles.get(nodeId),
+              output: nodeOutputs.get(nodeId),
+            },
+            graph
+          );
+
+      this.takeBranches(nodeId, children, branches, executedNodes, processingQueue);
     });
 
-    // Get workflow definition from snapshot
-    const definition = execution.workflowSnapshot as any as WorkflowDefinition;
+    return {
+      executedNodes,
+      nodeOutputs,
+      // Waiting nodes already ran; they complete when due or signalled instead of running again
+      processingQueue: processingQueue.filter((nodeId) => !waitingNodes.has(nodeId)),
+      branches,
+      waitingNodes,
+      // Only outputs reused from a replayed execution: this is the replay's first run
+      resumed: nodeExecutions.some((ne) => !ne.reused),
+    };
+  }
 
-    // Find the manual approval node that was just completed
-    const manualApprovalNodeExecution = execution.nodeExecutions.find(
-      (ne) => ne.nodeType === 'manual_approval' && ne.status === ExecutionStatus.COMPLETED
-    );
+  /**
+   * Run a node as part of the workflow graph
+   * Loop nodes additionally run their body once per item before they complete
+   * @private
+   */
+  private async runNode(
+    executionId: string,
+    node: NodeConfig,
+    context: ExecutionContext,
+    nodes: NodeConfig[],
+    graph: WorkflowGraph
+  ): Promise<any> {
+    const result = await this.executeNodeWithRetry(executionId, node, context);
 
-    if (!manualApprovalNodeExecution) {
-      console.error(`[Workflow Engine] Manual approval node execution not found!`);
-      console.error(
-        `[Workflow Engine] Available node executions:`,
-        execution.nodeExecutions.map((ne) => ({
-          nodeId: ne.nodeId,
-          nodeType: ne.nodeType,
-          status: ne.status,
-        }))
-      );
-      throw new Error('Manual approval node execution not found');
+    if (node.type !== NodeType.LOOP || !result.success) {
+      return result;
     }
 
-    console.log(
-      `[Workflow Engine] Found manual approval node: ${manualApprovalNodeExecution.nodeId}`
-    );
-
-    // Get the approved data (this will be passed to next nodes)
-    const approvedData = execution.approvalData;
-    console.log(`[Workflow Engine] Approved data keys:`, Object.keys(approvedData || {}));
-
-    // Resume execution from the node after manual approval
-    console.log(`[Workflow Engine] Calling resumeFromNode...`);
-    await this.resumeFromNode(
-      executionId,
-      execution.workflowId,
-      execution.userId,
-      definition,
-      manualApprovalNodeExecution.nodeId,
-      approvedData
-    );
-    console.log(`[Workflow Engine] resumeFromNode completed`);
+    return this.runLoop(executionId, node, result, context, nodes, graph);
   }
 
   /**
-   * Resume workflow execution from a specific node
+   * Run the body of a Loop node for every item, up to `concurrency` items at a time
+   * Results are collected in item order; the first failed iteration fails the loop. Body nodes
+   * run through executeNodeWithRetry like any node, with their own timeout and retry policy; the
+   * Loop node's timeout bounds the whole loop, so a hung body node can't stall it until the
+   * execution deadline.
    * @private
    */
-  private async resumeFromNode(
+  private async runLoop(
     executionId: string,
-    workflowId: string,
-    userId: string,
-    definition: WorkflowDefinition,
-    fromNodeId: string,
-    inputData: unknown
-  ): Promise<void> {
+    node: LoopNodeConfig,
+    result: any,
+    context: ExecutionContext,
+    nodes: NodeConfig[],
+    graph: WorkflowGraph
+  ): Promise<any> {
+    const items: unknown[] = result.output?.items || [];
+    const concurrency = Math.max(1, node.config.concurrency || 1);
+    const results: unknown[] = new Array(items.length);
+    let failure: string | undefined;
+    let nextIndex = 0;
+
     console.log(
-      `[Workflow Engine] resumeFromNode called for execution ${executionId}, from node ${fromNodeId}`
+      `[Workflow Engine] Loop ${node.nodeId} iterating ${items.length} item(s), concurrency ${concurrency}`
     );
 
-    // Mark execution as running
-    this.runningExecutions.set(executionId, true);
+    // Body nodes see the loop's signal as the one to combine their own timeout with
+    const loopTimeout = this.createLoopSignal(node, context);
+    const bodyContext: ExecutionContext = { ...context, signal: loopTimeout.signal };
 
-    try {
-      const { nodes, edges } = definition;
-      console.log(`[Workflow Engine] Workflow has ${nodes.length} nodes and ${edges.length} edges`);
+    const worker = async () => {
+      while (nextIndex < items.length && !failure) {
+        const index = nextIndex++;
+        try {
+          results[index] = await this.runLoopIteration(
+            executionId,
+            node,
+            { nodeId: node.nodeId, item: items[index], index, total: items.length },
+            bodyContext,
+            nodes,
+            graph
+          );
+        } catch (error) {
+          failure ??= `Iteration ${index + 1} of ${items.length} failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`;
+        }
+      }
+    };
 
-      // Build adjacency list
-      const adjacencyList = new Map<string, string[]>();
-      const reverseAdjacencyList = new Map<string, string[]>();
-      const nodeOutputs = new Map<string, any>();
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    } finally {
+      loopTimeout.dispose();
+    }
 
-      edges.forEach((edge) => {
-        if (!adjacencyList.has(edge.source)) {
-          adjacencyList.set(edge.source, []);
-        }
-        adjacencyList.get(edge.source)!.push(edge.target);
+    if (failure) {
+      // The loop's own timeout, not the execution deadline
+      const timedOut = loopTimeout.signal?.aborted === true && !context.signal?.aborted;
 
-        if (!reverseAdjacencyList.has(edge.target)) {
-          reverseAdjacencyList.set(edge.target, []);
-        }
-        reverseAdjacencyList.get(edge.target)!.push(edge.source);
+      await this.prisma.nodeExecution.update({
+        where: { id: result.nodeExecutionId },
+        data: {
+          status: timedOut ? ExecutionStatus.TIMED_OUT : ExecutionStatus.FAILED,
+          error: failure,
+          completedAt: new Date(),
+        },
       });
 
-      // Load execution to get original input
-      const execution = await this.prisma.workflowExecution.findUnique({
-        where: { id: executionId },
-        select: { input: true },
+      this.eventEmitter.emit('node.failed', {
+        executionId,
+        nodeId: node.nodeId,
+        nodeType: node.type,
+        error: failure,
+        errorKind: timedOut ? 'timeout' : undefined,
+        attempts: 1,
+        timestamp: new Date(),
       });
 
-      // Create execution context - preserve original input!
-      const context: ExecutionContext = {
-        executionId,
-        workflowId,
-        userId,
-        variables: definition.variables || {},
-        previousNodeOutput: inputData, // Approved data from manual approval node
-        input: execution?.input || inputData, // Original execution input (csvData, prompt, tone)
+      return {
+        success: false,
+        error: failure,
+        errorKind: timedOut ? 'timeout' : undefined,
+        timedOut,
+        nodeExecutionId: result.nodeExecutionId,
       };
+    }
 
-      // Get already executed nodes from database
-      const executedNodeRecords = await this.prisma.nodeExecution.findMany({
-        where: { executionId },
-      });
-      const executedNodes = new Set(executedNodeRecords.map((ne) => ne.nodeId));
-      console.log(`[Workflow Engine] Already executed nodes:`, Array.from(executedNodes));
+    const output: LoopNodeOutput = { items, results, count: items.length };
+
+    // Checkpoint the loop as done only now that every iteration finished
+    await this.prisma.nodeExecution.update({
+      where: { id: result.nodeExecutionId },
+      data: { output: output as any, outputHandle: LOOP_DONE_HANDLE, completedAt: new Date() },
+    });
 
-      // Start from child nodes of the manual approval node
-      const childNodes = adjacencyList.get(fromNodeId) || [];
-      console.log(`[Workflow Engine] Child nodes of ${fromNodeId}:`, childNodes);
-      const processingQueue: string[] = [...childNodes];
+    return { ...result, output };
+  }
 
-      // Set the output of the manual approval node
-      nodeOutputs.set(fromNodeId, inputData);
+  /**
+   * Run the nodes reachable from a Loop node's "item" handle for a single item
+   * Parents outside the loop body see their outputs from the surrounding run
+   * @returns Output of the last node that ran in this iteration
+   * @private
+   */
+  private async runLoopIteration(
+    executionId: string,
+    loopNode: LoopNodeConfig,
+    loop: LoopIterationContext,
+    context: ExecutionContext,
+    nodes: NodeConfig[],
+    graph: WorkflowGraph
+  ): Promise<unknown> {
+    const nodeOutputs = new Map<string, any>(Object.entries(context.nodeOutputs || {}));
+    nodeOutputs.set(loopNode.nodeId, loop.item);
+    const executedNodes = new Set<string>(nodeOutputs.keys());
+    const branches: BranchState = { activatedBy: new Map(), skippedNodes: new Set() };
+    const processingQueue: string[] = [];
+    this.takeBranches(
+      loopNode.nodeId,
+      graph.loopBodyAdjacencyList.get(loopNode.nodeId) || [],
+      branches,
+      new Set(),
+      processingQueue
+    );
+    let lastOutput: unknown = loop.item;
 
-      // Execute remaining nodes
-      console.log(
-        `[Workflow Engine] Starting execution loop with ${processingQueue.length} nodes in queue`
+    while (processingQueue.length > 0) {
+      if (!this.runningExecutions.get(executionId)) {
+        throw new Error('Execution cancelled');
+      }
+
+      // The execution deadline or the Loop node's timeout
+      if (context.signal?.aborted) {
+        throw this.describeAbort(context.signal);
+      }
+
+      const readyNodes = processingQueue.filter((nodeId) =>
+        this.isNodeReady(
+          nodeId,
+          nodes.find((n) => n.nodeId === nodeId),
+          graph.reverseAdjacencyList.get(nodeId) || [],
+          executedNodes,
+          branches
+        )
       );
-      while (processingQueue.length > 0) {
-        // Check if execution was cancelled
-        if (!this.runningExecutions.get(executionId)) {
-          throw new Error('Execution cancelled');
-        }
 
-        // Get all nodes ready to execute
-        const readyNodes = processingQueue.filter((nodeId) => {
-          const dependencies = reverseAdjacencyList.get(nodeId) || [];
-          return dependencies.every((dep) => executedNodes.has(dep));
-        });
+      if (readyNodes.length === 0) {
+        throw new Error(this.describeStalledNodes(processingQueue, nodes));
+      }
 
-        console.log(
-          `[Workflow Engine] Ready nodes: ${readyNodes.length}, Queue: ${processingQueue.length}`
-        );
+      readyNodes.forEach((nodeId) => {
+        processingQueue.splice(processingQueue.indexOf(nodeId), 1);
+      });
 
-        if (readyNodes.length === 0) {
-          console.log(`[Workflow Engine] No ready nodes, breaking out of loop`);
-          break;
-        }
+      const nodeResults = await Promise.all(
+        readyNodes.map(async (nodeId) => {
+          const node = nodes.find((n) => n.nodeId === nodeId);
+          if (!node) {
+            throw new Error(`Node ${nodeId} not found`);
+          }
 
-        // Remove ready nodes from queue
-        readyNodes.forEach((nodeId) => {
-          const index = processingQueue.indexOf(nodeId);
-          if (index > -1) {
-            processingQueue.splice(index, 1);
+          if (node.type === NodeType.MANUAL_APPROVAL) {
+            throw new Error('Manual approval nodes cannot run inside a loop');
           }
-        });
 
-        // Execute ready nodes in parallel
-        const nodeResults = await Promise.all(
-          readyNodes.map(async (nodeId) => {
-            const node = nodes.find((n) => n.nodeId === nodeId);
-            if (!node) {
-              throw new Error(`Node ${nodeId} not found`);
-            }
+          const { previousOutput, parentOutputs } = this.resolveNodeInput(
+            node,
+            this.getTakenParents(nodeId, graph.reverseAdjacencyList.get(nodeId) || [], branches),
+            nodeOutputs,
+            executedNodes,
+            graph
+          );
 
-            // Get input from previous node(s)
-            const dependencies = reverseAdjacencyList.get(nodeId) || [];
-            const previousOutput =
-              dependencies.length > 0 ? nodeOutputs.get(dependencies[0]) : inputData;
+          const nodeContext: ExecutionContext = {
+            ...context,
+            previousNodeOutput: previousOutput,
+            parentOutputs,
+            nodeOutputs: Object.fromEntries(nodeOutputs),
+            loop,
+          };
 
-            // Update context - preserve original input, only update previousNodeOutput
-            const nodeContext = {
-              ...context,
-              previousNodeOutput: previousOutput,
-              // Keep original input unchanged so nodes can access execution parameters
-            };
+          const result = await this.runNode(executionId, node, nodeContext, nodes, graph);
 
-            // Execute node with retry logic
-            const result = await this.executeNodeWithRetry(executionId, node, nodeContext);
+          return { nodeId, node, input: previousOutput, result };
+        })
+      );
 
-            return { nodeId, result };
-          })
-        );
+      for (const { nodeId, node, input: nodeInput, result } of nodeResults) {
+        let output = result.output;
+        let children: string[];
 
-        // Process results
-        for (const { nodeId, result } of nodeResults) {
-          if (!result.success) {
-            // Node failed
-            await this.prisma.workflowExecution.update({
-              where: { id: executionId },
-              data: {
-                status: ExecutionStatus.FAILED,
-                error: result.error,
-                completedAt: new Date(),
-              },
-            });
+        if (!result.success) {
+          const errorRoute = context.signal?.aborted
+            ? null
+            : await this.routeNodeFailure(executionId, node, nodeInput, result, graph);
+          if (!errorRoute) {
+            throw new Error(`${node.label || nodeId}: ${result.error}`);
+          }
 
-            this.eventEmitter.emit('execution.failed', {
-              executionId,
-              workflowId,
-              userId,
-              error: result.error,
-              timestamp: new Date(),
-            });
+          output = errorRoute.output;
+          children = errorRoute.children;
+        } else {
+          children = this.getNextChildren(nodeId, result, graph);
+        }
 
-            this.runningExecutions.delete(executionId);
-            return;
-          }
+        executedNodes.add(nodeId);
+        nodeOutputs.set(nodeId, output);
+        lastOutput = output;
 
-          // Mark node as executed
-          executedNodes.add(nodeId);
-          nodeOutputs.set(nodeId, result.output);
+        this.takeBranches(nodeId, children, branches, executedNodes, processingQueue);
+      }
 
-          // Add child nodes to queue
-          const children = adjacencyList.get(nodeId) || [];
-          children.forEach((childId) => {
-            if (!executedNodes.has(childId) && !processingQueue.includes(childId)) {
-              processingQueue.push(childId);
-            }
-          });
+      await this.skipUntakenBranches(
+        executionId,
+        readyNodes,
+        nodes,
+        graph,
+        executedNodes,
+        branches,
+        { ...context, loop }
+      );
+    }
+
+    return lastOutput;
+  }
+
+  /**
+   * Execute a single node with retry logic
+   * Attempts, backoff and which errors are retried come from the node's retry policy
+   * @private
+   */
+  private async executeNodeWithRetry(
+    executionId: string,
+    node: NodeConfig,
+    context: ExecutionContext
+  ): Promise<any> {
+    const policy = resolveRetryPolicy(node.retryPolicy, node);
+    let lastError: string | undefined;
+    let lastErrorKind: NodeErrorKind | undefined;
+    let timedOut = false;
+    let nodeExecutionId: string | undefined;
+    let attempt = 0;
+
+    // Emit node started event
+    this.eventEmitter.emit('node.started', {
+      executionId,
+      nodeId: node.nodeId,
+      nodeType: node.type,
+      timestamp: new Date(),
+    });
+
+    while (attempt < policy.maxAttempts) {
+      attempt++;
+
+      let result: any;
+      try {
+        result = await this.executeNode(executionId, node, context, attempt, nodeExecutionId);
+        nodeExecutionId = result.nodeExecutionId;
+      } catch (error) {
+        result = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+
+      if (result.success && (result.resumeAt || result.awaitSignal)) {
+        // Emit node waiting event (node.completed follows once the node resumes)
+        this.eventEmitter.emit('node.waiting', {
+          executionId,
+          nodeId: node.nodeId,
+          nodeType: node.type,
+          resumeAt: result.resumeAt,
+          waitingFor: result.awaitSignal,
+          timestamp: new Date(),
+        });
+
+        return result;
+      }
+
+      if (result.success) {
+        // Emit node completed event
+        this.eventEmitter.emit('node.completed', {
+          executionId,
+          nodeId: node.nodeId,
+          nodeType: node.type,
+          output: result.output,
+          attempts: attempt,
+          timestamp: new Date(),
+        });
+
+        return result;
+      }
+
+      const errorKind: NodeErrorKind =
+        result.errorKind || classifyNodeError(result.error, result.statusCode);
+      lastError = result.error;
+      lastErrorKind = errorKind;
+      timedOut = result.timedOut === true;
+
+      // No point retrying once the execution deadline has passed
+      if (context.signal?.aborted) {
+        break;
+      }
+
+      // Don't retry errors the policy does not cover (e.g. validation or 4xx errors)
+      if (!isRetryableError(policy, errorKind, result.statusCode)) {
+        break;
+      }
+
+      // Wait before retry
+      if (attempt < policy.maxAttempts) {
+        const delayMs = getRetryDelay(policy, attempt);
+
+        // Emit retry event
+        this.eventEmitter.emit('node.retry', {
+          executionId,
+          nodeId: node.nodeId,
+          nodeType: node.type,
+          attempt,
+          maxRetries: policy.maxAttempts,
+          delayMs,
+          error: lastError,
+          errorKind,
+          statusCode: result.statusCode,
+          timestamp: new Date(),
+        });
+
+        // Cancelling or timing out the execution (or the enclosing loop) cuts the wait short
+        await abortableDelay(delayMs, context.signal);
+        if (context.signal?.aborted) {
+          break;
         }
       }
+    }
 
-      // Execution completed successfully
-      const finalOutput = nodeOutputs.get(Array.from(executedNodes).pop() || '');
+    // All retries failed (or the error was not retryable)
+    // Emit node failed event
+    this.eventEmitter.emit('node.failed', {
+      executionId,
+      nodeId: node.nodeId,
+      nodeType: node.type,
+      error: lastError,
+      errorKind: lastErrorKind,
+      attempts: attempt,
+      timestamp: new Date(),
+    });
 
-      await this.prisma.workflowExecution.update({
-        where: { id: executionId },
+    return {
+      success: false,
+      error: lastError || 'Node execution failed after retries',
+      errorKind: lastErrorKind,
+      timedOut,
+      nodeExecutionId,
+    };
+  }
+
+  /**
+   * Execute a single node
+   * @param nodeExecutionId - Record created by the first attempt (retries reuse it)
+   * @private
+   */
+  private async executeNode(
+    executionId: string,
+    node: NodeConfig,
+    context: ExecutionContext,
+    attempt: number = 1,
+    nodeExecutionId?: string
+  ): Promise<any> {
+    // Create node execution record (only on first attempt)
+    let nodeExecution;
+    if (!nodeExecutionId) {
+      nodeExecution = await this.prisma.nodeExecution.create({
         data: {
-          status: ExecutionStatus.COMPLETED,
-          output: finalOutput as any,
-          completedAt: new Date(),
+          executionId,
+          nodeId: node.nodeId,
+          nodeType: node.type,
+          status: ExecutionStatus.RUNNING,
+          input: context.previousNodeOutput as any,
+          loopNodeId: context.loop?.nodeId,
+          iteration: context.loop?.index,
         },
       });
+    } else {
+      // Reuse the node execution record for retry attempts
+      nodeExecution = await this.prisma.nodeExecution.findUnique({
+        where: { id: nodeExecutionId },
+      });
+    }
 
-      this.eventEmitter.emit('execution.completed', {
-        executionId,
-        workflowId,
-        userId,
-        output: finalOutput,
-        timestamp: new Date(),
+    if (!nodeExecution) {
+      throw new Error('Node execution record not found');
+    }
+
+    // Aborted when the node's own timeout or the execution deadline is hit
+    const { signal, dispose } = this.createNodeSignal(node, context);
+
+    try {
+      // Get appropriate executor (side-effecting nodes are only recorded in dry runs)
+      const executor = this.executorFactory.getExecutorFor(node, context.dryRun);
+
+      // Execute node. When the signal fires the node fails at once; an executor still running is
+      // abandoned, not stopped, so side-effecting executors check the signal before each
+      // external call (send, API request) to do nothing more once abandoned
+      const result = await this.raceSignal(executor.execute(node, { ...context, signal }), signal);
+
+      // Update node execution record (waiting nodes complete when they resume)
+      const waiting = result.success && Boolean(result.resumeAt || result.awaitSignal);
+      let status = result.success ? ExecutionStatus.COMPLETED : ExecutionStatus.FAILED;
+      if (waiting) {
+        status = ExecutionStatus.WAITING;
+      }
+      // Signals must present this token to resume the node
+      const resumeToken = waiting && result.awaitSignal ? randomUUID() : undefined;
+      // Approvals are reminded, escalated and decided by their timeout action on schedule, and
+      // only their assigned approvers may decide them
+      const approvalConfig =
+        waiting && result.awaitSignal === 'approval'
+          ? (node as ManualApprovalNodeConfig).config
+          : undefined;
+      const approvalSchedule = approvalConfig && scheduleApproval(approvalConfig, new Date());
+      const approverAssignment = approvalConfig && resolveApproverAssignment(approvalConfig);
+
+      await this.prisma.nodeExecution.update({
+        where: { id: nodeExecution.id },
+        data: {
+          status,
+          output: result.output as any,
+          error: result.error,
+          attempts: attempt,
+          nextNodeId: result.nextNodeId,
+          outputHandle: result.outputHandle,
+          resumeAt: result.resumeAt,
+          resumeToken,
+          waitingFor: waiting ? result.awaitSignal : undefined,
+          ...approvalSchedule,
+          ...approverAssignment,
+          completedAt: waiting ? null : new Date(),
+        },
       });
 
-      this.runningExecutions.delete(executionId);
+      return {
+        ...result,
+        resumeToken,
+        approvalDueAt: approvalSchedule?.approvalDueAt,
+        nodeExecutionId: nodeExecution.id,
+      };
     } catch (error) {
-      // Handle errors
-      await this.prisma.workflowExecution.update({
-        where: { id: executionId },
+      const timedOut = signal?.aborted === true;
+      let message = error instanceof Error ? error.message : 'Unknown error';
+      if (timedOut) {
+        message = context.signal?.aborted
+          ? this.describeAbort(context.signal).message
+          : `Node timed out after ${node.timeoutMs}ms`;
+      }
+
+      // Update node execution with error
+      await this.prisma.nodeExecution.update({
+        where: { id: nodeExecution.id },
         data: {
-          status: ExecutionStatus.FAILED,
-          error: error instanceof Error ? error.message : 'Unknown error',
+          status: timedOut ? ExecutionStatus.TIMED_OUT : ExecutionStatus.FAILED,
+          error: message,
+          attempts: attempt,
           completedAt: new Date(),
         },
       });
 
-      this.eventEmitter.emit('execution.failed', {
+      return {
+        success: false,
+        error: message,
+        errorKind: timedOut ? 'timeout' : undefined,
+        timedOut,
+        nodeExecutionId: nodeExecution.id,
+      };
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Combine the execution deadline with the node's own timeout
+   * @returns The signal (if either applies) and a function to release it once the node is done
+   * @private
+   */
+  private createNodeSignal(
+    node: NodeConfig,
+    context: ExecutionContext
+  ): { signal?: AbortSignal; dispose: () => void } {
+    const signals: AbortSignal[] = [];
+    if (context.signal) {
+      signals.push(context.signal);
+    }
+    if (node.timeoutMs && node.timeoutMs > 0) {
+      signals.push(AbortSignal.timeout(node.timeoutMs));
+    }
+
+    if (signals.length > 1) {
+      return anySignal(signals);
+    }
+    return { signal: signals[0], dispose: () => undefined };
+  }
+
+  /**
+   * Combine the execution deadline with a Loop node's timeout, counted from now
+   * @private
+   */
+  private createLoopSignal(
+    node: LoopNodeConfig,
+    context: ExecutionContext
+  ): { signal?: AbortSignal; dispose: () => void } {
+    if (!node.timeoutMs || node.timeoutMs <= 0) {
+      return { signal: context.signal, dispose: () => undefined };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Loop timed out after ${node.timeoutMs}ms`)),
+      node.timeoutMs
+    );
+    const combined = context.signal
+      ? anySignal([context.signal, controller.signal])
+      : { signal: controller.signal, dispose: () => undefined };
+
+    return {
+      signal: combined.signal,
+      dispose: () => {
+        clearTimeout(timer);
+        combined.dispose();
+      },
+    };
+  }
+
+  /**
+   * Error for an aborted signal: its reason (loop timeout) or the execution deadline
+   * @private
+   */
+  private describeAbort(signal: AbortSignal): Error {
+    return signal.reason instanceof Error ? signal.reason : new Error(DEADLINE_EXCEEDED_MESSAGE);
+  }
+
+  /**
+   * Reject as soon as the signal aborts, even if the promise never settles
+   * @private
+   */
+  private raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Get execution by ID
+   */
+  async getExecution(executionId: string, userId: string): Promise<WorkflowExecution> {
+    const execution = await this.prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      include: {
+        nodeExecutions: {
+          orderBy: { startedAt: 'asc' },
+        },
+        parentExecution: {
+          include: { workflow: { select: { name: true } } },
+        },
+        childExecutions: {
+          include: { workflow: { select: { name: true } } },
+          orderBy: { startedAt: 'asc' },
+        },
+      },
+    });
+
+    if (!execution) {
+      throw new Error('Execution not found');
+    }
+
+    if (execution.userId !== userId) {
+      throw new Error('Access forbidden');
+    }
+
+    return {
+      id: execution.id,
+      workflowId: execution.workflowId,
+      status: execution.status as ExecutionStatus,
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt || undefined,
+      input: execution.input,
+      output: execution.output,
+      error: execution.error || undefined,
+      resumeAt: execution.resumeAt || undefined,
+      dryRun: execution.dryRun || undefined,
+      priority: execution.priority,
+      scheduledFor: execution.scheduledFor || undefined,
+      workflowVersion: execution.workflowVersion ?? undefined,
+      replayOfExecutionId: execution.replayOfExecutionId || undefined,
+      replayFromNodeId: execution.replayFromNodeId || undefined,
+      nodeExecutions: execution.nodeExecutions.map((ne) => ({
+        nodeId: ne.nodeId,
+        status: ne.status as ExecutionStatus,
+        startedAt: ne.startedAt,
+        completedAt: ne.completedAt || undefined,
+        output: ne.output,
+        error: ne.error || undefined,
+        resumeAt: ne.resumeAt || undefined,
+        waitingFor: ne.waitingFor || undefined,
+        resumeToken: ne.resumeToken || undefined,
+        approvalDueAt: ne.approvalDueAt || undefined,
+        reused: ne.reused || undefined,
+      })),
+      parentExecution: execution.parentExecution
+        ? {
+            id: execution.parentExecution.id,
+            workflowId: execution.parentExecution.workflowId,
+            workflowName: execution.parentExecution.workflow.name,
+            status: execution.parentExecution.status as ExecutionStatus,
+            nodeId: execution.parentNodeId || undefined,
+          }
+        : undefined,
+      childExecutions: execution.childExecutions.map((child) => ({
+        id: child.id,
+        workflowId: child.workflowId,
+        workflowName: child.workflow.name,
+        status: child.status as ExecutionStatus,
+        nodeId: child.parentNodeId || undefined,
+      })),
+    };
+  }
+
+  /**
+   * Get all executions for a workflow, with the workflow's queue state
+   * Pending executions carry their position in the workflow's queue
+   */
+  async getExecutions(workflowId: string, userId: string, page = 1, limit = 10) {
+    const skip = (page - 1) * limit;
+
+    const [executions, total, workflow, queuePositions] = await Promise.all([
+      this.prisma.workflowExecution.findMany({
+        where: { workflowId, userId },
+        skip,
+        take: limit,
+        orderBy: { startedAt: 'desc' },
+      }),
+      this.prisma.workflowExecution.count({ where: { workflowId, userId } }),
+      this.prisma.workflow.findUnique({ where: { id: workflowId }, select: { definition: true } }),
+      this.executionQueue.getQueuePositions(workflowId),
+    ]);
+    const settings = (workflow?.definition as any as WorkflowDefinition | undefined)?.settings;
+
+    return {
+      data: executions.map((e) => ({
+        id: e.id,
+        workflowId: e.workflowId,
+        status: e.status as ExecutionStatus,
+        startedAt: e.startedAt,
+        completedAt: e.completedAt || undefined,
+        error: e.error || undefined,
+        resumeAt: e.resumeAt || undefined,
+        parentExecutionId: e.parentExecutionId || undefined,
+        replayOfExecutionId: e.replayOfExecutionId || undefined,
+        dryRun: e.dryRun || undefined,
+        priority: e.priority,
+        queuePosition: queuePositions.get(e.id),
+        scheduledFor: e.scheduledFor || undefined,
+        workflowVersion: e.workflowVersion ?? undefined,
+      })),
+      total,
+      page,
+      pageSize: limit,
+      totalPages: Math.ceil(total / limit),
+      queue: await this.executionQueue.getQueueStats(workflowId, settings?.maxConcurrency),
+    };
+  }
+
+  /**
+   * Decide an approval a paused execution is waiting on
+   * Only the approval's assigned approvers (the execution owner if none are assigned) may vote.
+   * Approvals that require several approvers wait until enough distinct approvers approved; the
+   * row decisions of the approver completing the quorum apply. A single rejection decides at once.
+   * Approved (and edited) rows continue to the next nodes, rejected rows go to the approval node's
+   * "rejected" branch if one is wired. Once no other approval is pending the execution is requeued
+   * and continues from its checkpoints. Rejecting everything without a rejected branch stops the
+   * execution.
+   * @param executionId - ID of the paused execution
+   * @param userId - ID of the user approving/rejecting
+   * @param approved - Whether the content was approved (rows without a row decision follow this)
+   * @param comment - Optional comment from reviewer
+   * @param resumeToken - Token of the approval node to decide (optional while only one is pending)
+   * @param rowDecisions - Per-row approve/reject/edit decisions (only used when approving)
+   * @param expired - Whether the approval node's timeout action decides after its deadline passed
+   */
+  async resumeExecution(
+    executionId: string,
+    userId: string,
+    approved: boolean,
+    comment?: string,
+    resumeToken?: string,
+    rowDecisions?: ApprovalRowDecision[],
+    expired = false
+  ): Promise<ApprovalProgress> {
+    const execution = await this.prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      include: {
+        nodeExecutions: {
+          where: { status: ExecutionStatus.WAITING, waitingFor: 'approval' },
+          orderBy: { startedAt: 'asc' },
+        },
+      },
+    });
+
+    if (!execution) {
+      throw new Error('Execution not found');
+    }
+
+    // The approval node's status decides; the execution may be running a due Delay node
+    if (
+      !APPROVAL_DECIDABLE_STATUSES.includes(execution.status) ||
+      execution.nodeExecutions.length === 0
+    ) {
+      throw new Error('Execution is not pending approval');
+    }
+
+    const pending = execution.nodeExecutions;
+    const nodeExecution = resumeToken
+      ? pending.find((ne) => ne.resumeToken === resumeToken)
+      : pending.length === 1
+        ? pending[0]
+        : undefined;
+
+    if (!nodeExecution) {
+      throw new Error(
+        resumeToken
+          ? 'Invalid resume token or the approval was already decided'
+          : `Execution has ${pending.length} pending approvals; a resume token is required`
+      );
+    }
+
+    const { requiredApprovals } = nodeExecution;
+
+    // The deadline's timeout action decides regardless of votes
+    if (!expired) {
+      const reviewer = await this.getReviewer(userId);
+      if (!isAssignedApprover(nodeExecution, reviewer, execution.userId)) {
+        throw new Error('You are not an assigned approver of this approval');
+      }
+    }
+
+    // Rejected rows only continue when the approval node has a "rejected" branch
+    const definition = execution.workflowSnapshot as any as WorkflowDefinition;
+    const hasRejectedBranch = definition.edges.some(
+      (edge) =>
+        edge.source === nodeExecution.nodeId && edge.sourceHandle === APPROVAL_REJECTED_HANDLE
+    );
+    const stopsExecution = !approved && !hasRejectedBranch;
+
+    const now = new Date();
+    const outcome = decideApprovalRows(
+      nodeExecution.output,
+      approved ? rowDecisions : undefined,
+      approved ? 'approve' : 'reject',
+      { reviewedBy: userId, reviewedAt: now, comment, expired }
+    );
+
+    const remaining = pending.filter((ne) => ne.id !== nodeExecution.id);
+    const nextApproval = stopsExecution ? undefined : remaining[0];
+    const { summary } = outcome;
+
+    let approvalStatus = 'partially_approved';
+    if (nextApproval) {
+      approvalStatus = 'pending_approval';
+    } else if (summary.rejected === 0) {
+      approvalStatus = 'approved';
+    } else if (summary.approved === 0) {
+      approvalStatus = 'rejected';
+    }
+
+    // The vote and the decision it completes are recorded together: a vote whose decision fails
+    // is rolled back, so the reviewer can vote again
+    const progress = await this.prisma.$transaction(async (tx) => {
+      let approvals = requiredApprovals;
+
+      if (!expired) {
+        // Locks the waiting approval, so concurrent votes are counted one after another
+        const waiting = await tx.nodeExecution.updateMany({
+          where: { id: nodeExecution.id, status: ExecutionStatus.WAITING },
+          data: { requiredApprovals },
+        });
+        if (waiting.count === 0) {
+          throw new Error('Approval was already decided');
+        }
+
+        const voted = await tx.approvalVote.findUnique({
+          where: {
+            nodeExecutionId_reviewerId: { nodeExecutionId: nodeExecution.id, reviewerId: userId },
+          },
+        });
+        if (voted) {
+          throw new Error('You already voted on this approval');
+        }
+
+        await tx.approvalVote.create({
+          data: {
+            executionId,
+            nodeExecutionId: nodeExecution.id,
+            reviewerId: userId,
+            approved,
+            comment,
+          },
+        });
+
+        approvals = await tx.approvalVote.count({
+          where: { nodeExecutionId: nodeExecution.id, approved: true },
+        });
+
+        if (approved && approvals < requiredApprovals) {
+          return { decided: false, approvals, requiredApprovals };
+        }
+      }
+
+      // Only one decision per node, even with concurrent reviewers
+      const decided = await tx.nodeExecution.updateMany({
+        where: { id: nodeExecution.id, status: ExecutionStatus.WAITING },
+        data: stopsExecution
+          ? {
+              status: ExecutionStatus.FAILED,
+              error: comment || 'Content rejected by reviewer',
+              resumeToken: null,
+              completedAt: now,
+            }
+          : {
+              status: ExecutionStatus.COMPLETED,
+              output: outcome.output as any,
+              resumeToken: null,
+              completedAt: now,
+            },
+      });
+
+      if (decided.count === 0) {
+        throw new Error('Approval was already decided');
+      }
+
+      await tx.approvalRowDecision.createMany({
+        data: outcome.decisions.map((decision) => ({
+          executionId,
+          nodeExecutionId: nodeExecution.id,
+          nodeId: nodeExecution.nodeId,
+          rowIndex: decision.rowIndex,
+          action: decision.action,
+          originalContent: decision.originalContent,
+          editedContent: decision.generatedContent,
+          comment,
+          reviewerId: userId,
+          decidedAt: now,
+        })),
+      });
+
+      await tx.workflowExecution.update({
+        where: { id: executionId },
+        data: {
+          approvalStatus,
+          approvedBy: userId,
+          approvedAt: now,
+          // Reviewers see the next approval still pending
+          ...(nextApproval && {
+            approvalData: nextApproval.output as any,
+            output: nextApproval.output as any,
+          }),
+          ...(stopsExecution && {
+            status: ExecutionStatus.CANCELLED,
+            error: comment || 'Content rejected by reviewer',
+            completedAt: now,
+            resumeAt: null,
+          }),
+        },
+      });
+
+      return { decided: true, approvals, requiredApprovals };
+    });
+
+    if (!progress.decided) {
+      this.eventEmitter.emit('execution.approval_vote', {
         executionId,
-        workflowId,
+        workflowId: execution.workflowId,
         userId,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        nodeId: nodeExecution.nodeId,
+        approvals: progress.approvals,
+        requiredApprovals,
         timestamp: new Date(),
       });
 
-      this.runningExecutions.delete(executionId);
+      console.log(
+        `[Workflow Engine] Approval at node ${nodeExecution.nodeId} of execution ${executionId} has ${progress.approvals}/${requiredApprovals} approvals`
+      );
+      return progress;
+    }
+
+    if (stopsExecution) {
+      this.eventEmitter.emit('execution.rejected', {
+        executionId,
+        workflowId: execution.workflowId,
+        userId,
+        nodeId: nodeExecution.nodeId,
+        comment,
+        timestamp: now,
+      });
+
+      console.log(
+        `[Workflow Engine] Execution ${executionId} rejected at node ${nodeExecution.nodeId} by user ${userId}`
+      );
+      return progress;
+    }
+
+    this.eventEmitter.emit('node.completed', {
+      executionId,
+      nodeId: nodeExecution.nodeId,
+      nodeType: nodeExecution.nodeType,
+      output: outcome.output,
+      attempts: nodeExecution.attempts,
+      timestamp: now,
+    });
+
+    this.eventEmitter.emit(approved ? 'execution.approved' : 'execution.rejected', {
+      executionId,
+      workflowId: execution.workflowId,
+      userId,
+      nodeId: nodeExecution.nodeId,
+      comment,
+      summary,
+      timestamp: now,
+    });
+
+    console.log(
+      `[Workflow Engine] Node ${nodeExecution.nodeId} of execution ${executionId} decided by user ${userId}: ` +
+        `${summary.approved} approved (${summary.edited} edited), ${summary.rejected} rejected`
+    );
+
+    if (nextApproval) {
+      console.log(
+        `[Workflow Engine] Execution ${executionId} still has ${remaining.length} pending approval(s)`
+      );
+      return progress;
+    }
+
+    // Continue from the checkpoints on whichever worker claims the execution. An execution that
+    // is queued or running already picks the decision up when it continues or pauses again
+    if (await this.executionQueue.enqueuePaused(executionId)) {
+      this.pollQueue();
+    }
+
+    return progress;
+  }
+
+  /**
+   * Approvals of a paused execution the user may see
+   * The owner sees every pending approval, assigned approvers the ones assigned to them
+   * @param executionId - ID of the paused execution
+   * @param userId - ID of the user reviewing
+   */
+  async getPendingApprovals(executionId: string, userId: string) {
+    const execution = await this.prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      include: {
+        nodeExecutions: {
+          where: { status: ExecutionStatus.WAITING, waitingFor: 'approval' },
+          orderBy: { startedAt: 'asc' },
+          include: { votes: { orderBy: { createdAt: 'asc' } } },
+        },
+      },
+    });
+
+    if (!execution) {
+      throw new Error('Execution not found');
+    }
+
+    const reviewer = await this.getReviewer(userId);
+    const isOwner = execution.userId === userId;
+    const approvals = execution.nodeExecutions
+      .map((ne) => ({ ne, assigned: isAssignedApprover(ne, reviewer, execution.userId) }))
+      .filter(({ assigned }) => isOwner || assigned);
+
+    if (!isOwner && approvals.length === 0) {
+      throw new Error('Access forbidden');
+    }
+
+    return {
+      execution,
+      approvals: approvals.map(({ ne, assigned }) => ({
+        nodeId: ne.nodeId,
+        resumeToken: ne.resumeToken,
+        approvalDueAt: ne.approvalDueAt,
+        output: ne.output,
+        requiredApprovals: ne.requiredApprovals,
+        approvals: ne.votes.filter((vote) => vote.approved).length,
+        votes: ne.votes.map((vote) => ({
+          reviewerId: vote.reviewerId,
+          approved: vote.approved,
+          comment: vote.comment,
+          createdAt: vote.createdAt,
+        })),
+        // Assigned approvers vote once
+        canDecide: assigned && !ne.votes.some((vote) => vote.reviewerId === userId),
+      })),
+    };
+  }
+
+  /**
+   * Approvals waiting for a decision from the user, across all workflows
+   * Approvals the user already voted on are left out
+   * @param userId - ID of the user whose inbox to list
+   */
+  async getApprovalInbox(userId: string): Promise<ApprovalInboxItem[]> {
+    const reviewer = await this.getReviewer(userId);
+
+    const pending = await this.prisma.nodeExecution.findMany({
+      where: {
+        status: ExecutionStatus.WAITING,
+        waitingFor: 'approval',
+        execution: { status: ExecutionStatus.PENDING_APPROVAL },
+        votes: { none: { reviewerId: userId } },
+        OR: [
+          { approverUserIds: { has: reviewer.id } },
+          { approverEmails: { has: reviewer.email.toLowerCase() } },
+          { approverRoles: { hasSome: reviewer.roles } },
+          // Unassigned approvals go to the execution owner
+          {
+            approverUserIds: { isEmpty: true },
+            approverEmails: { isEmpty: true },
+            approverRoles: { isEmpty: true },
+            execution: { userId },
+          },
+        ],
+      },
+      include: {
+        execution: {
+          select: { workflowId: true, workflow: { select: { name: true } } },
+        },
+        votes: { where: { approved: true }, select: { id: true } },
+      },
+      orderBy: { startedAt: 'asc' },
+      take: 100,
+    });
+
+    return pending.map((ne) => ({
+      executionId: ne.executionId,
+      workflowId: ne.execution.workflowId,
+      workflowName: ne.execution.workflow.name,
+      nodeId: ne.nodeId,
+      resumeToken: ne.resumeToken,
+      title: (ne.output as any)?.approvalData?.metadata?.title,
+      rowCount: (ne.output as any)?.approvalData?.rows?.length || 0,
+      requiredApprovals: ne.requiredApprovals,
+      approvals: ne.votes.length,
+      approvalDueAt: ne.approvalDueAt || undefined,
+      escalatedAt: ne.escalatedAt || undefined,
+      pausedAt: ne.startedAt,
+    }));
+  }
+
+  /**
+   * Load the user deciding an approval
+   * @private
+   */
+  private async getReviewer(userId: string): Promise<ApprovalReviewer> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, roles: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Send due approval reminders and escalations, and decide approvals whose deadline passed
+   * with their timeout action
+   * @private
+   */
+  private async enforceApprovalSlas(): Promise<void> {
+    const now = new Date();
+    const due = await this.approvalSla.findDue(now);
+
+    for (const nodeExecution of due) {
+      const { executionId, nodeId, approvalDueAt, remindAt, escalateAt } = nodeExecution;
+      const definition = nodeExecution.execution.workflowSnapshot as any as WorkflowDefinition;
+      const node = definition.nodes.find((n) => n.nodeId === nodeId) as
+        | ManualApprovalNodeConfig
+        | undefined;
+      const approval = {
+        executionId,
+        workflowId: nodeExecution.execution.workflowId,
+        userId: nodeExecution.execution.userId,
+        nodeId,
+        resumeToken: nodeExecution.resumeToken,
+        approvalDueAt,
+      };
+
+      try {
+        if (approvalDueAt && approvalDueAt <= now) {
+          await this.expireApproval(nodeExecution, node, definition);
+          continue;
+        }
+
+        const assignees = node?.config.escalationAssignees || [];
+        // Escalation assignees may decide as well; the owner keeps deciding unassigned approvals
+        const escalatedTo = splitAssignees(assignees);
+        if (!hasAssignedApprovers(nodeExecution)) {
+          escalatedTo.userIds.unshift(nodeExecution.execution.userId);
+        }
+
+        if (
+          escalateAt &&
+          escalateAt <= now &&
+          (await this.approvalSla.claimEscalation(nodeExecution.id, escalateAt, now, escalatedTo))
+        ) {
+          this.eventEmitter.emit('execution.approval_escalated', {
+            ...approval,
+            assignees,
+            timestamp: now,
+          });
+
+          console.log(
+            `[Workflow Engine] Approval at node ${nodeId} of execution ${executionId} escalated to ${assignees.join(', ')}`
+          );
+        }
+
+        if (remindAt && remindAt <= now) {
+          const next = nextReminder(node?.config, remindAt, approvalDueAt, now);
+          if (await this.approvalSla.claimReminder(nodeExecution.id, remindAt, next)) {
+            this.eventEmitter.emit('execution.approval_reminder', {
+              ...approval,
+              nextReminderAt: next,
+              timestamp: now,
+            });
+
+            console.log(
+              `[Workflow Engine] Reminded reviewers of approval at node ${nodeId} of execution ${executionId}`
+            );
+          }
+        }
+      } catch (error) {
+        console.error(
+          `[Workflow Engine] Failed to enforce SLA of approval at node ${nodeId} of execution ${executionId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Decide an approval whose deadline passed with the approval node's timeout action
+   * "timeout_branch" rejects like the default action when no "timeout" handle is wired
+   * @private
+   */
+  private async expireApproval(
+    nodeExecution: {
+      id: string;
+      executionId: string;
+      nodeId: string;
+      nodeType: string;
+      attempts: number;
+      output: unknown;
+      resumeToken: string | null;
+      execution: { workflowId: string; userId: string };
+    },
+    node: ManualApprovalNodeConfig | undefined,
+    definition: WorkflowDefinition
+  ): Promise<void> {
+    const { executionId, nodeId } = nodeExecution;
+
+    let timeoutAction = resolveTimeoutAction(node?.config);
+    const hasTimeoutBranch = definition.edges.some(
+      (edge) => edge.source === nodeId && edge.sourceHandle === APPROVAL_TIMEOUT_HANDLE
+    );
+    if (timeoutAction === 'timeout_branch' && !hasTimeoutBranch) {
+      console.warn(
+        `[Workflow Engine] Approval node ${nodeId} has no timeout branch, rejecting expired approval`
+      );
+      timeoutAction = 'reject';
+    }
+
+    // Both paths only decide the approval if no reviewer did so meanwhile
+    if (timeoutAction === 'timeout_branch') {
+      await this.routeApprovalTimeout(nodeExecution);
+    } else {
+      await this.resumeExecution(
+        executionId,
+        APPROVAL_TIMEOUT_REVIEWER,
+        timeoutAction === 'approve',
+        APPROVAL_EXPIRED_MESSAGE,
+        nodeExecution.resumeToken || undefined,
+        undefined,
+        true
+      );
+    }
+
+    this.eventEmitter.emit('execution.approval_expired', {
+      executionId,
+      workflowId: nodeExecution.execution.workflowId,
+      userId: nodeExecution.execution.userId,
+      nodeId,
+      timeoutAction,
+      timestamp: new Date(),
+    });
+
+    console.log(
+      `[Workflow Engine] Approval at node ${nodeId} of execution ${executionId} expired (${timeoutAction})`
+    );
+  }
+
+  /**
+   * Complete an expired approval node along its "timeout" handle with the undecided rows
+   * @private
+   */
+  private async routeApprovalTimeout(nodeExecution: {
+    id: string;
+    executionId: string;
+    nodeId: string;
+    nodeType: string;
+    attempts: number;
+    output: unknown;
+  }): Promise<void> {
+    const { executionId } = nodeExecution;
+    const now = new Date();
+    const output = {
+      ...(nodeExecution.output as Record<string, unknown>),
+      approvalPending: false,
+      approvalExpired: true,
+    };
+
+    const decided = await this.prisma.nodeExecution.updateMany({
+      where: { id: nodeExecution.id, status: ExecutionStatus.WAITING },
+      data: {
+        status: ExecutionStatus.COMPLETED,
+        output: output as any,
+        outputHandle: APPROVAL_TIMEOUT_HANDLE,
+        resumeToken: null,
+        completedAt: now,
+      },
+    });
+
+    if (decided.count === 0) {
+      throw new Error('Approval was already decided');
+    }
+
+    const nextApproval = await this.prisma.nodeExecution.findFirst({
+      where: { executionId, status: ExecutionStatus.WAITING, waitingFor: 'approval' },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    await this.prisma.workflowExecution.update({
+      where: { id: executionId },
+      data: {
+        approvalStatus: nextApproval ? 'pending_approval' : 'expired',
+        // Reviewers see the next approval still pending
+        ...(nextApproval && {
+          approvalData: nextApproval.output as any,
+          output: nextApproval.output as any,
+        }),
+      },
+    });
+
+    this.eventEmitter.emit('node.completed', {
+      executionId,
+      nodeId: nodeExecution.nodeId,
+      nodeType: nodeExecution.nodeType,
+      output,
+      attempts: nodeExecution.attempts,
+      timestamp: now,
+    });
+
+    if (nextApproval) {
+      return;
+    }
+
+    // Continue along the timeout branch on whichever worker claims the execution (a queued or
+    // running execution picks it up when it continues or pauses again)
+    if (await this.executionQueue.enqueuePaused(executionId)) {
+      this.pollQueue();
     }
   }
 }
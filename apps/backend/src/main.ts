@@ -4,20 +4,27 @@
  */
 
 import { NestFactory } from '@nestjs/core';
-import { ValidationPipe } from '@nestjs/common';
+import { RequestMethod, ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
   // Create NestJS application instance
-  const app = await NestFactory.create(AppModule);
+  // Raw bodies are kept for verifying webhook HMAC signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable CORS - Allow all origins for now (temporary)
   app.enableCors({
     origin: true,
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'Accept',
+      'X-Webhook-Secret',
+      'X-Webhook-Signature',
+    ],
   });
 
   // Global validation pipe to automatically validate DTOs
@@ -33,8 +40,10 @@ async function bootstrap() {
     })
   );
 
-  // Set global API prefix
-  app.setGlobalPrefix('api/v1');
+  // Set global API prefix (webhook URLs stay short: /hooks/:webhookId)
+  app.setGlobalPrefix('api/v1', {
+    exclude: [{ path: 'hooks/:webhookId', method: RequestMethod.ALL }],
+  });
 
   // Setup Swagger API documentation
   const config = new DocumentBuilder()
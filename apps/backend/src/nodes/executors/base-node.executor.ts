@@ -11,6 +11,8 @@
 
 import { INodeExecutor, ExecutionContext, NodeExecutionResult } from './node-executor.interface';
 import { NodeConfig } from '@workflow/shared-types';
+import { scriptSandbox } from '../utils/script-sandbox.util';
+import { buildTemplateScope, renderTemplate } from '../utils/template.util';
 
 export abstract class BaseNodeExecutor implements INodeExecutor {
   /**
@@ -69,56 +71,47 @@ export abstract class BaseNodeExecutor implements INodeExecutor {
 
   /**
    * Helper method to evaluate JavaScript expressions safely
-   * Used by conditional and transform nodes
+   * Runs in the script sandbox, so only the given context values and standard built-ins
+   * are available (no require, process or timers)
+   * Used by conditional, switch, loop and input mapping
    * @protected
    */
-  protected evaluateExpression(expression: string, context: Record<string, unknown>): unknown {
+  protected async evaluateExpression(
+    expression: string,
+    context: Record<string, unknown>
+  ): Promise<unknown> {
     try {
-      // Create a function from the expression
-      const func = new Function(...Object.keys(context), `return ${expression}`);
-      return func(...Object.values(context));
+      return await scriptSandbox.evaluate(expression, context);
     } catch (error) {
-      throw new Error(`Failed to evaluate expression: ${error}`);
+      throw new Error(
+        `Failed to evaluate expression: ${error instanceof Error ? error.message : error}`
+      );
     }
   }
 
   /**
-   * Replace variables in string with context values
-   * Supports {{input.field}}, {{previousOutput.field}}, and {{variables.field}} patterns
+   * Helper method to run a script in the sandbox
+   * The script is either a single expression or a function body that uses return
+   * Used by transform nodes
    * @protected
    */
-  protected replaceVariables(template: string, context: ExecutionContext): string {
-    if (!template) return '';
-
-    let result = template;
-
-    // Replace {{input.field}} patterns
-    const inputData = context.input as any;
-    if (inputData) {
-      result = result.replace(/\{\{input\.(\w+(?:\.\w+)*)\}\}/g, (match, path) => {
-        const value = this.getNestedValue(inputData, path);
-        return value !== undefined ? String(value) : match;
-      });
-    }
-
-    // Replace {{previousOutput.field}} patterns
-    const previousOutput = context.previousNodeOutput as any;
-    if (previousOutput) {
-      result = result.replace(/\{\{previousOutput\.(\w+(?:\.\w+)*)\}\}/g, (match, path) => {
-        const value = this.getNestedValue(previousOutput, path);
-        return value !== undefined ? String(value) : match;
-      });
-    }
-
-    // Replace {{variables.field}} patterns
-    if (context.variables) {
-      result = result.replace(/\{\{variables\.(\w+)\}\}/g, (match, key) => {
-        const value = context.variables[key];
-        return value !== undefined ? String(value) : match;
-      });
+  protected async runScript(script: string, context: Record<string, unknown>): Promise<unknown> {
+    try {
+      return await scriptSandbox.runScript(script, context);
+    } catch (error) {
+      throw new Error(`Script failed: ${error instanceof Error ? error.message : error}`);
     }
+  }
 
-    return result;
+  /**
+   * Replace variables in string with context values
+   * Uses the shared template language: {{input.field}}, {{previousOutput.items[0].name}},
+   * {{variables.field}}, {{nodes.<nodeId>.output.path}}, with filters such as
+   * {{input.amount | currency}} or {{input.name | default:"Customer" | upper}}
+   * @protected
+   */
+  protected replaceVariables(template: string, context: ExecutionContext): string {
+    return renderTemplate(template, buildTemplateScope(context));
   }
 
   /**
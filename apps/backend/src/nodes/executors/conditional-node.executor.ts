@@ -34,7 +34,7 @@ export class ConditionalNodeExecutor extends BaseNodeExecutor {
       console.log('[CONDITIONAL DEBUG] Input data:', JSON.stringify(evalContext.input, null, 2));
 
       // Evaluate the condition expression
-      const result = this.evaluateExpression(condition, evalContext);
+      const result = await this.evaluateExpression(condition, evalContext);
       const isTrue = Boolean(result);
 
       console.log('[CONDITIONAL DEBUG] Evaluation result:', isTrue);
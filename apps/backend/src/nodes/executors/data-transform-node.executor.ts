@@ -25,7 +25,7 @@ export class DataTransformNodeExecutor extends BaseNodeExecutor {
 
       // Apply input mapping if specified
       if (inputMapping) {
-        input = this.applyInputMapping(input, inputMapping, context);
+        input = await this.applyInputMapping(input, inputMapping, context);
       }
 
       // Prepare evaluation context
@@ -36,7 +36,7 @@ export class DataTransformNodeExecutor extends BaseNodeExecutor {
       };
 
       // Execute transformation script
-      const result = this.evaluateExpression(transformScript, evalContext);
+      const result = await this.runScript(transformScript, evalContext);
 
       return {
         success: true,
@@ -54,11 +54,11 @@ export class DataTransformNodeExecutor extends BaseNodeExecutor {
    * Apply input mapping to transform input structure
    * @private
    */
-  private applyInputMapping(
+  private async applyInputMapping(
     input: unknown,
     mapping: Record<string, string>,
     context: ExecutionContext
-  ): Record<string, unknown> {
+  ): Promise<Record<string, unknown>> {
     const result: Record<string, unknown> = {};
 
     for (const [targetKey, sourcePath] of Object.entries(mapping)) {
@@ -69,7 +69,7 @@ export class DataTransformNodeExecutor extends BaseNodeExecutor {
           previousOutput: context.previousNodeOutput,
           variables: context.variables,
         };
-        result[targetKey] = this.evaluateExpression(sourcePath, evalContext);
+        result[targetKey] = await this.evaluateExpression(sourcePath, evalContext);
       } catch {
         // If evaluation fails, treat as literal path
         result[targetKey] = this.getNestedValue(input, sourcePath);
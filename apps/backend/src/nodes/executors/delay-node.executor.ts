@@ -1,12 +1,25 @@
 /**
  * Delay Node Executor
- * Pauses workflow execution for a specified duration
+ * Pauses workflow execution for a duration, until a date, or until a time of day
+ *
+ * The executor only computes the resume time; the engine persists it, releases the worker
+ * and the scheduler resumes the execution once it is due. Inside a Loop body the wait
+ * happens in-process, so only short waits are allowed there.
  */
 
 import { Injectable } from '@nestjs/common';
 import { BaseNodeExecutor } from './base-node.executor';
 import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
 import { DelayNodeConfig } from '@workflow/shared-types';
+import {
+  alignToBusinessHours,
+  assertBusinessHours,
+  assertTimeZone,
+  nextTimeOfDay,
+  parseTimeOfDay,
+} from '../utils/business-calendar.util';
+
+const MAX_IN_LOOP_DELAY_MS = 300000; // 5 minutes
 
 @Injectable()
 export class DelayNodeExecutor extends BaseNodeExecutor {
@@ -17,18 +30,67 @@ export class DelayNodeExecutor extends BaseNodeExecutor {
     node: DelayNodeConfig,
     context: ExecutionContext
   ): Promise<NodeExecutionResult> {
-    const { delayMs } = node.config;
-
-    // Wait for specified duration
-    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    let resumeAt: Date;
+    try {
+      resumeAt = this.getResumeAt(node, context, new Date());
+    } catch (error) {
+      return {
+        success: false,
+        error: `Invalid delay: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
 
-    return {
-      success: true,
-      output: {
-        delayed: delayMs,
-        previousOutput: context.previousNodeOutput,
-      },
+    const delayMs = Math.max(0, resumeAt.getTime() - Date.now());
+    const output = {
+      delayed: delayMs,
+      resumeAt: resumeAt.toISOString(),
+      previousOutput: context.previousNodeOutput,
     };
+
+    if (delayMs === 0) {
+      return { success: true, output };
+    }
+
+    if (context.loop) {
+      if (delayMs > MAX_IN_LOOP_DELAY_MS) {
+        return {
+          success: false,
+          error: `Delays inside a loop body cannot exceed ${MAX_IN_LOOP_DELAY_MS}ms (5 minutes)`,
+        };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { success: true, output };
+    }
+
+    // Hand the wait to the engine, which pauses the execution until resumeAt
+    return { success: true, output, resumeAt };
+  }
+
+  /**
+   * Compute when the execution should continue
+   * @private
+   */
+  private getResumeAt(node: DelayNodeConfig, context: ExecutionContext, now: Date): Date {
+    const { mode = 'duration', delayMs = 0, until, timeOfDay, businessHours } = node.config;
+    const timeZone = node.config.timezone || 'UTC';
+
+    if (mode === 'time_of_day') {
+      return nextTimeOfDay(now, timeOfDay || '', timeZone, businessHours);
+    }
+
+    let resumeAt: Date;
+    if (mode === 'until') {
+      const value = this.replaceVariables(until || '', context);
+      resumeAt = new Date(value);
+      if (Number.isNaN(resumeAt.getTime())) {
+        throw new Error(`"${value}" is not a valid date`);
+      }
+    } else {
+      resumeAt = new Date(now.getTime() + delayMs);
+    }
+
+    return businessHours ? alignToBusinessHours(resumeAt, businessHours, timeZone) : resumeAt;
   }
 
   /**
@@ -37,13 +99,42 @@ export class DelayNodeExecutor extends BaseNodeExecutor {
   validate(node: DelayNodeConfig): boolean {
     super.validate(node);
 
-    if (node.config?.delayMs === undefined || node.config.delayMs < 0) {
-      throw new Error('Delay node must have a valid delayMs (>= 0)');
+    const {
+      mode = 'duration',
+      delayMs,
+      until,
+      timeOfDay,
+      timezone,
+      businessHours,
+    } = node.config || {};
+
+    switch (mode) {
+      case 'duration':
+        if (typeof delayMs !== 'number' || delayMs < 0) {
+          throw new Error('Delay node must have a valid delayMs (>= 0)');
+        }
+        break;
+
+      case 'until':
+        if (!until) {
+          throw new Error('Delay node must have an "until" date');
+        }
+        break;
+
+      case 'time_of_day':
+        parseTimeOfDay(timeOfDay || '');
+        break;
+
+      default:
+        throw new Error(`Unknown delay mode "${mode}"`);
+    }
+
+    if (timezone) {
+      assertTimeZone(timezone);
     }
 
-    if (node.config.delayMs > 300000) {
-      // Max 5 minutes for MVP
-      throw new Error('Delay cannot exceed 300000ms (5 minutes)');
+    if (businessHours) {
+      assertBusinessHours(businessHours);
     }
 
     return true;
@@ -0,0 +1,295 @@
+/**
+ * Dry Run Node Executor
+ * Records what side-effecting nodes would do instead of doing it
+ *
+ * Dry-run executions use this executor in place of the Email, WhatsApp and Google Calendar
+ * executors and for HTTP Request nodes with a method other than GET. Templates are rendered and
+ * credentials resolved like in a real run, so reviewers see the exact messages that would have
+ * gone out; the output mimics the provider's response, marked with `dryRun: true`, and the
+ * request that would have been sent is kept under `recorded`.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { BaseNodeExecutor } from './base-node.executor';
+import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
+import {
+  NodeConfig,
+  NodeType,
+  HttpMethod,
+  EmailNodeConfig,
+  WhatsAppNodeConfig,
+  GoogleCalendarNodeConfig,
+  HttpRequestNodeConfig,
+} from '@workflow/shared-types';
+import { CredentialsService } from '../../integrations/credentials/credentials.service';
+import { formatWhatsAppNumber } from './whatsapp-node.executor';
+
+// Header values that are not written to the recording
+const SECRET_HEADER_PATTERN = /authorization|token|secret|key|cookie/i;
+
+@Injectable()
+export class DryRunNodeExecutor extends BaseNodeExecutor {
+  constructor(private readonly credentialsService: CredentialsService) {
+    super();
+  }
+
+  /**
+   * Whether a node is recorded instead of executed in a dry run
+   * @param node - The node configuration
+   */
+  records(node: NodeConfig): boolean {
+    switch (node.type) {
+      case NodeType.EMAIL:
+      case NodeType.WHATSAPP:
+      case NodeType.GOOGLE_CALENDAR:
+        return true;
+      case NodeType.HTTP_REQUEST:
+        return (node as HttpRequestNodeConfig).config?.method !== HttpMethod.GET;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record the node
+   */
+  protected async executeInternal(
+    node: NodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    switch (node.type) {
+      case NodeType.EMAIL:
+        return this.recordEmail(node as EmailNodeConfig, context);
+      case NodeType.WHATSAPP:
+        return this.recordWhatsApp(node as WhatsAppNodeConfig, context);
+      case NodeType.GOOGLE_CALENDAR:
+        return this.recordCalendarEvent(node as GoogleCalendarNodeConfig, context);
+      case NodeType.HTTP_REQUEST:
+        return this.recordHttpRequest(node as HttpRequestNodeConfig, context);
+      default:
+        return { success: false, error: `Dry runs cannot record ${node.type} nodes` };
+    }
+  }
+
+  /**
+   * Record an email (SendGrid accepts it with 202)
+   * @private
+   */
+  private async recordEmail(
+    node: EmailNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { config } = node;
+    const credentialData = await this.credentialsService.getCredentialData(
+      config.credentialId,
+      context.userId
+    );
+
+    const recipients = this.replaceVariables(config.to, context)
+      .split(',')
+      .map((email) => email.trim())
+      .filter((email) => email.length > 0);
+
+    if (recipients.length === 0) {
+      return { success: false, error: 'No valid recipients found' };
+    }
+
+    const subject = this.replaceVariables(config.subject, context);
+    const from = {
+      email: config.from ? this.replaceVariables(config.from, context) : credentialData.fromEmail,
+      name: config.fromName
+        ? this.replaceVariables(config.fromName, context)
+        : credentialData.fromName,
+    };
+
+    console.log(`[Dry Run] Would send email "${subject}" to ${recipients.join(', ')}`);
+
+    return {
+      success: true,
+      output: {
+        dryRun: true,
+        messageId: `dry-run-${randomUUID()}`,
+        statusCode: 202,
+        recipients,
+        subject,
+        sentAt: new Date().toISOString(),
+        recorded: {
+          from,
+          to: recipients,
+          subject,
+          html: this.replaceVariables(config.body, context),
+          attachments: (config.attachments || []).map((attachment) => attachment.filename),
+        },
+      },
+    };
+  }
+
+  /**
+   * Record WhatsApp messages, one per input row in batch mode (Twilio queues them)
+   * @private
+   */
+  private async recordWhatsApp(
+    node: WhatsAppNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { config } = node;
+    const credentialData = await this.credentialsService.getCredentialData(
+      config.credentialId,
+      context.userId
+    );
+    const from = formatWhatsAppNumber(credentialData.phoneNumber || '');
+
+    // Same message as WhatsAppNodeExecutor renders for the given context
+    const render = (messageContext: ExecutionContext) => ({
+      sid: `SM${randomUUID().replace(/-/g, '')}`,
+      to: formatWhatsAppNumber(this.replaceVariables(config.to, messageContext)),
+      body: this.replaceVariables(config.message, messageContext),
+      mediaUrl: config.mediaUrl
+        ? this.replaceVariables(config.mediaUrl, messageContext)
+        : undefined,
+    });
+
+    const rows = (context.input as any)?.rows;
+    if (Array.isArray(rows) && rows.length > 0) {
+      const messages = rows.map((row) => ({
+        row,
+        ...render({
+          ...context,
+          input: { customerData: row, generatedContent: row.generated_content || '', ...row },
+        }),
+      }));
+
+      console.log(`[Dry Run] Would send ${messages.length} WhatsApp message(s) from ${from}`);
+
+      return {
+        success: true,
+        output: {
+          dryRun: true,
+          batchMode: true,
+          totalRows: rows.length,
+          successCount: rows.length,
+          failureCount: 0,
+          results: messages.map(({ row, sid, to }) => ({
+            customerId: row.customerId || row.id || 'unknown',
+            success: true,
+            messageSid: sid,
+            status: 'queued',
+            to,
+          })),
+          recorded: messages.map(({ to, body, mediaUrl }) => ({ from, to, body, mediaUrl })),
+        },
+      };
+    }
+
+    const message = render(context);
+    console.log(`[Dry Run] Would send WhatsApp message to ${message.to}`);
+
+    return {
+      success: true,
+      output: {
+        dryRun: true,
+        batchMode: false,
+        messageSid: message.sid,
+        status: 'queued',
+        to: message.to,
+        from,
+        body: message.body,
+        numSegments: String(Math.max(1, Math.ceil(message.body.length / 160))),
+        dateCreated: new Date(),
+        recorded: { from, to: message.to, body: message.body, mediaUrl: message.mediaUrl },
+      },
+    };
+  }
+
+  /**
+   * Record a calendar event (invitations would be sent to all attendees)
+   * @private
+   */
+  private async recordCalendarEvent(
+    node: GoogleCalendarNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { config } = node;
+    // Fails like a real run when the credential is missing or inactive
+    await this.credentialsService.getCredentialData(config.credentialId, context.userId);
+
+    const eventId = `dryrun${randomUUID().replace(/-/g, '')}`;
+    const summary = this.replaceVariables(config.summary, context);
+    const startTime = this.replaceVariables(config.startTime, context);
+    const endTime = this.replaceVariables(config.endTime, context);
+    const attendees = this.replaceVariables(config.attendees, context)
+      .split(',')
+      .map((email) => email.trim())
+      .filter((email) => email.length > 0);
+
+    if (attendees.length === 0) {
+      return { success: false, error: 'No valid attendees found' };
+    }
+
+    console.log(`[Dry Run] Would create calendar event "${summary}" for ${attendees.join(', ')}`);
+
+    return {
+      success: true,
+      output: {
+        dryRun: true,
+        eventId,
+        eventLink: `https://www.google.com/calendar/event?eid=${eventId}`,
+        meetLink: config.createMeet ? 'https://meet.google.com/dry-run' : undefined,
+        summary,
+        startTime,
+        endTime,
+        attendees,
+        createdAt: new Date().toISOString(),
+        recorded: {
+          summary,
+          description: config.description
+            ? this.replaceVariables(config.description, context)
+            : undefined,
+          start: startTime,
+          end: endTime,
+          timeZone: config.timezone || 'UTC',
+          attendees,
+          createMeet: config.createMeet === true,
+        },
+      },
+    };
+  }
+
+  /**
+   * Record an HTTP request that would change data on the other end
+   * Secret header values (authorization, tokens, keys) are redacted from the recording
+   * @private
+   */
+  private async recordHttpRequest(
+    node: HttpRequestNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { url, method, headers, body } = node.config;
+    const processedUrl = this.replaceVariables(url, context);
+    const processedBody = body ? this.replaceVariables(body, context) : undefined;
+
+    const recordedHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+      recordedHeaders[name] = SECRET_HEADER_PATTERN.test(name)
+        ? '[redacted]'
+        : this.replaceVariables(value, context);
+    }
+
+    // Same validation as a real request: the body must be JSON
+    const recordedBody = processedBody ? JSON.parse(processedBody) : undefined;
+
+    console.log(`[Dry Run] Would send ${method} ${processedUrl}`);
+
+    return {
+      success: true,
+      output: {
+        dryRun: true,
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        data: {},
+        recorded: { method, url: processedUrl, headers: recordedHeaders, body: recordedBody },
+      },
+    };
+  }
+}
@@ -86,7 +86,8 @@ export class EmailNodeExecutor extends BaseNodeExecutor {
         }));
       }
 
-      // Send email
+      // Send email (not once the engine aborted the node; SendGrid calls can't be cancelled)
+      context.signal?.throwIfAborted();
       const response = await sgMail.send(msg);
 
       return {
@@ -108,6 +109,7 @@ export class EmailNodeExecutor extends BaseNodeExecutor {
         return {
           success: false,
           error: `SendGrid error: ${sgError.response?.body?.errors?.[0]?.message || sgError.message}`,
+          statusCode: typeof sgError.code === 'number' ? sgError.code : undefined,
         };
       }
 
@@ -0,0 +1,128 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ExecuteWorkflowNodeConfig, ExecutionStatus, NodeType } from '@workflow/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ExecuteWorkflowNodeExecutor } from './execute-workflow-node.executor';
+import { ExecutionContext } from './node-executor.interface';
+
+const node: ExecuteWorkflowNodeConfig = {
+  nodeId: 'sub',
+  type: NodeType.EXECUTE_WORKFLOW,
+  label: 'Sub-workflow',
+  position: { x: 0, y: 0 },
+  config: { workflowId: 'child-wf' },
+};
+
+const context: ExecutionContext = {
+  executionId: 'parent-exec',
+  workflowId: 'parent-wf',
+  userId: 'user-1',
+  input: {},
+  variables: {},
+  previousNodeOutput: { orderId: 7 },
+};
+
+function createExecutor(startedChild: unknown) {
+  const prisma = {
+    workflow: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'child-wf',
+        name: 'Child',
+        userId: 'user-1',
+        isActive: true,
+        definition: { nodes: [], edges: [] },
+        publishedVersion: null,
+      }),
+    },
+    workflowExecution: {
+      findFirst: jest.fn().mockResolvedValue(startedChild),
+      findUnique: jest
+        .fn()
+        .mockImplementation(({ where }) =>
+          Promise.resolve(
+            where.id === 'parent-exec'
+              ? { parentExecutionId: null }
+              : { id: where.id, status: ExecutionStatus.COMPLETED, output: { sent: true } }
+          )
+        ),
+      create: jest.fn().mockResolvedValue({ id: 'new-child' }),
+    },
+  };
+  const eventEmitter = { emit: jest.fn() };
+  const executor = new ExecuteWorkflowNodeExecutor(
+    prisma as unknown as PrismaService,
+    eventEmitter as unknown as EventEmitter2
+  );
+  return { executor, prisma, eventEmitter };
+}
+
+describe('ExecuteWorkflowNodeExecutor', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('starts a child execution linked to the node and waits for its output', async () => {
+    const { executor, prisma, eventEmitter } = createExecutor(null);
+
+    await expect(executor.execute(node, context)).resolves.toEqual({
+      success: true,
+      output: { sent: true },
+    });
+    expect(prisma.workflowExecution.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        parentExecutionId: 'parent-exec',
+        parentNodeId: 'sub',
+        parentIteration: null,
+        input: { orderId: 7 },
+      }),
+    });
+    expect(eventEmitter.emit).toHaveBeenCalledWith('execution.child_start', {
+      executionId: 'new-child',
+      parentExecutionId: 'parent-exec',
+    });
+  });
+
+  it('waits on the child a previous attempt started instead of starting another one', async () => {
+    const { executor, prisma, eventEmitter } = createExecutor({
+      id: 'earlier-child',
+      status: ExecutionStatus.RUNNING,
+    });
+
+    await expect(executor.execute(node, context)).resolves.toEqual({
+      success: true,
+      output: { sent: true },
+    });
+    expect(prisma.workflowExecution.create).not.toHaveBeenCalled();
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+    expect(prisma.workflowExecution.findUnique).toHaveBeenCalledWith({
+      where: { id: 'earlier-child' },
+    });
+  });
+
+  it('looks children up per loop iteration and skips the ones that failed', async () => {
+    const { executor, prisma } = createExecutor(null);
+
+    await executor.execute(node, {
+      ...context,
+      loop: { nodeId: 'loop', item: 'b', index: 1, total: 3 },
+    });
+
+    expect(prisma.workflowExecution.findFirst).toHaveBeenCalledWith({
+      where: {
+        parentExecutionId: 'parent-exec',
+        parentNodeId: 'sub',
+        parentIteration: 1,
+        status: {
+          notIn: [ExecutionStatus.FAILED, ExecutionStatus.CANCELLED, ExecutionStatus.TIMED_OUT],
+        },
+      },
+      orderBy: { startedAt: 'desc' },
+    });
+    expect(prisma.workflowExecution.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ parentIteration: 1 }),
+    });
+  });
+});
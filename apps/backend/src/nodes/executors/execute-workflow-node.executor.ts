@@ -0,0 +1,274 @@
+/**
+ * Execute Workflow Node Executor
+ * Runs another saved workflow as a child execution and returns its output
+ *
+ * The child is persisted as a pending execution linked to its parent and handed to the
+ * workflow engine through the execution.child_start event (the engine depends on the node
+ * executors, so executors can't call it directly). Completion is detected by polling the
+ * child's status, which also works when another worker instance runs the child.
+ * Retries and recovered runs of the node wait on the child it already started instead of
+ * starting another one; only a child that failed, was cancelled or timed out is started again.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BaseNodeExecutor } from './base-node.executor';
+import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ExecuteWorkflowNodeConfig, ExecutionStatus } from '@workflow/shared-types';
+import {
+  getPublishedDefinition,
+  PUBLISHED_VERSION_INCLUDE,
+} from '../../workflows/utils/workflow-version.util';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_DEPTH = 5;
+
+const FINISHED_STATUSES: string[] = [
+  ExecutionStatus.COMPLETED,
+  ExecutionStatus.FAILED,
+  ExecutionStatus.CANCELLED,
+  ExecutionStatus.TIMED_OUT,
+];
+
+@Injectable()
+export class ExecuteWorkflowNodeExecutor extends BaseNodeExecutor {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2
+  ) {
+    super();
+  }
+
+  /**
+   * Start the child execution and wait for it (unless fire-and-forget)
+   */
+  protected async executeInternal(
+    node: ExecuteWorkflowNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { workflowId, inputMapping, waitForCompletion = true } = node.config;
+
+    try {
+      const workflow = await this.prisma.workflow.findUnique({
+        where: { id: workflowId },
+        include: PUBLISHED_VERSION_INCLUDE,
+      });
+
+      if (!workflow || workflow.userId !== context.userId) {
+        return { success: false, error: `Workflow ${workflowId} not found` };
+      }
+
+      if (!workflow.isActive) {
+        return { success: false, error: `Workflow ${workflow.name} is not active` };
+      }
+
+      const depth = await this.getExecutionDepth(context.executionId);
+      if (depth >= MAX_DEPTH) {
+        return {
+          success: false,
+          error: `Sub-workflows can be nested at most ${MAX_DEPTH} levels deep`,
+        };
+      }
+
+      const existing = await this.findStartedChild(node, context);
+      if (existing) {
+        console.log(
+          `[Execute Workflow] Reusing child execution ${existing.id} of workflow ${workflow.name}`
+        );
+
+        if (!waitForCompletion) {
+          return {
+            success: true,
+            output: { executionId: existing.id, workflowId, status: existing.status },
+          };
+        }
+
+        return await this.waitForChild(existing.id, workflowId, context);
+      }
+
+      const input = inputMapping
+        ? await this.applyInputMapping(inputMapping, context)
+        : context.previousNodeOutput;
+
+      // Sub-workflows run their published version, not the draft being edited
+      const { definition, version } = getPublishedDefinition(workflow);
+
+      // Create the child execution in the queue, linked to this execution
+      const child = await this.prisma.workflowExecution.create({
+        data: {
+          workflowId,
+          userId: context.userId,
+          status: ExecutionStatus.PENDING,
+          queuedAt: new Date(),
+          input: input as any,
+          workflowSnapshot: definition as any,
+          workflowVersion: version,
+          parentExecutionId: context.executionId,
+          parentNodeId: node.nodeId,
+          parentIteration: context.loop?.index ?? null,
+          dryRun: context.dryRun === true, // Sub-workflows of a dry run are dry runs too
+        },
+      });
+
+      console.log(
+        `[Execute Workflow] Started child execution ${child.id} of workflow ${workflow.name}`
+      );
+
+      this.eventEmitter.emit('execution.child_start', {
+        executionId: child.id,
+        parentExecutionId: context.executionId,
+      });
+
+      if (!waitForCompletion) {
+        return {
+          success: true,
+          output: {
+            executionId: child.id,
+            workflowId,
+            status: ExecutionStatus.PENDING,
+          },
+        };
+      }
+
+      return await this.waitForChild(child.id, workflowId, context);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Sub-workflow failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Find the child this node already started in this execution (and loop iteration)
+   * Children that failed, were cancelled or timed out don't count, so a retry starts a new one
+   * @private
+   */
+  private async findStartedChild(node: ExecuteWorkflowNodeConfig, context: ExecutionContext) {
+    return this.prisma.workflowExecution.findFirst({
+      where: {
+        parentExecutionId: context.executionId,
+        parentNodeId: node.nodeId,
+        parentIteration: context.loop?.index ?? null,
+        status: {
+          notIn: [ExecutionStatus.FAILED, ExecutionStatus.CANCELLED, ExecutionStatus.TIMED_OUT],
+        },
+      },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Poll the child execution until it finishes
+   * If this node is aborted (timeout or deadline) the child is cancelled as well
+   * @private
+   */
+  private async waitForChild(
+    childExecutionId: string,
+    workflowId: string,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    let child = await this.prisma.workflowExecution.findUnique({
+      where: { id: childExecutionId },
+    });
+
+    while (child && !FINISHED_STATUSES.includes(child.status)) {
+      if (context.signal?.aborted) {
+        await this.prisma.workflowExecution.updateMany({
+          where: {
+            id: childExecutionId,
+            status: { in: [ExecutionStatus.PENDING, ExecutionStatus.RUNNING] },
+          },
+          data: {
+            status: ExecutionStatus.CANCELLED,
+            error: 'Cancelled because the parent execution stopped waiting',
+            completedAt: new Date(),
+          },
+        });
+        context.signal.throwIfAborted();
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+      child = await this.prisma.workflowExecution.findUnique({
+        where: { id: childExecutionId },
+      });
+    }
+
+    if (!child) {
+      return { success: false, error: `Child execution ${childExecutionId} not found` };
+    }
+
+    if (child.status !== ExecutionStatus.COMPLETED) {
+      return {
+        success: false,
+        error: `Sub-workflow ${child.status}: ${child.error || 'no error message'}`,
+        output: { executionId: child.id, workflowId, status: child.status },
+      };
+    }
+
+    return {
+      success: true,
+      output: child.output,
+    };
+  }
+
+  /**
+   * Count the parent executions above the current one
+   * @private
+   */
+  private async getExecutionDepth(executionId: string): Promise<number> {
+    let depth = 0;
+    let current = await this.prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      select: { parentExecutionId: true },
+    });
+
+    while (current?.parentExecutionId && depth < MAX_DEPTH) {
+      depth++;
+      current = await this.prisma.workflowExecution.findUnique({
+        where: { id: current.parentExecutionId },
+        select: { parentExecutionId: true },
+      });
+    }
+
+    return depth;
+  }
+
+  /**
+   * Build the child input from the mapping expressions
+   * @private
+   */
+  private async applyInputMapping(
+    mapping: Record<string, string>,
+    context: ExecutionContext
+  ): Promise<Record<string, unknown>> {
+    const evalContext = {
+      input: context.previousNodeOutput,
+      previousOutput: context.previousNodeOutput,
+      variables: context.variables,
+      executionInput: context.input,
+    };
+
+    const result: Record<string, unknown> = {};
+    for (const [targetKey, expression] of Object.entries(mapping)) {
+      result[targetKey] = await this.evaluateExpression(expression, evalContext);
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate execute workflow node configuration
+   */
+  validate(node: ExecuteWorkflowNodeConfig): boolean {
+    super.validate(node);
+
+    if (!node.config?.workflowId) {
+      throw new Error('Execute workflow node must have a workflowId');
+    }
+
+    return true;
+  }
+}
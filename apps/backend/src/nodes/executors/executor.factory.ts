@@ -9,17 +9,22 @@
  */
 
 import { Injectable } from '@nestjs/common';
-import { NodeType } from '@workflow/shared-types';
+import { NodeConfig, NodeType } from '@workflow/shared-types';
 import { INodeExecutor } from './node-executor.interface';
 import { TriggerNodeExecutor } from './trigger-node.executor';
+import { WebhookNodeExecutor } from './webhook-node.executor';
 import { HttpRequestNodeExecutor } from './http-request-node.executor';
 import { ConditionalNodeExecutor } from './conditional-node.executor';
+import { SwitchNodeExecutor } from './switch-node.executor';
 import { DataTransformNodeExecutor } from './data-transform-node.executor';
 import { DelayNodeExecutor } from './delay-node.executor';
 import { EmailNodeExecutor } from './email-node.executor';
 import { GoogleCalendarNodeExecutor } from './google-calendar-node.executor';
 import { WhatsAppNodeExecutor } from './whatsapp-node.executor';
 import { ManualApprovalNodeExecutor } from './manual-approval-node.executor';
+import { LoopNodeExecutor } from './loop-node.executor';
+import { ExecuteWorkflowNodeExecutor } from './execute-workflow-node.executor';
+import { DryRunNodeExecutor } from './dry-run-node.executor';
 import { CSVUploadNodeExecutor } from '../../bfsi/executors/csv-upload.executor';
 import { AIContentGeneratorNodeExecutor } from '../../bfsi/executors/ai-content-generator.executor';
 import { ComplianceCheckerNodeExecutor } from '../../bfsi/executors/compliance-checker.executor';
@@ -33,28 +38,37 @@ export class ExecutorFactory {
     private readonly triggerExecutor: TriggerNodeExecutor,
     private readonly httpRequestExecutor: HttpRequestNodeExecutor,
     private readonly conditionalExecutor: ConditionalNodeExecutor,
+    private readonly switchExecutor: SwitchNodeExecutor,
     private readonly dataTransformExecutor: DataTransformNodeExecutor,
     private readonly delayExecutor: DelayNodeExecutor,
     private readonly emailExecutor: EmailNodeExecutor,
     private readonly googleCalendarExecutor: GoogleCalendarNodeExecutor,
     private readonly whatsappExecutor: WhatsAppNodeExecutor,
     private readonly manualApprovalExecutor: ManualApprovalNodeExecutor,
+    private readonly loopExecutor: LoopNodeExecutor,
+    private readonly executeWorkflowExecutor: ExecuteWorkflowNodeExecutor,
     private readonly csvUploadExecutor: CSVUploadNodeExecutor,
     private readonly aiContentGeneratorExecutor: AIContentGeneratorNodeExecutor,
     private readonly complianceCheckerExecutor: ComplianceCheckerNodeExecutor,
-    private readonly complianceReportExecutor: ComplianceReportNodeExecutor
+    private readonly complianceReportExecutor: ComplianceReportNodeExecutor,
+    private readonly dryRunExecutor: DryRunNodeExecutor,
+    private readonly webhookExecutor: WebhookNodeExecutor
   ) {
     // Register all available executors
     this.executors = new Map<NodeType, INodeExecutor>([
       [NodeType.TRIGGER, triggerExecutor],
+      [NodeType.WEBHOOK, webhookExecutor],
       [NodeType.HTTP_REQUEST, httpRequestExecutor],
       [NodeType.CONDITIONAL, conditionalExecutor],
+      [NodeType.SWITCH, switchExecutor],
       [NodeType.DATA_TRANSFORM, dataTransformExecutor],
       [NodeType.DELAY, delayExecutor],
       [NodeType.EMAIL, emailExecutor],
       [NodeType.GOOGLE_CALENDAR, googleCalendarExecutor],
       [NodeType.WHATSAPP, whatsappExecutor],
       [NodeType.MANUAL_APPROVAL, manualApprovalExecutor],
+      [NodeType.LOOP, loopExecutor],
+      [NodeType.EXECUTE_WORKFLOW, executeWorkflowExecutor],
       [NodeType.CSV_UPLOAD, csvUploadExecutor],
       [NodeType.AI_CONTENT_GENERATOR, aiContentGeneratorExecutor],
       [NodeType.COMPLIANCE_CHECKER, complianceCheckerExecutor],
@@ -78,6 +92,21 @@ export class ExecutorFactory {
     return executor;
   }
 
+  /**
+   * Get the executor that runs a node
+   * In a dry run, side-effecting nodes are recorded by the DryRunNodeExecutor instead
+   * @param node - The node configuration
+   * @param dryRun - Whether the node runs as part of a dry run
+   * @returns Executor instance
+   */
+  getExecutorFor(node: NodeConfig, dryRun = false): INodeExecutor {
+    if (dryRun && this.dryRunExecutor.records(node)) {
+      return this.dryRunExecutor;
+    }
+
+    return this.getExecutor(node.type);
+  }
+
   /**
    * Register a new executor (allows for runtime extension)
    * @param nodeType - Node type
@@ -109,13 +109,17 @@ export class GoogleCalendarNodeExecutor extends BaseNodeExecutor {
         };
       }
 
-      // Create the event
-      const response = await calendar.events.insert({
-        calendarId: 'primary',
-        requestBody: event,
-        conferenceDataVersion: config.createMeet ? 1 : 0,
-        sendUpdates: 'all', // Send email invitations to attendees
-      });
+      // Create the event (cancelled if the engine aborts the node)
+      context.signal?.throwIfAborted();
+      const response = await calendar.events.insert(
+        {
+          calendarId: 'primary',
+          requestBody: event,
+          conferenceDataVersion: config.createMeet ? 1 : 0,
+          sendUpdates: 'all', // Send email invitations to attendees
+        },
+        { signal: context.signal }
+      );
 
       const createdEvent = response.data;
 
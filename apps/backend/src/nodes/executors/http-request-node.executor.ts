@@ -7,6 +7,7 @@ import { Injectable, HttpException } from '@nestjs/common';
 import { BaseNodeExecutor } from './base-node.executor';
 import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
 import { HttpRequestNodeConfig } from '@workflow/shared-types';
+import { anySignal, CombinedSignal } from '../utils/abort-signal.util';
 
 @Injectable()
 export class HttpRequestNodeExecutor extends BaseNodeExecutor {
@@ -18,6 +19,7 @@ export class HttpRequestNodeExecutor extends BaseNodeExecutor {
     context: ExecutionContext
   ): Promise<NodeExecutionResult> {
     const { url, method, headers, body, timeout = 30000 } = node.config;
+    let combined: CombinedSignal | undefined;
 
     try {
       // Replace variables in URL if needed
@@ -26,18 +28,26 @@ export class HttpRequestNodeExecutor extends BaseNodeExecutor {
       // Process body with variables if needed
       const processedBody = body ? this.replaceVariables(body, context) : undefined;
 
+      // Replace variables in header values
+      const processedHeaders: Record<string, string> = {};
+      for (const [name, value] of Object.entries(headers || {})) {
+        processedHeaders[name] = this.replaceVariables(value, context);
+      }
+
       // Make HTTP request using native fetch
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), timeout);
+      // The engine's signal also stops the request (node timeout or execution deadline)
+      combined = context.signal ? anySignal([controller.signal, context.signal]) : undefined;
 
       const response = await fetch(processedUrl, {
         method,
         headers: {
           'Content-Type': 'application/json',
-          ...headers,
+          ...processedHeaders,
         },
         body: processedBody ? JSON.stringify(JSON.parse(processedBody)) : undefined,
-        signal: controller.signal,
+        signal: combined?.signal ?? controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -57,6 +67,7 @@ export class HttpRequestNodeExecutor extends BaseNodeExecutor {
         return {
           success: false,
           error: `HTTP ${response.status}: ${response.statusText}`,
+          statusCode: response.status,
           output: { status: response.status, data: responseData },
         };
       }
@@ -74,6 +85,8 @@ export class HttpRequestNodeExecutor extends BaseNodeExecutor {
         success: false,
         error: error instanceof Error ? error.message : 'HTTP request failed',
       };
+    } finally {
+      combined?.dispose();
     }
   }
 
@@ -0,0 +1,76 @@
+/**
+ * Loop Node Executor
+ * Resolves the array a Loop node iterates over
+ * The per-item runs of the loop body are scheduled by the workflow engine
+ */
+
+import { Injectable } from '@nestjs/common';
+import { BaseNodeExecutor } from './base-node.executor';
+import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
+import { LoopNodeConfig } from '@workflow/shared-types';
+
+const DEFAULT_MAX_ITEMS = 1000;
+
+@Injectable()
+export class LoopNodeExecutor extends BaseNodeExecutor {
+  /**
+   * Evaluate the items expression
+   */
+  protected async executeInternal(
+    node: LoopNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { itemsExpression, maxItems = DEFAULT_MAX_ITEMS } = node.config;
+
+    try {
+      const evalContext = {
+        input: context.previousNodeOutput || context.input,
+        previousOutput: context.previousNodeOutput,
+        variables: context.variables,
+      };
+
+      const items = await this.evaluateExpression(itemsExpression, evalContext);
+
+      if (!Array.isArray(items)) {
+        return {
+          success: false,
+          error: `Loop items expression must return an array, got ${items === null ? 'null' : typeof items}`,
+        };
+      }
+
+      if (items.length > maxItems) {
+        return {
+          success: false,
+          error: `Loop has ${items.length} items, more than the maximum of ${maxItems}`,
+        };
+      }
+
+      return {
+        success: true,
+        output: { items },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to resolve loop items: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Validate loop node configuration
+   */
+  validate(node: LoopNodeConfig): boolean {
+    super.validate(node);
+
+    if (!node.config?.itemsExpression) {
+      throw new Error('Loop node must have an itemsExpression');
+    }
+
+    if (node.config.concurrency !== undefined && node.config.concurrency < 1) {
+      throw new Error('Loop node concurrency must be at least 1');
+    }
+
+    return true;
+  }
+}
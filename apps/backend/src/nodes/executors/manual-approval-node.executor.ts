@@ -31,9 +31,11 @@ export class ManualApprovalNodeExecutor extends BaseNodeExecutor {
         rows: inputData.rows || [],
         metadata: {
           totalRows: inputData.rows?.length || 0,
-          title: config.title || 'Content Approval Required',
-          description:
+          title: this.replaceVariables(config.title || 'Content Approval Required', context),
+          description: this.replaceVariables(
             config.description || 'Please review the generated content before proceeding',
+            context
+          ),
           allowBulkApproval: config.allowBulkApproval !== false,
           requireComment: config.requireComment || false,
         },
@@ -61,7 +63,7 @@ export class ManualApprovalNodeExecutor extends BaseNodeExecutor {
           // Also include original execution input for context
           executionInput: context.input,
         },
-        requiresApproval: true, // This flag tells the engine to pause execution
+        awaitSignal: 'approval', // The engine pauses this node until a reviewer decides
       };
     } catch (error) {
       console.error('[Manual Approval] Node execution error:', error);
@@ -8,7 +8,7 @@
  * - Open/Closed: New node types can be added without modifying existing code
  */
 
-import { NodeConfig } from '@workflow/shared-types';
+import { NodeConfig, NodeErrorKind } from '@workflow/shared-types';
 
 /**
  * Context provided to node executors
@@ -19,9 +19,27 @@ export interface ExecutionContext {
   workflowId: string;
   userId: string;
   variables: Record<string, unknown>; // Global workflow variables
-  previousNodeOutput?: unknown; // Output from the previous node
+  previousNodeOutput?: unknown; // Output from the previous node (joined per joinMode for fan-in nodes)
+  parentOutputs?: Record<string, unknown>; // Outputs of completed direct parents, keyed by node ID
+  nodeOutputs?: Record<string, unknown>; // Outputs of every node completed so far, keyed by node ID
   input?: any; // Original execution input (preserved throughout workflow)
   executionInput?: any; // Alias for input (for backwards compatibility)
+  // Aborted when the node times out or the execution deadline passes. The engine then fails the
+  // node without waiting for the executor, which keeps running: executors must pass the signal
+  // to their requests or check it before every side effect (message, email, API call)
+  signal?: AbortSignal;
+  loop?: LoopIterationContext; // Set for nodes running inside a Loop node's body
+  dryRun?: boolean; // Side-effecting nodes are recorded instead of executed
+}
+
+/**
+ * Current iteration of the innermost Loop node
+ */
+export interface LoopIterationContext {
+  nodeId: string; // ID of the Loop node
+  item: unknown;
+  index: number;
+  total: number;
 }
 
 /**
@@ -31,8 +49,12 @@ export interface NodeExecutionResult {
   success: boolean;
   output?: unknown;
   error?: string;
+  errorKind?: NodeErrorKind; // Classification of the error, used by the engine's retry policy
+  statusCode?: number; // HTTP status code of a failed upstream call (for retryOnStatusCodes)
   nextNodeId?: string; // For conditional nodes, specify next node
-  requiresApproval?: boolean; // For manual approval nodes, pause execution
+  outputHandle?: string; // Source handle to continue from; only edges leaving this handle are followed
+  awaitSignal?: string; // Pause the node until an external signal (e.g. "approval") resumes it by its resume token
+  resumeAt?: Date; // For delay nodes, pause the execution until this time; the node completes when it resumes
 }
 
 /**
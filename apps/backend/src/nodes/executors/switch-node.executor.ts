@@ -0,0 +1,121 @@
+/**
+ * Switch Node Executor
+ * Evaluates an expression and picks the output branch of the first matching case
+ */
+
+import { Injectable } from '@nestjs/common';
+import { BaseNodeExecutor } from './base-node.executor';
+import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
+import { SwitchCase, SwitchNodeConfig, SWITCH_DEFAULT_HANDLE } from '@workflow/shared-types';
+
+@Injectable()
+export class SwitchNodeExecutor extends BaseNodeExecutor {
+  /**
+   * Evaluate the switch value and match it against the cases in order
+   */
+  protected async executeInternal(
+    node: SwitchNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const { expression, cases = [] } = node.config;
+
+    try {
+      const evalContext = {
+        input: context.previousNodeOutput || context.input,
+        previousOutput: context.previousNodeOutput,
+        variables: context.variables,
+      };
+
+      const value = await this.evaluateExpression(expression, evalContext);
+
+      let matchedCase: SwitchCase | undefined;
+      for (const switchCase of cases) {
+        if (await this.matchCase(switchCase, value, evalContext)) {
+          matchedCase = switchCase;
+          break;
+        }
+      }
+      const outputHandle = matchedCase ? matchedCase.handle : SWITCH_DEFAULT_HANDLE;
+
+      return {
+        success: true,
+        output: {
+          ...(evalContext.input || {}), // Pass the input through to the selected branch
+          switchValue: value,
+          matchedCase: outputHandle,
+        },
+        outputHandle,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to evaluate switch: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Check whether a case matches the switch value
+   * @private
+   */
+  private async matchCase(
+    switchCase: SwitchCase,
+    value: unknown,
+    evalContext: Record<string, unknown>
+  ): Promise<boolean> {
+    switch (switchCase.match) {
+      case 'equals':
+        return value !== undefined && value !== null && String(value) === switchCase.value;
+
+      case 'regex':
+        if (value === undefined || value === null) return false;
+        return new RegExp(switchCase.pattern || '', switchCase.flags).test(String(value));
+
+      case 'range': {
+        if (value === null || value === '' || typeof value === 'boolean') return false;
+        const numeric = Number(value);
+        if (Number.isNaN(numeric)) return false;
+        if (switchCase.min !== undefined && numeric < switchCase.min) return false;
+        if (switchCase.max !== undefined && numeric >= switchCase.max) return false;
+        return true;
+      }
+
+      case 'expression':
+        return Boolean(
+          await this.evaluateExpression(switchCase.expression || 'false', { ...evalContext, value })
+        );
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Validate switch node configuration
+   */
+  validate(node: SwitchNodeConfig): boolean {
+    super.validate(node);
+
+    if (!node.config?.expression) {
+      throw new Error('Switch node must have an expression');
+    }
+
+    const handles = new Set<string>();
+    for (const switchCase of node.config.cases || []) {
+      if (!switchCase.handle) {
+        throw new Error('Switch case must have a handle');
+      }
+      if (switchCase.handle === SWITCH_DEFAULT_HANDLE || handles.has(switchCase.handle)) {
+        throw new Error(`Switch case handle "${switchCase.handle}" is not unique`);
+      }
+      handles.add(switchCase.handle);
+
+      if (switchCase.match === 'regex') {
+        // Throws for invalid patterns
+        new RegExp(switchCase.pattern || '', switchCase.flags);
+      }
+    }
+
+    return true;
+  }
+}
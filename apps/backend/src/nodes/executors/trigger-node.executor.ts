@@ -13,14 +13,13 @@ export class TriggerNodeExecutor extends BaseNodeExecutor {
   /**
    * Execute trigger node
    * Simply passes through the initial input data
+   * Scheduled triggers are started by the SchedulerService, with the scheduled run time as input
    */
   protected async executeInternal(
     node: TriggerNodeConfig,
     context: ExecutionContext
   ): Promise<NodeExecutionResult> {
-    // Trigger nodes simply pass through the input
-    // In a full implementation, this would handle different trigger types
-    // (manual, scheduled, webhook) differently
+    // Trigger nodes simply pass through the input, whoever started the execution
 
     return {
       success: true,
@@ -38,6 +37,10 @@ export class TriggerNodeExecutor extends BaseNodeExecutor {
       throw new Error('Trigger node must have a triggerType');
     }
 
+    if (node.config.triggerType === 'scheduled' && !node.config.schedule) {
+      throw new Error('Scheduled trigger node must have a schedule');
+    }
+
     return true;
   }
 }
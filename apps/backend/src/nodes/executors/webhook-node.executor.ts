@@ -0,0 +1,39 @@
+/**
+ * Webhook Node Executor
+ * Handles the start of executions started by an inbound webhook request
+ */
+
+import { Injectable } from '@nestjs/common';
+import { BaseNodeExecutor } from './base-node.executor';
+import { ExecutionContext, NodeExecutionResult } from './node-executor.interface';
+import { WebhookNodeConfig } from '@workflow/shared-types';
+
+@Injectable()
+export class WebhookNodeExecutor extends BaseNodeExecutor {
+  /**
+   * Execute webhook node
+   * Passes through the received request (method, body, headers, query)
+   */
+  protected async executeInternal(
+    node: WebhookNodeConfig,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    return {
+      success: true,
+      output: context.previousNodeOutput || { received: false, timestamp: new Date() },
+    };
+  }
+
+  /**
+   * Validate webhook node configuration
+   */
+  validate(node: WebhookNodeConfig): boolean {
+    super.validate(node);
+
+    if (!node.config?.webhookId) {
+      throw new Error('Webhook node must have a webhookId');
+    }
+
+    return true;
+  }
+}
@@ -54,6 +54,9 @@ export class WhatsAppNodeExecutor extends BaseNodeExecutor {
         let failureCount = 0;
 
         for (const row of rows) {
+          // Stop sending once the engine aborted the node (timeout or execution deadline)
+          context.signal?.throwIfAborted();
+
           try {
             // Create context for this specific row
             const rowContext = {
@@ -73,8 +76,8 @@ export class WhatsAppNodeExecutor extends BaseNodeExecutor {
               : undefined;
 
             // Ensure phone numbers are in E.164 format
-            const fromNumber = this.formatWhatsAppNumber(credentialData.phoneNumber);
-            const toNumber = this.formatWhatsAppNumber(to);
+            const fromNumber = formatWhatsAppNumber(credentialData.phoneNumber);
+            const toNumber = formatWhatsAppNumber(to);
 
             // Build message options
             const messageOptions: any = {
@@ -133,8 +136,8 @@ export class WhatsAppNodeExecutor extends BaseNodeExecutor {
           : undefined;
 
         // Ensure phone numbers are in E.164 format
-        const fromNumber = this.formatWhatsAppNumber(credentialData.phoneNumber);
-        const toNumber = this.formatWhatsAppNumber(to);
+        const fromNumber = formatWhatsAppNumber(credentialData.phoneNumber);
+        const toNumber = formatWhatsAppNumber(to);
 
         // Build message options
         const messageOptions: any = {
@@ -148,7 +151,8 @@ export class WhatsAppNodeExecutor extends BaseNodeExecutor {
           messageOptions.mediaUrl = [mediaUrl];
         }
 
-        // Send message
+        // Send message (not once the engine aborted the node; Twilio calls can't be cancelled)
+        context.signal?.throwIfAborted();
         const response = await client.messages.create(messageOptions);
 
         return {
@@ -174,6 +178,7 @@ export class WhatsAppNodeExecutor extends BaseNodeExecutor {
         return {
           success: false,
           error: `Twilio error: ${twilioError.message}${twilioError.code ? ` (Code: ${twilioError.code})` : ''}`,
+          statusCode: typeof twilioError.status === 'number' ? twilioError.status : undefined,
         };
       }
 
@@ -183,21 +188,20 @@ export class WhatsAppNodeExecutor extends BaseNodeExecutor {
       };
     }
   }
+}
 
-  /**
-   * Format phone number for WhatsApp (whatsapp:+1234567890)
-   */
-  private formatWhatsAppNumber(phoneNumber: string): string {
-    // Remove any existing "whatsapp:" prefix
-    let formatted = phoneNumber.replace(/^whatsapp:/, '');
-
-    // Ensure it starts with +
-    if (!formatted.startsWith('+')) {
-      formatted = '+' + formatted;
-    }
+/**
+ * Format phone number for WhatsApp (whatsapp:+1234567890)
+ */
+export function formatWhatsAppNumber(phoneNumber: string): string {
+  // Remove any existing "whatsapp:" prefix
+  let formatted = phoneNumber.replace(/^whatsapp:/, '');
 
-    // Add WhatsApp prefix
-    return `whatsapp:${formatted}`;
+  // Ensure it starts with +
+  if (!formatted.startsWith('+')) {
+    formatted = '+' + formatted;
   }
 
+  // Add WhatsApp prefix
+  return `whatsapp:${formatted}`;
 }
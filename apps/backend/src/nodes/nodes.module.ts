@@ -5,14 +5,19 @@
 
 import { Module } from '@nestjs/common';
 import { TriggerNodeExecutor } from './executors/trigger-node.executor';
+import { WebhookNodeExecutor } from './executors/webhook-node.executor';
 import { HttpRequestNodeExecutor } from './executors/http-request-node.executor';
 import { ConditionalNodeExecutor } from './executors/conditional-node.executor';
+import { SwitchNodeExecutor } from './executors/switch-node.executor';
 import { DataTransformNodeExecutor } from './executors/data-transform-node.executor';
 import { DelayNodeExecutor } from './executors/delay-node.executor';
 import { EmailNodeExecutor } from './executors/email-node.executor';
 import { GoogleCalendarNodeExecutor } from './executors/google-calendar-node.executor';
 import { WhatsAppNodeExecutor } from './executors/whatsapp-node.executor';
 import { ManualApprovalNodeExecutor } from './executors/manual-approval-node.executor';
+import { LoopNodeExecutor } from './executors/loop-node.executor';
+import { ExecuteWorkflowNodeExecutor } from './executors/execute-workflow-node.executor';
+import { DryRunNodeExecutor } from './executors/dry-run-node.executor';
 import { ExecutorFactory } from './executors/executor.factory';
 import { IntegrationsModule } from '../integrations/integrations.module';
 import { BfsiModule } from '../bfsi/bfsi.module';
@@ -22,14 +27,19 @@ import { BfsiModule } from '../bfsi/bfsi.module';
   providers: [
     // Individual executors
     TriggerNodeExecutor,
+    WebhookNodeExecutor,
     HttpRequestNodeExecutor,
     ConditionalNodeExecutor,
+    SwitchNodeExecutor,
     DataTransformNodeExecutor,
     DelayNodeExecutor,
     EmailNodeExecutor,
     GoogleCalendarNodeExecutor,
     WhatsAppNodeExecutor,
     ManualApprovalNodeExecutor,
+    LoopNodeExecutor,
+    ExecuteWorkflowNodeExecutor,
+    DryRunNodeExecutor, // Records side-effecting nodes in dry runs
 
     // Factory
     ExecutorFactory,
@@ -0,0 +1,62 @@
+import { abortableDelay, anySignal } from './abort-signal.util';
+
+describe('anySignal', () => {
+  it('aborts with the reason of the first source that aborts', () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const { signal } = anySignal([first.signal, second.signal]);
+
+    second.abort(new Error('deadline'));
+    first.abort(new Error('timeout'));
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toEqual(new Error('deadline'));
+  });
+
+  it('is aborted at once when a source already is', () => {
+    const source = new AbortController();
+    source.abort('done');
+
+    const { signal } = anySignal([new AbortController().signal, source.signal]);
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('done');
+  });
+
+  it('stops following the sources once disposed', () => {
+    const source = new AbortController();
+    const { signal, dispose } = anySignal([source.signal]);
+
+    dispose();
+    source.abort();
+
+    expect(signal.aborted).toBe(false);
+  });
+});
+
+describe('abortableDelay', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('resolves after the delay', async () => {
+    const done = jest.fn();
+    abortableDelay(1000).then(done);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('resolves early once the signal aborts', async () => {
+    const controller = new AbortController();
+    const done = jest.fn();
+    abortableDelay(60_000, controller.signal).then(done);
+
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(done).toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Abort Signal Utility
+ * Combines abort signals without AbortSignal.any (Node.js 20.3+; the backend supports 18)
+ */
+
+export interface CombinedSignal {
+  signal: AbortSignal;
+  dispose: () => void; // Stop following the source signals (call once the work is done)
+}
+
+/**
+ * Signal that aborts, with the same reason, as soon as any of the given signals aborts
+ * Long-lived sources (e.g. an execution deadline) keep a listener until dispose is called
+ */
+export function anySignal(signals: AbortSignal[]): CombinedSignal {
+  const controller = new AbortController();
+
+  const aborted = signals.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, dispose: () => undefined };
+  }
+
+  const listeners = signals.map((signal) => {
+    const onAbort = () => {
+      dispose();
+      controller.abort(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  });
+
+  const dispose = () => listeners.forEach((removeListener) => removeListener());
+
+  return { signal: controller.signal, dispose };
+}
+
+/**
+ * Waits for the given time, or until the signal aborts (whichever comes first)
+ * Resolves in both cases; callers check signal.aborted to tell them apart
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,135 @@
+import { decideApprovalRows, getApprovalSummary, toRejectedOutput } from './approval-decision.util';
+
+const review = { reviewedBy: 'user-1', reviewedAt: new Date('2024-05-01T10:00:00Z') };
+
+const output = {
+  approvalPending: true,
+  batch: 'may',
+  rows: [
+    { name: 'Asha', generated_content: 'Hello Asha' },
+    { name: 'Ravi', generated_content: 'Hello Ravi' },
+    { name: 'Meera', generated_content: 'Hello Meera' },
+  ],
+};
+
+describe('approval-decision.util', () => {
+  describe('decideApprovalRows', () => {
+    it('applies the default action to rows without a decision', () => {
+      const outcome = decideApprovalRows(output, undefined, 'approve', review);
+
+      expect(outcome.output).toMatchObject({
+        batch: 'may',
+        rows: output.rows,
+        rejectedRows: [],
+        approvalPending: false,
+      });
+      expect(outcome.decisions.map((decision) => decision.action)).toEqual([
+        'approve',
+        'approve',
+        'approve',
+      ]);
+      expect(outcome.summary).toEqual({
+        approved: 3,
+        rejected: 0,
+        edited: 0,
+        reviewedBy: 'user-1',
+        reviewedAt: '2024-05-01T10:00:00.000Z',
+        comment: undefined,
+      });
+    });
+
+    it('approves, edits and rejects rows individually', () => {
+      const outcome = decideApprovalRows(
+        output,
+        [
+          { rowIndex: 1, action: 'reject' },
+          { rowIndex: 2, action: 'edit', generatedContent: 'Dear Meera' },
+        ],
+        'approve',
+        { ...review, comment: 'Ravi opted out' }
+      );
+
+      expect(outcome.output.rows).toEqual([
+        output.rows[0],
+        { name: 'Meera', generated_content: 'Dear Meera' },
+      ]);
+      expect(outcome.output.rejectedRows).toEqual([output.rows[1]]);
+      expect(outcome.decisions).toEqual([
+        { rowIndex: 0, action: 'approve' },
+        { rowIndex: 1, action: 'reject' },
+        {
+          rowIndex: 2,
+          action: 'edit',
+          generatedContent: 'Dear Meera',
+          originalContent: 'Hello Meera',
+        },
+      ]);
+      expect(outcome.summary).toMatchObject({
+        approved: 2,
+        rejected: 1,
+        edited: 1,
+        comment: 'Ravi opted out',
+      });
+    });
+
+    it('marks decisions made by the deadline as expired', () => {
+      expect(
+        decideApprovalRows(output, undefined, 'reject', { ...review, expired: true }).summary
+      ).toMatchObject({ approved: 0, rejected: 3, expired: true });
+    });
+
+    it('handles outputs without rows', () => {
+      expect(decideApprovalRows(null, undefined, 'approve', review).output).toMatchObject({
+        rows: [],
+        rejectedRows: [],
+      });
+    });
+
+    it.each([
+      [{ rowIndex: 3, action: 'approve' }, 'Row 3 does not exist (3 rows under review)'],
+      [{ rowIndex: 0, action: 'skip' }, 'Unknown decision "skip" for row 0'],
+      [{ rowIndex: 0, action: 'edit' }, 'Row 0 is edited but has no generatedContent'],
+    ])('rejects the malformed decision %o', (decision, message) => {
+      expect(() => decideApprovalRows(output, [decision as never], 'approve', review)).toThrow(
+        message
+      );
+    });
+
+    it('rejects two decisions for one row', () => {
+      expect(() =>
+        decideApprovalRows(
+          output,
+          [
+            { rowIndex: 0, action: 'approve' },
+            { rowIndex: 0, action: 'reject' },
+          ],
+          'approve',
+          review
+        )
+      ).toThrow('Row 0 has more than one decision');
+    });
+  });
+
+  describe('getApprovalSummary', () => {
+    it('reads the summary of a decided output', () => {
+      const { output: decided, summary } = decideApprovalRows(output, undefined, 'approve', review);
+
+      expect(getApprovalSummary(decided)).toEqual(summary);
+      expect(getApprovalSummary(output)).toBeUndefined();
+    });
+  });
+
+  describe('toRejectedOutput', () => {
+    it('sends the rejected rows as rows', () => {
+      const { output: decided } = decideApprovalRows(
+        output,
+        [{ rowIndex: 0, action: 'reject' }],
+        'approve',
+        review
+      );
+
+      expect(toRejectedOutput(decided)).toMatchObject({ batch: 'may', rows: [output.rows[0]] });
+      expect(toRejectedOutput({})).toEqual({ rows: [] });
+    });
+  });
+});
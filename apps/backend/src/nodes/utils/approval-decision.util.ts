@@ -0,0 +1,149 @@
+/**
+ * Approval Decision Utility
+ * Applies a reviewer's per-row decisions to the output of a Manual Approval node
+ *
+ * Approved (and edited) rows continue to the next nodes in `rows`; rejected rows are kept in
+ * `rejectedRows` and sent along the node's "rejected" handle when one is wired.
+ */
+
+import { ApprovalRowAction, ApprovalRowDecision, ApprovalSummary } from '@workflow/shared-types';
+
+const ROW_ACTIONS: ApprovalRowAction[] = ['approve', 'reject', 'edit'];
+
+/**
+ * Decision applied to a row, with the content it replaced
+ */
+export interface AppliedRowDecision extends ApprovalRowDecision {
+  originalContent?: string; // generated_content before an edit
+}
+
+/**
+ * Result of deciding every row of a Manual Approval node
+ */
+export interface ApprovalOutcome {
+  output: Record<string, unknown>; // New output of the approval node
+  decisions: AppliedRowDecision[]; // One per row, in row order
+  summary: ApprovalSummary;
+}
+
+/**
+ * Decide every row reviewed by a Manual Approval node
+ * @param output - Output the approval node paused with (rows under `rows`)
+ * @param decisions - Per-row decisions; rows without one get `defaultAction`
+ * @param defaultAction - Decision for rows the reviewer didn't decide individually
+ * @param review - Reviewer, decision time, optional comment and whether the deadline decided
+ * @throws Error if a decision refers to a missing row or is malformed
+ */
+export function decideApprovalRows(
+  output: unknown,
+  decisions: ApprovalRowDecision[] | undefined,
+  defaultAction: 'approve' | 'reject',
+  review: { reviewedBy: string; reviewedAt: Date; comment?: string; expired?: boolean }
+): ApprovalOutcome {
+  const base = toObject(output);
+  const rows: unknown[] = Array.isArray(base.rows) ? base.rows : [];
+  const byRow = indexDecisions(decisions || [], rows.length);
+
+  const approvedRows: unknown[] = [];
+  const rejectedRows: unknown[] = [];
+  const applied: AppliedRowDecision[] = [];
+  let edited = 0;
+
+  rows.forEach((row, rowIndex) => {
+    const decision = byRow.get(rowIndex) || { rowIndex, action: defaultAction };
+
+    if (decision.action === 'reject') {
+      rejectedRows.push(row);
+      applied.push({ rowIndex, action: 'reject' });
+    } else if (decision.action === 'edit') {
+      const original = toObject(row).generated_content;
+      approvedRows.push({ ...toObject(row), generated_content: decision.generatedContent });
+      applied.push({
+        rowIndex,
+        action: 'edit',
+        generatedContent: decision.generatedContent,
+        originalContent: typeof original === 'string' ? original : undefined,
+      });
+      edited++;
+    } else {
+      approvedRows.push(row);
+      applied.push({ rowIndex, action: 'approve' });
+    }
+  });
+
+  const summary: ApprovalSummary = {
+    approved: approvedRows.length,
+    rejected: rejectedRows.length,
+    edited,
+    reviewedBy: review.reviewedBy,
+    reviewedAt: review.reviewedAt.toISOString(),
+    comment: review.comment,
+    ...(review.expired && { expired: true }),
+  };
+
+  return {
+    output: {
+      ...base,
+      rows: approvedRows,
+      rejectedRows,
+      approvalPending: false,
+      approvalSummary: summary,
+    },
+    decisions: applied,
+    summary,
+  };
+}
+
+/**
+ * Summary of a decided Manual Approval node, or undefined if the output wasn't decided per row
+ */
+export function getApprovalSummary(output: unknown): ApprovalSummary | undefined {
+  const summary = toObject(output).approvalSummary;
+  return summary && typeof summary === 'object' ? (summary as ApprovalSummary) : undefined;
+}
+
+/**
+ * Output sent along the "rejected" handle: the approval output with the rejected rows as `rows`
+ */
+export function toRejectedOutput(output: unknown): unknown {
+  const base = toObject(output);
+  return { ...base, rows: Array.isArray(base.rejectedRows) ? base.rejectedRows : [] };
+}
+
+/**
+ * @private
+ */
+function toObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * @private
+ */
+function indexDecisions(
+  decisions: ApprovalRowDecision[],
+  rowCount: number
+): Map<number, ApprovalRowDecision> {
+  const byRow = new Map<number, ApprovalRowDecision>();
+
+  for (const decision of decisions) {
+    const { rowIndex, action } = decision;
+
+    if (!Number.isInteger(rowIndex) || rowIndex < 0 || rowIndex >= rowCount) {
+      throw new Error(`Row ${rowIndex} does not exist (${rowCount} rows under review)`);
+    }
+    if (!ROW_ACTIONS.includes(action)) {
+      throw new Error(`Unknown decision "${action}" for row ${rowIndex}`);
+    }
+    if (action === 'edit' && typeof decision.generatedContent !== 'string') {
+      throw new Error(`Row ${rowIndex} is edited but has no generatedContent`);
+    }
+    if (byRow.has(rowIndex)) {
+      throw new Error(`Row ${rowIndex} has more than one decision`);
+    }
+
+    byRow.set(rowIndex, decision);
+  }
+
+  return byRow;
+}
@@ -0,0 +1,93 @@
+import {
+  alignToBusinessHours,
+  assertBusinessHours,
+  assertTimeZone,
+  nextTimeOfDay,
+  parseTimeOfDay,
+} from './business-calendar.util';
+
+const weekdays = { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' };
+
+describe('business-calendar.util', () => {
+  describe('parseTimeOfDay', () => {
+    it('parses HH:mm', () => {
+      expect(parseTimeOfDay('9:05')).toEqual({ hour: 9, minute: 5 });
+      expect(parseTimeOfDay('23:59')).toEqual({ hour: 23, minute: 59 });
+    });
+
+    it.each(['24:00', '12:60', '9am', ''])('rejects "%s"', (value) => {
+      expect(() => parseTimeOfDay(value)).toThrow('expected HH:mm');
+    });
+  });
+
+  describe('assertTimeZone', () => {
+    it('rejects unknown time zones', () => {
+      expect(() => assertTimeZone('Asia/Kolkata')).not.toThrow();
+      expect(() => assertTimeZone('Mars/Olympus')).toThrow('Unknown time zone "Mars/Olympus"');
+    });
+  });
+
+  describe('assertBusinessHours', () => {
+    it.each([
+      [{ ...weekdays, days: [] }, 'at least one working day'],
+      [{ ...weekdays, days: [7] }, 'from 0 (Sunday) to 6 (Saturday)'],
+      [{ ...weekdays, start: '17:00', end: '09:00' }, 'must end after they start'],
+      [{ ...weekdays, holidays: ['01/05/2024'] }, 'Invalid holiday "01/05/2024"'],
+    ])('rejects %o', (calendar, message) => {
+      expect(() => assertBusinessHours(calendar)).toThrow(message);
+    });
+  });
+
+  describe('nextTimeOfDay', () => {
+    // Wednesday 15:30 in Kolkata
+    const from = new Date('2024-05-01T10:00:00Z');
+
+    it('finds the next occurrence in the time zone', () => {
+      expect(nextTimeOfDay(from, '09:00', 'Asia/Kolkata')).toEqual(
+        new Date('2024-05-02T03:30:00Z')
+      );
+      expect(nextTimeOfDay(from, '16:00', 'Asia/Kolkata')).toEqual(
+        new Date('2024-05-01T10:30:00Z')
+      );
+    });
+
+    it('skips days off and holidays', () => {
+      expect(
+        nextTimeOfDay(from, '09:00', 'Asia/Kolkata', { ...weekdays, holidays: ['2024-05-02'] })
+      ).toEqual(new Date('2024-05-03T03:30:00Z'));
+      expect(
+        nextTimeOfDay(new Date('2024-05-03T10:00:00Z'), '09:00', 'Asia/Kolkata', weekdays)
+      ).toEqual(new Date('2024-05-06T03:30:00Z'));
+    });
+
+    it('uses the offset in effect on the day across DST changes', () => {
+      // Saturday afternoon before New York moves to EDT on Sunday
+      expect(nextTimeOfDay(new Date('2024-03-09T20:00:00Z'), '09:00', 'America/New_York')).toEqual(
+        new Date('2024-03-10T13:00:00Z')
+      );
+    });
+  });
+
+  describe('alignToBusinessHours', () => {
+    it('keeps times inside business hours', () => {
+      const inside = new Date('2024-05-01T06:00:00Z');
+
+      expect(alignToBusinessHours(inside, weekdays, 'Asia/Kolkata')).toEqual(inside);
+    });
+
+    it('moves earlier times to the opening time of the day', () => {
+      expect(
+        alignToBusinessHours(new Date('2024-05-01T02:00:00Z'), weekdays, 'Asia/Kolkata')
+      ).toEqual(new Date('2024-05-01T03:30:00Z'));
+    });
+
+    it('moves later times and weekends to the next working day', () => {
+      expect(
+        alignToBusinessHours(new Date('2024-05-01T12:00:00Z'), weekdays, 'Asia/Kolkata')
+      ).toEqual(new Date('2024-05-02T03:30:00Z'));
+      expect(
+        alignToBusinessHours(new Date('2024-05-04T06:00:00Z'), weekdays, 'Asia/Kolkata')
+      ).toEqual(new Date('2024-05-06T03:30:00Z'));
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Business Calendar Utility
+ * Time zone aware date math for Delay nodes: wall-clock times in an IANA time zone,
+ * working days, business hours and holidays
+ */
+
+import { BusinessHoursCalendar } from '@workflow/shared-types';
+
+const MAX_DAYS_AHEAD = 370;
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+/**
+ * Parse a wall-clock time "HH:mm"
+ * @throws Error if the time is malformed
+ */
+export function parseTimeOfDay(value: string): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  const hour = match ? Number(match[1]) : NaN;
+  const minute = match ? Number(match[2]) : NaN;
+
+  if (!match || hour > 23 || minute > 59) {
+    throw new Error(`Invalid time "${value}", expected HH:mm`);
+  }
+
+  return { hour, minute };
+}
+
+/**
+ * Check that a time zone name is known to the runtime
+ * @throws Error for unknown time zones
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+}
+
+/**
+ * Check a business hours calendar
+ * @throws Error describing the first problem found
+ */
+export function assertBusinessHours(calendar: BusinessHoursCalendar): void {
+  if (!Array.isArray(calendar.days) || calendar.days.length === 0) {
+    throw new Error('Business hours must include at least one working day');
+  }
+  if (calendar.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new Error('Business days must be numbers from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  const start = parseTimeOfDay(calendar.start);
+  const end = parseTimeOfDay(calendar.end);
+  if (start.hour * 60 + start.minute >= end.hour * 60 + end.minute) {
+    throw new Error('Business hours must end after they start');
+  }
+
+  for (const holiday of calendar.holidays || []) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(holiday)) {
+      throw new Error(`Invalid holiday "${holiday}", expected YYYY-MM-DD`);
+    }
+  }
+}
+
+/**
+ * Next occurrence of a wall-clock time after `from`
+ * With a calendar, only working days (excluding holidays) are considered
+ */
+export function nextTimeOfDay(
+  from: Date,
+  timeOfDay: string,
+  timeZone: string,
+  calendar?: BusinessHoursCalendar
+): Date {
+  const { hour, minute } = parseTimeOfDay(timeOfDay);
+  const today = toLocalDate(from, timeZone);
+
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const date = addDays(today, offset);
+    if (calendar && !isBusinessDay(date, calendar)) continue;
+
+    const candidate = localTimeToDate(date, hour, minute, timeZone);
+    if (candidate > from) return candidate;
+  }
+
+  throw new Error('No matching business day found within a year');
+}
+
+/**
+ * Move a time into business hours
+ * Times inside business hours are kept; anything else moves to the next opening time
+ */
+export function alignToBusinessHours(
+  date: Date,
+  calendar: BusinessHoursCalendar,
+  timeZone: string
+): Date {
+  const start = parseTimeOfDay(calendar.start);
+  const end = parseTimeOfDay(calendar.end);
+  const today = toLocalDate(date, timeZone);
+
+  for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+    const day = addDays(today, offset);
+    if (!isBusinessDay(day, calendar)) continue;
+
+    const opensAt = localTimeToDate(day, start.hour, start.minute, timeZone);
+    if (date < opensAt) return opensAt;
+
+    const closesAt = localTimeToDate(day, end.hour, end.minute, timeZone);
+    if (date < closesAt) return date;
+  }
+
+  throw new Error('No matching business day found within a year');
+}
+
+/**
+ * @private
+ */
+function isBusinessDay(date: LocalDate, calendar: BusinessHoursCalendar): boolean {
+  const utc = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  const isoDate = utc.toISOString().slice(0, 10);
+
+  return calendar.days.includes(utc.getUTCDay()) && !(calendar.holidays || []).includes(isoDate);
+}
+
+/**
+ * @private
+ */
+function addDays(date: LocalDate, days: number): LocalDate {
+  const utc = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: utc.getUTCFullYear(), month: utc.getUTCMonth() + 1, day: utc.getUTCDate() };
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ * @private
+ */
+function getLocalParts(date: Date, timeZone: string): LocalDate & { hour: number; minute: number } {
+  const parts: Record<string, number> = {};
+  for (const part of new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+  };
+}
+
+/**
+ * @private
+ */
+function toLocalDate(date: Date, timeZone: string): LocalDate {
+  const { year, month, day } = getLocalParts(date, timeZone);
+  return { year, month, day };
+}
+
+/**
+ * Instant at which the wall clock in a time zone shows the given date and time
+ * @private
+ */
+function localTimeToDate(date: LocalDate, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+
+  // Offset of the zone at a given instant (local wall clock minus UTC)
+  const offsetAt = (instant: number) => {
+    const local = getLocalParts(new Date(instant), timeZone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    return localAsUtc - Math.floor(instant / 60000) * 60000;
+  };
+
+  // Second pass corrects guesses that land on the other side of a DST change
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess));
+}
@@ -0,0 +1,149 @@
+import { scriptSandbox } from './script-sandbox.util';
+
+describe('scriptSandbox', () => {
+  describe('evaluate', () => {
+    it('evaluates an expression against the variables', async () => {
+      await expect(
+        scriptSandbox.evaluate('input.amount > 1000', { input: { amount: 1500 } })
+      ).resolves.toBe(true);
+    });
+
+    it('returns copies of the values, not the inputs', async () => {
+      const input = { items: [1, 2] };
+      const result = await scriptSandbox.evaluate('input', { input });
+
+      expect(result).toEqual(input);
+      expect(result).not.toBe(input);
+    });
+
+    it('reports the location of a syntax error', async () => {
+      await expect(scriptSandbox.evaluate('input.', { input: {} })).rejects.toThrow(
+        /SyntaxError.*\(line 1/
+      );
+    });
+  });
+
+  describe('runScript', () => {
+    it('runs a function body using return', async () => {
+      await expect(
+        scriptSandbox.runScript('const total = items.reduce((a, b) => a + b, 0);\nreturn total;', {
+          items: [1, 2, 3],
+        })
+      ).resolves.toBe(6);
+    });
+
+    it('reports errors thrown by the script with their line', async () => {
+      await expect(
+        scriptSandbox.runScript('const a = 1;\nthrow new Error("boom");', {})
+      ).rejects.toThrow('Error: boom (line 2, column 1)');
+    });
+
+    it('stops scripts that run past the time limit', async () => {
+      await expect(
+        scriptSandbox.runScript('while (true) {}', {}, { timeoutMs: 50 })
+      ).rejects.toThrow('Script exceeded the time limit of 50ms');
+    });
+
+    it('keeps working after a script timed out', async () => {
+      await scriptSandbox
+        .runScript('while (true) {}', {}, { timeoutMs: 50 })
+        .catch(() => undefined);
+
+      await expect(scriptSandbox.evaluate('1 + 1', {})).resolves.toBe(2);
+    });
+
+    it('returns what a promise from an async function settles with', async () => {
+      await expect(
+        scriptSandbox.evaluate('(async () => input.amount * 2)()', { input: { amount: 2 } })
+      ).resolves.toBe(4);
+      await expect(
+        scriptSandbox.runScript(
+          'const check = async () => {\n  throw new Error("late");\n};\nreturn check();',
+          {}
+        )
+      ).rejects.toThrow('Error: late (line 2');
+    });
+
+    it('fails async scripts that never settle instead of waiting for them', async () => {
+      await expect(
+        scriptSandbox.runScript('return (async () => { await { then() {} }; })()', {})
+      ).rejects.toThrow('Script returned a promise that never settles');
+    });
+
+    it('stops endless promise chains at the time limit', async () => {
+      await expect(
+        scriptSandbox.runScript(
+          'const loop = async () => { await null; return loop(); };\nloop();\nreturn 1;',
+          {},
+          { timeoutMs: 50 }
+        )
+      ).rejects.toThrow('Script exceeded the time limit of 50ms');
+    });
+
+    it('only fails the run that exhausted the memory, not the runs queued with it', async () => {
+      const runs = [
+        scriptSandbox.runScript(
+          'const chunks = [];\nwhile (true) chunks.push(new Array(1e6).fill(1));',
+          {},
+          { timeoutMs: 20000 }
+        ),
+        ...[1, 2, 3, 4].map((n) => scriptSandbox.evaluate('n * 2', { n })),
+      ];
+
+      const results = await Promise.allSettled(runs);
+
+      expect(results[0]).toEqual({
+        status: 'rejected',
+        reason: new Error('Script exceeded the memory limit of 64MB'),
+      });
+      expect(results.slice(1)).toEqual(
+        [2, 4, 6, 8].map((value) => ({ status: 'fulfilled', value }))
+      );
+    });
+  });
+
+  describe('isolation', () => {
+    it.each([
+      'typeof process',
+      'typeof require',
+      'typeof setTimeout',
+      'typeof Function',
+      'typeof eval',
+    ])('hides host globals: %s', async (code) => {
+      await expect(scriptSandbox.evaluate(code, {})).resolves.toBe('undefined');
+    });
+
+    it.each([
+      ['this.constructor.constructor', "this.constructor.constructor('return process')()"],
+      [
+        'globalThis prototype',
+        "Object.getPrototypeOf(globalThis).constructor.constructor('return process')()",
+      ],
+      ['__proto__', "__proto__.constructor.constructor('return process')()"],
+      ['variable constructor', "input.constructor.constructor('return process')()"],
+      ['object literal', "({}).constructor.constructor('return process')()"],
+      ['arrow function', "(() => 1).constructor('return process')()"],
+      ['async function', "(async () => 1).constructor('return process')()"],
+      ['generator function', "(function* () {}).constructor('return process')()"],
+    ])('blocks the %s escape to the Function constructor', async (_name, code) => {
+      await expect(scriptSandbox.evaluate(code, { input: { a: 1 } })).rejects.toThrow(
+        /EvalError: Code generation from strings disallowed/
+      );
+    });
+
+    it('does not expose the host environment through thrown errors', async () => {
+      await expect(
+        scriptSandbox.runScript(
+          'try { null.x } catch (error) { return error.constructor.constructor("return process")() }',
+          {}
+        )
+      ).rejects.toThrow(/EvalError/);
+    });
+
+    it('does not leak globals between runs', async () => {
+      await scriptSandbox.runScript('globalThis.leaked = 1; return 1;', {});
+
+      await expect(scriptSandbox.evaluate('typeof leaked', {})).resolves.toBe('undefined');
+    });
+  });
+});
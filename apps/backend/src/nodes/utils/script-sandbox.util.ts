@@ -0,0 +1,434 @@
+/**
+ * Script Sandbox Utility
+ * Evaluates user-supplied expressions and scripts away from the Node.js process
+ *
+ * Code runs in a fresh V8 context (no require, process, timers or other Node.js globals and
+ * no eval/new Function), inside a worker thread with a capped heap. Each run is bounded by
+ * a CPU timeout. Values go in and out as JSON, so scripts never touch host objects.
+ *
+ * A small pool of workers serves the runs, one run per worker at a time; the others wait in a
+ * queue. A run's time limit starts once its worker picks it up, and a worker that crashes, runs
+ * out of memory or hangs only fails the run it was executing.
+ */
+
+import { Worker } from 'worker_threads';
+
+export interface SandboxOptions {
+  timeoutMs?: number; // CPU time allowed for a single run (default: 1000ms)
+}
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const MEMORY_LIMIT_MB = 64;
+const WATCHDOG_GRACE_MS = 5000;
+const POOL_SIZE = 2;
+const MAX_START_ATTEMPTS = 3; // Workers a run may be handed to before it fails without starting
+
+/**
+ * Globals left in the sandbox context; everything else is removed before user code runs
+ */
+const ALLOWED_GLOBALS = [
+  'globalThis',
+  'undefined',
+  'NaN',
+  'Infinity',
+  'Object',
+  'Array',
+  'String',
+  'Number',
+  'Boolean',
+  'BigInt',
+  'Symbol',
+  'Date',
+  'Math',
+  'JSON',
+  'RegExp',
+  'Map',
+  'Set',
+  'Intl',
+  'Error',
+  'TypeError',
+  'RangeError',
+  'SyntaxError',
+  'ReferenceError',
+  'parseInt',
+  'parseFloat',
+  'isNaN',
+  'isFinite',
+  'encodeURIComponent',
+  'decodeURIComponent',
+  'encodeURI',
+  'decodeURI',
+];
+
+/**
+ * Source of the sandbox worker (evaluated as a string because the backend is bundled)
+ * Messages: { id, kind, code, variables (JSON), names, timeoutMs } -> { id, started },
+ * then { id, ok, json | error }
+ */
+const WORKER_SOURCE = String.raw`
+const { parentPort } = require('worker_threads');
+const vm = require('vm');
+
+// Nothing below needs the worker's process or module loader: drop them so an escape from a
+// context finds neither
+delete globalThis.process;
+delete globalThis.require;
+
+const ALLOWED_GLOBALS = ${JSON.stringify(ALLOWED_GLOBALS)};
+
+// Expressions are wrapped in parentheses, scripts in a function body so they can use return
+const WRAPPERS = {
+  expression: { prefix: '(', suffix: '\n)', filename: 'expression', lineOffset: 0, columnOffset: -1 },
+  script: { prefix: '(function () {\n', suffix: '\n})()', filename: 'script', lineOffset: -1, columnOffset: 0 },
+};
+
+function compile(code, kind) {
+  const wrapper = WRAPPERS[kind];
+  return new vm.Script(wrapper.prefix + code + wrapper.suffix, {
+    filename: wrapper.filename,
+    lineOffset: wrapper.lineOffset,
+    columnOffset: wrapper.columnOffset,
+  });
+}
+
+// Line/column of the failing code, from a stack frame or the caret under a syntax error
+function location(stack, kind, code) {
+  const wrapper = WRAPPERS[kind];
+  const frame = new RegExp(wrapper.filename + ':(\\d+)(?::(\\d+))?').exec(stack);
+  if (!frame) return '';
+
+  let line = Number(frame[1]);
+  let column = frame[2] ? Number(frame[2]) : undefined;
+  if (column === undefined) {
+    const caret = (stack.split('\n')[2] || '').indexOf('^');
+    if (caret >= 0) column = caret + 1 + (line === 1 ? wrapper.columnOffset : 0);
+  }
+
+  // Errors reported on the closing wrapper line belong to the end of the code
+  const lines = code.split('\n');
+  if (line > lines.length) {
+    line = lines.length;
+    column = lines[lines.length - 1].length + 1;
+  }
+
+  return column ? ' (line ' + line + ', column ' + column + ')' : ' (line ' + line + ')';
+}
+
+// The contextified object must have no prototype: lookups the context's global misses fall
+// through to it, and a host Object.prototype would hand out the host Function constructor
+// (this.constructor.constructor). Injected values are strings, parsed inside the context.
+function hostFree(values) {
+  return Object.assign(Object.create(null), values);
+}
+
+function createSandbox(variables, names, timeoutMs) {
+  const context = vm.createContext(
+    hostFree({ __allowed: JSON.stringify(ALLOWED_GLOBALS), __variables: variables, __names: JSON.stringify(names) }),
+    { codeGeneration: { strings: false, wasm: false }, microtaskMode: 'afterEvaluate' }
+  );
+
+  // Strip non-allowlisted globals and define the variables, all inside the sandbox realm
+  vm.runInContext(
+    '(function () {' +
+      'const allowed = JSON.parse(__allowed);' +
+      'const variables = __variables === undefined ? {} : JSON.parse(__variables);' +
+      'const names = JSON.parse(__names);' +
+      'for (const key of Object.getOwnPropertyNames(globalThis)) {' +
+      '  if (!allowed.includes(key)) delete globalThis[key];' +
+      '}' +
+      'for (const name of names) globalThis[name] = variables[name];' +
+    '})()',
+    context,
+    { timeout: timeoutMs }
+  );
+
+  return context;
+}
+
+// Checked via the descriptor so getters on a thrown object never run outside the timeout
+function isTimeout(error) {
+  if (!error || typeof error !== 'object') return false;
+  const code = Object.getOwnPropertyDescriptor(error, 'code');
+  return Boolean(code && code.value === 'ERR_SCRIPT_EXECUTION_TIMEOUT');
+}
+
+// Reads name/message/stack of a value thrown by user code without leaving the sandbox
+function describeThrown(context, thrown, timeoutMs) {
+  context.__thrown = thrown;
+  try {
+    return JSON.parse(
+      vm.runInContext(
+        'JSON.stringify({ name: String((__thrown && __thrown.name) || "Error"), message: String(__thrown && __thrown.message !== undefined ? __thrown.message : __thrown), stack: String(__thrown && __thrown.stack) })',
+        context,
+        { timeout: timeoutMs }
+      )
+    );
+  } catch {
+    return { name: 'Error', message: 'Script threw a value that could not be read', stack: '' };
+  }
+}
+
+function run({ kind, code, variables, names, timeoutMs }) {
+  let script;
+  let scriptKind = kind === 'script' ? 'expression' : kind;
+  try {
+    script = compile(code, scriptKind);
+  } catch (error) {
+    if (kind !== 'script') throw Object.assign(error, { kind: scriptKind });
+    // Not a single expression: run it as a function body
+    scriptKind = 'script';
+    try {
+      script = compile(code, scriptKind);
+    } catch (bodyError) {
+      throw Object.assign(bodyError, { kind: scriptKind });
+    }
+  }
+
+  const context = createSandbox(variables, names, timeoutMs);
+
+  let result;
+  try {
+    result = script.runInContext(context, { timeout: timeoutMs });
+  } catch (error) {
+    if (isTimeout(error)) throw error;
+    throw Object.assign(describeThrown(context, error, timeoutMs), { kind: scriptKind, thrown: true });
+  }
+
+  context.__result = result;
+
+  // Promises (e.g. from async functions) settle while the context drains its microtasks; with
+  // no timers or I/O in the sandbox, a promise still pending afterwards never settles
+  const state = vm.runInContext(
+    '(function () {' +
+      'if (!__result || typeof __result.then !== "function") return "fulfilled";' +
+      '__result.then(' +
+      '  function (value) { __result = value; __state = "fulfilled"; },' +
+      '  function (error) { __thrown = error; __state = "rejected"; }' +
+      ');' +
+    '})()',
+    context,
+    { timeout: timeoutMs }
+  ) || context.__state;
+
+  if (state === 'rejected') {
+    throw Object.assign(describeThrown(context, context.__thrown, timeoutMs), { kind: scriptKind, thrown: true });
+  }
+  if (state !== 'fulfilled') {
+    throw new Error('Script returned a promise that never settles');
+  }
+
+  return vm.runInContext('JSON.stringify(__result)', context, { timeout: timeoutMs });
+}
+
+parentPort.on('message', (message) => {
+  // The host starts the run's watchdog from here, so time spent queued or booting doesn't count
+  parentPort.postMessage({ id: message.id, started: true });
+
+  try {
+    parentPort.postMessage({ id: message.id, ok: true, json: run(message) });
+  } catch (error) {
+    let text = error.name + ': ' + error.message;
+    if (isTimeout(error)) {
+      text = 'Script exceeded the time limit of ' + message.timeoutMs + 'ms';
+    } else if (error.kind) {
+      text += location(String(error.stack), error.kind, message.code);
+    }
+    parentPort.postMessage({ id: message.id, ok: false, error: text });
+  }
+});
+`;
+
+interface SandboxRun {
+  id: number;
+  message: Record<string, unknown>;
+  timeoutMs: number;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  started: boolean; // Picked up by a worker (it may have had side effects on that worker)
+  startAttempts: number;
+}
+
+interface SandboxWorker {
+  worker: Worker;
+  run?: SandboxRun; // Run the worker is executing (undefined = idle)
+  watchdog?: NodeJS.Timeout;
+}
+
+/**
+ * Runs code in a pool of sandbox workers
+ * Workers are started on demand and replaced when they run out of memory or hang
+ */
+class ScriptSandbox {
+  private workers: SandboxWorker[] = [];
+  private queue: SandboxRun[] = [];
+  private nextId = 1;
+
+  /**
+   * Evaluate a single JavaScript expression
+   * @param expression - Expression source, e.g. "input.amount > 1000"
+   * @param variables - Values available to the expression by name
+   */
+  evaluate(
+    expression: string,
+    variables: Record<string, unknown>,
+    options?: SandboxOptions
+  ): Promise<unknown> {
+    return this.run('expression', expression, variables, options);
+  }
+
+  /**
+   * Run a script that is either a single expression or a function body using return
+   * @param script - Script source
+   * @param variables - Values available to the script by name
+   */
+  runScript(
+    script: string,
+    variables: Record<string, unknown>,
+    options?: SandboxOptions
+  ): Promise<unknown> {
+    return this.run('script', script, variables, options);
+  }
+
+  private run(
+    kind: 'expression' | 'script',
+    code: string,
+    variables: Record<string, unknown>,
+    options?: SandboxOptions
+  ): Promise<unknown> {
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    let serialized: string | undefined;
+    try {
+      serialized = JSON.stringify(variables);
+    } catch (error) {
+      return Promise.reject(
+        new Error(
+          `Script input could not be serialized: ${error instanceof Error ? error.message : error}`
+        )
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+
+      this.queue.push({
+        id,
+        message: {
+          id,
+          kind,
+          code,
+          variables: serialized,
+          names: Object.keys(variables),
+          timeoutMs,
+        },
+        timeoutMs,
+        resolve,
+        reject,
+        started: false,
+        startAttempts: 0,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued runs to idle workers, starting workers up to the pool size
+   */
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const slot =
+        this.workers.find((candidate) => !candidate.run) ||
+        (this.workers.length < POOL_SIZE ? this.startWorker() : undefined);
+      const run = slot && this.queue.shift();
+      if (!slot || !run) {
+        return;
+      }
+
+      slot.run = run;
+      run.startAttempts++;
+      slot.worker.postMessage(run.message);
+    }
+  }
+
+  private startWorker(): SandboxWorker {
+    // The worker gets no environment variables and no Node.js flags of the host
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      execArgv: [],
+      resourceLimits: { maxOldGenerationSizeMb: MEMORY_LIMIT_MB, maxYoungGenerationSizeMb: 16 },
+    });
+    const slot: SandboxWorker = { worker };
+
+    worker.on(
+      'message',
+      (message: { id: number; started?: boolean; ok?: boolean; json?: string; error?: string }) => {
+        const run = slot.run;
+        if (!run || run.id !== message.id) return;
+
+        if (message.started) {
+          // The VM timeout stops runaway code; this only catches a worker that stopped responding
+          run.started = true;
+          slot.watchdog = setTimeout(() => {
+            this.replace(slot, new Error(`Script exceeded the time limit of ${run.timeoutMs}ms`));
+          }, run.timeoutMs + WATCHDOG_GRACE_MS);
+          return;
+        }
+
+        clearTimeout(slot.watchdog);
+        slot.run = undefined;
+        slot.watchdog = undefined;
+
+        if (message.ok) {
+          run.resolve(message.json === undefined ? undefined : JSON.parse(message.json));
+        } else {
+          run.reject(new Error(message.error));
+        }
+        this.dispatch();
+      }
+    );
+
+    worker.on('error', (error: Error & { code?: string }) => {
+      const reason =
+        error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? new Error(`Script exceeded the memory limit of ${MEMORY_LIMIT_MB}MB`)
+          : error;
+      this.replace(slot, reason);
+    });
+
+    worker.on('exit', () => {
+      this.replace(slot, new Error('Script sandbox stopped unexpectedly'));
+    });
+
+    // Don't keep the process alive just for the sandbox
+    worker.unref();
+    this.workers.push(slot);
+    return slot;
+  }
+
+  /**
+   * Drop a worker that crashed, ran out of memory or hung (a new one is started when needed)
+   * Only the run it was executing fails; a run it never started goes back to the queue
+   */
+  private replace(slot: SandboxWorker, reason: Error) {
+    const index = this.workers.indexOf(slot);
+    if (index === -1) {
+      return;
+    }
+
+    this.workers.splice(index, 1);
+    clearTimeout(slot.watchdog);
+    slot.worker.removeAllListeners();
+    slot.worker.terminate().catch(() => undefined);
+
+    const run = slot.run;
+    if (run && !run.started && run.startAttempts < MAX_START_ATTEMPTS) {
+      this.queue.unshift(run);
+    } else if (run) {
+      run.reject(reason);
+    }
+    this.dispatch();
+  }
+}
+
+export const scriptSandbox = new ScriptSandbox();
@@ -0,0 +1,163 @@
+import { ExecutionContext } from '../executors/node-executor.interface';
+import {
+  buildRowTemplateScope,
+  buildTemplateScope,
+  parseTemplateExpression,
+  renderTemplate,
+  validateTemplate,
+} from './template.util';
+
+const context = {
+  input: { name: 'Asha', amount: 123456, items: [{ name: 'Loan' }] },
+  previousNodeOutput: { status: 'ok' },
+  variables: { branch: 'Pune' },
+  nodeOutputs: { 'http-1': { id: 42, 'first name': 'Ravi' } },
+} as unknown as ExecutionContext;
+
+describe('template.util', () => {
+  describe('parseTemplateExpression', () => {
+    it('parses dotted, index and quoted segments with filters', () => {
+      expect(
+        parseTemplateExpression(' nodes.http-1.output.items[0]["first name"] | default:"n/a" ')
+      ).toEqual({
+        path: ['nodes', 'http-1', 'output', 'items', 0, 'first name'],
+        filters: [{ name: 'default', args: ['n/a'] }],
+      });
+    });
+
+    it('accepts a quoted segment at the start of the path', () => {
+      expect(parseTemplateExpression('["Amt. Due"]').path).toEqual(['Amt. Due']);
+    });
+
+    it('takes a key with spaces as a single key', () => {
+      expect(parseTemplateExpression('Customer Name | upper')).toEqual({
+        path: ['Customer Name'],
+        filters: [{ name: 'upper', args: [] }],
+      });
+    });
+
+    it('rejects unknown filters and malformed paths', () => {
+      expect(() => parseTemplateExpression('input.name | shout')).toThrow('Unknown filter "shout"');
+      expect(() => parseTemplateExpression('input..name')).toThrow('Invalid path');
+      expect(() => parseTemplateExpression('input["name')).toThrow();
+    });
+  });
+
+  describe('renderTemplate', () => {
+    const scope = buildTemplateScope(context);
+
+    it('fills in values from every scope root', () => {
+      expect(
+        renderTemplate(
+          '{{input.name}} {{previousOutput.status}} {{variables.branch}} {{nodes.http-1.output.id}}',
+          scope
+        )
+      ).toBe('Asha ok Pune 42');
+    });
+
+    it('leaves unresolved placeholders in place', () => {
+      expect(renderTemplate('Hi {{input.missing}}', scope)).toBe('Hi {{input.missing}}');
+    });
+
+    it('applies filters in order', () => {
+      expect(renderTemplate('{{input.missing | default:"guest" | upper}}', scope)).toBe('GUEST');
+      expect(renderTemplate('{{input.name | truncate:2}}', scope)).toBe('As...');
+      expect(renderTemplate('{{input.items | json}}', scope)).toBe('[{"name":"Loan"}]');
+    });
+
+    it('formats currency with Indian grouping', () => {
+      expect(renderTemplate('{{input.amount | currency}}', scope)).toBe('₹1,23,456.00');
+      expect(renderTemplate('{{input.amount | currency:"USD",0}}', scope)).toBe('$1,23,456');
+    });
+
+    it('falls back for an unknown currency code instead of throwing', () => {
+      expect(renderTemplate('{{input.amount | currency:"RUPEES"}}', scope)).toBe(
+        '1,23,456.00 RUPEES'
+      );
+      expect(renderTemplate('{{input.amount | currency:"INR",99}}', scope)).toBe('₹1,23,456.00');
+    });
+
+    it('formats dates in a time zone', () => {
+      const dated = { value: '2024-03-10T20:00:00Z' };
+      expect(renderTemplate('{{value | date}}', dated)).toBe('10 Mar 2024');
+      expect(renderTemplate('{{value | date:"DD/MM/YYYY hh:mm A","Asia/Kolkata"}}', dated)).toBe(
+        '11/03/2024 01:30 AM'
+      );
+    });
+
+    it('falls back to UTC for an unknown time zone instead of throwing', () => {
+      expect(
+        renderTemplate('{{value | date:"YYYY-MM-DD HH:mm","Mars/Olympus"}}', {
+          value: '2024-03-10T20:00:00Z',
+        })
+      ).toBe('2024-03-10 20:00');
+    });
+  });
+
+  describe('buildRowTemplateScope', () => {
+    const row = {
+      'Customer Name': 'Meera',
+      city: 'Delhi',
+      input: 'column named input',
+      nodes: 'column named nodes',
+    };
+    const scope = buildRowTemplateScope(context, row);
+
+    it('makes columns available by name, including names with spaces', () => {
+      expect(renderTemplate('{{Customer Name}} from {{city}}', scope)).toBe('Meera from Delhi');
+    });
+
+    it('makes the whole row available under row', () => {
+      expect(renderTemplate('{{row["Customer Name"]}} / {{row.input}}', scope)).toBe(
+        'Meera / column named input'
+      );
+    });
+
+    it('does not let columns hide the scope roots', () => {
+      expect(renderTemplate('{{input.name}} {{nodes.http-1.output.id}}', scope)).toBe('Asha 42');
+    });
+  });
+
+  describe('validateTemplate', () => {
+    const nodeIds = new Set(['http-1']);
+
+    it('accepts valid templates', () => {
+      expect(
+        validateTemplate(
+          '{{nodes.http-1.output.id}} {{Customer Name}} {{input.amount | currency:"USD",2}} {{input.at | date:"DD MMM","Asia/Kolkata"}}',
+          nodeIds
+        )
+      ).toEqual([]);
+    });
+
+    it('reports references to missing nodes and non-output fields', () => {
+      expect(validateTemplate('{{nodes.email-1.output}}', nodeIds)[0].message).toBe(
+        'Node "email-1" does not exist in this workflow'
+      );
+      expect(validateTemplate('{{nodes.http-1.config}}', nodeIds)[0].message).toBe(
+        'Only nodes.http-1.output can be referenced'
+      );
+    });
+
+    it('reports bad filter arguments', () => {
+      expect(validateTemplate('{{input.amount | currency:"RUPEES"}}', nodeIds)).toEqual([
+        {
+          placeholder: '{{input.amount | currency:"RUPEES"}}',
+          message: 'currency filter: Unknown currency code "RUPEES"',
+        },
+      ]);
+      expect(validateTemplate('{{input.amount | currency:"XYZ"}}', nodeIds)[0].message).toBe(
+        'currency filter: Unknown currency code "XYZ"'
+      );
+      expect(validateTemplate('{{input.amount | currency:"INR",25}}', nodeIds)[0].message).toMatch(
+        /Decimals must be a whole number/
+      );
+      expect(validateTemplate('{{input.at | date:"DD","Mars/Olympus"}}', nodeIds)[0].message).toBe(
+        'date filter: Unknown time zone "Mars/Olympus"'
+      );
+      expect(validateTemplate('{{input.name | truncate:-1}}', nodeIds)[0].message).toMatch(
+        /Length must be a whole number/
+      );
+    });
+  });
+});
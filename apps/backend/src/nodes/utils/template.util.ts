@@ -0,0 +1,477 @@
+/**
+ * Template Utility
+ * Shared template language used by every node executor to fill in config strings
+ *
+ * Syntax: {{ path | filter | filter:arg1,arg2 }}
+ * - Paths start at a scope root (input, previousOutput, variables, executionInput, loop, or
+ *   nodes.<nodeId>.output) and continue with .key, [0] or ["key"] segments
+ * - Keys that aren't identifiers can start a path in brackets (["Customer Name"]), or be written
+ *   as is when they hold no dots, brackets or quotes ({{Customer Name}})
+ * - Filters: default, date, currency, upper, lower, truncate, json
+ *   e.g. {{nodes.http-1.output.items[0].name | default:"Customer" | upper}}
+ *
+ * Placeholders that resolve to undefined (and have no default) are left in place. Filter
+ * arguments are checked when a workflow is saved; at runtime a bad currency code or time zone
+ * falls back instead of failing the node.
+ */
+
+import { ExecutionContext } from '../executors/node-executor.interface';
+import { isValidTimeZone } from '../../scheduler/utils/cron.util';
+
+export interface TemplateFilterCall {
+  name: string;
+  args: Array<string | number | boolean | null>;
+}
+
+export interface TemplateExpression {
+  path: Array<string | number>;
+  filters: TemplateFilterCall[];
+}
+
+/**
+ * Problem found while validating a template
+ */
+export interface TemplateIssue {
+  placeholder: string;
+  message: string;
+}
+
+type TemplateFilter = (value: unknown, args: TemplateFilterCall['args']) => unknown;
+
+// Returns a message for the first bad argument
+type TemplateFilterArgumentCheck = (args: TemplateFilterCall['args']) => string | void;
+
+/**
+ * Names buildTemplateScope defines; data merged into a scope (e.g. CSV rows) can't replace them
+ */
+export const TEMPLATE_SCOPE_ROOTS = [
+  'input',
+  'executionInput',
+  'previousOutput',
+  'variables',
+  'loop',
+  'nodes',
+  'row',
+] as const;
+
+const PLACEHOLDER_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+// A key written as is, e.g. {{Customer Name}}
+const LITERAL_KEY_PATTERN = /^[^.[\]"'{}]+$/;
+
+const DEFAULT_CURRENCY = 'INR';
+
+// ISO 4217 codes Intl knows (Intl accepts any three letters, so this is the stricter check)
+const KNOWN_CURRENCIES = new Set<string>(
+  (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('currency') ?? []
+);
+const DEFAULT_TIME_ZONE = 'UTC';
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const FILTERS: Record<string, TemplateFilter> = {
+  default: (value, [fallback]) =>
+    value === undefined || value === null || value === '' ? fallback : value,
+
+  upper: (value) => (value === undefined || value === null ? value : toText(value).toUpperCase()),
+
+  lower: (value) => (value === undefined || value === null ? value : toText(value).toLowerCase()),
+
+  truncate: (value, [length = 50, suffix = '...']) => {
+    if (value === undefined || value === null) return value;
+    const text = toText(value);
+    const max = Number(length);
+    return text.length > max ? text.slice(0, max) + String(suffix ?? '') : text;
+  },
+
+  json: (value, [indent]) =>
+    value === undefined ? value : JSON.stringify(value, null, indent ? Number(indent) : undefined),
+
+  // Indian grouping (1,23,456.00); currency code defaults to INR. An unknown code is printed
+  // after the number instead of failing the node.
+  currency: (value, [code = DEFAULT_CURRENCY, decimals = 2]) => {
+    if (value === undefined || value === null || value === '') return value;
+    const amount = Number(value);
+    if (Number.isNaN(amount)) return value;
+    const digits = isFractionDigits(decimals) ? Number(decimals) : 2;
+    const currency = String(code).toUpperCase();
+    const options: Intl.NumberFormatOptions = {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    };
+    if (!isValidCurrency(currency)) {
+      return `${new Intl.NumberFormat('en-IN', options).format(amount)} ${code}`;
+    }
+    return new Intl.NumberFormat('en-IN', { ...options, style: 'currency', currency }).format(
+      amount
+    );
+  },
+
+  // Tokens: YYYY YY MMMM MMM MM M DD D HH H hh h mm ss A; optional IANA time zone (default UTC,
+  // also used for an unknown zone)
+  date: (value, [format = 'DD MMM YYYY', timeZone = DEFAULT_TIME_ZONE]) => {
+    if (value === undefined || value === null || value === '') return value;
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) return value;
+    const zone = isValidTimeZone(String(timeZone)) ? String(timeZone) : DEFAULT_TIME_ZONE;
+    return formatDate(date, String(format), zone);
+  },
+};
+
+/**
+ * Checks of filter arguments, run when a workflow is saved
+ */
+const FILTER_ARGUMENT_CHECKS: Record<string, TemplateFilterArgumentCheck> = {
+  currency: ([code, decimals]) => {
+    if (code !== undefined && !isValidCurrency(String(code).toUpperCase())) {
+      return `Unknown currency code "${code}"`;
+    }
+    if (decimals !== undefined && !isFractionDigits(decimals)) {
+      return `Decimals must be a whole number from 0 to 20, got "${decimals}"`;
+    }
+  },
+  date: ([, timeZone]) => {
+    if (timeZone !== undefined && !isValidTimeZone(String(timeZone))) {
+      return `Unknown time zone "${timeZone}"`;
+    }
+  },
+  truncate: ([length]) => {
+    if (length !== undefined && !(Number.isInteger(length) && Number(length) >= 0)) {
+      return `Length must be a whole number, got "${length}"`;
+    }
+  },
+};
+
+/**
+ * Parse the inside of a placeholder, e.g. `input.rows[0].name | default:"n/a"`
+ * @throws Error with a readable message when the expression is malformed
+ */
+export function parseTemplateExpression(source: string): TemplateExpression {
+  const [pathSource, ...filterSources] = splitOutsideQuotes(source, '|');
+  const path = parsePathOrKey(pathSource.trim());
+
+  const filters = filterSources.map((filterSource) => {
+    const trimmed = filterSource.trim();
+    const separator = trimmed.indexOf(':');
+    const name = (separator === -1 ? trimmed : trimmed.slice(0, separator)).trim();
+
+    if (!FILTERS[name]) {
+      throw new Error(`Unknown filter "${name}"`);
+    }
+
+    const args =
+      separator === -1
+        ? []
+        : splitOutsideQuotes(trimmed.slice(separator + 1), ',').map((arg) => parseLiteral(arg));
+
+    return { name, args };
+  });
+
+  return { path, filters };
+}
+
+/**
+ * Render a template against a scope of named values
+ * @param template - Text containing {{ }} placeholders
+ * @param scope - Values addressable by the first path segment
+ */
+export function renderTemplate(template: string, scope: Record<string, unknown>): string {
+  if (!template) return '';
+
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, source: string) => {
+    let expression: TemplateExpression;
+    try {
+      expression = parseTemplateExpression(source);
+    } catch {
+      return placeholder; // Not a template expression; leave the text untouched
+    }
+
+    let value: unknown = resolvePath(scope, expression.path);
+    for (const filter of expression.filters) {
+      value = FILTERS[filter.name](value, filter.args);
+    }
+
+    return value === undefined ? placeholder : toText(value);
+  });
+}
+
+/**
+ * Check every placeholder in a template
+ * @param template - Text containing {{ }} placeholders
+ * @param nodeIds - IDs of the workflow's nodes, to check nodes.<nodeId> references
+ */
+export function validateTemplate(template: string, nodeIds: Set<string>): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const [placeholder, source] = match;
+    try {
+      const { path, filters } = parseTemplateExpression(source);
+      for (const filter of filters) {
+        const problem = FILTER_ARGUMENT_CHECKS[filter.name]?.(filter.args);
+        if (problem) {
+          throw new Error(`${filter.name} filter: ${problem}`);
+        }
+      }
+      if (path[0] === 'nodes') {
+        if (path.length < 2) {
+          throw new Error('Node references must include a node ID, e.g. nodes.<nodeId>.output');
+        }
+        if (!nodeIds.has(String(path[1]))) {
+          throw new Error(`Node "${path[1]}" does not exist in this workflow`);
+        }
+        if (path.length > 2 && path[2] !== 'output') {
+          throw new Error(`Only nodes.${path[1]}.output can be referenced`);
+        }
+      }
+    } catch (error) {
+      issues.push({
+        placeholder,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Build the template scope for a node execution
+ */
+export function buildTemplateScope(context: ExecutionContext): Record<string, unknown> {
+  const nodes: Record<string, { output: unknown }> = {};
+  for (const [nodeId, output] of Object.entries(context.nodeOutputs || {})) {
+    nodes[nodeId] = { output };
+  }
+
+  return {
+    input: context.input,
+    executionInput: context.executionInput ?? context.input,
+    previousOutput: context.previousNodeOutput,
+    variables: context.variables,
+    loop: context.loop,
+    nodes,
+  };
+}
+
+/**
+ * Build the template scope for a row of tabular data (e.g. a CSV row)
+ * The row is available as row.<column>, and its columns by name unless they'd hide a scope root
+ */
+export function buildRowTemplateScope(
+  context: ExecutionContext,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const scope: Record<string, unknown> = { ...buildTemplateScope(context), row };
+  const reserved = new Set<string>(TEMPLATE_SCOPE_ROOTS);
+
+  for (const [column, value] of Object.entries(row)) {
+    if (!reserved.has(column)) {
+      scope[column] = value;
+    }
+  }
+
+  return scope;
+}
+
+/**
+ * Parse a path, or take the source as a single key when it is one written as is
+ * @private
+ */
+function parsePathOrKey(source: string): Array<string | number> {
+  try {
+    return parsePath(source);
+  } catch (error) {
+    if (LITERAL_KEY_PATTERN.test(source)) {
+      return [source];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a path such as `nodes.http-1.output.items[0]["first name"]` or `["Customer Name"]`
+ * @private
+ */
+function parsePath(source: string): Array<string | number> {
+  const segmentPattern = /^(?:\.?([\w$-]+)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\])/;
+  const path: Array<string | number> = [];
+  let rest = source;
+
+  if (!/^(?:[A-Za-z_$]|\[["'])/.test(rest)) {
+    throw new Error(`Invalid path "${source}"`);
+  }
+
+  while (rest.length > 0) {
+    const segment = segmentPattern.exec(rest);
+    if (!segment || (path.length === 0 && rest.startsWith('.'))) {
+      throw new Error(`Invalid path "${source}"`);
+    }
+
+    if (segment[1] !== undefined) path.push(segment[1]);
+    else if (segment[2] !== undefined) path.push(Number(segment[2]));
+    else path.push(String(parseLiteral(segment[3])));
+
+    rest = rest.slice(segment[0].length);
+  }
+
+  return path;
+}
+
+/**
+ * Parse a filter argument: quoted string, number, true/false/null, or a bare word
+ * @private
+ */
+function parseLiteral(source: string): string | number | boolean | null {
+  const trimmed = source.trim();
+
+  if (/^"(?:[^"\\]|\\.)*"$/.test(trimmed)) {
+    return JSON.parse(trimmed);
+  }
+  if (/^'(?:[^'\\]|\\.)*'$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (trimmed === 'null') return null;
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+
+  return trimmed;
+}
+
+/**
+ * Split on a separator, ignoring separators inside quoted strings
+ * @private
+ */
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      if (char === '\\' && i + 1 < source.length) {
+        current += char + source[++i];
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (quote) {
+    throw new Error('Unterminated string');
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * @private
+ */
+function resolvePath(scope: Record<string, unknown>, path: Array<string | number>): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      current === undefined || current === null ? undefined : (current as any)[key],
+    scope
+  );
+}
+
+/**
+ * @private
+ */
+function isValidCurrency(code: string): boolean {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  if (KNOWN_CURRENCIES.size > 0) return KNOWN_CURRENCIES.has(code);
+  try {
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @private
+ */
+function isFractionDigits(value: unknown): boolean {
+  const digits = Number(value);
+  return Number.isInteger(digits) && digits >= 0 && digits <= 20;
+}
+
+/**
+ * @private
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * @private
+ */
+function formatDate(date: Date, format: string, timeZone: string): string {
+  const parts: Record<string, string> = {};
+  for (const part of new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  const year = parts.year;
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  const hour = Number(parts.hour) % 24;
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  const tokens: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(-2),
+    MMMM: MONTHS[month - 1],
+    MMM: MONTHS[month - 1].slice(0, 3),
+    MM: pad(month),
+    M: String(month),
+    DD: pad(day),
+    D: String(day),
+    HH: pad(hour),
+    H: String(hour),
+    hh: pad(hour % 12 || 12),
+    h: String(hour % 12 || 12),
+    mm: pad(Number(parts.minute)),
+    ss: pad(Number(parts.second)),
+    A: hour < 12 ? 'AM' : 'PM',
+  };
+
+  return format.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A/g, (token) => tokens[token]);
+}
@@ -2,7 +2,21 @@
  * DTOs for Public API
  */
 
-import { IsNotEmpty, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApprovalRowDecisionDto } from '../../executions/dto/review-execution.dto';
 
 /**
  * DTO for executing an agent via public API
@@ -16,6 +30,16 @@ export class ExecuteAgentDto {
   @IsOptional()
   @MaxLength(200)
   description?: string; // Optional description for this execution
+
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean; // Record email/WhatsApp/calendar/non-GET HTTP nodes instead of contacting anyone
+
+  @IsInt()
+  @Min(-100)
+  @Max(100)
+  @IsOptional()
+  priority?: number; // Queue priority (higher starts first); defaults to the workflow's settings.priority
 }
 
 /**
@@ -26,6 +50,17 @@ export class ApproveExecutionDto {
   @IsOptional()
   @MaxLength(1000)
   comment?: string; // Optional approval comment
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  resumeToken?: string; // Approval node to decide; required when several approvals are pending
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalRowDecisionDto)
+  decisions?: ApprovalRowDecisionDto[]; // Per-row approve/reject/edit decisions; other rows are approved
 }
 
 /**
@@ -36,4 +71,9 @@ export class RejectExecutionDto {
   @IsOptional()
   @MaxLength(1000)
   comment?: string; // Optional rejection comment
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  resumeToken?: string; // Approval node to decide; required when several approvals are pending
 }
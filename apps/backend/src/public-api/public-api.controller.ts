@@ -114,6 +114,8 @@ export class PublicApiController {
       workflowId,
       userId,
       dto.comment,
+      dto.resumeToken,
+      dto.decisions,
     );
   }
 
@@ -138,6 +140,7 @@ export class PublicApiController {
       workflowId,
       userId,
       dto.comment,
+      dto.resumeToken,
     );
   }
 }
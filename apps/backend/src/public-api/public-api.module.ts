@@ -11,8 +11,10 @@ import { WebhookListenerService } from './webhook-listener.service';
 import { ApiKeyGuard } from './guards/api-key.guard';
 import { RateLimitGuard } from './guards/rate-limit.guard';
 import { PrismaService } from '../prisma/prisma.service';
+import { ExecutionsModule } from '../executions/executions.module';
 
 @Module({
+  imports: [ExecutionsModule], // Approvals are decided by the workflow engine
   controllers: [PublicApiController],
   providers: [
     PublicApiService,
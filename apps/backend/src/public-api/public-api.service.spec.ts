@@ -0,0 +1,103 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WorkflowEngineService } from '../executions/workflow-engine.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { PublicApiService } from './public-api.service';
+
+const waitingApproval = {
+  id: 'ne-1',
+  nodeId: 'approval',
+  resumeToken: 'token-1',
+  approverUserIds: [],
+  approverEmails: [],
+  approverRoles: [],
+  requiredApprovals: 2,
+};
+
+function createService() {
+  const prisma = {
+    workflowExecution: {
+      findFirst: jest.fn().mockResolvedValue({
+        id: 'exec-1',
+        userId: 'owner',
+        nodeExecutions: [waitingApproval],
+      }),
+    },
+    user: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'owner', email: 'o@example.com', roles: [] }),
+    },
+  };
+  const workflowEngine = { resumeExecution: jest.fn() };
+  const eventEmitter = { emit: jest.fn() };
+  const service = new PublicApiService(
+    prisma as unknown as PrismaService,
+    eventEmitter as unknown as EventEmitter2,
+    workflowEngine as unknown as WorkflowEngineService
+  );
+  return { service, prisma, workflowEngine, eventEmitter };
+}
+
+describe('PublicApiService approvals', () => {
+  it('decides through the engine and reports its progress', async () => {
+    const { service, workflowEngine, eventEmitter } = createService();
+    workflowEngine.resumeExecution.mockResolvedValue({
+      decided: false,
+      approvals: 1,
+      requiredApprovals: 2,
+    });
+
+    await expect(
+      service.approveExecution('exec-1', 'wf-1', 'owner', 'ok', undefined, [])
+    ).resolves.toMatchObject({
+      status: 'pending_approval',
+      approvals: 1,
+      requiredApprovals: 2,
+      message: 'Approval recorded (1/2), waiting for more approvers',
+    });
+    expect(workflowEngine.resumeExecution).toHaveBeenCalledWith(
+      'exec-1',
+      'owner',
+      true,
+      'ok',
+      'token-1',
+      []
+    );
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('reports approvals the engine decided', async () => {
+    const { service, workflowEngine } = createService();
+    workflowEngine.resumeExecution.mockResolvedValue({
+      decided: true,
+      approvals: 2,
+      requiredApprovals: 2,
+    });
+
+    await expect(service.approveExecution('exec-1', 'wf-1', 'owner')).resolves.toMatchObject({
+      status: 'approved',
+    });
+  });
+
+  it.each([
+    ['You already voted on this approval', BadRequestException],
+    ['Approval was already decided', BadRequestException],
+    ['Row 4 does not exist (2 rows under review)', BadRequestException],
+    ['You are not an assigned approver of this approval', ForbiddenException],
+  ])('reports "%s" refused by the engine as an error', async (message, exception) => {
+    const { service, workflowEngine } = createService();
+    workflowEngine.resumeExecution.mockRejectedValue(new Error(message));
+
+    await expect(service.approveExecution('exec-1', 'wf-1', 'owner')).rejects.toThrow(exception);
+    await expect(service.rejectExecution('exec-1', 'wf-1', 'owner')).rejects.toThrow(message);
+  });
+
+  it('refuses API key owners who are not assigned approvers before calling the engine', async () => {
+    const { service, prisma, workflowEngine } = createService();
+    prisma.user.findUnique.mockResolvedValue({ id: 'other', email: 'x@example.com', roles: [] });
+
+    await expect(service.rejectExecution('exec-1', 'wf-1', 'other')).rejects.toThrow(
+      ForbiddenException
+    );
+    expect(workflowEngine.resumeExecution).not.toHaveBeenCalled();
+  });
+});
@@ -3,16 +3,33 @@
  * Business logic for public API endpoints
  */
 
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ExecuteAgentDto } from './dto/execute-agent.dto';
+import { ApprovalProgress, ApprovalRowDecision } from '@workflow/shared-types';
+import { WorkflowEngineService } from '../executions/workflow-engine.service';
+import {
+  APPROVAL_DECIDABLE_STATUSES,
+  isAssignedApprover,
+} from '../executions/utils/approval-assignment.util';
+import { resolveExecutionPriority } from '../executions/utils/queue-priority.util';
+import {
+  getPublishedDefinition,
+  PUBLISHED_VERSION_INCLUDE,
+} from '../workflows/utils/workflow-version.util';
 
 @Injectable()
 export class PublicApiService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly eventEmitter: EventEmitter2
+    private readonly eventEmitter: EventEmitter2,
+    private readonly workflowEngine: WorkflowEngineService
   ) {}
 
   /**
@@ -22,6 +39,7 @@ export class PublicApiService {
     // Get workflow definition
     const workflow = await this.prisma.workflow.findUnique({
       where: { id: workflowId },
+      include: PUBLISHED_VERSION_INCLUDE,
     });
 
     if (!workflow) {
@@ -32,6 +50,9 @@ export class PublicApiService {
       throw new NotFoundException('Workflow is not active');
     }
 
+    // API keys run the published version, not the draft being edited
+    const { definition, version } = getPublishedDefinition(workflow);
+
     // Truncate CSV data if present (max 100 rows)
     const truncatedInput = this.truncateCSVData(dto.input);
 
@@ -42,12 +63,16 @@ export class PublicApiService {
         userId: userId,
         apiKeyId: apiKeyId,
         status: 'pending',
+        queuedAt: new Date(),
         input: truncatedInput as any,
-        workflowSnapshot: workflow.definition as any,
+        workflowSnapshot: definition as any,
+        workflowVersion: version,
+        dryRun: dto.dryRun === true,
+        priority: resolveExecutionPriority(definition, dto.priority),
       },
     });
 
-    // Emit event to start execution (WorkflowEngine will pick this up)
+    // Emit event to wake up the execution queue (WorkflowEngine will pick this up)
     this.eventEmitter.emit('execution.start', {
       executionId: execution.id,
       workflowId: workflow.id,
@@ -66,7 +91,11 @@ export class PublicApiService {
       executionId: execution.id,
       status: execution.status,
       startedAt: execution.startedAt,
-      message: 'Execution started successfully',
+      dryRun: execution.dryRun,
+      priority: execution.priority,
+      message: execution.dryRun
+        ? 'Dry run started successfully, nothing will be sent'
+        : 'Execution started successfully',
     };
   }
 
@@ -86,6 +115,8 @@ export class PublicApiService {
         completedAt: true,
         error: true,
         approvalStatus: true,
+        dryRun: true,
+        priority: true,
       },
     });
 
@@ -146,6 +177,11 @@ export class PublicApiService {
         status: true,
         approvalData: true,
         startedAt: true,
+        nodeExecutions: {
+          where: { status: 'waiting', waitingFor: 'approval' },
+          orderBy: { startedAt: 'asc' },
+          include: { votes: { where: { approved: true }, select: { reviewerId: true } } },
+        },
       },
     });
 
@@ -161,6 +197,15 @@ export class PublicApiService {
       workflowId: execution.workflowId,
       status: execution.status,
       approvalData: transformedApprovalData,
+      // Every approval still waiting; pass its resumeToken to approve or reject it
+      approvals: execution.nodeExecutions.map((ne) => ({
+        nodeId: ne.nodeId,
+        resumeToken: ne.resumeToken,
+        approvalDueAt: ne.approvalDueAt,
+        requiredApprovals: ne.requiredApprovals,
+        approvals: ne.votes.length,
+        approvalData: this.transformApprovalData(ne.output),
+      })),
       startedAt: execution.startedAt,
     };
   }
@@ -282,94 +327,149 @@ export class PublicApiService {
 
   /**
    * Approve execution
+   * The engine records the vote (and the decision once enough approvers approved) before this
+   * returns, so clients only see successes the engine accepted
    */
   async approveExecution(
     executionId: string,
     workflowId: string,
     userId: string,
-    comment?: string
+    comment?: string,
+    resumeToken?: string,
+    rowDecisions?: ApprovalRowDecision[]
   ) {
-    const execution = await this.prisma.workflowExecution.findFirst({
-      where: {
-        id: executionId,
-        workflowId: workflowId,
-        status: 'pending_approval',
-      },
-    });
-
-    if (!execution) {
-      throw new NotFoundException('Execution not found or not pending approval');
-    }
-
-    // Update execution with approval
-    await this.prisma.workflowExecution.update({
-      where: { id: executionId },
-      data: {
-        approvalStatus: 'approved',
-        approvedBy: userId,
-        approvedAt: new Date(),
-      },
-    });
+    const approval = await this.findPendingApproval(executionId, workflowId, userId, resumeToken);
+
+    const progress = await this.decide(() =>
+      this.workflowEngine.resumeExecution(
+        executionId,
+        userId,
+        true,
+        comment,
+        approval.resumeToken || undefined,
+        rowDecisions
+      )
+    );
 
-    // Emit event to resume execution
-    this.eventEmitter.emit('execution.approved', {
+    return {
       executionId,
-      workflowId,
-      userId,
-      comment,
-      timestamp: new Date(),
-    });
+      nodeId: approval.nodeId,
+      status: progress.decided ? 'approved' : 'pending_approval',
+      approvals: progress.approvals,
+      requiredApprovals: progress.requiredApprovals,
+      message: progress.decided
+        ? 'Execution approved and will continue'
+        : `Approval recorded (${progress.approvals}/${progress.requiredApprovals}), waiting for more approvers`,
+    };
+  }
+
+  /**
+   * Reject execution
+   */
+  async rejectExecution(
+    executionId: string,
+    workflowId: string,
+    userId: string,
+    comment?: string,
+    resumeToken?: string
+  ) {
+    const approval = await this.findPendingApproval(executionId, workflowId, userId, resumeToken);
+
+    await this.decide(() =>
+      this.workflowEngine.resumeExecution(
+        executionId,
+        userId,
+        false,
+        comment,
+        approval.resumeToken || undefined
+      )
+    );
 
     return {
       executionId,
-      status: 'approved',
-      message: 'Execution approved and will continue',
+      nodeId: approval.nodeId,
+      status: 'rejected',
+      message: 'Execution rejected',
     };
   }
 
   /**
-   * Reject execution
+   * Run an approval decision through the engine, reporting refused decisions to the client
+   * @private
+   */
+  private async decide(run: () => Promise<ApprovalProgress>): Promise<ApprovalProgress> {
+    try {
+      return await run();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Approval could not be decided';
+      if (message.includes('not an assigned approver')) {
+        throw new ForbiddenException(message);
+      }
+      if (message === 'Execution not found') {
+        throw new NotFoundException(message);
+      }
+      // Duplicate votes, decided approvals and malformed row decisions
+      throw new BadRequestException(message);
+    }
+  }
+
+  /**
+   * Find the approval node an approve/reject request decides
+   * Requests act as the API key's owner, who must be an assigned approver of the node
+   * @param userId - Owner of the API key
+   * @param resumeToken - Token of the approval node; optional while only one approval is pending
    */
-  async rejectExecution(executionId: string, workflowId: string, userId: string, comment?: string) {
+  private async findPendingApproval(
+    executionId: string,
+    workflowId: string,
+    userId: string,
+    resumeToken?: string
+  ) {
+    // The approval node's status decides; the execution may be running a due Delay node
     const execution = await this.prisma.workflowExecution.findFirst({
       where: {
         id: executionId,
         workflowId: workflowId,
-        status: 'pending_approval',
+        status: { in: APPROVAL_DECIDABLE_STATUSES },
+      },
+      include: {
+        nodeExecutions: {
+          where: { status: 'waiting', waitingFor: 'approval' },
+        },
       },
     });
 
-    if (!execution) {
+    if (!execution || execution.nodeExecutions.length === 0) {
       throw new NotFoundException('Execution not found or not pending approval');
     }
 
-    // Update execution with rejection
-    await this.prisma.workflowExecution.update({
-      where: { id: executionId },
-      data: {
-        status: 'failed',
-        approvalStatus: 'rejected',
-        approvedBy: userId,
-        approvedAt: new Date(),
-        error: comment || 'Content rejected by reviewer',
-        completedAt: new Date(),
-      },
-    });
+    const pending = execution.nodeExecutions;
+    const approval = resumeToken
+      ? pending.find((ne) => ne.resumeToken === resumeToken)
+      : pending.length === 1
+        ? pending[0]
+        : undefined;
+
+    if (!approval) {
+      throw new BadRequestException(
+        resumeToken
+          ? 'Invalid resume token or the approval was already decided'
+          : `Execution has ${pending.length} pending approvals; a resumeToken is required`
+      );
+    }
 
-    // Emit event for rejection
-    this.eventEmitter.emit('execution.rejected', {
-      executionId,
-      workflowId,
-      userId,
-      comment,
-      timestamp: new Date(),
+    const reviewer = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, roles: true },
     });
 
-    return {
-      executionId,
-      status: 'rejected',
-      message: 'Execution rejected and stopped',
-    };
+    if (!reviewer || !isAssignedApprover(approval, reviewer, execution.userId)) {
+      throw new ForbiddenException(
+        'The API key owner is not an assigned approver of this approval'
+      );
+    }
+
+    return approval;
   }
 
   /**
@@ -56,6 +56,60 @@ export class WebhookListenerService {
     await this.sendWebhookForExecution(
       payload.executionId,
       'execution.pending_approval',
+      {
+        nodeId: payload.nodeId,
+        resumeToken: payload.resumeToken,
+        approvalDueAt: payload.approvalDueAt,
+      },
+    );
+  }
+
+  /**
+   * Handle execution.approval_reminder event
+   */
+  @OnEvent('execution.approval_reminder')
+  async handleApprovalReminder(payload: any) {
+    this.logger.log(`Approval reminder: ${payload.executionId}`);
+    await this.sendWebhookForExecution(
+      payload.executionId,
+      'execution.approval_reminder',
+      {
+        nodeId: payload.nodeId,
+        resumeToken: payload.resumeToken,
+        approvalDueAt: payload.approvalDueAt,
+        nextReminderAt: payload.nextReminderAt,
+      },
+    );
+  }
+
+  /**
+   * Handle execution.approval_escalated event
+   */
+  @OnEvent('execution.approval_escalated')
+  async handleApprovalEscalated(payload: any) {
+    this.logger.log(`Approval escalated: ${payload.executionId}`);
+    await this.sendWebhookForExecution(
+      payload.executionId,
+      'execution.approval_escalated',
+      {
+        nodeId: payload.nodeId,
+        resumeToken: payload.resumeToken,
+        approvalDueAt: payload.approvalDueAt,
+        assignees: payload.assignees,
+      },
+    );
+  }
+
+  /**
+   * Handle execution.approval_expired event
+   */
+  @OnEvent('execution.approval_expired')
+  async handleApprovalExpired(payload: any) {
+    this.logger.log(`Approval expired: ${payload.executionId}`);
+    await this.sendWebhookForExecution(
+      payload.executionId,
+      'execution.approval_expired',
+      { nodeId: payload.nodeId, timeoutAction: payload.timeoutAction },
     );
   }
 
@@ -65,6 +119,7 @@ export class WebhookListenerService {
   private async sendWebhookForExecution(
     executionId: string,
     event: string,
+    details?: Record<string, unknown>,
   ): Promise<void> {
     try {
       // Get execution with API key and workflow
@@ -122,7 +177,19 @@ export class WebhookListenerService {
           break;
         case 'execution.pending_approval':
           webhookPayload =
-            this.webhookService.createExecutionPendingApprovalPayload(execution);
+            this.webhookService.createExecutionPendingApprovalPayload(
+              execution,
+              details,
+            );
+          break;
+        case 'execution.approval_reminder':
+        case 'execution.approval_escalated':
+        case 'execution.approval_expired':
+          webhookPayload = this.webhookService.createApprovalSlaPayload(
+            event,
+            execution,
+            details,
+          );
           break;
         default:
           this.logger.warn(`Unknown event type: ${event}`);
@@ -8,7 +8,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { createHmac } from 'crypto';
 
 export interface WebhookPayload {
-  event: string; // "execution.started" | "execution.completed" | "execution.failed" | "execution.pending_approval"
+  event: string; // "execution.started" | "execution.completed" | "execution.failed" | "execution.pending_approval" | "execution.approval_reminder" | "execution.approval_escalated" | "execution.approval_expired"
   executionId: string;
   workflowId: string;
   timestamp: string; // ISO 8601
@@ -194,8 +194,12 @@ export class WebhookService {
 
   /**
    * Create webhook payload for execution.pending_approval event
+   * @param approval - Approval node that paused, with the resumeToken to approve/reject it
    */
-  createExecutionPendingApprovalPayload(execution: any): WebhookPayload {
+  createExecutionPendingApprovalPayload(
+    execution: any,
+    approval?: Record<string, unknown>,
+  ): WebhookPayload {
     return {
       event: 'execution.pending_approval',
       executionId: execution.id,
@@ -205,6 +209,30 @@ export class WebhookService {
         status: execution.status,
         startedAt: execution.startedAt,
         approvalStatus: execution.approvalStatus,
+        ...approval,
+      },
+    };
+  }
+
+  /**
+   * Create webhook payload for approval SLA events
+   * (execution.approval_reminder, execution.approval_escalated, execution.approval_expired)
+   * @param details - Approval node, deadline and event-specific fields (assignees, timeoutAction)
+   */
+  createApprovalSlaPayload(
+    event: string,
+    execution: any,
+    details?: Record<string, unknown>,
+  ): WebhookPayload {
+    return {
+      event,
+      executionId: execution.id,
+      workflowId: execution.workflowId,
+      timestamp: new Date().toISOString(),
+      data: {
+        status: execution.status,
+        approvalStatus: execution.approvalStatus,
+        ...details,
       },
     };
   }
@@ -0,0 +1,13 @@
+/**
+ * Scheduler Module
+ * Runs workflows with scheduled Trigger nodes on their cron schedule
+ */
+
+import { Module } from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+
+@Module({
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
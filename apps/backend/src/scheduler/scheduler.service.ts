@@ -0,0 +1,326 @@
+/**
+ * Scheduler Service
+ * Starts executions of workflows with scheduled Trigger nodes on their cron schedule
+ *
+ * Every scheduled Trigger node of a workflow has a row in workflow_schedules, kept in sync
+ * whenever the workflow is saved. Each backend instance checks for due schedules on an interval;
+ * a run is claimed by moving the schedule's nextRunAt forward only if it still holds the value
+ * that was read, and executions are unique per schedule and scheduled time, so a run never
+ * fires twice even with several instances. Runs found due long after their time (the scheduler
+ * was down) follow the schedule's catch-up policy. Executions are queued like any other and
+ * picked up by the queue worker.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only keeps schedules in sync and creates their executions
+ * - Dependency Injection: Receives PrismaService and EventEmitter2 through constructor
+ */
+
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { WorkflowSchedule } from '@prisma/client';
+import {
+  ExecutionStatus,
+  NodeType,
+  ScheduleCatchUpPolicy,
+  TriggerNodeConfig,
+} from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { resolveExecutionPriority } from '../executions/utils/queue-priority.util';
+import {
+  getPublishedDefinition,
+  PUBLISHED_VERSION_INCLUDE,
+} from '../workflows/utils/workflow-version.util';
+import { isValidTimeZone, nextCronRun, parseCron } from './utils/cron.util';
+
+// Missed runs started at once by the "all" catch-up policy
+const MAX_CATCH_UP_RUNS = 50;
+
+// Missed runs looked at to find the latest one
+const MAX_MISSED_RUNS_SCANNED = 100000;
+
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  readonly tickIntervalMs = Number(process.env.SCHEDULER_TICK_INTERVAL_MS) || 15000;
+  readonly misfireGraceMs = Number(process.env.SCHEDULER_MISFIRE_GRACE_MS) || 60000; // Later runs count as missed
+
+  private tickTimer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * Register the schedules of all workflows, then start checking for due runs
+   */
+  async onApplicationBootstrap() {
+    try {
+      const workflows = await this.prisma.workflow.findMany({ select: { id: true } });
+      for (const workflow of workflows) {
+        await this.syncWorkflow(workflow.id);
+      }
+    } catch (error) {
+      console.error('[Scheduler] Failed to register workflow schedules:', error);
+    }
+
+    this.tickTimer = setInterval(() => {
+      this.tick();
+    }, this.tickIntervalMs);
+
+    console.log(`[Scheduler] Started, checking schedules every ${this.tickIntervalMs}ms`);
+    this.tick();
+  }
+
+  /**
+   * Stop checking for due runs
+   */
+  onModuleDestroy() {
+    clearInterval(this.tickTimer);
+  }
+
+  /**
+   * Event listener for workflow.saved
+   * Triggered when a workflow is created or updated
+   */
+  @OnEvent('workflow.saved')
+  async handleWorkflowSaved(payload: { workflowId: string }) {
+    try {
+      await this.syncWorkflow(payload.workflowId);
+    } catch (error) {
+      console.error(
+        `[Scheduler] Failed to sync schedules of workflow ${payload.workflowId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Bring a workflow's schedules in line with the scheduled Trigger nodes of its published version
+   * Schedules whose expression, time zone and activation are unchanged keep their next run, so
+   * saving a workflow doesn't skip or repeat runs; the others are computed from now on.
+   * @param workflowId - ID of the workflow
+   */
+  async syncWorkflow(workflowId: string): Promise<void> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: { schedules: true, ...PUBLISHED_VERSION_INCLUDE },
+    });
+
+    if (!workflow) {
+      return; // Deleted; its schedules are deleted with it
+    }
+
+    const { definition } = getPublishedDefinition(workflow);
+    const triggers = (definition.nodes || []).filter(
+      (node): node is TriggerNodeConfig =>
+        node.type === NodeType.TRIGGER &&
+        (node as TriggerNodeConfig).config?.triggerType === 'scheduled' &&
+        !!(node as TriggerNodeConfig).config.schedule
+    );
+    const existing = new Map(workflow.schedules.map((schedule) => [schedule.nodeId, schedule]));
+    const registered: string[] = [];
+
+    for (const trigger of triggers) {
+      const cron = (trigger.config.schedule || '').trim();
+      const timezone = trigger.config.timezone || 'UTC';
+      const catchUp = trigger.config.catchUp || 'none';
+
+      let nextRunAt: Date | null;
+      try {
+        if (!isValidTimeZone(timezone)) {
+          throw new Error(`Unknown time zone "${timezone}"`);
+        }
+        nextRunAt = nextCronRun(parseCron(cron), new Date(), timezone);
+      } catch (error) {
+        console.error(
+          `[Scheduler] Not scheduling node ${trigger.nodeId} of workflow ${workflowId}:`,
+          error instanceof Error ? error.message : error
+        );
+        continue;
+      }
+
+      const current = existing.get(trigger.nodeId);
+      const unchanged =
+        current &&
+        current.cron === cron &&
+        current.timezone === timezone &&
+        current.isActive &&
+        workflow.isActive;
+
+      await this.prisma.workflowSchedule.upsert({
+        where: { workflowId_nodeId: { workflowId, nodeId: trigger.nodeId } },
+        create: {
+          workflowId,
+          nodeId: trigger.nodeId,
+          cron,
+          timezone,
+          catchUp,
+          isActive: workflow.isActive,
+          nextRunAt,
+        },
+        // The next run of an unchanged schedule is left alone: a run may be firing right now
+        update: unchanged
+          ? { catchUp }
+          : { cron, timezone, catchUp, isActive: workflow.isActive, nextRunAt },
+      });
+      registered.push(trigger.nodeId);
+
+      if (!unchanged && workflow.isActive) {
+        console.log(
+          `[Scheduler] Workflow ${workflowId} node ${trigger.nodeId} scheduled "${cron}" (${timezone}), next run ${nextRunAt?.toISOString() ?? 'never'}`
+        );
+      }
+    }
+
+    await this.prisma.workflowSchedule.deleteMany({
+      where: { workflowId, nodeId: { notIn: registered } },
+    });
+  }
+
+  /**
+   * Start the runs of all schedules that are due
+   * @private
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const due = await this.prisma.workflowSchedule.findMany({
+        where: { isActive: true, nextRunAt: { lte: new Date() } },
+        orderBy: { nextRunAt: 'asc' },
+        take: 100,
+      });
+
+      for (const schedule of due) {
+        try {
+          await this.fire(schedule);
+        } catch (error) {
+          console.error(`[Scheduler] Failed to run schedule ${schedule.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[Scheduler] Failed to check schedules:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Start the due runs of a schedule and move it to its next run
+   * @private
+   */
+  private async fire(schedule: WorkflowSchedule): Promise<void> {
+    const now = new Date();
+    const cron = parseCron(schedule.cron);
+
+    // Runs due by now, oldest first, and the first run after now
+    const due: Date[] = [];
+    let nextRunAt: Date | null = schedule.nextRunAt;
+    while (nextRunAt && nextRunAt <= now && due.length < MAX_MISSED_RUNS_SCANNED) {
+      due.push(nextRunAt);
+      nextRunAt = nextCronRun(cron, nextRunAt, schedule.timezone);
+    }
+    if (nextRunAt && nextRunAt <= now) {
+      nextRunAt = nextCronRun(cron, now, schedule.timezone);
+    }
+
+    const runs = this.selectRuns(due, schedule.catchUp as ScheduleCatchUpPolicy, now);
+    const skipped = due.length - runs.length;
+
+    const started = await this.prisma.$transaction(async (tx) => {
+      // Only the instance that still sees the old next run moves it, and starts the runs
+      const claimed = await tx.workflowSchedule.updateMany({
+        where: { id: schedule.id, isActive: true, nextRunAt: schedule.nextRunAt },
+        data: { nextRunAt, lastRunAt: runs.length > 0 ? runs[runs.length - 1] : undefined },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const workflow = await tx.workflow.findUnique({
+        where: { id: schedule.workflowId },
+        include: PUBLISHED_VERSION_INCLUDE,
+      });
+      if (!workflow?.isActive) {
+        return null;
+      }
+
+      const { definition, version } = getPublishedDefinition(workflow);
+      const ids: string[] = [];
+      for (const scheduledFor of runs) {
+        const execution = await tx.workflowExecution.create({
+          data: {
+            workflowId: workflow.id,
+            userId: workflow.userId,
+            status: ExecutionStatus.PENDING,
+            queuedAt: new Date(),
+            input: {
+              trigger: 'schedule',
+              scheduledFor: scheduledFor.toISOString(),
+              timezone: schedule.timezone,
+            },
+            workflowSnapshot: definition as any,
+            workflowVersion: version,
+            priority: resolveExecutionPriority(definition),
+            scheduleId: schedule.id,
+            scheduledFor,
+          },
+        });
+        ids.push(execution.id);
+      }
+
+      if (ids.length > 0) {
+        await tx.workflowSchedule.update({
+          where: { id: schedule.id },
+          data: { lastExecutionId: ids[ids.length - 1] },
+        });
+      }
+
+      return { executionIds: ids, userId: workflow.userId };
+    });
+
+    if (!started) {
+      return; // Fired by another instance, or the workflow was deactivated meanwhile
+    }
+
+    if (skipped > 0) {
+      console.log(
+        `[Scheduler] Skipped ${skipped} missed run(s) of workflow ${schedule.workflowId} (catch-up: ${schedule.catchUp})`
+      );
+    }
+
+    started.executionIds.forEach((executionId) => {
+      console.log(
+        `[Scheduler] Started execution ${executionId} of workflow ${schedule.workflowId}`
+      );
+
+      // Wake up the execution queue (WorkflowEngine will pick this up)
+      this.eventEmitter.emit('execution.start', {
+        executionId,
+        workflowId: schedule.workflowId,
+        userId: started.userId,
+      });
+    });
+  }
+
+  /**
+   * Runs to start out of the due ones: those on time, plus missed ones per the catch-up policy
+   * @private
+   */
+  private selectRuns(due: Date[], catchUp: ScheduleCatchUpPolicy, now: Date): Date[] {
+    const onTime = due.filter((run) => now.getTime() - run.getTime() <= this.misfireGraceMs);
+    const missed = due.slice(0, due.length - onTime.length);
+
+    if (missed.length === 0 || catchUp === 'none') {
+      return onTime;
+    }
+    if (catchUp === 'latest') {
+      return onTime.length > 0 ? onTime : [missed[missed.length - 1]];
+    }
+    return [...missed, ...onTime].slice(-MAX_CATCH_UP_RUNS);
+  }
+}
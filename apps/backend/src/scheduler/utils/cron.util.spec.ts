@@ -0,0 +1,100 @@
+import { isValidTimeZone, nextCronRun, parseCron } from './cron.util';
+
+const next = (expression: string, after: string, timeZone = 'UTC') =>
+  nextCronRun(parseCron(expression), new Date(after), timeZone)?.toISOString();
+
+describe('cron.util', () => {
+  describe('parseCron', () => {
+    it('parses lists, ranges, steps and names', () => {
+      const cron = parseCron('*/15 9-17/4 1,15 jan-mar mon-fri');
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 13, 17]);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect([...cron.months]).toEqual([1, 2, 3]);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('expands macros and accepts 7 for Sunday', () => {
+      expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 7'));
+    });
+
+    it('rejects malformed expressions', () => {
+      expect(() => parseCron('0 0 * *')).toThrow('Cron expression must have 5 fields');
+      expect(() => parseCron('60 * * * *')).toThrow('Invalid minute "60" (allowed: 0-59)');
+      expect(() => parseCron('0 0 * * 1-9')).toThrow('Invalid day of week');
+      expect(() => parseCron('0 5-1 * * *')).toThrow('Invalid hour range "5-1"');
+      expect(() => parseCron('*/0 * * * *')).toThrow('Invalid minute "*/0"');
+    });
+
+    it('rejects days of month no month has', () => {
+      expect(() => parseCron('0 0 30 2 *')).toThrow('Cron expression never runs');
+      expect(() => parseCron('0 0 31 4,6 *')).toThrow('Cron expression never runs');
+    });
+  });
+
+  describe('nextCronRun', () => {
+    it('returns the first run strictly after the given time', () => {
+      expect(next('0 9 * * *', '2024-01-01T09:00:00Z')).toBe('2024-01-02T09:00:00.000Z');
+      expect(next('*/5 * * * *', '2024-01-01T09:02:30Z')).toBe('2024-01-01T09:05:00.000Z');
+    });
+
+    it('evaluates the expression in the time zone', () => {
+      expect(next('0 9 * * *', '2024-01-01T00:00:00Z', 'Asia/Kolkata')).toBe(
+        '2024-01-01T03:30:00.000Z'
+      );
+    });
+
+    it('matches either day field when both are restricted', () => {
+      // The 13th (a Saturday) or any Friday
+      expect(next('0 0 13 * 5', '2024-01-06T00:00:00Z')).toBe('2024-01-12T00:00:00.000Z');
+      expect(next('0 0 13 * 5', '2024-01-12T00:00:00Z')).toBe('2024-01-13T00:00:00.000Z');
+    });
+
+    it('skips months without the day of month', () => {
+      expect(next('0 0 31 * *', '2024-01-31T00:00:00Z')).toBe('2024-03-31T00:00:00.000Z');
+    });
+
+    it('finds Feb 29 in the next leap year', () => {
+      expect(next('0 9 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T09:00:00.000Z');
+      expect(next('0 9 29 2 *', '2024-02-28T12:00:00Z')).toBe('2024-02-29T09:00:00.000Z');
+    });
+
+    it('runs times skipped by the spring DST change at the shifted time', () => {
+      // 02:30 does not exist in New York on 2024-03-10; it runs at 03:30 EDT
+      expect(next('30 2 * * *', '2024-03-10T05:00:00Z', 'America/New_York')).toBe(
+        '2024-03-10T07:30:00.000Z'
+      );
+      expect(next('30 2 * * *', '2024-03-10T07:30:00Z', 'America/New_York')).toBe(
+        '2024-03-11T06:30:00.000Z'
+      );
+    });
+
+    it('runs times repeated by the autumn DST change once', () => {
+      // 01:30 happens twice in New York on 2024-11-03 (EDT, then EST)
+      expect(next('30 1 * * *', '2024-11-03T04:00:00Z', 'America/New_York')).toBe(
+        '2024-11-03T05:30:00.000Z'
+      );
+      expect(next('30 1 * * *', '2024-11-03T05:30:00Z', 'America/New_York')).toBe(
+        '2024-11-04T06:30:00.000Z'
+      );
+    });
+
+    it('keeps hourly runs on the wall clock across DST changes', () => {
+      expect(next('0 * * * *', '2024-03-10T06:00:00Z', 'America/New_York')).toBe(
+        '2024-03-10T07:00:00.000Z'
+      );
+      expect(next('0 * * * *', '2024-11-03T05:00:00Z', 'America/New_York')).toBe(
+        '2024-11-03T07:00:00.000Z'
+      );
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('accepts IANA names and rejects unknown ones', () => {
+      expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+  });
+});
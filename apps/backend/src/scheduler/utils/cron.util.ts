@@ -0,0 +1,286 @@
+/**
+ * Cron Utility
+ * Parses cron expressions and computes their run times in an IANA time zone
+ *
+ * Expressions have five fields (minute hour day-of-month month day-of-week) with the usual
+ * `*`, lists, ranges, steps and month/weekday names, or one of the @yearly, @monthly, @weekly,
+ * @daily and @hourly macros. Like Vixie cron, when both day fields are restricted a day matches
+ * either of them.
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Names for min, min + 1, ...
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is accepted for Sunday too
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+// Longest month each month can have, to reject expressions like "0 0 30 2 *" that never run
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Bounds the search for the next run (a leap day is at most ~1500 days or ~15000 steps away)
+const MAX_SEARCH_STEPS = 100000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse a cron expression
+ * @param expression - Five-field cron expression or macro
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (CRON_MACROS[normalized] || normalized).split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(
+      'Cron expression must have 5 fields (minute hour day-of-month month day-of-week)'
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, CRON_FIELDS[index])
+  );
+
+  // Sunday may be written as 0 or 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const cron: CronExpression = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+
+  const reachable = Array.from(months).some((month) =>
+    Array.from(daysOfMonth).some((day) => day <= MAX_DAYS_IN_MONTH[month - 1])
+  );
+  if (!reachable && cron.anyDayOfWeek) {
+    throw new Error('Cron expression never runs: no month has the given day of month');
+  }
+
+  return cron;
+}
+
+/**
+ * Whether a string is a time zone this runtime knows (e.g. "UTC", "Asia/Kolkata")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First run of a cron expression strictly after a given time
+ * Wall-clock times skipped by a daylight saving change run at the shifted time; times repeated
+ * by one run once.
+ * @param cron - Parsed cron expression
+ * @param after - Time to search from
+ * @param timeZone - IANA time zone the expression is evaluated in
+ * @returns The next run, or null if none was found
+ */
+export function nextCronRun(cron: CronExpression, after: Date, timeZone: string): Date | null {
+  // Local wall-clock time, held in the UTC fields of a Date
+  const start = toWallClock(after, timeZone);
+  let wall = new Date(
+    Date.UTC(
+      start.getUTCFullYear(),
+      start.getUTCMonth(),
+      start.getUTCDate(),
+      start.getUTCHours(),
+      start.getUTCMinutes() + 1
+    )
+  );
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const year = wall.getUTCFullYear();
+    const month = wall.getUTCMonth();
+    const day = wall.getUTCDate();
+    const hour = wall.getUTCHours();
+
+    if (!cron.months.has(month + 1)) {
+      wall = new Date(Date.UTC(year, month + 1, 1));
+    } else if (!matchesDay(cron, wall)) {
+      wall = new Date(Date.UTC(year, month, day + 1));
+    } else if (!cron.hours.has(hour)) {
+      wall = new Date(Date.UTC(year, month, day, hour + 1));
+    } else if (!cron.minutes.has(wall.getUTCMinutes())) {
+      wall = new Date(wall.getTime() + 60000);
+    } else {
+      const run = fromWallClock(wall, timeZone);
+      if (run.getTime() > after.getTime()) {
+        return run;
+      }
+      wall = new Date(wall.getTime() + 60000);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse one field into the set of values it matches
+ * @private
+ */
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else {
+      const [fromText, toText, rest] = range.split('-');
+      if (rest !== undefined) {
+        throw new Error(`Invalid ${field.name} "${part}"`);
+      }
+      from = parseValue(fromText, field);
+      // "5/15" runs from 5 to the end of the range
+      to = toText !== undefined ? parseValue(toText, field) : stepText ? field.max : from;
+    }
+
+    if (from > to) {
+      throw new Error(`Invalid ${field.name} range "${part}"`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a number or name within a field's bounds
+ * @private
+ */
+function parseValue(text: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(text) ?? -1;
+  const value = nameIndex >= 0 ? field.min + nameIndex : /^\d+$/.test(text) ? Number(text) : NaN;
+
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid ${field.name} "${text}" (allowed: ${field.min}-${field.max})`);
+  }
+
+  return value;
+}
+
+/**
+ * Whether the day of a wall-clock time matches the day-of-month and day-of-week fields
+ * @private
+ */
+function matchesDay(cron: CronExpression, wall: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(wall.getUTCDay());
+
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Wall-clock time of an instant in a time zone, held in the UTC fields of a Date (seconds dropped)
+ * @private
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach((part) => {
+    parts[part.type] = Number(part.value);
+  });
+
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute));
+}
+
+/**
+ * Instant at which a time zone's clock shows a wall-clock time
+ * @private
+ */
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const offsetAt = (instant: Date) =>
+    toWallClock(instant, timeZone).getTime() - Math.floor(instant.getTime() / 60000) * 60000;
+
+  // Correct with the offset at the first guess, which is right unless a DST change lies between
+  const guess = new Date(wall.getTime() - offsetAt(wall));
+  const run = new Date(wall.getTime() - offsetAt(guess));
+  if (toWallClock(run, timeZone).getTime() === wall.getTime()) {
+    return run;
+  }
+
+  // Skipped by a daylight saving change: shift by the jump, using the offset from before it
+  const SIX_HOURS = 6 * 3600000;
+  const offsetBefore = Math.min(
+    offsetAt(new Date(run.getTime() - SIX_HOURS)),
+    offsetAt(new Date(run.getTime() + SIX_HOURS))
+  );
+  return new Date(wall.getTime() - offsetBefore);
+}
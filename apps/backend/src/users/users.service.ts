@@ -10,6 +10,7 @@ export interface UserInfo {
   clerkId: string;
   email: string;
   name?: string;
+  roles?: string[]; // Approver roles from the session token; left unchanged when absent
 }
 
 @Injectable()
@@ -32,8 +33,17 @@ export class UsersService {
         clerkId: userInfo.clerkId,
         email: userInfo.email,
         name: userInfo.name,
+        roles: userInfo.roles || [],
       },
     });
+
+    // Keep approver roles in sync with the identity provider
+    if (userInfo.roles && userInfo.roles.join(',') !== user.roles.join(',')) {
+      user = await this.prisma.user.update({
+        where: { id: user.id },
+        data: { roles: userInfo.roles },
+      });
+    }
     // else {
     //   // Update email/name if changed
     //   user = await this.prisma.user.update({
@@ -0,0 +1,46 @@
+/**
+ * Hooks Controller
+ * Public endpoint that starts workflows from inbound webhook requests
+ *
+ * Served at /hooks/:webhookId, outside the /api/v1 prefix. Requests are authenticated by the
+ * webhook's own secret or HMAC signature (if any), not by a user session or API key.
+ */
+
+import { All, Controller, Param, Req, Res, RawBodyRequest } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { WebhookTriggersService } from './webhook-triggers.service';
+
+@ApiTags('hooks')
+@Controller('hooks')
+export class HooksController {
+  constructor(private readonly webhookTriggersService: WebhookTriggersService) {}
+
+  /**
+   * Start the workflow that owns a webhook
+   * ANY /hooks/:webhookId
+   */
+  @All(':webhookId')
+  @ApiOperation({ summary: 'Start a workflow from a webhook request' })
+  @ApiResponse({ status: 200, description: 'Workflow output (sync response mode)' })
+  @ApiResponse({ status: 202, description: 'Execution started' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid secret or signature' })
+  @ApiResponse({ status: 404, description: 'Webhook not found or workflow inactive' })
+  @ApiResponse({ status: 405, description: 'Webhook expects another HTTP method' })
+  async receive(
+    @Param('webhookId') webhookId: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Res() res: Response
+  ) {
+    const result = await this.webhookTriggersService.receive(webhookId, {
+      method: req.method,
+      headers: req.headers,
+      query: req.query,
+      body: req.body,
+      rawBody: req.rawBody,
+    });
+
+    res.setHeader('X-Execution-Id', result.executionId);
+    res.status(result.statusCode).json(result.body ?? null);
+  }
+}
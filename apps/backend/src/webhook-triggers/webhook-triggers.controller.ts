@@ -0,0 +1,46 @@
+/**
+ * Webhook Triggers Controller
+ * Lists a workflow's webhook URLs and rotates their secrets
+ */
+
+import { Controller, Get, Post, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { WebhookTriggersService } from './webhook-triggers.service';
+import { ClerkAuthGuard } from '../auth/clerk-auth.guard';
+import { User, AuthenticatedUser } from '../auth/user.decorator';
+
+@ApiTags('workflows')
+@ApiBearerAuth()
+@Controller('workflows/:workflowId/webhooks')
+@UseGuards(ClerkAuthGuard)
+export class WebhookTriggersController {
+  constructor(private readonly webhookTriggersService: WebhookTriggersService) {}
+
+  /**
+   * Get the webhook URLs of a workflow
+   * GET /api/v1/workflows/:workflowId/webhooks
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get the webhook URLs of a workflow' })
+  @ApiResponse({ status: 200, description: 'Webhook URLs retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async findAll(@Param('workflowId') workflowId: string, @User() user: AuthenticatedUser) {
+    return this.webhookTriggersService.findByWorkflow(workflowId, user.userId);
+  }
+
+  /**
+   * Replace the secret of a webhook URL
+   * POST /api/v1/workflows/:workflowId/webhooks/:nodeId/rotate-secret
+   */
+  @Post(':nodeId/rotate-secret')
+  @ApiOperation({ summary: 'Rotate the secret of a webhook URL' })
+  @ApiResponse({ status: 201, description: 'Secret rotated' })
+  @ApiResponse({ status: 404, description: 'Workflow or webhook not found' })
+  async rotateSecret(
+    @Param('workflowId') workflowId: string,
+    @Param('nodeId') nodeId: string,
+    @User() user: AuthenticatedUser
+  ) {
+    return this.webhookTriggersService.rotateSecret(workflowId, nodeId, user.userId);
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Webhook Triggers Module
+ * Starts workflows from inbound HTTP requests to their Webhook nodes' URLs
+ */
+
+import { Module } from '@nestjs/common';
+import { HooksController } from './hooks.controller';
+import { WebhookTriggersController } from './webhook-triggers.controller';
+import { WebhookTriggersService } from './webhook-triggers.service';
+
+@Module({
+  controllers: [HooksController, WebhookTriggersController],
+  providers: [WebhookTriggersService],
+  exports: [WebhookTriggersService],
+})
+export class WebhookTriggersModule {}
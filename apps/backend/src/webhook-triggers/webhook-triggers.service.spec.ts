@@ -0,0 +1,246 @@
+import {
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { createHmac } from 'crypto';
+import { HttpMethod, NodeType } from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhookTriggersService } from './webhook-triggers.service';
+
+const webhookNode = (nodeId: string, webhookId: string, config: Record<string, unknown> = {}) => ({
+  nodeId,
+  type: NodeType.WEBHOOK,
+  label: `Hook ${nodeId}`,
+  position: { x: 0, y: 0 },
+  config: { webhookId, ...config },
+});
+
+const definition = (...nodes: unknown[]) => ({ nodes, edges: [] });
+
+function createService() {
+  const prisma = {
+    workflow: { findUnique: jest.fn(), findMany: jest.fn() },
+    webhookTrigger: {
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    workflowExecution: { create: jest.fn() },
+  };
+  const eventEmitter = { emit: jest.fn() };
+  const service = new WebhookTriggersService(
+    prisma as unknown as PrismaService,
+    eventEmitter as unknown as EventEmitter2
+  );
+  return { service, prisma, eventEmitter };
+}
+
+describe('WebhookTriggersService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('syncWorkflow', () => {
+    it('registers the Webhook nodes of the published version', async () => {
+      const { service, prisma } = createService();
+      prisma.workflow.findUnique.mockResolvedValue({
+        id: 'wf-1',
+        isActive: true,
+        definition: definition(webhookNode('draft', 'draft-hook')),
+        publishedVersion: {
+          version: 2,
+          definition: definition(webhookNode('hook-1', 'orders', { authentication: 'hmac' })),
+        },
+      });
+
+      await expect(service.syncWorkflow('wf-1')).resolves.toEqual([]);
+
+      expect(prisma.webhookTrigger.upsert).toHaveBeenCalledTimes(1);
+      expect(prisma.webhookTrigger.upsert.mock.calls[0][0]).toMatchObject({
+        where: { workflowId_nodeId: { workflowId: 'wf-1', nodeId: 'hook-1' } },
+        update: {
+          webhookId: 'orders',
+          method: HttpMethod.POST,
+          authentication: 'hmac',
+          responseMode: 'async',
+          isActive: true,
+        },
+      });
+      expect(prisma.webhookTrigger.upsert.mock.calls[0][0].create.secret).toMatch(/^whsec_/);
+      expect(prisma.webhookTrigger.deleteMany).toHaveBeenCalledWith({
+        where: { workflowId: 'wf-1', nodeId: { notIn: ['hook-1'] } },
+      });
+    });
+
+    it('reports webhook IDs used by another workflow and drops their old URLs', async () => {
+      const { service, prisma } = createService();
+      prisma.workflow.findUnique.mockResolvedValue({
+        id: 'wf-1',
+        isActive: true,
+        definition: definition(webhookNode('hook-1', 'orders'), webhookNode('hook-2', 'taken')),
+      });
+      prisma.webhookTrigger.upsert
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+      const issues = await service.syncWorkflow('wf-1');
+
+      expect(issues).toEqual([
+        {
+          severity: 'error',
+          code: 'invalid_webhook',
+          message:
+            'Node Hook hook-2: webhook ID "taken" is used by another workflow, its URL was not registered',
+          nodeId: 'hook-2',
+          path: 'config.webhookId',
+        },
+      ]);
+      expect(prisma.webhookTrigger.deleteMany).toHaveBeenCalledWith({
+        where: { workflowId: 'wf-1', nodeId: { notIn: ['hook-1'] } },
+      });
+    });
+
+    it('does nothing for a deleted workflow', async () => {
+      const { service, prisma } = createService();
+      prisma.workflow.findUnique.mockResolvedValue(null);
+
+      await expect(service.syncWorkflow('wf-1')).resolves.toEqual([]);
+      expect(prisma.webhookTrigger.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receive', () => {
+    const trigger = (overrides: Record<string, unknown> = {}) => ({
+      id: 'trigger-1',
+      webhookId: 'orders',
+      workflowId: 'wf-1',
+      nodeId: 'hook-1',
+      method: HttpMethod.POST,
+      authentication: 'none',
+      responseMode: 'async',
+      secret: 'whsec_test',
+      isActive: true,
+      workflow: {
+        id: 'wf-1',
+        userId: 'user-1',
+        isActive: true,
+        definition: definition(webhookNode('hook-1', 'orders')),
+      },
+      ...overrides,
+    });
+
+    const request = (overrides: Record<string, unknown> = {}) => ({
+      method: 'post',
+      headers: {},
+      query: {},
+      body: { id: 7 },
+      rawBody: Buffer.from('{"id":7}'),
+      ...overrides,
+    });
+
+    it('rejects unknown and inactive webhooks', async () => {
+      const { service, prisma } = createService();
+
+      prisma.webhookTrigger.findUnique.mockResolvedValueOnce(null);
+      await expect(service.receive('orders', request())).rejects.toThrow(NotFoundException);
+
+      prisma.webhookTrigger.findUnique.mockResolvedValueOnce(trigger({ isActive: false }));
+      await expect(service.receive('orders', request())).rejects.toThrow(NotFoundException);
+    });
+
+    it('rejects other methods', async () => {
+      const { service, prisma } = createService();
+      prisma.webhookTrigger.findUnique.mockResolvedValue(trigger());
+
+      await expect(service.receive('orders', request({ method: 'GET' }))).rejects.toThrow(
+        HttpException
+      );
+      expect(prisma.workflowExecution.create).not.toHaveBeenCalled();
+    });
+
+    it('checks the shared secret header', async () => {
+      const { service, prisma } = createService();
+      prisma.webhookTrigger.findUnique.mockResolvedValue(
+        trigger({ authentication: 'shared_secret' })
+      );
+      prisma.workflowExecution.create.mockResolvedValue({ id: 'exec-1', status: 'pending' });
+
+      await expect(
+        service.receive('orders', request({ headers: { 'x-webhook-secret': 'wrong' } }))
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.receive('orders', request({ headers: { 'x-webhook-secret': 'whsec_test' } }))
+      ).resolves.toMatchObject({ statusCode: 202, executionId: 'exec-1' });
+    });
+
+    it('checks the HMAC signature of the raw body', async () => {
+      const { service, prisma } = createService();
+      prisma.webhookTrigger.findUnique.mockResolvedValue(trigger({ authentication: 'hmac' }));
+      prisma.workflowExecution.create.mockResolvedValue({ id: 'exec-1', status: 'pending' });
+      const signature = `sha256=${createHmac('sha256', 'whsec_test').update('{"id":7}').digest('hex')}`;
+
+      await expect(
+        service.receive(
+          'orders',
+          request({ headers: { 'x-webhook-signature': signature }, rawBody: Buffer.from('{}') })
+        )
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.receive('orders', request({ headers: { 'x-webhook-signature': signature } }))
+      ).resolves.toMatchObject({ statusCode: 202 });
+    });
+
+    it('starts an execution from the Webhook node without the credential headers', async () => {
+      const { service, prisma, eventEmitter } = createService();
+      prisma.webhookTrigger.findUnique.mockResolvedValue(
+        trigger({ authentication: 'shared_secret' })
+      );
+      prisma.workflowExecution.create.mockResolvedValue({ id: 'exec-1', status: 'pending' });
+
+      const response = await service.receive(
+        'orders',
+        request({
+          headers: {
+            'X-Webhook-Secret': 'whsec_test',
+            'x-webhook-secret': 'whsec_test',
+            'X-Request-Id': 'abc',
+          },
+        })
+      );
+
+      expect(response).toEqual({
+        statusCode: 202,
+        executionId: 'exec-1',
+        body: { executionId: 'exec-1', status: 'pending' },
+      });
+      const { data } = prisma.workflowExecution.create.mock.calls[0][0];
+      expect(data).toMatchObject({ workflowId: 'wf-1', userId: 'user-1', entryNodeId: 'hook-1' });
+      expect(data.input.headers).toEqual({ 'x-request-id': 'abc' });
+      expect(data.input.body).toEqual({ id: 7 });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('execution.start', {
+        executionId: 'exec-1',
+        workflowId: 'wf-1',
+        userId: 'user-1',
+      });
+    });
+  });
+
+  describe('rotateSecret', () => {
+    it('only lets the owner rotate the secret', async () => {
+      const { service, prisma } = createService();
+      prisma.workflow.findUnique.mockResolvedValue({ userId: 'user-1' });
+
+      await expect(service.rotateSecret('wf-1', 'hook-1', 'user-2')).rejects.toThrow(
+        ForbiddenException
+      );
+      expect(prisma.webhookTrigger.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * Webhook Triggers Service
+ * Starts workflows from inbound HTTP requests to /hooks/:webhookId
+ *
+ * Every Webhook node of a workflow has a row in webhook_triggers, kept in sync whenever the
+ * workflow is saved (saves report webhook IDs another workflow took meanwhile); the row holds
+ * the secret requests are verified with. An accepted request creates a pending execution that
+ * starts from the Webhook node with the request as input. In sync response mode the request is
+ * held open until the execution finishes (or the node's response timeout passes) and answered
+ * with the workflow output; the execution is polled in the database, since any backend instance
+ * may run it.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only registers webhook URLs and turns requests into executions
+ * - Dependency Injection: Receives PrismaService and EventEmitter2 through constructor
+ */
+
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WebhookTrigger as WebhookTriggerRecord } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  ExecutionStatus,
+  HttpMethod,
+  NodeType,
+  WebhookAuthentication,
+  WebhookNodeConfig,
+  WebhookResponseMode,
+  WebhookTrigger,
+  WorkflowValidationIssue,
+} from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { resolveExecutionPriority } from '../executions/utils/queue-priority.util';
+import {
+  getPublishedDefinition,
+  PUBLISHED_VERSION_INCLUDE,
+} from '../workflows/utils/workflow-version.util';
+
+const SECRET_HEADER = 'x-webhook-secret';
+const SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Request headers not passed to the workflow
+const HIDDEN_HEADERS = new Set(['authorization', 'cookie', SECRET_HEADER, SIGNATURE_HEADER]);
+
+const DEFAULT_RESPONSE_TIMEOUT_MS = 30000;
+const MAX_RESPONSE_TIMEOUT_MS = 120000;
+const SYNC_POLL_INTERVAL_MS = 500;
+
+const FINISHED_STATUSES = new Set<string>([
+  ExecutionStatus.COMPLETED,
+  ExecutionStatus.FAILED,
+  ExecutionStatus.CANCELLED,
+  ExecutionStatus.TIMED_OUT,
+]);
+
+/**
+ * Inbound request, as received by the hooks controller
+ */
+export interface InboundWebhookRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: unknown;
+  body: unknown;
+  rawBody?: Buffer; // Exact request body, for HMAC verification
+}
+
+/**
+ * Response to send for an inbound request
+ */
+export interface InboundWebhookResponse {
+  statusCode: number;
+  executionId: string;
+  body: unknown;
+}
+
+@Injectable()
+export class WebhookTriggersService implements OnApplicationBootstrap {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * Register the webhook URLs of all workflows
+   */
+  async onApplicationBootstrap() {
+    try {
+      const workflows = await this.prisma.workflow.findMany({ select: { id: true } });
+      for (const workflow of workflows) {
+        await this.syncWorkflow(workflow.id);
+      }
+    } catch (error) {
+      console.error('[Webhook Triggers] Failed to register webhook URLs:', error);
+    }
+  }
+
+  /**
+   * Bring a workflow's webhook URLs in line with the Webhook nodes of its published version
+   * A node keeps its secret while it exists, even if its webhook ID changes. Called by every save
+   * and publish; validation rejects webhook IDs in use, so issues only come from races with
+   * another save or from data saved before validation existed.
+   * @param workflowId - ID of the workflow
+   * @returns Webhook nodes whose URL could not be registered
+   */
+  async syncWorkflow(workflowId: string): Promise<WorkflowValidationIssue[]> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      include: PUBLISHED_VERSION_INCLUDE,
+    });
+    if (!workflow) {
+      return []; // Deleted; its webhook URLs are deleted with it
+    }
+
+    const { definition } = getPublishedDefinition(workflow);
+    const webhookNodes = (definition.nodes || []).filter(
+      (node): node is WebhookNodeConfig =>
+        node.type === NodeType.WEBHOOK && !!(node as WebhookNodeConfig).config?.webhookId
+    );
+    const registered: string[] = [];
+    const issues: WorkflowValidationIssue[] = [];
+
+    for (const node of webhookNodes) {
+      const data = {
+        webhookId: node.config.webhookId,
+        method: node.config.method || HttpMethod.POST,
+        authentication: node.config.authentication || 'none',
+        responseMode: node.config.responseMode || 'async',
+        isActive: workflow.isActive,
+      };
+
+      try {
+        await this.prisma.webhookTrigger.upsert({
+          where: { workflowId_nodeId: { workflowId, nodeId: node.nodeId } },
+          create: { ...data, workflowId, nodeId: node.nodeId, secret: this.generateSecret() },
+          update: data,
+        });
+        registered.push(node.nodeId);
+      } catch (error) {
+        // Most likely the webhook ID is taken by another workflow
+        console.error(
+          `[Webhook Triggers] Could not register webhook "${node.config.webhookId}" of workflow ${workflowId}:`,
+          error instanceof Error ? error.message : error
+        );
+        const taken = (error as { code?: string })?.code === 'P2002';
+        issues.push({
+          severity: 'error',
+          code: 'invalid_webhook',
+          message: taken
+            ? `Node ${node.label || node.nodeId}: webhook ID "${node.config.webhookId}" is used by another workflow, its URL was not registered`
+            : `Node ${node.label || node.nodeId}: the URL of webhook "${node.config.webhookId}" could not be registered`,
+          nodeId: node.nodeId,
+          path: 'config.webhookId',
+        });
+      }
+    }
+
+    await this.prisma.webhookTrigger.deleteMany({
+      where: { workflowId, nodeId: { notIn: registered } },
+    });
+
+    return issues;
+  }
+
+  /**
+   * Handle a request to /hooks/:webhookId
+   * @param webhookId - Webhook ID from the URL
+   * @param request - The inbound request
+   * @throws NotFoundException if no active workflow has the webhook
+   * @throws HttpException (405) if the webhook expects another method
+   * @throws UnauthorizedException if the secret or signature doesn't match
+   */
+  async receive(
+    webhookId: string,
+    request: InboundWebhookRequest
+  ): Promise<InboundWebhookResponse> {
+    const trigger = await this.prisma.webhookTrigger.findUnique({
+      where: { webhookId },
+      include: { workflow: { include: PUBLISHED_VERSION_INCLUDE } },
+    });
+
+    if (!trigger || !trigger.isActive || !trigger.workflow.isActive) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    if (request.method.toUpperCase() !== trigger.method) {
+      throw new HttpException(
+        `This webhook only accepts ${trigger.method} requests`,
+        HttpStatus.METHOD_NOT_ALLOWED
+      );
+    }
+
+    this.verify(trigger, request);
+
+    const { definition, version } = getPublishedDefinition(trigger.workflow);
+    const node = definition.nodes.find((n) => n.nodeId === trigger.nodeId) as
+      | WebhookNodeConfig
+      | undefined;
+    if (!node) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (value !== undefined && !HIDDEN_HEADERS.has(name.toLowerCase())) {
+        headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    const execution = await this.prisma.workflowExecution.create({
+      data: {
+        workflowId: trigger.workflowId,
+        userId: trigger.workflow.userId,
+        status: ExecutionStatus.PENDING,
+        queuedAt: new Date(),
+        input: {
+          webhookId,
+          method: trigger.method,
+          body: request.body ?? null,
+          headers,
+          query: request.query ?? {},
+          receivedAt: new Date().toISOString(),
+        } as any,
+        workflowSnapshot: definition as any,
+        workflowVersion: version,
+        priority: resolveExecutionPriority(definition),
+        entryNodeId: trigger.nodeId,
+      },
+    });
+
+    await this.prisma.webhookTrigger.update({
+      where: { id: trigger.id },
+      data: { lastReceivedAt: new Date() },
+    });
+
+    console.log(
+      `[Webhook Triggers] Webhook "${webhookId}" started execution ${execution.id} of workflow ${trigger.workflowId}`
+    );
+
+    // Wake up the execution queue (WorkflowEngine will pick this up)
+    this.eventEmitter.emit('execution.start', {
+      executionId: execution.id,
+      workflowId: trigger.workflowId,
+      userId: trigger.workflow.userId,
+    });
+
+    if (trigger.responseMode !== 'sync') {
+      return {
+        statusCode: HttpStatus.ACCEPTED,
+        executionId: execution.id,
+        body: { executionId: execution.id, status: execution.status },
+      };
+    }
+
+    const timeoutMs = Math.min(
+      node.config.responseTimeoutMs || DEFAULT_RESPONSE_TIMEOUT_MS,
+      MAX_RESPONSE_TIMEOUT_MS
+    );
+    const finished = await this.waitForExecution(execution.id, timeoutMs);
+
+    switch (finished.status) {
+      case ExecutionStatus.COMPLETED:
+        return { statusCode: HttpStatus.OK, executionId: execution.id, body: finished.output };
+      case ExecutionStatus.FAILED:
+      case ExecutionStatus.TIMED_OUT:
+      case ExecutionStatus.CANCELLED:
+        return {
+          statusCode:
+            finished.status === ExecutionStatus.TIMED_OUT
+              ? HttpStatus.GATEWAY_TIMEOUT
+              : HttpStatus.INTERNAL_SERVER_ERROR,
+          executionId: execution.id,
+          body: { executionId: execution.id, status: finished.status, error: finished.error },
+        };
+      default:
+        // Still queued or running, or paused for a delay or an approval
+        return {
+          statusCode: HttpStatus.ACCEPTED,
+          executionId: execution.id,
+          body: { executionId: execution.id, status: finished.status },
+        };
+    }
+  }
+
+  /**
+   * Get the webhook URLs of a workflow
+   * @param workflowId - ID of the workflow
+   * @param userId - ID of the user (must own the workflow)
+   */
+  async findByWorkflow(workflowId: string, userId: string): Promise<WebhookTrigger[]> {
+    await this.assertOwnership(workflowId, userId);
+
+    const triggers = await this.prisma.webhookTrigger.findMany({
+      where: { workflowId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return triggers.map((trigger) => this.mapToWebhookTrigger(trigger));
+  }
+
+  /**
+   * Replace the secret of a webhook URL; requests signed with the old secret are rejected
+   * @param workflowId - ID of the workflow
+   * @param nodeId - ID of the Webhook node
+   * @param userId - ID of the user (must own the workflow)
+   */
+  async rotateSecret(workflowId: string, nodeId: string, userId: string): Promise<WebhookTrigger> {
+    await this.assertOwnership(workflowId, userId);
+
+    const trigger = await this.prisma.webhookTrigger.findUnique({
+      where: { workflowId_nodeId: { workflowId, nodeId } },
+    });
+    if (!trigger) {
+      throw new NotFoundException(`Node ${nodeId} has no webhook URL; save the workflow first`);
+    }
+
+    const updated = await this.prisma.webhookTrigger.update({
+      where: { id: trigger.id },
+      data: { secret: this.generateSecret() },
+    });
+
+    console.log(`[Webhook Triggers] Rotated the secret of webhook "${trigger.webhookId}"`);
+
+    return this.mapToWebhookTrigger(updated);
+  }
+
+  /**
+   * Check the request's shared secret or HMAC signature
+   * @private
+   */
+  private verify(trigger: WebhookTriggerRecord, request: InboundWebhookRequest): void {
+    const header = (name: string) => {
+      const value = request.headers[name];
+      return (Array.isArray(value) ? value[0] : value) || '';
+    };
+
+    switch (trigger.authentication as WebhookAuthentication) {
+      case 'shared_secret':
+        if (!this.safeEqual(header(SECRET_HEADER), trigger.secret)) {
+          throw new UnauthorizedException(`Missing or invalid ${SECRET_HEADER} header`);
+        }
+        return;
+      case 'hmac': {
+        const expected = `sha256=${createHmac('sha256', trigger.secret)
+          .update(request.rawBody || Buffer.alloc(0))
+          .digest('hex')}`;
+        if (!this.safeEqual(header(SIGNATURE_HEADER), expected)) {
+          throw new UnauthorizedException(`Missing or invalid ${SIGNATURE_HEADER} header`);
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Constant-time string comparison
+   * @private
+   */
+  private safeEqual(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  /**
+   * Poll an execution until it finishes or the timeout passes
+   * @private
+   */
+  private async waitForExecution(executionId: string, timeoutMs: number) {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, SYNC_POLL_INTERVAL_MS));
+
+      const execution = await this.prisma.workflowExecution.findUniqueOrThrow({
+        where: { id: executionId },
+        select: { status: true, output: true, error: true },
+      });
+
+      if (FINISHED_STATUSES.has(execution.status) || Date.now() >= deadline) {
+        return execution;
+      }
+    }
+  }
+
+  /**
+   * Ensure a workflow exists and belongs to the user
+   * @private
+   */
+  private async assertOwnership(workflowId: string, userId: string): Promise<void> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id: workflowId },
+      select: { userId: true },
+    });
+
+    if (!workflow) {
+      throw new NotFoundException(`Workflow with ID ${workflowId} not found`);
+    }
+
+    if (workflow.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this workflow');
+    }
+  }
+
+  /**
+   * Generate a webhook secret
+   * @private
+   */
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Map a database record to the shared type
+   * @private
+   */
+  private mapToWebhookTrigger(trigger: WebhookTriggerRecord): WebhookTrigger {
+    return {
+      webhookId: trigger.webhookId,
+      nodeId: trigger.nodeId,
+      path: `/hooks/${trigger.webhookId}`,
+      method: trigger.method as HttpMethod,
+      authentication: trigger.authentication as WebhookAuthentication,
+      responseMode: trigger.responseMode as WebhookResponseMode,
+      secret: trigger.secret,
+      isActive: trigger.isActive,
+      lastReceivedAt: trigger.lastReceivedAt || undefined,
+    };
+  }
+}
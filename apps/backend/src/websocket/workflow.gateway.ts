@@ -181,6 +181,34 @@ export class WorkflowGateway implements OnGatewayConnection, OnGatewayDisconnect
     this.server.to(`execution:${executionId}`).emit('node:failed', message);
   }
 
+  /**
+   * Broadcast node skipped event
+   */
+  emitNodeSkipped(executionId: string, nodeId: string) {
+    const message: WebSocketMessage = {
+      event: WebSocketEvent.NODE_SKIPPED,
+      executionId,
+      timestamp: new Date(),
+      data: { nodeId },
+    };
+
+    this.server.to(`execution:${executionId}`).emit('node:skipped', message);
+  }
+
+  /**
+   * Broadcast node waiting event (Delay node or approval paused the node)
+   */
+  emitNodeWaiting(executionId: string, nodeId: string, resumeAt?: Date, waitingFor?: string) {
+    const message: WebSocketMessage = {
+      event: WebSocketEvent.NODE_WAITING,
+      executionId,
+      timestamp: new Date(),
+      data: { nodeId, resumeAt, waitingFor },
+    };
+
+    this.server.to(`execution:${executionId}`).emit('node:waiting', message);
+  }
+
   /**
    * Listen for execution.started events from EventEmitter
    */
@@ -206,9 +234,9 @@ export class WorkflowGateway implements OnGatewayConnection, OnGatewayDisconnect
    */
   @OnEvent('execution.failed')
   handleExecutionFailedEvent(payload: any) {
-    const { executionId, workflowId, userId, error, timestamp } = payload;
-    console.log(`Execution failed: ${executionId} - ${error}`);
-    this.emitExecutionFailed(executionId, { workflowId, userId, error, timestamp });
+    const { executionId, workflowId, userId, status, error, timestamp } = payload;
+    console.log(`Execution ${status || 'failed'}: ${executionId} - ${error}`);
+    this.emitExecutionFailed(executionId, { workflowId, userId, status, error, timestamp });
   }
 
   /**
@@ -259,19 +287,53 @@ export class WorkflowGateway implements OnGatewayConnection, OnGatewayDisconnect
     this.emitNodeFailed(executionId, nodeId, error);
   }
 
+  /**
+   * Listen for node.skipped events
+   */
+  @OnEvent('node.skipped')
+  handleNodeSkippedEvent(payload: any) {
+    const { executionId, nodeId, nodeType } = payload;
+    console.log(`Node skipped: ${nodeId} (${nodeType})`);
+    this.emitNodeSkipped(executionId, nodeId);
+  }
+
+  /**
+   * Listen for node.waiting events
+   */
+  @OnEvent('node.waiting')
+  handleNodeWaitingEvent(payload: any) {
+    const { executionId, nodeId, nodeType, resumeAt, waitingFor } = payload;
+    const until = resumeAt ? `until ${new Date(resumeAt).toISOString()}` : `for ${waitingFor}`;
+    console.log(`Node waiting: ${nodeId} (${nodeType}) ${until}`);
+    this.emitNodeWaiting(executionId, nodeId, resumeAt, waitingFor);
+  }
+
   /**
    * Listen for node.retry events
    */
   @OnEvent('node.retry')
   handleNodeRetryEvent(payload: any) {
-    const { executionId, nodeId, nodeType, attempt, maxRetries, error, timestamp } = payload;
-    console.log(`Node retry: ${nodeId} (${nodeType}) - attempt ${attempt}/${maxRetries}`);
+    const { executionId, nodeId, nodeType, attempt, maxRetries, delayMs, error, errorKind, statusCode } =
+      payload;
+    console.log(
+      `Node retry: ${nodeId} (${nodeType}) - attempt ${attempt}/${maxRetries}, ${errorKind} error, next attempt in ${delayMs}ms`
+    );
 
     const message: WebSocketMessage = {
       event: WebSocketEvent.EXECUTION_UPDATED,
       executionId,
       timestamp: new Date(),
-      data: { nodeId, nodeType, attempt, maxRetries, error, status: 'retrying' },
+      data: {
+        nodeId,
+        nodeType,
+        attempt,
+        maxRetries,
+        delayMs,
+        error,
+        errorKind,
+        statusCode,
+        status: 'retrying',
+      },
     };
 
     this.server.to(`execution:${executionId}`).emit('node:retry', message);
@@ -296,13 +358,105 @@ export class WorkflowGateway implements OnGatewayConnection, OnGatewayDisconnect
    */
   @OnEvent('execution.pending_approval')
   handleExecutionPendingApprovalEvent(payload: any) {
-    const { executionId, workflowId, userId, approvalData, timestamp } = payload;
-    console.log(`Execution pending approval: ${executionId}`);
+    const { executionId, workflowId, userId, nodeId, resumeToken, approvalDueAt, approvalData, timestamp } = payload;
+    console.log(`Execution pending approval: ${executionId} (node ${nodeId})`);
     this.emitExecutionPendingApproval(executionId, {
       workflowId,
       userId,
+      nodeId,
+      resumeToken,
+      approvalDueAt,
       approvalData,
       timestamp
     });
   }
+
+  /**
+   * Broadcast approval SLA event (reminder, escalation or expiry of a pending approval)
+   * @param event - Socket event name, e.g. "execution:approval_escalated"
+   */
+  emitApprovalSlaEvent(executionId: string, event: string, data: any) {
+    const message: WebSocketMessage = {
+      event: WebSocketEvent.EXECUTION_UPDATED,
+      executionId,
+      timestamp: new Date(),
+      data,
+    };
+
+    this.server.to(`execution:${executionId}`).emit(event, message);
+  }
+
+  /**
+   * Listen for execution.approval_reminder events
+   */
+  @OnEvent('execution.approval_reminder')
+  handleApprovalReminderEvent(payload: any) {
+    const { executionId, nodeId, approvalDueAt, nextReminderAt, timestamp } = payload;
+    console.log(`Approval reminder: ${executionId} (node ${nodeId})`);
+    this.emitApprovalSlaEvent(executionId, 'execution:approval_reminder', {
+      nodeId,
+      approvalDueAt,
+      nextReminderAt,
+      timestamp,
+    });
+  }
+
+  /**
+   * Listen for execution.approval_escalated events
+   */
+  @OnEvent('execution.approval_escalated')
+  handleApprovalEscalatedEvent(payload: any) {
+    const { executionId, nodeId, assignees, approvalDueAt, timestamp } = payload;
+    console.log(`Approval escalated: ${executionId} (node ${nodeId})`);
+    this.emitApprovalSlaEvent(executionId, 'execution:approval_escalated', {
+      nodeId,
+      assignees,
+      approvalDueAt,
+      timestamp,
+    });
+  }
+
+  /**
+   * Listen for execution.approval_expired events
+   */
+  @OnEvent('execution.approval_expired')
+  handleApprovalExpiredEvent(payload: any) {
+    const { executionId, nodeId, timeoutAction, timestamp } = payload;
+    console.log(`Approval expired: ${executionId} (node ${nodeId}, ${timeoutAction})`);
+    this.emitApprovalSlaEvent(executionId, 'execution:approval_expired', {
+      nodeId,
+      timeoutAction,
+      timestamp,
+    });
+  }
+
+  /**
+   * Broadcast execution waiting event (paused until a Delay node is due)
+   */
+  emitExecutionWaiting(executionId: string, data: any) {
+    const message: WebSocketMessage = {
+      event: WebSocketEvent.EXECUTION_UPDATED,
+      executionId,
+      timestamp: new Date(),
+      data: { ...data, status: 'waiting' },
+    };
+
+    this.server.to(`execution:${executionId}`).emit('execution:waiting', message);
+  }
+
+  /**
+   * Listen for execution.waiting events
+   */
+  @OnEvent('execution.waiting')
+  handleExecutionWaitingEvent(payload: any) {
+    const { executionId, workflowId, userId, resumeAt, nodeIds, timestamp } = payload;
+    console.log(`Execution waiting: ${executionId} until ${new Date(resumeAt).toISOString()}`);
+    this.emitExecutionWaiting(executionId, {
+      workflowId,
+      userId,
+      resumeAt,
+      nodeIds,
+      timestamp,
+    });
+  }
 }
@@ -0,0 +1,55 @@
+/**
+ * Data Transfer Objects for importing a workflow bundle
+ */
+
+import { IsBoolean, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WorkflowBundle } from '@workflow/shared-types';
+
+export class PreviewWorkflowImportDto {
+  @ApiProperty({ description: 'Bundle exported from GET /workflows/:id/export' })
+  @IsObject()
+  bundle: WorkflowBundle;
+}
+
+export class ImportWorkflowDto {
+  @ApiProperty({ description: 'Bundle exported from GET /workflows/:id/export' })
+  @IsObject()
+  bundle: WorkflowBundle;
+
+  @ApiProperty({
+    description: "Name of the new workflow (defaults to the bundle's workflow name)",
+    required: false,
+  })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  name?: string;
+
+  @ApiProperty({
+    description: 'Credential ID to use for each credential placeholder of the bundle',
+    required: false,
+    example: { 'credential:1': '3f0c9a5e-6a43-4c55-9d0b-8d6a1f1f2b7e' },
+  })
+  @IsObject()
+  @IsOptional()
+  credentialMapping?: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Workflow ID to call for each sub-workflow placeholder of the bundle',
+    required: false,
+    example: { 'workflow:1': 'c1d2e3f4-0000-4000-8000-000000000000' },
+  })
+  @IsObject()
+  @IsOptional()
+  workflowMapping?: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Give every node a new ID (edges and nodes.<id> templates are updated)',
+    required: false,
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  remapNodeIds?: boolean;
+}
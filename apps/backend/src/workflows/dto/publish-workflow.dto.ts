@@ -0,0 +1,18 @@
+/**
+ * Data Transfer Object for publishing a workflow's draft
+ */
+
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PublishWorkflowDto {
+  @ApiProperty({
+    description: 'What changed in this version',
+    required: false,
+    example: 'Send the approval email to the branch manager',
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,35 @@
+/**
+ * Data Transfer Object for testing a single node
+ */
+
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WorkflowDefinition } from '@workflow/shared-types';
+
+export class TestNodeDto {
+  @ApiProperty({
+    description: 'Unsaved workflow definition from the editor (defaults to the saved definition)',
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  definition?: WorkflowDefinition;
+
+  @ApiProperty({
+    description: "Input for the node, overriding its pinned input and its parents' pinned outputs",
+    required: false,
+    example: { customerId: 'C-1001', amount: 2500 },
+  })
+  @IsOptional()
+  input?: unknown;
+
+  @ApiProperty({
+    description:
+      'Record what email, WhatsApp, calendar and non-GET HTTP nodes would send (false sends it)',
+    required: false,
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
@@ -0,0 +1,35 @@
+/**
+ * Data Transfer Object for validating a workflow definition without saving it
+ */
+
+import { IsObject, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { WorkflowDefinition } from '@workflow/shared-types';
+
+export class ValidateWorkflowDto {
+  @ApiProperty({
+    description: 'Workflow definition to validate',
+    example: {
+      nodes: [
+        {
+          nodeId: 'node1',
+          type: 'trigger',
+          label: 'Start',
+          position: { x: 0, y: 0 },
+          config: { triggerType: 'manual' },
+        },
+      ],
+      edges: [],
+    },
+  })
+  @IsObject()
+  definition: WorkflowDefinition;
+
+  @ApiProperty({
+    description: 'ID of the workflow the definition belongs to, if saved already',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  workflowId?: string;
+}
@@ -0,0 +1,130 @@
+import { BadRequestException } from '@nestjs/common';
+import { JoinMode, NodeConfig, NodeType, WorkflowDefinition } from '@workflow/shared-types';
+import { ExecutorFactory } from '../nodes/executors/executor.factory';
+import { NodeTestService } from './node-test.service';
+import { WorkflowsService } from './workflows.service';
+
+const node = (nodeId: string, extra: Partial<NodeConfig> = {}) =>
+  ({
+    nodeId,
+    type: NodeType.DATA_TRANSFORM,
+    label: nodeId,
+    position: { x: 0, y: 0 },
+    config: { transformScript: 'return input;' },
+    ...extra,
+  }) as NodeConfig;
+
+const edge = (source: string, target: string) => ({ id: `${source}-${target}`, source, target });
+
+// Two parents with pinned outputs joined into "target"
+const joinDefinition = (joinMode?: JoinMode, target: Partial<NodeConfig> = {}) =>
+  ({
+    nodes: [
+      node('a', { pinnedData: { output: { name: 'Ada' } } }),
+      node('b', { pinnedData: { output: 42 } }),
+      node('target', { joinMode, ...target }),
+    ],
+    edges: [edge('a', 'target'), edge('b', 'target')],
+  }) as WorkflowDefinition;
+
+function createService(execute = jest.fn().mockResolvedValue({ success: true, output: 'ok' })) {
+  const workflowsService = {
+    findOne: jest.fn().mockResolvedValue({ definition: joinDefinition() }),
+  };
+  const executorFactory = { getExecutorFor: jest.fn().mockReturnValue({ execute }) };
+  const service = new NodeTestService(
+    workflowsService as unknown as WorkflowsService,
+    executorFactory as unknown as ExecutorFactory
+  );
+  return { service, execute, executorFactory };
+}
+
+describe('NodeTestService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('input resolution', () => {
+    it('prefers the input sent with the request', async () => {
+      const { service } = createService();
+      const definition = joinDefinition('merge', { pinnedData: { input: 'pinned' } });
+
+      await expect(
+        service.testNode('wf-1', 'target', 'user-1', definition, { from: 'request' })
+      ).resolves.toMatchObject({ input: { from: 'request' }, inputSource: 'request' });
+    });
+
+    it("uses the node's pinned input over its parents", async () => {
+      const { service } = createService();
+      const definition = joinDefinition('merge', { pinnedData: { input: 'pinned' } });
+
+      await expect(service.testNode('wf-1', 'target', 'user-1', definition)).resolves.toMatchObject(
+        { input: 'pinned', inputSource: 'pinned_input' }
+      );
+    });
+
+    it.each([
+      ['merge', { name: 'Ada', b: 42 }],
+      ['array', [{ name: 'Ada' }, 42]],
+      ['first', { name: 'Ada' }],
+    ] as const)('joins the pinned outputs of its parents per %s', async (joinMode, input) => {
+      const { service, execute } = createService();
+
+      await expect(
+        service.testNode('wf-1', 'target', 'user-1', joinDefinition(joinMode))
+      ).resolves.toMatchObject({ input, inputSource: 'parents' });
+      expect(execute.mock.calls[0][1]).toMatchObject({
+        previousNodeOutput: input,
+        parentOutputs: { a: { name: 'Ada' }, b: 42 },
+      });
+    });
+
+    it('runs without input when no parent has pinned output', async () => {
+      const { service } = createService();
+
+      await expect(service.testNode('wf-1', 'a', 'user-1')).resolves.toMatchObject({
+        input: undefined,
+        inputSource: 'none',
+      });
+    });
+  });
+
+  it('reports a node that outlives its timeout as timed out', async () => {
+    const { service } = createService(jest.fn().mockReturnValue(new Promise(() => undefined)));
+    const definition = joinDefinition('merge', { timeoutMs: 20 });
+
+    await expect(service.testNode('wf-1', 'target', 'user-1', definition)).resolves.toMatchObject({
+      success: false,
+      error: 'Node timed out after 20ms',
+      inputSource: 'parents',
+    });
+  });
+
+  it('records side-effecting nodes unless the request turns the dry run off', async () => {
+    const { service, executorFactory } = createService();
+
+    await service.testNode('wf-1', 'target', 'user-1');
+    await service.testNode('wf-1', 'target', 'user-1', undefined, undefined, false);
+
+    expect(executorFactory.getExecutorFor.mock.calls.map(([, dryRun]) => dryRun)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it('refuses node types that only run inside an execution', async () => {
+    const { service } = createService();
+    const definition = {
+      nodes: [node('sub', { type: NodeType.EXECUTE_WORKFLOW })],
+      edges: [],
+    } as unknown as WorkflowDefinition;
+
+    await expect(service.testNode('wf-1', 'sub', 'user-1', definition)).rejects.toThrow(
+      BadRequestException
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { NodeType } from '@workflow/shared-types';
+import {
+  BASE_NODE_SCHEMA,
+  NODE_CONFIG_SCHEMAS,
+  validateAgainstSchema,
+} from './node-config-schema.util';
+
+describe('validateAgainstSchema', () => {
+  const httpConfig = NODE_CONFIG_SCHEMAS[NodeType.HTTP_REQUEST];
+
+  it('accepts a valid config', () => {
+    expect(
+      validateAgainstSchema(
+        { url: 'https://example.com', method: 'GET', headers: { a: 'b' }, timeout: 1000 },
+        httpConfig,
+        'config'
+      )
+    ).toEqual([]);
+  });
+
+  it('reports missing required fields, counting null and empty strings as missing', () => {
+    expect(validateAgainstSchema({ url: '', method: null }, httpConfig, 'config')).toEqual([
+      { path: 'config.url', message: 'config.url is required' },
+      { path: 'config.method', message: 'config.method is required' },
+    ]);
+  });
+
+  it('does not check optional fields that are unset', () => {
+    expect(
+      validateAgainstSchema(
+        { url: 'https://x', method: 'GET', timeout: null },
+        httpConfig,
+        'config'
+      )
+    ).toEqual([]);
+  });
+
+  it('reports wrong types, enum values and bounds', () => {
+    expect(
+      validateAgainstSchema(
+        { url: 42, method: 'FETCH', timeout: 0, headers: { a: 1 } },
+        httpConfig,
+        'config'
+      )
+    ).toEqual([
+      { path: 'config.url', message: 'config.url must be a string' },
+      {
+        path: 'config.method',
+        message: expect.stringMatching(/^config.method must be one of GET/),
+      },
+      { path: 'config.timeout', message: 'config.timeout must be at least 1' },
+      { path: 'config.headers.a', message: 'config.headers.a must be a string' },
+    ]);
+  });
+
+  it('flags unknown fields separately from errors', () => {
+    expect(
+      validateAgainstSchema({ url: 'https://x', method: 'GET', retries: 3 }, httpConfig, 'config')
+    ).toEqual([
+      {
+        path: 'config.retries',
+        message: 'config.retries is not a known field',
+        unknownField: true,
+      },
+    ]);
+  });
+
+  it('checks nested objects and array items', () => {
+    const violations = validateAgainstSchema(
+      {
+        nodeId: 'n1',
+        type: NodeType.HTTP_REQUEST,
+        label: 'Fetch',
+        position: { x: 0 },
+        retryPolicy: { maxAttempts: 1.5, retryOn: ['network', 'sometimes'] },
+      },
+      BASE_NODE_SCHEMA,
+      ''
+    );
+
+    expect(violations.map((violation) => violation.path)).toEqual([
+      'position.y',
+      'retryPolicy.maxAttempts',
+      'retryPolicy.retryOn[1]',
+    ]);
+  });
+
+  it('reports a value of the wrong type once', () => {
+    expect(validateAgainstSchema([], httpConfig, 'config')).toEqual([
+      { path: 'config', message: 'config must be an object' },
+    ]);
+  });
+});
@@ -0,0 +1,515 @@
+/**
+ * Node Config Schema Utility
+ * JSON schemas of workflow definitions: node fields, each node type's config, edges and settings
+ *
+ * The schemas are typed against the NodeConfig union: each one must describe every field of
+ * its config interface, so a field added to an interface without a schema doesn't compile.
+ * Only the subset of JSON Schema the definitions need is supported (type, enum, required,
+ * properties, additionalProperties, items and numeric bounds).
+ */
+
+import {
+  HttpMethod,
+  BaseNodeConfig,
+  NodeConfig,
+  NodeType,
+  SWITCH_DEFAULT_HANDLE,
+  WorkflowEdge,
+  WorkflowSettings,
+} from '@workflow/shared-types';
+
+/**
+ * JSON schema (supported subset)
+ */
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'; // Unset = any value
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: JsonSchema; // Schema of the values of free-form maps (e.g. headers)
+}
+
+/**
+ * Problem found by validateAgainstSchema
+ */
+export interface SchemaViolation {
+  path: string; // e.g. "config.credentialId"
+  message: string;
+  unknownField?: boolean; // Field the schema doesn't describe (reported as a warning)
+}
+
+// Keys of T that are not optional
+type RequiredKeys<T> = Extract<
+  { [K in keyof T]-?: undefined extends T[K] ? never : K }[keyof T],
+  string
+>;
+
+/**
+ * Object schema describing every field of T
+ */
+export interface ObjectSchema<T> extends JsonSchema {
+  type: 'object';
+  properties: { [K in keyof Required<T>]: JsonSchema };
+  required: readonly RequiredKeys<T>[];
+}
+
+type NodeConfigOf<T extends NodeType> = Extract<NodeConfig, { type: T }>['config'];
+
+const STRING: JsonSchema = { type: 'string' };
+const BOOLEAN: JsonSchema = { type: 'boolean' };
+const STRING_LIST: JsonSchema = { type: 'array', items: STRING };
+const STRING_MAP: JsonSchema = { type: 'object', additionalProperties: STRING };
+const POSITIVE_INTEGER: JsonSchema = { type: 'integer', minimum: 1 };
+const NON_NEGATIVE_INTEGER: JsonSchema = { type: 'integer', minimum: 0 };
+const HTTP_METHOD: JsonSchema = { type: 'string', enum: Object.values(HttpMethod) };
+
+/**
+ * Schema of the fields every node has
+ */
+export const BASE_NODE_SCHEMA: ObjectSchema<BaseNodeConfig> = {
+  type: 'object',
+  properties: {
+    nodeId: STRING,
+    type: { type: 'string', enum: Object.values(NodeType) },
+    label: STRING,
+    position: {
+      type: 'object',
+      properties: { x: { type: 'number' }, y: { type: 'number' } },
+      required: ['x', 'y'],
+    },
+    joinMode: { type: 'string', enum: ['merge', 'array', 'first'] },
+    retryPolicy: {
+      type: 'object',
+      properties: {
+        maxAttempts: POSITIVE_INTEGER,
+        backoff: { type: 'string', enum: ['fixed', 'linear', 'exponential'] },
+        initialDelayMs: NON_NEGATIVE_INTEGER,
+        maxDelayMs: NON_NEGATIVE_INTEGER,
+        jitter: BOOLEAN,
+        retryOn: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['network', 'timeout', 'rate_limit', 'server_error', 'client_error', 'unknown'],
+          },
+        },
+        retryOnStatusCodes: {
+          type: 'array',
+          items: { type: 'integer', minimum: 100, maximum: 599 },
+        },
+      },
+    },
+    timeoutMs: POSITIVE_INTEGER,
+    continueOnFailure: BOOLEAN,
+    pinnedData: { type: 'object', properties: { input: {}, output: {} } },
+  },
+  required: ['nodeId', 'type', 'label', 'position'],
+};
+
+/**
+ * Schema of an edge
+ */
+export const WORKFLOW_EDGE_SCHEMA: ObjectSchema<WorkflowEdge> = {
+  type: 'object',
+  properties: {
+    id: STRING,
+    source: STRING,
+    target: STRING,
+    sourceHandle: STRING,
+    targetHandle: STRING,
+  },
+  required: ['id', 'source', 'target'],
+};
+
+/**
+ * Schema of the workflow-level settings
+ */
+export const WORKFLOW_SETTINGS_SCHEMA: ObjectSchema<WorkflowSettings> = {
+  type: 'object',
+  properties: {
+    executionTimeoutMs: POSITIVE_INTEGER,
+    maxConcurrency: POSITIVE_INTEGER,
+    priority: { type: 'integer', minimum: -100, maximum: 100 },
+  },
+  required: [],
+};
+
+/**
+ * Schema of each node type's config
+ */
+export const NODE_CONFIG_SCHEMAS: { [T in NodeType]: ObjectSchema<NodeConfigOf<T>> } = {
+  [NodeType.TRIGGER]: {
+    type: 'object',
+    properties: {
+      triggerType: { type: 'string', enum: ['manual', 'scheduled', 'webhook'] },
+      schedule: STRING,
+      timezone: STRING,
+      catchUp: { type: 'string', enum: ['none', 'latest', 'all'] },
+    },
+    required: ['triggerType'],
+  },
+  [NodeType.HTTP_REQUEST]: {
+    type: 'object',
+    properties: {
+      url: STRING,
+      method: HTTP_METHOD,
+      headers: STRING_MAP,
+      body: STRING,
+      timeout: POSITIVE_INTEGER,
+    },
+    required: ['url', 'method'],
+  },
+  [NodeType.DATA_TRANSFORM]: {
+    type: 'object',
+    properties: {
+      transformScript: STRING,
+      inputMapping: STRING_MAP,
+    },
+    required: ['transformScript'],
+  },
+  [NodeType.CONDITIONAL]: {
+    type: 'object',
+    properties: {
+      condition: STRING,
+      trueOutputId: STRING,
+      falseOutputId: STRING,
+    },
+    required: ['condition'],
+  },
+  [NodeType.SWITCH]: {
+    type: 'object',
+    properties: {
+      expression: STRING,
+      cases: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            handle: STRING,
+            label: STRING,
+            match: { type: 'string', enum: ['equals', 'regex', 'range', 'expression'] },
+            value: STRING,
+            pattern: STRING,
+            flags: STRING,
+            min: { type: 'number' },
+            max: { type: 'number' },
+            expression: STRING,
+          },
+          required: ['handle', 'match'],
+        },
+      },
+    },
+    required: ['expression', 'cases'],
+  },
+  [NodeType.DELAY]: {
+    type: 'object',
+    properties: {
+      mode: { type: 'string', enum: ['duration', 'until', 'time_of_day'] },
+      delayMs: NON_NEGATIVE_INTEGER,
+      until: STRING,
+      timeOfDay: STRING,
+      timezone: STRING,
+      businessHours: {
+        type: 'object',
+        properties: {
+          days: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 } },
+          start: STRING,
+          end: STRING,
+          holidays: STRING_LIST,
+        },
+        required: ['days', 'start', 'end'],
+      },
+    },
+    required: [],
+  },
+  [NodeType.WEBHOOK]: {
+    type: 'object',
+    properties: {
+      webhookId: STRING,
+      method: HTTP_METHOD,
+      authentication: { type: 'string', enum: ['none', 'shared_secret', 'hmac'] },
+      responseMode: { type: 'string', enum: ['async', 'sync'] },
+      responseTimeoutMs: { type: 'integer', minimum: 1, maximum: 120000 },
+    },
+    required: ['webhookId', 'method'],
+  },
+  [NodeType.EMAIL]: {
+    type: 'object',
+    properties: {
+      credentialId: STRING,
+      to: STRING,
+      subject: STRING,
+      body: STRING,
+      from: STRING,
+      fromName: STRING,
+      attachments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { filename: STRING, content: STRING },
+          required: ['filename', 'content'],
+        },
+      },
+    },
+    required: ['credentialId', 'to', 'subject', 'body'],
+  },
+  [NodeType.GOOGLE_CALENDAR]: {
+    type: 'object',
+    properties: {
+      credentialId: STRING,
+      summary: STRING,
+      description: STRING,
+      startTime: STRING,
+      endTime: STRING,
+      attendees: STRING,
+      createMeet: BOOLEAN,
+      timezone: STRING,
+    },
+    required: ['credentialId', 'summary', 'startTime', 'endTime', 'attendees'],
+  },
+  [NodeType.WHATSAPP]: {
+    type: 'object',
+    properties: {
+      credentialId: STRING,
+      to: STRING,
+      message: STRING,
+      mediaUrl: STRING,
+    },
+    required: ['credentialId', 'to', 'message'],
+  },
+  [NodeType.MANUAL_APPROVAL]: {
+    type: 'object',
+    properties: {
+      title: STRING,
+      description: STRING,
+      dataFields: STRING_LIST,
+      requireComment: BOOLEAN,
+      allowBulkApproval: BOOLEAN,
+      approvers: STRING_LIST,
+      approvalRoles: STRING_LIST,
+      requiredApprovals: POSITIVE_INTEGER,
+      deadlineMs: POSITIVE_INTEGER,
+      timeoutAction: { type: 'string', enum: ['reject', 'approve', 'timeout_branch'] },
+      reminderIntervalMs: POSITIVE_INTEGER,
+      escalateAfterMs: POSITIVE_INTEGER,
+      escalationAssignees: STRING_LIST,
+    },
+    required: [],
+  },
+  [NodeType.LOOP]: {
+    type: 'object',
+    properties: {
+      itemsExpression: STRING,
+      concurrency: POSITIVE_INTEGER,
+      maxItems: POSITIVE_INTEGER,
+    },
+    required: ['itemsExpression'],
+  },
+  [NodeType.EXECUTE_WORKFLOW]: {
+    type: 'object',
+    properties: {
+      workflowId: STRING,
+      inputMapping: STRING_MAP,
+      waitForCompletion: BOOLEAN,
+    },
+    required: ['workflowId'],
+  },
+  [NodeType.CSV_UPLOAD]: {
+    type: 'object',
+    properties: {
+      fileUploadId: STRING,
+      anonymizeData: BOOLEAN,
+      detectEmail: BOOLEAN,
+      detectPhone: BOOLEAN,
+      detectPAN: BOOLEAN,
+      detectAadhaar: BOOLEAN,
+      detectName: BOOLEAN,
+      customFields: STRING_LIST,
+      batchSize: POSITIVE_INTEGER,
+    },
+    required: [],
+  },
+  [NodeType.AI_CONTENT_GENERATOR]: {
+    type: 'object',
+    properties: {
+      contentType: { type: 'string', enum: ['email', 'sms', 'whatsapp', 'social', 'custom'] },
+      purpose: STRING,
+      targetAudience: STRING,
+      keyPoints: STRING,
+      tone: { type: 'string', enum: ['professional', 'friendly', 'formal', 'casual'] },
+      maxLength: POSITIVE_INTEGER,
+      variableFields: STRING_LIST,
+      contextTemplate: STRING,
+    },
+    required: ['contentType', 'purpose', 'targetAudience', 'keyPoints', 'tone'],
+  },
+  [NodeType.COMPLIANCE_CHECKER]: {
+    type: 'object',
+    properties: {
+      contentField: STRING,
+      contentType: { type: 'string', enum: ['email', 'sms', 'whatsapp', 'social'] },
+      productCategory: {
+        type: 'string',
+        enum: ['banking', 'investment', 'insurance', 'loan', 'credit-card', 'general'],
+      },
+      failOnViolation: BOOLEAN,
+      minimumScore: { type: 'number', minimum: 0, maximum: 100 },
+      minPassingScore: { type: 'number', minimum: 0, maximum: 100 },
+      saveToAudit: BOOLEAN,
+    },
+    required: ['contentField', 'contentType'],
+  },
+  [NodeType.COMPLIANCE_REPORT]: {
+    type: 'object',
+    properties: {
+      reportFormat: { type: 'string', enum: ['json', 'html', 'pdf', 'csv'] },
+      includeFailedOnly: BOOLEAN,
+      includeSuggestions: BOOLEAN,
+      includeStatistics: BOOLEAN,
+      includeViolations: BOOLEAN,
+      groupBy: { type: 'string', enum: ['execution', 'customer', 'violation_type'] },
+      dateRange: { type: 'object', properties: { startDate: STRING, endDate: STRING } },
+      outputPath: STRING,
+    },
+    required: ['reportFormat'],
+  },
+};
+
+/**
+ * Node config fields holding JavaScript rather than templates
+ */
+export const SCRIPT_FIELDS = new Set([
+  'transformScript',
+  'condition',
+  'expression',
+  'itemsExpression',
+  'inputMapping',
+  'pattern',
+]);
+
+/**
+ * Source handles each branching node type may have edges from, besides "error"
+ * Handles of Switch nodes come from their cases; other types have a single unnamed output
+ */
+export const NODE_SOURCE_HANDLES: Partial<Record<NodeType, readonly string[]>> = {
+  [NodeType.CONDITIONAL]: ['true', 'false'],
+  [NodeType.LOOP]: ['item', 'done'],
+  [NodeType.MANUAL_APPROVAL]: ['rejected', 'timeout'],
+  [NodeType.SWITCH]: [SWITCH_DEFAULT_HANDLE],
+};
+
+/**
+ * Check a value against a schema
+ * Fields holding null or an empty string count as unset (the editor clears fields that way):
+ * required ones are reported as missing, optional ones are not checked
+ * @param value - Value to check
+ * @param schema - Schema to check it against
+ * @param path - Path of the value, used in the messages ("" for the root)
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string
+): SchemaViolation[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path, message: `${path} must be ${article(schema.type)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [{ path, message: `${path} must be one of ${schema.enum.join(', ')}` }];
+  }
+
+  const violations: SchemaViolation[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `${path} must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `${path} must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      violations.push(
+        ...validateAgainstSchema(item, schema.items as JsonSchema, `${path}[${index}]`)
+      );
+    });
+  }
+
+  // Object schemas without properties or additionalProperties accept any fields
+  if (schema.type === 'object' && (schema.properties || schema.additionalProperties)) {
+    const record = value as Record<string, unknown>;
+
+    for (const field of schema.required || []) {
+      if (isMissing(record[field])) {
+        const fieldPath = joinPath(path, field);
+        violations.push({ path: fieldPath, message: `${fieldPath} is required` });
+      }
+    }
+
+    for (const [field, fieldValue] of Object.entries(record)) {
+      const fieldSchema = schema.properties?.[field] ?? schema.additionalProperties;
+      const fieldPath = joinPath(path, field);
+
+      if (!fieldSchema) {
+        violations.push({
+          path: fieldPath,
+          message: `${fieldPath} is not a known field`,
+          unknownField: true,
+        });
+      } else if (!isMissing(fieldValue)) {
+        violations.push(...validateAgainstSchema(fieldValue, fieldSchema, fieldPath));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Path of an object field
+ * @private
+ */
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+/**
+ * Whether a value counts as not set
+ * @private
+ */
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Whether a value has a JSON schema type
+ * @private
+ */
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * "a string", "an integer", ...
+ * @private
+ */
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
@@ -0,0 +1,140 @@
+import { NodeType, WorkflowDefinition } from '@workflow/shared-types';
+import {
+  collectReferences,
+  CREDENTIAL_REFERENCE,
+  remapNodeIds,
+  replaceReferences,
+  WORKFLOW_REFERENCE,
+} from './workflow-bundle.util';
+
+const node = (nodeId: string, type: NodeType, config: Record<string, unknown>) => ({
+  nodeId,
+  type,
+  label: nodeId,
+  position: { x: 0, y: 0 },
+  config,
+});
+
+const definition = (nodes: unknown[], edges: unknown[] = []) =>
+  ({ nodes, edges }) as unknown as WorkflowDefinition;
+
+describe('workflow-bundle.util', () => {
+  describe('collectReferences', () => {
+    it('lists referenced IDs with the nodes using them, skipping empty values and templates', () => {
+      const workflow = definition([
+        node('mail-1', NodeType.EMAIL, { credentialId: 'cred-a' }),
+        node('mail-2', NodeType.EMAIL, { credentialId: 'cred-b' }),
+        node('mail-3', NodeType.EMAIL, { credentialId: 'cred-a' }),
+        node('mail-4', NodeType.EMAIL, { credentialId: '' }),
+        node('mail-5', NodeType.EMAIL, { credentialId: '{{variables.credential}}' }),
+        node('call', NodeType.EXECUTE_WORKFLOW, { workflowId: 'wf-9' }),
+      ]);
+
+      expect(collectReferences(workflow, CREDENTIAL_REFERENCE)).toEqual(
+        new Map([
+          ['cred-a', ['mail-1', 'mail-3']],
+          ['cred-b', ['mail-2']],
+        ])
+      );
+      expect(collectReferences(workflow, WORKFLOW_REFERENCE)).toEqual(
+        new Map([['wf-9', ['call']]])
+      );
+    });
+
+    it('only reads workflow IDs of Execute Workflow nodes', () => {
+      const workflow = definition([node('hook', NodeType.WEBHOOK, { workflowId: 'wf-9' })]);
+
+      expect(collectReferences(workflow, WORKFLOW_REFERENCE).size).toBe(0);
+    });
+  });
+
+  describe('replaceReferences', () => {
+    it('replaces listed values in place and keeps the others', () => {
+      const workflow = definition([
+        node('mail-1', NodeType.EMAIL, { credentialId: 'cred-a' }),
+        node('mail-2', NodeType.EMAIL, { credentialId: 'cred-b' }),
+      ]);
+
+      replaceReferences(workflow, CREDENTIAL_REFERENCE, new Map([['cred-a', 'credential:1']]));
+
+      expect(
+        workflow.nodes.map((n) => (n.config as { credentialId: string }).credentialId)
+      ).toEqual(['credential:1', 'cred-b']);
+    });
+  });
+
+  describe('remapNodeIds', () => {
+    const nodeIdMap = new Map([
+      ['http-1', 'http-9'],
+      ['check', 'check-2'],
+    ]);
+
+    it('renames nodes, edges and Conditional output IDs', () => {
+      const renamed = remapNodeIds(
+        definition(
+          [
+            node('check', NodeType.CONDITIONAL, {
+              condition: 'true',
+              trueOutputId: 'http-1',
+              falseOutputId: 'other',
+            }),
+            node('http-1', NodeType.HTTP_REQUEST, { url: 'https://example.com', method: 'GET' }),
+          ],
+          [{ id: 'e1', source: 'check', target: 'http-1', sourceHandle: 'true' }]
+        ),
+        nodeIdMap
+      );
+
+      expect(renamed.nodes.map((n) => n.nodeId)).toEqual(['check-2', 'http-9']);
+      expect(renamed.nodes[0].config).toMatchObject({
+        trueOutputId: 'http-9',
+        falseOutputId: 'other',
+      });
+      expect(renamed.edges).toEqual([
+        { id: 'e1', source: 'check-2', target: 'http-9', sourceHandle: 'true' },
+      ]);
+    });
+
+    it('renames node references in templates, in dotted and bracket form', () => {
+      const renamed = remapNodeIds(
+        definition([
+          node('mail', NodeType.EMAIL, {
+            to: '{{ nodes.http-1.output.email }}',
+            subject: '{{nodes["http-1"].output.title | upper}} for {{nodes.other.output.id}}',
+            attachments: [{ url: "{{nodes['http-1'].output.file}}" }],
+          }),
+        ]),
+        nodeIdMap
+      );
+
+      expect(renamed.nodes[0].config).toEqual({
+        to: '{{ nodes.http-9.output.email }}',
+        subject: '{{nodes["http-9"].output.title | upper}} for {{nodes.other.output.id}}',
+        attachments: [{ url: "{{nodes['http-9'].output.file}}" }],
+      });
+    });
+
+    it('leaves scripts and the original definition untouched', () => {
+      const original = definition([
+        node('transform', NodeType.DATA_TRANSFORM, {
+          transformScript: 'return "{{nodes.http-1.output}}";',
+        }),
+        node('http-1', NodeType.HTTP_REQUEST, {
+          url: 'https://example.com/{{nodes.http-1.output.id}}',
+          method: 'GET',
+        }),
+      ]);
+
+      const renamed = remapNodeIds(original, nodeIdMap);
+
+      expect(renamed.nodes[0].config).toEqual(original.nodes[0].config);
+      expect(original.nodes[1]).toMatchObject({
+        nodeId: 'http-1',
+        config: { url: 'https://example.com/{{nodes.http-1.output.id}}' },
+      });
+      expect(renamed.nodes[1].config).toMatchObject({
+        url: 'https://example.com/{{nodes.http-9.output.id}}',
+      });
+    });
+  });
+});
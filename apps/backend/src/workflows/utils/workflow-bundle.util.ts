@@ -0,0 +1,153 @@
+/**
+ * Workflow Bundle Utility
+ * Placeholders for deployment-specific IDs and node ID remapping used by workflow bundles
+ *
+ * Credential and workflow IDs only exist in one deployment, so exported definitions refer to
+ * them through placeholders ("credential:1", "workflow:1") that are mapped back on import.
+ */
+
+import { NodeConfig, NodeType, WorkflowDefinition } from '@workflow/shared-types';
+import { SCRIPT_FIELDS } from './node-config-schema.util';
+
+export const CREDENTIAL_PLACEHOLDER_PREFIX = 'credential:';
+export const WORKFLOW_PLACEHOLDER_PREFIX = 'workflow:';
+
+const PLACEHOLDER_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+/**
+ * Node config field holding a deployment-specific ID
+ */
+export interface ReferenceField {
+  field: 'credentialId' | 'workflowId';
+  prefix: string;
+  appliesTo: (node: NodeConfig) => boolean;
+}
+
+export const CREDENTIAL_REFERENCE: ReferenceField = {
+  field: 'credentialId',
+  prefix: CREDENTIAL_PLACEHOLDER_PREFIX,
+  appliesTo: (node) => typeof (node.config as any)?.credentialId === 'string',
+};
+
+export const WORKFLOW_REFERENCE: ReferenceField = {
+  field: 'workflowId',
+  prefix: WORKFLOW_PLACEHOLDER_PREFIX,
+  appliesTo: (node) => node.type === NodeType.EXECUTE_WORKFLOW,
+};
+
+/**
+ * IDs a definition's nodes refer to through a reference field, with the nodes using each
+ * Empty values and templates (resolved at runtime) are left out
+ * @returns Node IDs by referenced ID, in order of first use
+ */
+export function collectReferences(
+  definition: WorkflowDefinition,
+  reference: ReferenceField
+): Map<string, string[]> {
+  const references = new Map<string, string[]>();
+
+  for (const node of definition.nodes) {
+    const value = (node.config as any)?.[reference.field];
+    if (!reference.appliesTo(node) || typeof value !== 'string' || !value || value.includes('{{')) {
+      continue;
+    }
+    references.set(value, [...(references.get(value) || []), node.nodeId]);
+  }
+
+  return references;
+}
+
+/**
+ * Replace the values of a reference field (in place)
+ * @param replacements - New value by current value; values not listed are kept
+ */
+export function replaceReferences(
+  definition: WorkflowDefinition,
+  reference: ReferenceField,
+  replacements: Map<string, string>
+): void {
+  for (const node of definition.nodes) {
+    const config = node.config as any;
+    if (reference.appliesTo(node) && replacements.has(config?.[reference.field])) {
+      config[reference.field] = replacements.get(config[reference.field]);
+    }
+  }
+}
+
+/**
+ * Rename nodes, following the edges, Conditional output IDs and nodes.<id> template references
+ * @param definition - Definition to copy
+ * @param nodeIdMap - New node ID by current one
+ * @returns Renamed copy of the definition
+ */
+export function remapNodeIds(
+  definition: WorkflowDefinition,
+  nodeIdMap: Map<string, string>
+): WorkflowDefinition {
+  const rename = (nodeId: string) => nodeIdMap.get(nodeId) ?? nodeId;
+
+  const renameInTemplates = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(PLACEHOLDER_PATTERN, (placeholder: string, source: string) =>
+        renameTemplateNodeReference(placeholder, source, nodeIdMap)
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map(renameInTemplates);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [
+          key,
+          SCRIPT_FIELDS.has(key) ? child : renameInTemplates(child),
+        ])
+      );
+    }
+    return value;
+  };
+
+  return {
+    ...definition,
+    nodes: definition.nodes.map((node) => {
+      const config = renameInTemplates(node.config) as any;
+      if (node.type === NodeType.CONDITIONAL) {
+        for (const field of ['trueOutputId', 'falseOutputId']) {
+          if (config[field]) {
+            config[field] = rename(config[field]);
+          }
+        }
+      }
+      return { ...node, nodeId: rename(node.nodeId), config } as NodeConfig;
+    }),
+    edges: definition.edges.map((edge) => ({
+      ...edge,
+      source: rename(edge.source),
+      target: rename(edge.target),
+    })),
+  };
+}
+
+/**
+ * Rename the node a placeholder refers to, e.g. {{nodes.http-1.output.id}}
+ * Handles both the dotted and the bracket ("nodes["http-1"]") forms
+ * @private
+ */
+function renameTemplateNodeReference(
+  placeholder: string,
+  source: string,
+  nodeIdMap: Map<string, string>
+): string {
+  const match = source.match(/^(\s*nodes)(?:\.([^.[\s|}]+)|\[(["'])(.*?)\3\])/);
+  if (!match) {
+    return placeholder;
+  }
+
+  const nodeId = match[2] ?? match[4];
+  const renamed = nodeIdMap.get(nodeId);
+  if (!renamed) {
+    return placeholder;
+  }
+
+  const reference = match[2] !== undefined ? `.${renamed}` : `[${match[3]}${renamed}${match[3]}]`;
+  return `{{${match[1]}${reference}${source.slice(match[0].length)}}}`;
+}
@@ -0,0 +1,103 @@
+import { NodeType, WorkflowDefinition } from '@workflow/shared-types';
+import { diffDefinitions, getPublishedDefinition, isDeepEqual } from './workflow-version.util';
+
+const node = (nodeId: string, config: Record<string, unknown>, x = 0) => ({
+  nodeId,
+  type: NodeType.HTTP_REQUEST,
+  label: nodeId,
+  position: { x, y: 0 },
+  config,
+});
+
+const definition = (nodes: unknown[], edges: unknown[] = [], extra = {}) =>
+  ({ nodes, edges, ...extra }) as unknown as WorkflowDefinition;
+
+describe('workflow-version.util', () => {
+  describe('getPublishedDefinition', () => {
+    it('prefers the published version over the draft', () => {
+      const draft = definition([]);
+      const published = definition([node('a', {})]);
+
+      expect(
+        getPublishedDefinition({
+          definition: draft,
+          publishedVersion: { version: 3, definition: published },
+        })
+      ).toEqual({ definition: published, version: 3 });
+      expect(getPublishedDefinition({ definition: draft, publishedVersion: null })).toEqual({
+        definition: draft,
+      });
+    });
+  });
+
+  describe('isDeepEqual', () => {
+    it('ignores key order and keys holding undefined', () => {
+      expect(isDeepEqual({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 })).toBe(true);
+      expect(isDeepEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+    });
+
+    it('compares arrays in order', () => {
+      expect(isDeepEqual([1, 2], [2, 1])).toBe(false);
+      expect(isDeepEqual([], {})).toBe(false);
+      expect(isDeepEqual(null, {})).toBe(false);
+    });
+  });
+
+  describe('diffDefinitions', () => {
+    const refs = { from: 1, to: 'draft' } as const;
+
+    it('reports added, removed and changed nodes and edges', () => {
+      const diff = diffDefinitions(
+        definition(
+          [node('a', { url: 'https://a' }), node('b', { url: 'https://b' })],
+          [{ id: 'e1', source: 'a', target: 'b' }]
+        ),
+        definition(
+          [node('a', { url: 'https://a2' }, 100), node('c', { url: 'https://c' })],
+          [{ id: 'e2', source: 'a', target: 'c' }]
+        ),
+        refs
+      );
+
+      expect(diff.from).toBe(1);
+      expect(diff.to).toBe('draft');
+      expect(diff.nodes.added.map((n) => n.nodeId)).toEqual(['c']);
+      expect(diff.nodes.removed.map((n) => n.nodeId)).toEqual(['b']);
+      expect(diff.nodes.changed).toEqual([
+        expect.objectContaining({ nodeId: 'a', fields: ['position', 'config'] }),
+      ]);
+      expect(diff.edges.added.map((e) => e.id)).toEqual(['e2']);
+      expect(diff.edges.removed.map((e) => e.id)).toEqual(['e1']);
+      expect(diff.hasChanges).toBe(true);
+    });
+
+    it('reports settings and variables changes', () => {
+      const diff = diffDefinitions(
+        definition([], [], { settings: { priority: 1 } }),
+        definition([], [], { settings: { priority: 2 }, variables: { region: 'west' } }),
+        refs
+      );
+
+      expect(diff).toMatchObject({
+        settingsChanged: true,
+        variablesChanged: true,
+        hasChanges: true,
+      });
+    });
+
+    it('finds no changes between equal definitions', () => {
+      const before = definition([node('a', { url: 'https://a', method: 'GET' })], [], {
+        settings: {},
+      });
+      const after = definition([node('a', { method: 'GET', url: 'https://a' })]);
+
+      expect(diffDefinitions(before, after, refs)).toMatchObject({
+        nodes: { added: [], removed: [], changed: [] },
+        edges: { added: [], removed: [], changed: [] },
+        settingsChanged: false,
+        variablesChanged: false,
+        hasChanges: false,
+      });
+    });
+  });
+});
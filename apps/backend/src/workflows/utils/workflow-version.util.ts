@@ -0,0 +1,148 @@
+/**
+ * Workflow Version Utility
+ * Picks the definition a workflow runs with and compares two definitions
+ *
+ * A workflow's definition is its draft. Once a version is published, executions started
+ * outside the editor (API keys, schedules, webhooks, Execute Workflow nodes) run that version,
+ * so edits only reach them when they are published.
+ */
+
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionDiff,
+  WorkflowEdge,
+  WorkflowVersionRef,
+} from '@workflow/shared-types';
+
+/**
+ * Prisma include loading a workflow's published version along with it
+ */
+export const PUBLISHED_VERSION_INCLUDE = {
+  publishedVersion: { select: { version: true, definition: true } },
+} as const;
+
+/**
+ * Workflow row loaded with PUBLISHED_VERSION_INCLUDE
+ */
+export interface VersionedWorkflow {
+  definition: unknown;
+  publishedVersion?: { version: number; definition: unknown } | null;
+}
+
+/**
+ * Definition that executions started outside the editor run
+ * @param workflow - Workflow loaded with its published version
+ * @returns The published definition and its version, or the draft (no version) if none is published
+ */
+export function getPublishedDefinition(workflow: VersionedWorkflow): {
+  definition: WorkflowDefinition;
+  version?: number;
+} {
+  if (workflow.publishedVersion) {
+    return {
+      definition: workflow.publishedVersion.definition as WorkflowDefinition,
+      version: workflow.publishedVersion.version,
+    };
+  }
+  return { definition: workflow.definition as WorkflowDefinition };
+}
+
+/**
+ * Compare two definitions of a workflow
+ * Nodes are matched by nodeId and edges by id; nodes that were only moved count as changed
+ * (field "position")
+ * @param from - Older definition
+ * @param to - Newer definition
+ * @param refs - What the two definitions are, echoed in the result
+ */
+export function diffDefinitions(
+  from: WorkflowDefinition,
+  to: WorkflowDefinition,
+  refs: { from: WorkflowVersionRef; to: WorkflowVersionRef }
+): WorkflowDefinitionDiff {
+  const nodes = diffById(from.nodes || [], to.nodes || [], (node) => node.nodeId);
+  const edges = diffById<WorkflowEdge>(from.edges || [], to.edges || [], (edge) => edge.id);
+  const settingsChanged = !isDeepEqual(from.settings ?? {}, to.settings ?? {});
+  const variablesChanged = !isDeepEqual(from.variables ?? {}, to.variables ?? {});
+
+  return {
+    ...refs,
+    nodes: {
+      added: nodes.added,
+      removed: nodes.removed,
+      changed: nodes.changed.map(({ id, ...change }) => ({ nodeId: id, ...change })),
+    },
+    edges: {
+      added: edges.added,
+      removed: edges.removed,
+      changed: edges.changed.map(({ id, ...change }) => ({ edgeId: id, ...change })),
+    },
+    settingsChanged,
+    variablesChanged,
+    hasChanges:
+      settingsChanged ||
+      variablesChanged ||
+      [nodes, edges].some(
+        (diff) => diff.added.length + diff.removed.length + diff.changed.length > 0
+      ),
+  };
+}
+
+/**
+ * Whether two JSON values are equal, regardless of object key order (jsonb doesn't keep it)
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isDeepEqual(item, b[index]))
+    );
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    // Keys holding undefined are not stored, so they don't count
+    const aKeys = Object.keys(aRecord).filter((key) => aRecord[key] !== undefined);
+    const bKeys = Object.keys(bRecord).filter((key) => bRecord[key] !== undefined);
+    return (
+      aKeys.length === bKeys.length && aKeys.every((key) => isDeepEqual(aRecord[key], bRecord[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Added, removed and changed items of two lists, matched by ID
+ * @private
+ */
+function diffById<T extends object>(before: T[], after: T[], getId: (item: T) => string) {
+  const beforeById = new Map(before.map((item) => [getId(item), item]));
+  const afterById = new Map(after.map((item) => [getId(item), item]));
+
+  const changed: Array<{ id: string; fields: string[]; before: T; after: T }> = [];
+  for (const [id, newItem] of afterById) {
+    const oldItem = beforeById.get(id);
+    if (!oldItem) {
+      continue;
+    }
+    const oldRecord = oldItem as Record<string, unknown>;
+    const newRecord = newItem as Record<string, unknown>;
+    const fields = Array.from(
+      new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)])
+    ).filter((field) => !isDeepEqual(oldRecord[field], newRecord[field]));
+    if (fields.length > 0) {
+      changed.push({ id, fields, before: oldItem, after: newItem });
+    }
+  }
+
+  return {
+    added: after.filter((item) => !beforeById.has(getId(item))),
+    removed: before.filter((item) => !afterById.has(getId(item))),
+    changed,
+  };
+}
@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { NodeType, WORKFLOW_BUNDLE_FORMAT, WORKFLOW_BUNDLE_VERSION } from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowBundlesService } from './workflow-bundles.service';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowVersionsService } from './workflow-versions.service';
+
+const bundle = (definition: Record<string, unknown>) => ({
+  format: WORKFLOW_BUNDLE_FORMAT,
+  formatVersion: WORKFLOW_BUNDLE_VERSION,
+  workflow: { name: 'Onboarding', definition },
+});
+
+const webhook = {
+  nodeId: 'hook',
+  type: NodeType.WEBHOOK,
+  label: 'Hook',
+  position: { x: 0, y: 0 },
+  config: { webhookId: 'orders', method: 'POST' },
+};
+
+function createService() {
+  const prisma = {
+    credential: { findMany: jest.fn().mockResolvedValue([]) },
+    workflow: { findMany: jest.fn().mockResolvedValue([]) },
+    webhookTrigger: { findMany: jest.fn().mockResolvedValue([{ webhookId: 'orders' }]) },
+  };
+  const service = new WorkflowBundlesService(
+    prisma as unknown as PrismaService,
+    {} as WorkflowsService,
+    {} as WorkflowVersionsService
+  );
+  return { service, prisma };
+}
+
+describe('WorkflowBundlesService', () => {
+  describe('previewImport', () => {
+    it('lists the webhook IDs taken in this deployment', async () => {
+      const { service } = createService();
+
+      await expect(
+        service.previewImport(bundle({ nodes: [webhook], edges: [] }), 'user-1')
+      ).resolves.toMatchObject({ name: 'Onboarding', nodeCount: 1, takenWebhookIds: ['orders'] });
+    });
+
+    it.each([
+      [{ nodes: [null], edges: [] }, 'Bundle node #1 must be an object with a config'],
+      [{ nodes: [webhook, 'hook'], edges: [] }, 'Bundle node #2 must be an object with a config'],
+      [{ nodes: [{ ...webhook, config: null }], edges: [] }, 'Bundle node #1'],
+      [{ nodes: [webhook], edges: [null] }, 'Bundle edge #1 must be an object'],
+      [{ nodes: {}, edges: [] }, 'Bundle must include a workflow definition with nodes and edges'],
+    ])('rejects the malformed definition %o with a 400', async (definition, message) => {
+      const { service, prisma } = createService();
+
+      const preview = service.previewImport(bundle(definition), 'user-1');
+
+      await expect(preview).rejects.toThrow(BadRequestException);
+      await expect(preview).rejects.toThrow(message);
+      expect(prisma.webhookTrigger.findMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects bundles of another format or a newer version', async () => {
+      const { service } = createService();
+
+      await expect(service.previewImport({ format: 'other' }, 'user-1')).rejects.toThrow(
+        'Not a workflow bundle'
+      );
+      await expect(
+        service.previewImport(
+          { ...bundle({ nodes: [], edges: [] }), formatVersion: WORKFLOW_BUNDLE_VERSION + 1 },
+          'user-1'
+        )
+      ).rejects.toThrow('is newer than this deployment supports');
+    });
+  });
+});
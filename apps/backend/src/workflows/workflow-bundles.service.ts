@@ -0,0 +1,371 @@
+/**
+ * Workflow Bundles Service
+ * Exports workflows as portable JSON bundles and imports them as new workflows
+ *
+ * Bundles move a workflow between deployments (e.g. staging to production). Credential and
+ * sub-workflow IDs are replaced by placeholders on export; importing maps every placeholder
+ * to a record of the importing user, generates new webhook IDs for those taken in the target
+ * deployment and creates the workflow, which validates it like any save.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only handles converting workflows to and from bundles
+ * - Dependency Injection: Receives PrismaService, WorkflowsService and WorkflowVersionsService
+ *   through constructor
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import {
+  NodeType,
+  WORKFLOW_BUNDLE_FORMAT,
+  WORKFLOW_BUNDLE_VERSION,
+  WorkflowBundle,
+  WorkflowBundleReference,
+  WorkflowDefinition,
+  WorkflowImportPreview,
+  WorkflowImportResult,
+} from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowVersionsService } from './workflow-versions.service';
+import { ImportWorkflowDto } from './dto/import-workflow.dto';
+import {
+  collectReferences,
+  CREDENTIAL_REFERENCE,
+  ReferenceField,
+  remapNodeIds,
+  replaceReferences,
+  WORKFLOW_REFERENCE,
+} from './utils/workflow-bundle.util';
+
+export interface ExportWorkflowOptions {
+  version?: number; // Published version to export (unset = the draft)
+  includePinnedData?: boolean; // Keep the nodes' pinned sample data (may hold real customer data)
+}
+
+@Injectable()
+export class WorkflowBundlesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly workflowsService: WorkflowsService,
+    private readonly workflowVersionsService: WorkflowVersionsService
+  ) {}
+
+  /**
+   * Export a workflow as a bundle
+   * @param workflowId - ID of the workflow
+   * @param userId - ID of the user (must own the workflow)
+   * @param options - Version to export and whether to keep pinned data
+   */
+  async export(
+    workflowId: string,
+    userId: string,
+    options: ExportWorkflowOptions = {}
+  ): Promise<WorkflowBundle> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+    const source =
+      options.version !== undefined
+        ? (await this.workflowVersionsService.findOne(workflowId, options.version, userId))
+            .definition!
+        : workflow.definition;
+
+    const definition: WorkflowDefinition = JSON.parse(JSON.stringify(source));
+    if (!options.includePinnedData) {
+      for (const node of definition.nodes) {
+        delete node.pinnedData;
+      }
+    }
+
+    const credentialIds = collectReferences(definition, CREDENTIAL_REFERENCE);
+    const credentials = await this.prisma.credential.findMany({
+      where: { id: { in: Array.from(credentialIds.keys()) }, userId },
+      select: { id: true, name: true, integration: { select: { type: true } } },
+    });
+    const credentialsById = new Map(credentials.map((credential) => [credential.id, credential]));
+
+    const workflowIds = collectReferences(definition, WORKFLOW_REFERENCE);
+    const workflows = await this.prisma.workflow.findMany({
+      where: { id: { in: Array.from(workflowIds.keys()) }, userId },
+      select: { id: true, name: true },
+    });
+    const workflowsById = new Map(workflows.map((called) => [called.id, called]));
+
+    const bundle: WorkflowBundle = {
+      format: WORKFLOW_BUNDLE_FORMAT,
+      formatVersion: WORKFLOW_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: { workflowId, version: options.version },
+      workflow: {
+        name: workflow.name,
+        description: workflow.description || undefined,
+        definition,
+      },
+      credentials: this.toPlaceholders(definition, CREDENTIAL_REFERENCE, credentialIds, (id) => {
+        const credential = credentialsById.get(id);
+        const node = definition.nodes.find((n) => n.nodeId === credentialIds.get(id)?.[0]);
+        return {
+          name: credential?.name,
+          integrationType: credential?.integration.type ?? node?.type,
+        };
+      }),
+      workflows: this.toPlaceholders(definition, WORKFLOW_REFERENCE, workflowIds, (id) => ({
+        name: workflowsById.get(id)?.name,
+      })),
+    };
+
+    console.log(
+      `[Workflow Bundles] Exported workflow ${workflowId}` +
+        (options.version !== undefined ? ` (version ${options.version})` : ' (draft)')
+    );
+
+    return bundle;
+  }
+
+  /**
+   * Describe what importing a bundle needs
+   * @param bundle - Bundle to import
+   * @param userId - ID of the importing user
+   * @returns The placeholders to map, with the user's records each can map to
+   */
+  async previewImport(bundle: unknown, userId: string): Promise<WorkflowImportPreview> {
+    const parsed = this.parseBundle(bundle);
+
+    const [credentials, workflows, takenWebhookIds] = await Promise.all([
+      this.prisma.credential.findMany({
+        where: { userId, isActive: true },
+        select: { id: true, name: true, integration: { select: { type: true } } },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.workflow.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+      this.findTakenWebhookIds(parsed.workflow.definition),
+    ]);
+
+    return {
+      name: parsed.workflow.name,
+      description: parsed.workflow.description,
+      nodeCount: parsed.workflow.definition.nodes.length,
+      credentials: parsed.credentials.map((reference) => ({
+        ...reference,
+        candidates: credentials
+          .filter(
+            (credential) =>
+              !reference.integrationType ||
+              credential.integration.type === reference.integrationType
+          )
+          .map(({ id, name }) => ({ id, name })),
+      })),
+      workflows: parsed.workflows.map((reference) => ({ ...reference, candidates: workflows })),
+      takenWebhookIds,
+    };
+  }
+
+  /**
+   * Import a bundle as a new workflow of the user
+   * @param userId - ID of the importing user
+   * @param importWorkflowDto - Bundle, placeholder mappings and options
+   * @throws BadRequestException if the bundle is malformed, a placeholder isn't mapped or the
+   *   resulting definition is invalid
+   */
+  async import(
+    userId: string,
+    importWorkflowDto: ImportWorkflowDto
+  ): Promise<WorkflowImportResult> {
+    const bundle = this.parseBundle(importWorkflowDto.bundle);
+    let definition: WorkflowDefinition = JSON.parse(JSON.stringify(bundle.workflow.definition));
+
+    const credentialMapping = this.resolveMapping(
+      bundle.credentials,
+      importWorkflowDto.credentialMapping
+    );
+    const workflowMapping = this.resolveMapping(
+      bundle.workflows,
+      importWorkflowDto.workflowMapping
+    );
+    const unmapped = [
+      ...bundle.credentials.filter((reference) => !credentialMapping.has(reference.placeholder)),
+      ...bundle.workflows.filter((reference) => !workflowMapping.has(reference.placeholder)),
+    ];
+    if (unmapped.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Map every placeholder of the bundle: ${unmapped
+          .map(
+            (reference) => reference.placeholder + (reference.name ? ` (${reference.name})` : '')
+          )
+          .join(', ')}`,
+        unmapped,
+      });
+    }
+    replaceReferences(definition, CREDENTIAL_REFERENCE, credentialMapping);
+    replaceReferences(definition, WORKFLOW_REFERENCE, workflowMapping);
+
+    const nodeIdMap = new Map<string, string>();
+    if (importWorkflowDto.remapNodeIds) {
+      for (const node of definition.nodes) {
+        nodeIdMap.set(node.nodeId, `${node.type}-${randomBytes(4).toString('hex')}`);
+      }
+      definition = remapNodeIds(definition, nodeIdMap);
+    }
+
+    // Webhook IDs are unique across workflows, so ones taken here get new IDs
+    const webhookIdMap = new Map<string, string>();
+    for (const webhookId of await this.findTakenWebhookIds(definition)) {
+      webhookIdMap.set(webhookId, `hook-${randomBytes(4).toString('hex')}`);
+    }
+    for (const node of definition.nodes) {
+      const config = node.config as any;
+      if (node.type === NodeType.WEBHOOK && webhookIdMap.has(config.webhookId)) {
+        config.webhookId = webhookIdMap.get(config.webhookId);
+      }
+    }
+
+    const workflow = await this.workflowsService.create(userId, {
+      name: importWorkflowDto.name || bundle.workflow.name,
+      description: bundle.workflow.description,
+      definition,
+    });
+
+    console.log(
+      `[Workflow Bundles] Imported workflow ${workflow.id} from bundle` +
+        (bundle.source ? ` of workflow ${bundle.source.workflowId}` : '')
+    );
+
+    return {
+      workflow,
+      nodeIdMap: Object.fromEntries(nodeIdMap),
+      webhookIdMap: Object.fromEntries(webhookIdMap),
+    };
+  }
+
+  /**
+   * Replace referenced IDs with numbered placeholders (in place)
+   * @param describe - Name (and integration type) of a referenced ID
+   * @returns The placeholders, in order of first use
+   * @private
+   */
+  private toPlaceholders(
+    definition: WorkflowDefinition,
+    reference: ReferenceField,
+    references: Map<string, string[]>,
+    describe: (id: string) => Pick<WorkflowBundleReference, 'name' | 'integrationType'>
+  ): WorkflowBundleReference[] {
+    const placeholders = new Map<string, string>();
+    const result = Array.from(references, ([id, nodeIds], index) => {
+      const placeholder = `${reference.prefix}${index + 1}`;
+      placeholders.set(id, placeholder);
+      return { placeholder, ...describe(id), nodeIds };
+    });
+
+    replaceReferences(definition, reference, placeholders);
+
+    return result;
+  }
+
+  /**
+   * Mapping of a bundle's placeholders, leaving out empty targets
+   * @private
+   */
+  private resolveMapping(
+    references: WorkflowBundleReference[],
+    mapping: Record<string, string> = {}
+  ): Map<string, string> {
+    return new Map(
+      references
+        .filter((reference) => typeof mapping[reference.placeholder] === 'string')
+        .filter((reference) => mapping[reference.placeholder] !== '')
+        .map((reference) => [reference.placeholder, mapping[reference.placeholder]])
+    );
+  }
+
+  /**
+   * Webhook IDs of a definition already used by workflows of this deployment
+   * @private
+   */
+  private async findTakenWebhookIds(definition: WorkflowDefinition): Promise<string[]> {
+    const webhookIds = definition.nodes
+      .filter((node) => node.type === NodeType.WEBHOOK)
+      .map((node) => (node.config as any)?.webhookId)
+      .filter((webhookId): webhookId is string => typeof webhookId === 'string');
+    if (webhookIds.length === 0) {
+      return [];
+    }
+
+    const taken = await this.prisma.webhookTrigger.findMany({
+      where: { webhookId: { in: webhookIds } },
+      select: { webhookId: true },
+    });
+
+    return taken.map((trigger) => trigger.webhookId);
+  }
+
+  /**
+   * Check the envelope of a bundle
+   * The definition itself is validated when the workflow is created
+   * @throws BadRequestException if it isn't a bundle this deployment can read
+   * @private
+   */
+  private parseBundle(bundle: any): WorkflowBundle {
+    if (!bundle || typeof bundle !== 'object' || bundle.format !== WORKFLOW_BUNDLE_FORMAT) {
+      throw new BadRequestException(
+        `Not a workflow bundle (format must be "${WORKFLOW_BUNDLE_FORMAT}")`
+      );
+    }
+    if (!Number.isInteger(bundle.formatVersion) || bundle.formatVersion < 1) {
+      throw new BadRequestException('Bundle formatVersion must be a positive integer');
+    }
+    if (bundle.formatVersion > WORKFLOW_BUNDLE_VERSION) {
+      throw new BadRequestException(
+        `Bundle format version ${bundle.formatVersion} is newer than this deployment supports ` +
+          `(${WORKFLOW_BUNDLE_VERSION})`
+      );
+    }
+
+    const workflow = bundle.workflow;
+    if (!workflow || typeof workflow.name !== 'string' || !workflow.name) {
+      throw new BadRequestException('Bundle must include the workflow name');
+    }
+    if (
+      !workflow.definition ||
+      !Array.isArray(workflow.definition.nodes) ||
+      !Array.isArray(workflow.definition.edges)
+    ) {
+      throw new BadRequestException(
+        'Bundle must include a workflow definition with nodes and edges'
+      );
+    }
+    // Placeholders, webhook IDs and node IDs are rewritten before the validator sees the nodes
+    const isObject = (value: unknown) =>
+      !!value && typeof value === 'object' && !Array.isArray(value);
+    workflow.definition.nodes.forEach((node: any, index: number) => {
+      if (!isObject(node) || !isObject(node.config)) {
+        throw new BadRequestException(`Bundle node #${index + 1} must be an object with a config`);
+      }
+    });
+    workflow.definition.edges.forEach((edge: any, index: number) => {
+      if (!isObject(edge)) {
+        throw new BadRequestException(`Bundle edge #${index + 1} must be an object`);
+      }
+    });
+
+    for (const key of ['credentials', 'workflows'] as const) {
+      const references = bundle[key] ?? [];
+      if (
+        !Array.isArray(references) ||
+        references.some((reference: any) => typeof reference?.placeholder !== 'string')
+      ) {
+        throw new BadRequestException(`Bundle ${key} must be a list of placeholders`);
+      }
+    }
+
+    return {
+      ...bundle,
+      credentials: bundle.credentials ?? [],
+      workflows: bundle.workflows ?? [],
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import { BadRequestException } from '@nestjs/common';
+import { NodeType } from '@workflow/shared-types';
+import { ExecutorFactory } from '../nodes/executors/executor.factory';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowValidatorService } from './workflow-validator.service';
+
+const node = (nodeId: string, type: NodeType, config: Record<string, unknown>) => ({
+  nodeId,
+  type,
+  label: nodeId,
+  position: { x: 0, y: 0 },
+  config,
+});
+
+const trigger = (config: Record<string, unknown> = { triggerType: 'manual' }) =>
+  node('trigger', NodeType.TRIGGER, config);
+
+const http = (nodeId: string, config: Record<string, unknown> = {}) =>
+  node(nodeId, NodeType.HTTP_REQUEST, { url: 'https://example.com', method: 'GET', ...config });
+
+const edge = (source: string, target: string, sourceHandle?: string) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  ...(sourceHandle && { sourceHandle }),
+});
+
+function createValidator() {
+  const prisma = {
+    credential: { findMany: jest.fn().mockResolvedValue([]) },
+    webhookTrigger: { findMany: jest.fn().mockResolvedValue([]) },
+    workflow: { findMany: jest.fn().mockResolvedValue([]) },
+  };
+  const executorValidate = jest.fn();
+  const executorFactory = { getExecutor: jest.fn(() => ({ validate: executorValidate })) };
+  const validator = new WorkflowValidatorService(
+    prisma as unknown as PrismaService,
+    executorFactory as unknown as ExecutorFactory
+  );
+  return { validator, prisma, executorValidate };
+}
+
+const codes = (issues: { code: string }[]) => issues.map((issue) => issue.code);
+
+describe('WorkflowValidatorService', () => {
+  it('accepts a valid workflow', async () => {
+    const { validator } = createValidator();
+
+    await expect(
+      validator.validate(
+        { nodes: [trigger(), http('fetch')], edges: [edge('trigger', 'fetch')] },
+        'user-1'
+      )
+    ).resolves.toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('rejects definitions without nodes and edges arrays', async () => {
+    const { validator } = createValidator();
+
+    const result = await validator.validate({ nodes: {} }, 'user-1');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => issue.message)).toEqual([
+      'Workflow definition must include nodes array',
+      'Workflow definition must include edges array',
+    ]);
+  });
+
+  it('reports duplicate IDs, unknown node types and dangling edges', async () => {
+    const { validator } = createValidator();
+
+    const { errors } = await validator.validate(
+      {
+        nodes: [trigger(), http('fetch'), http('fetch'), node('odd', 'teleport' as NodeType, {})],
+        edges: [edge('trigger', 'fetch'), edge('fetch', 'missing')],
+      },
+      'user-1'
+    );
+
+    expect(errors.map((issue) => issue.message)).toEqual(
+      expect.arrayContaining([
+        'Node ID "fetch" is used twice',
+        'Node odd: unknown node type "teleport"',
+        'Edge fetch-missing references non-existent node missing',
+      ])
+    );
+  });
+
+  it('reports config errors with their path and unknown fields as warnings', async () => {
+    const { validator, executorValidate } = createValidator();
+
+    const { errors, warnings } = await validator.validate(
+      {
+        nodes: [trigger(), http('fetch', { url: '', retries: 3 })],
+        edges: [edge('trigger', 'fetch')],
+      },
+      'user-1'
+    );
+
+    expect(errors).toEqual([
+      {
+        severity: 'error',
+        code: 'invalid_config',
+        message: 'Node fetch: config.url is required',
+        nodeId: 'fetch',
+        path: 'config.url',
+      },
+    ]);
+    expect(warnings).toEqual([expect.objectContaining({ code: 'unknown_field', nodeId: 'fetch' })]);
+    // The executor's checks assume a config that matches the schema
+    expect(executorValidate).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the errors the executor finds', async () => {
+    const { validator, executorValidate } = createValidator();
+    executorValidate.mockImplementation((checked) => {
+      if (checked.type === NodeType.HTTP_REQUEST) {
+        throw new Error('URL must use http or https');
+      }
+    });
+
+    const { errors } = await validator.validate(
+      { nodes: [trigger(), http('fetch')], edges: [edge('trigger', 'fetch')] },
+      'user-1'
+    );
+
+    expect(errors.map((issue) => issue.message)).toEqual([
+      'Node fetch: URL must use http or https',
+    ]);
+  });
+
+  it('checks schedules, time zones and templates', async () => {
+    const { validator } = createValidator();
+
+    const { errors } = await validator.validate(
+      {
+        nodes: [
+          trigger({ triggerType: 'scheduled', schedule: '0 25 * * *', timezone: 'Mars/Olympus' }),
+          http('fetch', { url: 'https://example.com/{{nodes.gone.output.id}}' }),
+        ],
+        edges: [edge('trigger', 'fetch')],
+      },
+      'user-1'
+    );
+
+    expect(errors.map((issue) => [issue.code, issue.path])).toEqual([
+      ['invalid_config', 'config.schedule'],
+      ['invalid_config', 'config.timezone'],
+      ['invalid_template', 'config.url'],
+    ]);
+  });
+
+  it('checks the graph', async () => {
+    const { validator } = createValidator();
+
+    const result = await validator.validate(
+      {
+        nodes: [trigger(), http('a'), http('b'), http('orphan')],
+        edges: [edge('trigger', 'a'), edge('a', 'b'), edge('b', 'a'), edge('a', 'trigger')],
+      },
+      'user-1'
+    );
+
+    expect(codes(result.errors)).toEqual(expect.arrayContaining(['trigger_has_inputs', 'cycle']));
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: 'unreachable_node', nodeId: 'orphan' }),
+    ]);
+  });
+
+  it('requires an entry node and a single Trigger node', async () => {
+    const { validator } = createValidator();
+
+    expect(
+      codes((await validator.validate({ nodes: [http('a')], edges: [] }, 'u')).errors)
+    ).toEqual(['missing_trigger']);
+    expect(
+      codes(
+        (
+          await validator.validate(
+            { nodes: [trigger(), { ...trigger(), nodeId: 'second' }], edges: [] },
+            'u'
+          )
+        ).errors
+      )
+    ).toEqual(['multiple_triggers']);
+  });
+
+  it('checks branch handles', async () => {
+    const { validator } = createValidator();
+
+    const { errors } = await validator.validate(
+      {
+        nodes: [
+          trigger(),
+          node('loop', NodeType.LOOP, { itemsExpression: 'input.items' }),
+          http('a'),
+        ],
+        edges: [edge('trigger', 'loop'), edge('loop', 'a', 'sideways')],
+      },
+      'user-1'
+    );
+
+    expect(errors.map((issue) => issue.message)).toEqual([
+      'Edge loop-a leaves unknown handle "sideways" of loop',
+      'Loop loop has no "item" branch to run per item',
+    ]);
+  });
+
+  it('checks webhook IDs, including ones other workflows use', async () => {
+    const { validator, prisma } = createValidator();
+    prisma.webhookTrigger.findMany.mockResolvedValue([{ webhookId: 'taken' }]);
+    const webhook = (nodeId: string, webhookId: string) =>
+      node(nodeId, NodeType.WEBHOOK, { webhookId, method: 'POST' });
+
+    const { errors } = await validator.validate(
+      {
+        nodes: [
+          webhook('w1', 'taken'),
+          webhook('w2', 'a b'),
+          webhook('w3', 'orders'),
+          webhook('w4', 'orders'),
+        ],
+        edges: [],
+      },
+      'user-1',
+      'wf-1'
+    );
+
+    expect(errors.map((issue) => [issue.nodeId, issue.message])).toEqual([
+      ['w2', 'Node w2: webhookId must be 3-100 letters, digits, dashes or underscores'],
+      ['w4', 'Node w4: webhookId "orders" is used twice'],
+      ['w1', 'Node w1: webhook ID "taken" is used by another workflow'],
+    ]);
+    expect(prisma.webhookTrigger.findMany.mock.calls[0][0].where.workflowId).toEqual({
+      not: 'wf-1',
+    });
+  });
+
+  it('checks that credentials and sub-workflows belong to the user', async () => {
+    const { validator, prisma } = createValidator();
+    prisma.credential.findMany.mockResolvedValue([
+      {
+        id: 'cred-1',
+        userId: 'someone-else',
+        name: 'SMTP',
+        isActive: true,
+        integration: { type: NodeType.EMAIL },
+      },
+    ]);
+    prisma.workflow.findMany.mockResolvedValue([{ id: 'wf-2', userId: 'user-1' }]);
+
+    const { errors } = await validator.validate(
+      {
+        nodes: [
+          trigger(),
+          http('a', { credentialId: 'cred-1' }),
+          http('b', { credentialId: '{{variables.cred}}' }),
+          node('call', NodeType.EXECUTE_WORKFLOW, { workflowId: 'wf-3' }),
+        ],
+        edges: [edge('trigger', 'a'), edge('a', 'b'), edge('b', 'call')],
+      },
+      'user-1'
+    );
+
+    expect(errors.map((issue) => issue.message)).toEqual([
+      'Node a: credential not found',
+      'Node call: workflow to execute not found',
+    ]);
+    expect(prisma.credential.findMany.mock.calls[0][0].where.id).toEqual({ in: ['cred-1'] });
+  });
+
+  it('assertValid throws a BadRequestException listing the errors', async () => {
+    const { validator } = createValidator();
+
+    await expect(validator.assertValid({ nodes: [], edges: [] }, 'user-1')).rejects.toThrow(
+      BadRequestException
+    );
+    await expect(validator.assertValid({ nodes: [], edges: [] }, 'user-1')).rejects.toThrow(
+      'Workflow definition is invalid: Workflow must have at least one node'
+    );
+  });
+});
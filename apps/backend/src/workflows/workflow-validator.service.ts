@@ -0,0 +1,711 @@
+/**
+ * Workflow Validator Service
+ * Validates workflow definitions before they are saved or published
+ *
+ * Checks the definition's structure, every node against its node type's schema and executor,
+ * the graph (one trigger, no cycles, reachable nodes, wired branches) and the records nodes
+ * refer to (credentials, webhook IDs, sub-workflows). Problems are collected as a list of
+ * errors, which block saving, and warnings, which the editor only shows.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only validates workflow definitions
+ * - Dependency Injection: Receives PrismaService and ExecutorFactory through constructor
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  APPROVAL_TIMEOUT_HANDLE,
+  ERROR_HANDLE,
+  LOOP_ITEM_HANDLE,
+  NodeType,
+  SWITCH_DEFAULT_HANDLE,
+  WorkflowValidationCode,
+  WorkflowValidationIssue,
+  WorkflowValidationResult,
+} from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExecutorFactory } from '../nodes/executors/executor.factory';
+import { validateTemplate } from '../nodes/utils/template.util';
+import { isValidTimeZone, parseCron } from '../scheduler/utils/cron.util';
+import {
+  BASE_NODE_SCHEMA,
+  JsonSchema,
+  NODE_CONFIG_SCHEMAS,
+  NODE_SOURCE_HANDLES,
+  SCRIPT_FIELDS,
+  validateAgainstSchema,
+  WORKFLOW_EDGE_SCHEMA,
+  WORKFLOW_SETTINGS_SCHEMA,
+} from './utils/node-config-schema.util';
+
+// Webhook IDs are used as URL path segments: /hooks/:webhookId
+const WEBHOOK_ID_PATTERN = /^[A-Za-z0-9_-]{3,100}$/;
+
+// Node fields, with the config checked separately against the node type's schema
+const NODE_SCHEMA: JsonSchema = {
+  ...BASE_NODE_SCHEMA,
+  properties: { ...BASE_NODE_SCHEMA.properties, config: { type: 'object' } },
+  required: [...BASE_NODE_SCHEMA.required, 'config'],
+};
+
+const NODE_TYPES = new Set<string>(Object.values(NodeType));
+
+/**
+ * Issues found so far, with helpers to add them
+ */
+class IssueList {
+  readonly issues: WorkflowValidationIssue[] = [];
+
+  error(code: WorkflowValidationCode, message: string, at: IssueLocation = {}): void {
+    this.issues.push({ severity: 'error', code, message, ...at });
+  }
+
+  warning(code: WorkflowValidationCode, message: string, at: IssueLocation = {}): void {
+    this.issues.push({ severity: 'warning', code, message, ...at });
+  }
+
+  hasErrors(nodeId?: string): boolean {
+    return this.issues.some(
+      (issue) => issue.severity === 'error' && (nodeId === undefined || issue.nodeId === nodeId)
+    );
+  }
+}
+
+type IssueLocation = Pick<WorkflowValidationIssue, 'nodeId' | 'edgeId' | 'path'>;
+
+@Injectable()
+export class WorkflowValidatorService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly executorFactory: ExecutorFactory
+  ) {}
+
+  /**
+   * Validate a workflow definition
+   * @param definition - Definition to validate
+   * @param userId - ID of the user saving it (must own its credentials and sub-workflows)
+   * @param workflowId - ID of the workflow it belongs to, if saved already
+   * @returns Errors and warnings found
+   */
+  async validate(
+    definition: any,
+    userId: string,
+    workflowId?: string
+  ): Promise<WorkflowValidationResult> {
+    const issues = new IssueList();
+
+    if (this.validateStructure(definition, issues)) {
+      const nodes: any[] = definition.nodes.filter(
+        (node: any) => typeof node?.nodeId === 'string' && NODE_TYPES.has(node.type)
+      );
+      const nodeIds = new Set<string>(nodes.map((node) => node.nodeId));
+      const edges: any[] = definition.edges.filter(
+        (edge: any) => nodeIds.has(edge?.source) && nodeIds.has(edge?.target)
+      );
+
+      for (const node of nodes) {
+        this.validateNode(node, nodeIds, issues);
+      }
+      this.validateWebhooks(nodes, issues);
+      this.validateGraph(nodes, edges, issues);
+
+      await Promise.all([
+        this.validateCredentials(nodes, userId, issues),
+        this.validateWebhookAvailability(nodes, workflowId, issues),
+        this.validateSubWorkflows(nodes, userId, workflowId, issues),
+      ]);
+    }
+
+    const errors = issues.issues.filter((issue) => issue.severity === 'error');
+    const warnings = issues.issues.filter((issue) => issue.severity === 'warning');
+
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validate a workflow definition, rejecting it if it has errors
+   * @throws BadRequestException listing the errors and warnings found
+   */
+  async assertValid(
+    definition: any,
+    userId: string,
+    workflowId?: string
+  ): Promise<WorkflowValidationResult> {
+    const result = await this.validate(definition, userId, workflowId);
+
+    if (!result.valid) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Workflow definition is invalid: ${result.errors.map((e) => e.message).join('; ')}`,
+        errors: result.errors,
+        warnings: result.warnings,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Check the nodes and edges arrays, node and edge IDs, edge endpoints and settings
+   * @returns Whether the nodes and edges can be checked further
+   * @private
+   */
+  private validateStructure(definition: any, issues: IssueList): boolean {
+    if (!definition || typeof definition !== 'object') {
+      issues.error('invalid_structure', 'Workflow definition must be an object');
+      return false;
+    }
+    if (!Array.isArray(definition.nodes)) {
+      issues.error('invalid_structure', 'Workflow definition must include nodes array');
+    }
+    if (!Array.isArray(definition.edges)) {
+      issues.error('invalid_structure', 'Workflow definition must include edges array');
+    }
+    if (issues.hasErrors()) {
+      return false;
+    }
+
+    if (definition.nodes.length === 0) {
+      issues.error('invalid_structure', 'Workflow must have at least one node');
+    }
+
+    const nodeIds = new Set<string>();
+    definition.nodes.forEach((node: any, index: number) => {
+      if (!node || typeof node !== 'object' || typeof node.nodeId !== 'string' || !node.nodeId) {
+        issues.error('invalid_structure', `Node #${index + 1} must have a nodeId`);
+        return;
+      }
+      if (nodeIds.has(node.nodeId)) {
+        issues.error('invalid_structure', `Node ID "${node.nodeId}" is used twice`, {
+          nodeId: node.nodeId,
+        });
+      }
+      nodeIds.add(node.nodeId);
+
+      if (!NODE_TYPES.has(node.type)) {
+        issues.error('unknown_node_type', `Node ${node.nodeId}: unknown node type "${node.type}"`, {
+          nodeId: node.nodeId,
+          path: 'type',
+        });
+      }
+    });
+
+    const edgeIds = new Set<string>();
+    definition.edges.forEach((edge: any, index: number) => {
+      if (!edge || typeof edge !== 'object') {
+        issues.error('invalid_structure', `Edge #${index + 1} must be an object`);
+        return;
+      }
+      const edgeId = typeof edge.id === 'string' ? edge.id : undefined;
+      const violations = validateAgainstSchema(edge, WORKFLOW_EDGE_SCHEMA, '');
+      for (const violation of violations) {
+        issues.error(
+          'invalid_structure',
+          `Edge ${edgeId || `#${index + 1}`}: ${violation.message}`,
+          {
+            edgeId,
+            path: violation.path,
+          }
+        );
+      }
+      if (violations.length > 0) {
+        return;
+      }
+
+      if (edgeIds.has(edge.id)) {
+        issues.error('invalid_structure', `Edge ID "${edge.id}" is used twice`, { edgeId });
+      }
+      edgeIds.add(edge.id);
+
+      for (const end of ['source', 'target'] as const) {
+        if (!nodeIds.has(edge[end])) {
+          issues.error(
+            'invalid_structure',
+            `Edge ${edge.id} references non-existent node ${edge[end]}`,
+            {
+              edgeId,
+              path: end,
+            }
+          );
+        }
+      }
+    });
+
+    if (definition.settings !== undefined && definition.settings !== null) {
+      for (const violation of validateAgainstSchema(
+        definition.settings,
+        WORKFLOW_SETTINGS_SCHEMA,
+        'settings'
+      )) {
+        if (violation.unknownField) {
+          issues.warning('unknown_field', violation.message, { path: violation.path });
+        } else {
+          issues.error('invalid_settings', violation.message, { path: violation.path });
+        }
+      }
+    }
+
+    if (
+      definition.variables !== undefined &&
+      definition.variables !== null &&
+      (typeof definition.variables !== 'object' || Array.isArray(definition.variables))
+    ) {
+      issues.error('invalid_settings', 'variables must be an object', { path: 'variables' });
+    }
+
+    return true;
+  }
+
+  /**
+   * Check a node against its node type's schema and executor, and its schedule and templates
+   * The executor's own checks only run once the schema passes, as they assume its field types
+   * @private
+   */
+  private validateNode(node: any, nodeIds: Set<string>, issues: IssueList): void {
+    const nodeId: string = node.nodeId;
+    const describe = (message: string) => `Node ${node.label || nodeId}: ${message}`;
+
+    const violations = [
+      ...validateAgainstSchema(node, NODE_SCHEMA, ''),
+      ...(node.config && typeof node.config === 'object'
+        ? validateAgainstSchema(node.config, NODE_CONFIG_SCHEMAS[node.type as NodeType], 'config')
+        : []),
+    ];
+    for (const violation of violations) {
+      if (violation.unknownField) {
+        issues.warning('unknown_field', describe(violation.message), {
+          nodeId,
+          path: violation.path,
+        });
+      } else {
+        issues.error('invalid_config', describe(violation.message), {
+          nodeId,
+          path: violation.path,
+        });
+      }
+    }
+
+    if (issues.hasErrors(nodeId)) {
+      return;
+    }
+
+    try {
+      this.executorFactory.getExecutor(node.type).validate(node);
+    } catch (error) {
+      issues.error('invalid_config', describe((error as Error).message), { nodeId });
+      return;
+    }
+
+    if (node.type === NodeType.TRIGGER && node.config.triggerType === 'scheduled') {
+      try {
+        parseCron(node.config.schedule);
+      } catch (error) {
+        issues.error('invalid_config', describe((error as Error).message), {
+          nodeId,
+          path: 'config.schedule',
+        });
+      }
+      if (node.config.timezone && !isValidTimeZone(node.config.timezone)) {
+        issues.error('invalid_config', describe(`unknown time zone "${node.config.timezone}"`), {
+          nodeId,
+          path: 'config.timezone',
+        });
+      }
+    }
+
+    this.validateTemplates(node, nodeIds, issues);
+  }
+
+  /**
+   * Check the {{ }} templates in a node's config strings
+   * Script fields are JavaScript, not templates, and are skipped
+   * @private
+   */
+  private validateTemplates(node: any, nodeIds: Set<string>, issues: IssueList): void {
+    const visit = (value: unknown, path: string) => {
+      if (typeof value === 'string') {
+        for (const issue of validateTemplate(value, nodeIds)) {
+          issues.error(
+            'invalid_template',
+            `Node ${node.label || node.nodeId} (${path}): ${issue.placeholder} - ${issue.message}`,
+            { nodeId: node.nodeId, path }
+          );
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${path}[${index}]`));
+      } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          if (!SCRIPT_FIELDS.has(key)) {
+            visit(child, `${path}.${key}`);
+          }
+        }
+      }
+    };
+
+    visit(node.config, 'config');
+  }
+
+  /**
+   * Check the format and uniqueness of the webhook IDs of Webhook nodes
+   * @private
+   */
+  private validateWebhooks(nodes: any[], issues: IssueList): void {
+    const webhookIds = new Set<string>();
+
+    for (const node of nodes) {
+      const webhookId = node.config?.webhookId;
+      if (node.type !== NodeType.WEBHOOK || typeof webhookId !== 'string' || !webhookId) {
+        continue;
+      }
+
+      const at = { nodeId: node.nodeId, path: 'config.webhookId' };
+      if (!WEBHOOK_ID_PATTERN.test(webhookId)) {
+        issues.error(
+          'invalid_webhook',
+          `Node ${node.label || node.nodeId}: webhookId must be 3-100 letters, digits, dashes or underscores`,
+          at
+        );
+      } else if (webhookIds.has(webhookId)) {
+        issues.error(
+          'invalid_webhook',
+          `Node ${node.label || node.nodeId}: webhookId "${webhookId}" is used twice`,
+          at
+        );
+      }
+      webhookIds.add(webhookId);
+    }
+  }
+
+  /**
+   * Check the graph: one Trigger node and at least one entry node without inputs, no cycles,
+   * every node reachable from an entry node, and edges leaving handles their source has
+   * @param nodes - Nodes with a known type
+   * @param edges - Edges between those nodes
+   * @private
+   */
+  private validateGraph(nodes: any[], edges: any[], issues: IssueList): void {
+    const triggers = nodes.filter((node) => node.type === NodeType.TRIGGER);
+    const entryNodes = nodes.filter(
+      (node) => node.type === NodeType.TRIGGER || node.type === NodeType.WEBHOOK
+    );
+
+    if (entryNodes.length === 0 && nodes.length > 0) {
+      issues.error('missing_trigger', 'Workflow must have a Trigger or Webhook node');
+    }
+    for (const trigger of triggers.slice(1)) {
+      issues.error('multiple_triggers', 'Workflow must have a single Trigger node', {
+        nodeId: trigger.nodeId,
+      });
+    }
+
+    const entryNodeIds = new Set(entryNodes.map((node) => node.nodeId));
+    for (const edge of edges) {
+      if (entryNodeIds.has(edge.target)) {
+        issues.error('trigger_has_inputs', `Entry node ${edge.target} cannot have incoming edges`, {
+          nodeId: edge.target,
+          edgeId: edge.id,
+        });
+      }
+    }
+
+    const outgoing = new Map<string, any[]>(nodes.map((node) => [node.nodeId, []]));
+    for (const edge of edges) {
+      outgoing.get(edge.source)!.push(edge);
+    }
+
+    this.findCycles(nodes, outgoing, issues);
+
+    if (entryNodes.length > 0) {
+      const reached = new Set<string>();
+      const queue: string[] = Array.from(entryNodeIds);
+      while (queue.length > 0) {
+        const nodeId = queue.shift()!;
+        if (reached.has(nodeId)) {
+          continue;
+        }
+        reached.add(nodeId);
+        queue.push(...outgoing.get(nodeId)!.map((edge) => edge.target));
+      }
+
+      for (const node of nodes) {
+        if (!reached.has(node.nodeId)) {
+          issues.warning(
+            'unreachable_node',
+            `Node ${node.label || node.nodeId} is not connected to a trigger and never runs`,
+            { nodeId: node.nodeId }
+          );
+        }
+      }
+    }
+
+    for (const node of nodes) {
+      this.validateHandles(node, outgoing.get(node.nodeId)!, issues);
+    }
+  }
+
+  /**
+   * Report the cycles of the graph, one issue per back edge
+   * @private
+   */
+  private findCycles(nodes: any[], outgoing: Map<string, any[]>, issues: IssueList): void {
+    const finished = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (nodeId: string) => {
+      path.push(nodeId);
+      for (const edge of outgoing.get(nodeId)!) {
+        const start = path.indexOf(edge.target);
+        if (start !== -1) {
+          const cycle = [...path.slice(start), edge.target];
+          issues.error('cycle', `Nodes ${cycle.join(' → ')} form a cycle`, {
+            nodeId: edge.target,
+            edgeId: edge.id,
+          });
+        } else if (!finished.has(edge.target)) {
+          visit(edge.target);
+        }
+      }
+      path.pop();
+      finished.add(nodeId);
+    };
+
+    for (const node of nodes) {
+      if (!finished.has(node.nodeId)) {
+        visit(node.nodeId);
+      }
+    }
+  }
+
+  /**
+   * Check the source handles of a node's outgoing edges and that its branches are wired
+   * Conditional nodes may instead name their branches' nodes in trueOutputId/falseOutputId
+   * @private
+   */
+  private validateHandles(node: any, edges: any[], issues: IssueList): void {
+    const name = node.label || node.nodeId;
+    const config = node.config || {};
+    const handles = new Set<string>(NODE_SOURCE_HANDLES[node.type as NodeType] || []);
+    if (node.type === NodeType.SWITCH) {
+      for (const switchCase of Array.isArray(config.cases) ? config.cases : []) {
+        handles.add(switchCase?.handle);
+      }
+    }
+    // Edges without a handle leave the regular output, which Switch nodes don't have
+    const allowsUnnamedHandle = node.type !== NodeType.SWITCH;
+
+    const wired = new Set<string>();
+    for (const edge of edges) {
+      const handle = edge.sourceHandle;
+      if (handle === undefined || handle === null || handle === '') {
+        if (!allowsUnnamedHandle) {
+          issues.error('unknown_handle', `Edge ${edge.id} must leave one of ${name}'s branches`, {
+            nodeId: node.nodeId,
+            edgeId: edge.id,
+          });
+        }
+      } else if (handle !== ERROR_HANDLE && !handles.has(handle)) {
+        issues.error(
+          'unknown_handle',
+          `Edge ${edge.id} leaves unknown handle "${handle}" of ${name}`,
+          {
+            nodeId: node.nodeId,
+            edgeId: edge.id,
+          }
+        );
+      } else {
+        wired.add(handle);
+      }
+    }
+
+    switch (node.type) {
+      case NodeType.CONDITIONAL: {
+        const targets = new Set(edges.map((edge) => edge.target));
+        for (const field of ['trueOutputId', 'falseOutputId']) {
+          if (config[field] && !targets.has(config[field])) {
+            issues.error('invalid_config', `Node ${name}: ${field} must be connected to the node`, {
+              nodeId: node.nodeId,
+              path: `config.${field}`,
+            });
+          }
+        }
+        const unwired = ['true', 'false'].filter(
+          (branch) => !wired.has(branch) && !config[`${branch}OutputId`]
+        );
+        if (unwired.length === 2) {
+          issues.error('unwired_handle', `Conditional ${name} has no true or false branch`, {
+            nodeId: node.nodeId,
+          });
+        } else if (unwired.length === 1) {
+          issues.warning('unwired_handle', `The ${unwired[0]} branch of ${name} is not connected`, {
+            nodeId: node.nodeId,
+          });
+        }
+        break;
+      }
+
+      case NodeType.SWITCH:
+        for (const switchCase of Array.isArray(config.cases) ? config.cases : []) {
+          if (switchCase?.handle && !wired.has(switchCase.handle)) {
+            issues.warning(
+              'unwired_handle',
+              `Case "${switchCase.label || switchCase.handle}" of ${name} is not connected`,
+              { nodeId: node.nodeId }
+            );
+          }
+        }
+        if (!wired.has(SWITCH_DEFAULT_HANDLE) && wired.size === 0) {
+          issues.error('unwired_handle', `Switch ${name} has no connected branch`, {
+            nodeId: node.nodeId,
+          });
+        }
+        break;
+
+      case NodeType.LOOP:
+        if (!wired.has(LOOP_ITEM_HANDLE)) {
+          issues.error('unwired_handle', `Loop ${name} has no "item" branch to run per item`, {
+            nodeId: node.nodeId,
+          });
+        }
+        break;
+
+      case NodeType.MANUAL_APPROVAL:
+        if (config.timeoutAction === 'timeout_branch' && !wired.has(APPROVAL_TIMEOUT_HANDLE)) {
+          issues.warning(
+            'unwired_handle',
+            `${name} follows its timeout branch when the deadline passes, but it is not connected`,
+            { nodeId: node.nodeId }
+          );
+        }
+        break;
+    }
+  }
+
+  /**
+   * Check that the credentials nodes use exist, belong to the user and fit the node type
+   * Credential IDs given as templates are resolved at runtime and skipped
+   * @private
+   */
+  private async validateCredentials(nodes: any[], userId: string, issues: IssueList) {
+    const usages = nodes.filter(
+      (node) =>
+        typeof node.config?.credentialId === 'string' &&
+        node.config.credentialId &&
+        !node.config.credentialId.includes('{{')
+    );
+    if (usages.length === 0) {
+      return;
+    }
+
+    const credentials = await this.prisma.credential.findMany({
+      where: { id: { in: usages.map((node) => node.config.credentialId) } },
+      select: {
+        id: true,
+        userId: true,
+        name: true,
+        isActive: true,
+        integration: { select: { type: true } },
+      },
+    });
+    const byId = new Map(credentials.map((credential) => [credential.id, credential]));
+
+    for (const node of usages) {
+      const credential = byId.get(node.config.credentialId);
+      const at = { nodeId: node.nodeId, path: 'config.credentialId' };
+      const name = node.label || node.nodeId;
+
+      if (!credential || credential.userId !== userId) {
+        issues.error('invalid_credential', `Node ${name}: credential not found`, at);
+      } else if (!credential.isActive) {
+        issues.warning(
+          'invalid_credential',
+          `Node ${name}: credential "${credential.name}" is inactive`,
+          at
+        );
+      } else if (credential.integration.type !== node.type) {
+        issues.warning(
+          'invalid_credential',
+          `Node ${name}: credential "${credential.name}" is for ${credential.integration.type}, not ${node.type}`,
+          at
+        );
+      }
+    }
+  }
+
+  /**
+   * Check that no other workflow uses the webhook IDs of Webhook nodes
+   * @private
+   */
+  private async validateWebhookAvailability(
+    nodes: any[],
+    workflowId: string | undefined,
+    issues: IssueList
+  ) {
+    const webhookNodes = nodes.filter(
+      (node) => node.type === NodeType.WEBHOOK && typeof node.config?.webhookId === 'string'
+    );
+    if (webhookNodes.length === 0) {
+      return;
+    }
+
+    const taken = await this.prisma.webhookTrigger.findMany({
+      where: {
+        webhookId: { in: webhookNodes.map((node) => node.config.webhookId) },
+        ...(workflowId ? { workflowId: { not: workflowId } } : {}),
+      },
+      select: { webhookId: true },
+    });
+    const takenIds = new Set(taken.map((trigger) => trigger.webhookId));
+
+    for (const node of webhookNodes) {
+      if (takenIds.has(node.config.webhookId)) {
+        issues.error(
+          'invalid_webhook',
+          `Node ${node.label || node.nodeId}: webhook ID "${node.config.webhookId}" is used by another workflow`,
+          { nodeId: node.nodeId, path: 'config.webhookId' }
+        );
+      }
+    }
+  }
+
+  /**
+   * Check that the workflows Execute Workflow nodes call exist and belong to the user
+   * Workflow IDs given as templates are resolved at runtime and skipped
+   * @private
+   */
+  private async validateSubWorkflows(
+    nodes: any[],
+    userId: string,
+    workflowId: string | undefined,
+    issues: IssueList
+  ) {
+    const callers = nodes.filter(
+      (node) =>
+        node.type === NodeType.EXECUTE_WORKFLOW &&
+        typeof node.config?.workflowId === 'string' &&
+        node.config.workflowId &&
+        !node.config.workflowId.includes('{{')
+    );
+    if (callers.length === 0) {
+      return;
+    }
+
+    const workflows = await this.prisma.workflow.findMany({
+      where: { id: { in: callers.map((node) => node.config.workflowId) } },
+      select: { id: true, userId: true },
+    });
+    const byId = new Map(workflows.map((workflow) => [workflow.id, workflow]));
+
+    for (const node of callers) {
+      const target = byId.get(node.config.workflowId);
+      const at = { nodeId: node.nodeId, path: 'config.workflowId' };
+      const name = node.label || node.nodeId;
+
+      if (node.config.workflowId === workflowId) {
+        issues.warning('invalid_sub_workflow', `Node ${name}: the workflow calls itself`, at);
+      } else if (!target || target.userId !== userId) {
+        issues.error('invalid_sub_workflow', `Node ${name}: workflow to execute not found`, at);
+      }
+    }
+  }
+}
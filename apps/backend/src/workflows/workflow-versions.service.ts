@@ -0,0 +1,246 @@
+/**
+ * Workflow Versions Service
+ * Publishes a workflow's draft as numbered versions, compares versions and rolls back
+ *
+ * The workflow's definition is the draft the editor saves to. Publishing snapshots it as the
+ * next version, which executions started outside the editor (API keys, schedules, webhooks,
+ * Execute Workflow nodes) run from then on. Versions are never modified: rolling back publishes
+ * a copy of an older version as a new one, so the version list is the publishing history.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Only handles publishing and version history
+ * - Dependency Injection: Receives PrismaService, WorkflowsService, WorkflowValidatorService and
+ *   EventEmitter2 through constructor
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { WorkflowVersion as WorkflowVersionRecord } from '@prisma/client';
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionDiff,
+  WorkflowVersion,
+  WorkflowVersionRef,
+} from '@workflow/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowValidatorService } from './workflow-validator.service';
+import { diffDefinitions } from './utils/workflow-version.util';
+
+@Injectable()
+export class WorkflowVersionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly workflowsService: WorkflowsService,
+    private readonly validator: WorkflowValidatorService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
+
+  /**
+   * Get the published versions of a workflow, newest first
+   * @param workflowId - ID of the workflow
+   * @param userId - ID of the user (must own the workflow)
+   */
+  async findAll(workflowId: string, userId: string): Promise<WorkflowVersion[]> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+
+    const versions = await this.prisma.workflowVersion.findMany({
+      where: { workflowId },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, note: true, publishedBy: true, createdAt: true },
+    });
+
+    return versions.map((version) => this.mapToWorkflowVersion(version, workflow.publishedVersion));
+  }
+
+  /**
+   * Get a published version with its definition
+   * @param workflowId - ID of the workflow
+   * @param version - Version number
+   * @param userId - ID of the user (must own the workflow)
+   */
+  async findOne(workflowId: string, version: number, userId: string): Promise<WorkflowVersion> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+    const record = await this.getVersion(workflowId, version);
+
+    return this.mapToWorkflowVersion(record, workflow.publishedVersion, true);
+  }
+
+  /**
+   * Publish the workflow's draft as its next version
+   * @param workflowId - ID of the workflow
+   * @param userId - ID of the user (must own the workflow)
+   * @param note - What changed (optional)
+   * @throws BadRequestException if the draft doesn't differ from the published version or is invalid
+   */
+  async publish(workflowId: string, userId: string, note?: string): Promise<WorkflowVersion> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+
+    if (workflow.publishedVersion !== undefined && !workflow.hasUnpublishedChanges) {
+      throw new BadRequestException(
+        `The draft has no changes since version ${workflow.publishedVersion}`
+      );
+    }
+
+    return this.createVersion(workflowId, workflow.definition, userId, note);
+  }
+
+  /**
+   * Publish an older version again, as a new version
+   * The draft is left as it is
+   * @param workflowId - ID of the workflow
+   * @param version - Version to roll back to
+   * @param userId - ID of the user (must own the workflow)
+   * @throws BadRequestException if the version is the published one or is no longer valid
+   *   (e.g. a credential it uses was deleted)
+   */
+  async rollback(workflowId: string, version: number, userId: string): Promise<WorkflowVersion> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+    const target = await this.getVersion(workflowId, version);
+
+    if (workflow.publishedVersion === version) {
+      throw new BadRequestException(`Version ${version} is already published`);
+    }
+
+    return this.createVersion(
+      workflowId,
+      target.definition as any as WorkflowDefinition,
+      userId,
+      `Rollback to version ${version}`
+    );
+  }
+
+  /**
+   * Compare two definitions of a workflow
+   * @param workflowId - ID of the workflow
+   * @param userId - ID of the user (must own the workflow)
+   * @param from - Version number or "draft" (default: the published version)
+   * @param to - Version number or "draft" (default: the draft)
+   */
+  async diff(
+    workflowId: string,
+    userId: string,
+    from?: string,
+    to?: string
+  ): Promise<WorkflowDefinitionDiff> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+
+    const fromRef = from ? this.parseVersionRef(from) : workflow.publishedVersion;
+    if (fromRef === undefined) {
+      throw new BadRequestException('No version is published yet; pass "from" to compare');
+    }
+    const toRef = to ? this.parseVersionRef(to) : 'draft';
+
+    const resolve = async (ref: WorkflowVersionRef) =>
+      ref === 'draft'
+        ? workflow.definition
+        : ((await this.getVersion(workflowId, ref)).definition as any as WorkflowDefinition);
+
+    return diffDefinitions(await resolve(fromRef), await resolve(toRef), {
+      from: fromRef,
+      to: toRef,
+    });
+  }
+
+  /**
+   * Store a definition as the next version and publish it
+   * @private
+   */
+  private async createVersion(
+    workflowId: string,
+    definition: WorkflowDefinition,
+    userId: string,
+    note?: string
+  ): Promise<WorkflowVersion> {
+    await this.validator.assertValid(definition, userId, workflowId);
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      // Two publishes at once collide on the (workflowId, version) unique index
+      const version = await tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version: (latest?.version ?? 0) + 1,
+          definition: definition as any,
+          note: note?.trim() || null,
+          publishedBy: userId,
+        },
+      });
+
+      await tx.workflow.update({
+        where: { id: workflowId },
+        data: { publishedVersionId: version.id },
+      });
+
+      return version;
+    });
+
+    console.log(
+      `[Workflow Versions] Published version ${created.version} of workflow ${workflowId}`
+    );
+
+    // Sync its schedules and webhook URLs with the published definition
+    this.eventEmitter.emit('workflow.saved', { workflowId });
+    const webhookIssues = await this.workflowsService.syncWebhooks(workflowId);
+
+    return { ...this.mapToWorkflowVersion(created, created.version, true), webhookIssues };
+  }
+
+  /**
+   * Load a version of a workflow
+   * @private
+   */
+  private async getVersion(workflowId: string, version: number): Promise<WorkflowVersionRecord> {
+    const record = await this.prisma.workflowVersion.findUnique({
+      where: { workflowId_version: { workflowId, version } },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`Version ${version} of workflow ${workflowId} not found`);
+    }
+
+    return record;
+  }
+
+  /**
+   * Parse a version number or "draft"
+   * @private
+   */
+  private parseVersionRef(value: string): WorkflowVersionRef {
+    if (value === 'draft') {
+      return 'draft';
+    }
+
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new BadRequestException(`Invalid version "${value}": use a version number or "draft"`);
+    }
+
+    return version;
+  }
+
+  /**
+   * Map a database record to the shared type
+   * @private
+   */
+  private mapToWorkflowVersion(
+    record: Pick<WorkflowVersionRecord, 'version' | 'note' | 'publishedBy' | 'createdAt'> &
+      Partial<Pick<WorkflowVersionRecord, 'definition'>>,
+    publishedVersion: number | undefined,
+    withDefinition = false
+  ): WorkflowVersion {
+    return {
+      version: record.version,
+      note: record.note || undefined,
+      publishedBy: record.publishedBy || undefined,
+      createdAt: record.createdAt,
+      isPublished: record.version === publishedVersion,
+      definition: withDefinition ? (record.definition as any as WorkflowDefinition) : undefined,
+    };
+  }
+}
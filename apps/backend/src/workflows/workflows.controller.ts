@@ -18,6 +18,7 @@ import {
   Delete,
   Query,
   ParseIntPipe,
+  ParseBoolPipe,
   DefaultValuePipe,
   HttpCode,
   HttpStatus,
@@ -27,6 +28,14 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@ne
 import { WorkflowsService } from './workflows.service';
 import { CreateWorkflowDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
+import { TestNodeDto } from './dto/test-node.dto';
+import { PublishWorkflowDto } from './dto/publish-workflow.dto';
+import { ValidateWorkflowDto } from './dto/validate-workflow.dto';
+import { ImportWorkflowDto, PreviewWorkflowImportDto } from './dto/import-workflow.dto';
+import { NodeTestService } from './node-test.service';
+import { WorkflowVersionsService } from './workflow-versions.service';
+import { WorkflowValidatorService } from './workflow-validator.service';
+import { WorkflowBundlesService } from './workflow-bundles.service';
 import { ClerkAuthGuard } from '../auth/clerk-auth.guard';
 import { User, AuthenticatedUser } from '../auth/user.decorator';
 
@@ -35,7 +44,13 @@ import { User, AuthenticatedUser } from '../auth/user.decorator';
 @Controller('workflows')
 @UseGuards(ClerkAuthGuard)
 export class WorkflowsController {
-  constructor(private readonly workflowsService: WorkflowsService) {}
+  constructor(
+    private readonly workflowsService: WorkflowsService,
+    private readonly nodeTestService: NodeTestService,
+    private readonly workflowVersionsService: WorkflowVersionsService,
+    private readonly workflowValidatorService: WorkflowValidatorService,
+    private readonly workflowBundlesService: WorkflowBundlesService
+  ) {}
 
   /**
    * Create a new workflow
@@ -53,6 +68,65 @@ export class WorkflowsController {
     return this.workflowsService.create(user.userId, createWorkflowDto);
   }
 
+  /**
+   * Validate a workflow definition without saving it
+   * POST /api/v1/workflows/validate
+   */
+  @Post('validate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Validate a workflow definition' })
+  @ApiResponse({ status: 200, description: 'Errors and warnings found in the definition' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async validate(
+    @User() user: AuthenticatedUser,
+    @Body() validateWorkflowDto: ValidateWorkflowDto
+  ) {
+    if (validateWorkflowDto.workflowId) {
+      // Verify ownership
+      await this.workflowsService.findOne(validateWorkflowDto.workflowId, user.userId);
+    }
+
+    return this.workflowValidatorService.validate(
+      validateWorkflowDto.definition,
+      user.userId,
+      validateWorkflowDto.workflowId
+    );
+  }
+
+  /**
+   * Describe what importing a workflow bundle needs (placeholders to map)
+   * POST /api/v1/workflows/import/preview
+   */
+  @Post('import/preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Preview the import of a workflow bundle' })
+  @ApiResponse({ status: 200, description: 'Placeholders with the records they can map to' })
+  @ApiResponse({ status: 400, description: 'Not a workflow bundle' })
+  async previewImport(
+    @User() user: AuthenticatedUser,
+    @Body() previewWorkflowImportDto: PreviewWorkflowImportDto
+  ) {
+    return this.workflowBundlesService.previewImport(previewWorkflowImportDto.bundle, user.userId);
+  }
+
+  /**
+   * Import a workflow bundle as a new workflow
+   * POST /api/v1/workflows/import
+   */
+  @Post('import')
+  @ApiOperation({ summary: 'Import a workflow bundle' })
+  @ApiResponse({ status: 201, description: 'Workflow created from the bundle' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid bundle, unmapped placeholder or invalid definition',
+  })
+  async import(
+    @User() user: AuthenticatedUser,
+    @Body() importWorkflowDto: ImportWorkflowDto
+  ) {
+    return this.workflowBundlesService.import(user.userId, importWorkflowDto);
+  }
+
   /**
    * Get all workflows for the authenticated user
    * GET /api/v1/workflows
@@ -104,6 +178,149 @@ export class WorkflowsController {
     return this.workflowsService.update(id, user.userId, updateWorkflowDto);
   }
 
+  /**
+   * Test a single node against pinned sample data
+   * POST /api/v1/workflows/:id/nodes/:nodeId/test
+   */
+  @Post(':id/nodes/:nodeId/test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Execute one node in isolation against pinned data' })
+  @ApiResponse({ status: 200, description: 'Node test result' })
+  @ApiResponse({ status: 404, description: 'Workflow or node not found' })
+  @ApiResponse({ status: 400, description: 'Node type cannot be tested on its own' })
+  async testNode(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Param('nodeId') nodeId: string,
+    @Body() testNodeDto: TestNodeDto
+  ) {
+    return this.nodeTestService.testNode(
+      id,
+      nodeId,
+      user.userId,
+      testNodeDto.definition,
+      testNodeDto.input,
+      testNodeDto.dryRun
+    );
+  }
+
+  /**
+   * Export a workflow as a portable bundle
+   * GET /api/v1/workflows/:id/export?version=3&includePinnedData=true
+   */
+  @Get(':id/export')
+  @ApiOperation({ summary: 'Export a workflow as a bundle' })
+  @ApiQuery({
+    name: 'version',
+    required: false,
+    type: Number,
+    description: 'Published version (default: the draft)',
+  })
+  @ApiQuery({ name: 'includePinnedData', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'Workflow bundle' })
+  @ApiResponse({ status: 404, description: 'Workflow or version not found' })
+  async export(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Query('version', new ParseIntPipe({ optional: true })) version?: number,
+    @Query('includePinnedData', new DefaultValuePipe(false), ParseBoolPipe)
+    includePinnedData?: boolean
+  ) {
+    return this.workflowBundlesService.export(id, user.userId, { version, includePinnedData });
+  }
+
+  /**
+   * Get the published versions of a workflow
+   * GET /api/v1/workflows/:id/versions
+   */
+  @Get(':id/versions')
+  @ApiOperation({ summary: 'List the published versions of a workflow' })
+  @ApiResponse({ status: 200, description: 'Versions retrieved successfully, newest first' })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async findVersions(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string
+  ) {
+    return this.workflowVersionsService.findAll(id, user.userId);
+  }
+
+  /**
+   * Publish the draft as the next version
+   * POST /api/v1/workflows/:id/versions
+   */
+  @Post(':id/versions')
+  @ApiOperation({ summary: 'Publish the draft as the next version' })
+  @ApiResponse({ status: 201, description: 'Version published' })
+  @ApiResponse({ status: 400, description: 'Draft has no unpublished changes' })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async publish(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() publishWorkflowDto: PublishWorkflowDto
+  ) {
+    return this.workflowVersionsService.publish(id, user.userId, publishWorkflowDto.note);
+  }
+
+  /**
+   * Compare two versions, or a version and the draft
+   * GET /api/v1/workflows/:id/versions/diff?from=3&to=draft
+   */
+  @Get(':id/versions/diff')
+  @ApiOperation({ summary: 'Diff two definitions: added, removed and changed nodes and edges' })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'Version number or "draft" (default: the published version)',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    description: 'Version number or "draft" (default: draft)',
+  })
+  @ApiResponse({ status: 200, description: 'Definition diff' })
+  @ApiResponse({ status: 404, description: 'Workflow or version not found' })
+  async diffVersions(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string
+  ) {
+    return this.workflowVersionsService.diff(id, user.userId, from, to);
+  }
+
+  /**
+   * Get a published version with its definition
+   * GET /api/v1/workflows/:id/versions/:version
+   */
+  @Get(':id/versions/:version')
+  @ApiOperation({ summary: 'Get a published version with its definition' })
+  @ApiResponse({ status: 200, description: 'Version retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Workflow or version not found' })
+  async findVersion(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number
+  ) {
+    return this.workflowVersionsService.findOne(id, version, user.userId);
+  }
+
+  /**
+   * Publish an older version again
+   * POST /api/v1/workflows/:id/versions/:version/rollback
+   */
+  @Post(':id/versions/:version/rollback')
+  @ApiOperation({ summary: 'Roll back by publishing a copy of an older version' })
+  @ApiResponse({ status: 201, description: 'Older version published as a new version' })
+  @ApiResponse({ status: 400, description: 'Version is already published' })
+  @ApiResponse({ status: 404, description: 'Workflow or version not found' })
+  async rollback(
+    @User() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number
+  ) {
+    return this.workflowVersionsService.rollback(id, version, user.userId);
+  }
+
   /**
    * Delete a workflow
    * DELETE /api/v1/workflows/:id
@@ -6,10 +6,25 @@
 import { Module } from '@nestjs/common';
 import { WorkflowsService } from './workflows.service';
 import { WorkflowsController } from './workflows.controller';
+import { NodeTestService } from './node-test.service';
+import { WorkflowVersionsService } from './workflow-versions.service';
+import { WorkflowValidatorService } from './workflow-validator.service';
+import { WorkflowBundlesService } from './workflow-bundles.service';
+import { NodesModule } from '../nodes/nodes.module';
+import { WebhookTriggersModule } from '../webhook-triggers/webhook-triggers.module';
 
 @Module({
+  // NodesModule for the ExecutorFactory (node tests and validation), WebhookTriggersModule to
+  // register webhook URLs on save
+  imports: [NodesModule, WebhookTriggersModule],
   controllers: [WorkflowsController],
-  providers: [WorkflowsService],
+  providers: [
+    WorkflowsService,
+    NodeTestService,
+    WorkflowVersionsService,
+    WorkflowValidatorService,
+    WorkflowBundlesService,
+  ],
   exports: [WorkflowsService], // Export for use in other modules (e.g., executions)
 })
 export class WorkflowsModule {}
@@ -4,24 +4,41 @@
  *
  * SOLID Principles Applied:
  * - Single Responsibility: Only handles workflow CRUD operations
- * - Dependency Injection: Receives PrismaService through constructor
+ * - Dependency Injection: Receives PrismaService, WorkflowValidatorService, WebhookTriggersService
+ *   and EventEmitter2 through constructor
  * - Interface Segregation: Clean, focused public API
  */
 
-import {
-  Injectable,
-  NotFoundException,
-  BadRequestException,
-  ForbiddenException,
-} from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateWorkflowDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
-import { Workflow } from '@workflow/shared-types';
+import { Workflow, WorkflowValidationIssue } from '@workflow/shared-types';
+import { WorkflowValidatorService } from './workflow-validator.service';
+import { WebhookTriggersService } from '../webhook-triggers/webhook-triggers.service';
+import { diffDefinitions, PUBLISHED_VERSION_INCLUDE } from './utils/workflow-version.util';
+
+// Schedule fields returned with workflows
+const SCHEDULE_SELECT = {
+  nodeId: true,
+  cron: true,
+  timezone: true,
+  catchUp: true,
+  isActive: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  lastExecutionId: true,
+} as const;
 
 @Injectable()
 export class WorkflowsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validator: WorkflowValidatorService,
+    private readonly webhookTriggers: WebhookTriggersService,
+    private readonly eventEmitter: EventEmitter2
+  ) {}
 
   /**
    * Create a new workflow
@@ -30,8 +47,8 @@ export class WorkflowsService {
    * @returns Created workflow
    */
   async create(userId: string, createWorkflowDto: CreateWorkflowDto): Promise<Workflow> {
-    // Validate workflow definition structure
-    this.validateWorkflowDefinition(createWorkflowDto.definition);
+    // Reject definitions with errors (warnings are only shown in the editor)
+    await this.validator.assertValid(createWorkflowDto.definition, userId);
 
     const workflow = await this.prisma.workflow.create({
       data: {
@@ -42,7 +59,11 @@ export class WorkflowsService {
       },
     });
 
-    return this.mapToWorkflow(workflow);
+    // Register its schedules and webhook URLs
+    this.eventEmitter.emit('workflow.saved', { workflowId: workflow.id });
+    const webhookIssues = await this.syncWebhooks(workflow.id);
+
+    return { ...this.mapToWorkflow(workflow), webhookIssues };
   }
 
   /**
@@ -61,6 +82,7 @@ export class WorkflowsService {
         skip,
         take: limit,
         orderBy: { updatedAt: 'desc' },
+        include: { schedules: { select: SCHEDULE_SELECT }, ...PUBLISHED_VERSION_INCLUDE },
       }),
       this.prisma.workflow.count({ where: { userId } }),
     ]);
@@ -85,6 +107,7 @@ export class WorkflowsService {
   async findOne(id: string, userId: string): Promise<Workflow> {
     const workflow = await this.prisma.workflow.findUnique({
       where: { id },
+      include: { schedules: { select: SCHEDULE_SELECT }, ...PUBLISHED_VERSION_INCLUDE },
     });
 
     if (!workflow) {
@@ -115,7 +138,7 @@ export class WorkflowsService {
 
     // Validate definition if provided
     if (updateWorkflowDto.definition) {
-      this.validateWorkflowDefinition(updateWorkflowDto.definition);
+      await this.validator.assertValid(updateWorkflowDto.definition, userId, id);
     }
 
     const workflow = await this.prisma.workflow.update({
@@ -124,9 +147,14 @@ export class WorkflowsService {
         ...updateWorkflowDto,
         definition: updateWorkflowDto.definition as any,
       },
+      include: PUBLISHED_VERSION_INCLUDE,
     });
 
-    return this.mapToWorkflow(workflow);
+    // Sync its schedules and webhook URLs with the new definition and activation
+    this.eventEmitter.emit('workflow.saved', { workflowId: workflow.id });
+    const webhookIssues = await this.syncWebhooks(workflow.id);
+
+    return { ...this.mapToWorkflow(workflow), webhookIssues };
   }
 
   /**
@@ -144,36 +172,23 @@ export class WorkflowsService {
   }
 
   /**
-   * Validate workflow definition structure
-   * Ensures it has required fields and valid structure
-   * @private
+   * Register the webhook URLs of a workflow that was just saved or published
+   * The save has happened already, so problems are returned for the editor to show
+   * @param workflowId - ID of the workflow
+   * @returns Webhook nodes whose URL could not be registered
    */
-  private validateWorkflowDefinition(definition: any): void {
-    if (!definition.nodes || !Array.isArray(definition.nodes)) {
-      throw new BadRequestException('Workflow definition must include nodes array');
-    }
-
-    if (!definition.edges || !Array.isArray(definition.edges)) {
-      throw new BadRequestException('Workflow definition must include edges array');
-    }
-
-    if (definition.nodes.length === 0) {
-      throw new BadRequestException('Workflow must have at least one node');
-    }
-
-    // Validate that all nodes have required fields
-    for (const node of definition.nodes) {
-      if (!node.nodeId || !node.type) {
-        throw new BadRequestException('Each node must have nodeId and type');
-      }
-    }
-
-    // Validate that edges reference existing nodes
-    const nodeIds = new Set(definition.nodes.map((n: any) => n.nodeId));
-    for (const edge of definition.edges) {
-      if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
-        throw new BadRequestException('Edge references non-existent node');
-      }
+  async syncWebhooks(workflowId: string): Promise<WorkflowValidationIssue[]> {
+    try {
+      return await this.webhookTriggers.syncWorkflow(workflowId);
+    } catch (error) {
+      console.error(`[Workflows] Failed to sync webhook URLs of workflow ${workflowId}:`, error);
+      return [
+        {
+          severity: 'error',
+          code: 'invalid_webhook',
+          message: 'Webhook URLs could not be registered; save the workflow again',
+        },
+      ];
     }
   }
 
@@ -192,6 +207,23 @@ export class WorkflowsService {
       userId: workflow.userId,
       createdAt: workflow.createdAt,
       updatedAt: workflow.updatedAt,
+      schedules: workflow.schedules?.map((schedule: any) => ({
+        nodeId: schedule.nodeId,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        catchUp: schedule.catchUp,
+        isActive: schedule.isActive,
+        nextRunAt: schedule.nextRunAt || undefined,
+        lastRunAt: schedule.lastRunAt || undefined,
+        lastExecutionId: schedule.lastExecutionId || undefined,
+      })),
+      publishedVersion: workflow.publishedVersion?.version,
+      hasUnpublishedChanges: workflow.publishedVersion
+        ? diffDefinitions(workflow.publishedVersion.definition, workflow.definition, {
+            from: workflow.publishedVersion.version,
+            to: 'draft',
+          }).hasChanges
+        : undefined,
     };
   }
 }
@@ -0,0 +1,87 @@
+/**
+ * Approvals Inbox Page
+ * Lists pending approvals the current user can decide, across all workflows
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ApprovalInboxItem } from '@workflow/shared-types';
+import { executionsApi } from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatDate } from '@/lib/utils';
+
+export default function ApprovalsPage() {
+  const [items, setItems] = useState<ApprovalInboxItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    executionsApi
+      .getApprovalInbox()
+      .then(setItems)
+      .catch((err: any) => setError(err.response?.data?.message || err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">Loading approvals...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-8">
+      <h1 className="text-4xl font-bold mb-8">Approvals</h1>
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive border border-destructive rounded-lg p-4 mb-6">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-center py-12 border-2 border-dashed rounded-lg">
+          <p className="text-muted-foreground">Nothing is waiting for your approval</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => (
+            <div
+              key={`${item.executionId}-${item.nodeId}`}
+              className="border rounded-lg p-6 flex justify-between items-center gap-4"
+            >
+              <div className="space-y-2">
+                <h3 className="text-lg font-semibold">{item.title || 'Approval required'}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {item.workflowName} · waiting since {formatDate(item.pausedAt)}
+                </p>
+                <div className="flex gap-2 flex-wrap">
+                  <Badge variant="outline">
+                    {item.rowCount} item{item.rowCount === 1 ? '' : 's'}
+                  </Badge>
+                  {item.requiredApprovals > 1 && (
+                    <Badge variant="outline">
+                      {item.approvals}/{item.requiredApprovals} approvals
+                    </Badge>
+                  )}
+                  {item.approvalDueAt && (
+                    <Badge variant="outline">Decide by {formatDate(item.approvalDueAt)}</Badge>
+                  )}
+                  {item.escalatedAt && <Badge variant="destructive">Escalated</Badge>}
+                </div>
+              </div>
+              <Link href={`/executions/${item.executionId}/review?nodeId=${item.nodeId}`}>
+                <Button>Review</Button>
+              </Link>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,15 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { executionsApi } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { CheckCircle2, XCircle, Loader2, Check, X, Pencil } from 'lucide-react';
+import type { ApprovalRowAction, ApprovalRowDecision } from '@workflow/shared-types';
 
 interface ApprovalRow {
   customerId: string;
@@ -20,35 +21,63 @@ interface ApprovalRow {
   [key: string]: any;
 }
 
+interface ReviewContent {
+  rows: ApprovalRow[];
+  metadata: {
+    totalRows: number;
+    title: string;
+    description: string;
+    allowBulkApproval: boolean;
+    requireComment: boolean;
+  };
+  displayFields: string[];
+}
+
+interface PendingApproval {
+  nodeId: string;
+  resumeToken: string;
+  approvalDueAt?: string; // Deadline after which the node's timeout action decides
+  requiredApprovals?: number; // Approvals from distinct approvers needed
+  approvals?: number; // Approve votes so far
+  canDecide?: boolean; // False if the user isn't an assigned approver or already voted
+  approvalData: ReviewContent;
+}
+
+// Reviewer decision for a row; rows without one are approved
+interface RowDecisionState {
+  action: ApprovalRowAction;
+  generatedContent?: string;
+}
+
 interface ApprovalData {
   executionId: string;
   workflowId: string;
   status: string;
-  approvalData: {
-    rows: ApprovalRow[];
-    metadata: {
-      totalRows: number;
-      title: string;
-      description: string;
-      allowBulkApproval: boolean;
-      requireComment: boolean;
-    };
-    displayFields: string[];
-  };
+  approvalData: ReviewContent;
+  approvals?: PendingApproval[]; // Every approval node still waiting for a decision
   startedAt: string;
 }
 
 export default function ApprovalReviewPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const executionId = params.id as string;
 
   const [data, setData] = useState<ApprovalData | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [rowDecisions, setRowDecisions] = useState<Record<number, RowDecisionState>>({});
   const [comment, setComment] = useState('');
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Approval opened from the inbox, if any
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(searchParams.get('nodeId'));
+
+  const approvals = data?.approvals || [];
+  const approval = approvals.find((a) => a.nodeId === selectedNodeId) || approvals[0];
+  const content = approval?.approvalData || data?.approvalData;
+  const canDecide = approval?.canDecide !== false;
 
   useEffect(() => {
     fetchApprovalData();
@@ -68,6 +97,29 @@ export default function ApprovalReviewPage() {
     }
   }
 
+  function selectApproval(nodeId: string) {
+    setSelectedNodeId(nodeId);
+    setSelectedRows(new Set());
+    setRowDecisions({});
+    setComment('');
+    setError(null);
+  }
+
+  /**
+   * Other approvals of this execution are still waiting: review the next one
+   */
+  async function showRemainingApprovals(): Promise<boolean> {
+    if (approvals.length <= 1) return false;
+
+    setSelectedNodeId(null);
+    setSelectedRows(new Set());
+    setRowDecisions({});
+    setComment('');
+    setProcessing(false);
+    await fetchApprovalData();
+    return true;
+  }
+
   function toggleRow(index: number) {
     const newSelected = new Set(selectedRows);
     if (newSelected.has(index)) {
@@ -79,18 +131,58 @@ export default function ApprovalReviewPage() {
   }
 
   function toggleAllRows() {
-    if (selectedRows.size === data?.approvalData.rows.length) {
+    if (selectedRows.size === content?.rows.length) {
       setSelectedRows(new Set());
     } else {
-      const allRows = new Set(data?.approvalData.rows.map((_, i) => i) || []);
+      const allRows = new Set(content?.rows.map((_, i) => i) || []);
       setSelectedRows(allRows);
     }
   }
 
+  function setRowAction(index: number, action: ApprovalRowAction) {
+    setRowDecisions((current) => ({
+      ...current,
+      [index]:
+        action === 'edit'
+          ? {
+              action,
+              generatedContent:
+                current[index]?.generatedContent ?? content?.rows[index]?.generated_content ?? '',
+            }
+          : { action },
+    }));
+  }
+
+  function setEditedContent(index: number, generatedContent: string) {
+    setRowDecisions((current) => ({ ...current, [index]: { action: 'edit', generatedContent } }));
+  }
+
+  // Apply a decision to every selected row
+  function decideSelectedRows(action: 'approve' | 'reject') {
+    setRowDecisions((current) => {
+      const next = { ...current };
+      selectedRows.forEach((index) => {
+        next[index] = { action };
+      });
+      return next;
+    });
+    setSelectedRows(new Set());
+  }
+
+  // One decision per row, sent with the approval
+  function buildDecisions(): ApprovalRowDecision[] {
+    return (content?.rows || []).map((_, rowIndex) => {
+      const decision = rowDecisions[rowIndex] || { action: 'approve' };
+      return decision.action === 'edit'
+        ? { rowIndex, action: 'edit', generatedContent: decision.generatedContent || '' }
+        : { rowIndex, action: decision.action };
+    });
+  }
+
   async function handleApprove() {
-    if (!data) return;
+    if (!data || !content) return;
 
-    const requireComment = data.approvalData.metadata.requireComment;
+    const requireComment = content.metadata.requireComment;
     if (requireComment && !comment.trim()) {
       setError('Comment is required for approval');
       return;
@@ -98,7 +190,21 @@ export default function ApprovalReviewPage() {
 
     try {
       setProcessing(true);
-      await executionsApi.approve(executionId, comment);
+      const progress = await executionsApi.approve(
+        executionId,
+        comment,
+        approval?.resumeToken,
+        buildDecisions()
+      );
+
+      // The approval waits for more approvers: show the updated vote count
+      if (!progress.decided) {
+        setProcessing(false);
+        await fetchApprovalData();
+        return;
+      }
+
+      if (await showRemainingApprovals()) return;
 
       // Redirect back to workflow editor to see execution continue
       router.push(`/workflows/${data.workflowId}`);
@@ -110,9 +216,9 @@ export default function ApprovalReviewPage() {
   }
 
   async function handleReject() {
-    if (!data) return;
+    if (!data || !content) return;
 
-    const requireComment = data.approvalData.metadata.requireComment;
+    const requireComment = content.metadata.requireComment;
     if (requireComment && !comment.trim()) {
       setError('Comment is required for rejection');
       return;
@@ -120,7 +226,7 @@ export default function ApprovalReviewPage() {
 
     try {
       setProcessing(true);
-      await executionsApi.reject(executionId, comment);
+      await executionsApi.reject(executionId, comment, approval?.resumeToken);
 
       // Redirect back to workflow editor to see execution stopped
       router.push(`/workflows/${data.workflowId}`);
@@ -157,9 +263,13 @@ export default function ApprovalReviewPage() {
     );
   }
 
-  if (!data) return null;
+  if (!data || !content) return null;
 
-  const { rows, metadata, displayFields } = data.approvalData;
+  const { rows, metadata, displayFields } = content;
+  const decisionOf = (index: number) => rowDecisions[index]?.action || 'approve';
+  const rejectedCount = rows.filter((_, index) => decisionOf(index) === 'reject').length;
+  const editedCount = rows.filter((_, index) => decisionOf(index) === 'edit').length;
+  const hasRowDecisions = rejectedCount > 0 || editedCount > 0;
 
   return (
     <div className="container mx-auto p-6 max-w-7xl">
@@ -170,10 +280,44 @@ export default function ApprovalReviewPage() {
           <Badge variant="outline">
             {rows.length} {rows.length === 1 ? 'item' : 'items'} pending review
           </Badge>
+          {hasRowDecisions && (
+            <Badge variant="secondary">
+              {rows.length - rejectedCount} approved ({editedCount} edited), {rejectedCount}{' '}
+              rejected
+            </Badge>
+          )}
+          {approval && (approval.requiredApprovals || 1) > 1 && (
+            <Badge variant="outline">
+              {approval.approvals || 0}/{approval.requiredApprovals} approvals
+            </Badge>
+          )}
+          {approval?.approvalDueAt && (
+            <Badge variant="outline">
+              Decide by {new Date(approval.approvalDueAt).toLocaleString()}
+            </Badge>
+          )}
           <Badge variant={data.status === 'pending_approval' ? 'default' : 'secondary'}>
             {data.status}
           </Badge>
         </div>
+        {approvals.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <span className="text-sm text-muted-foreground">
+              {approvals.length} approvals pending:
+            </span>
+            {approvals.map((a) => (
+              <Button
+                key={a.nodeId}
+                variant={a.nodeId === approval?.nodeId ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => selectApproval(a.nodeId)}
+                disabled={processing}
+              >
+                {a.approvalData?.metadata?.title || a.nodeId}
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
 
       {error && (
@@ -186,18 +330,34 @@ export default function ApprovalReviewPage() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Generated Content Review</CardTitle>
-            {metadata.allowBulkApproval && rows.length > 1 && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={toggleAllRows}
-              >
-                {selectedRows.size === rows.length ? 'Deselect All' : 'Select All'}
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {metadata.allowBulkApproval && selectedRows.size > 0 && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => decideSelectedRows('approve')}>
+                    <Check className="mr-1 h-4 w-4" />
+                    Approve selected
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => decideSelectedRows('reject')}>
+                    <X className="mr-1 h-4 w-4" />
+                    Reject selected
+                  </Button>
+                </>
+              )}
+              {metadata.allowBulkApproval && rows.length > 1 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={toggleAllRows}
+                >
+                  {selectedRows.size === rows.length ? 'Deselect All' : 'Select All'}
+                </Button>
+              )}
+            </div>
           </div>
           <CardDescription>
-            Review the AI-generated content before sending to customers
+            Review the AI-generated content before sending to customers. Approve, reject or edit
+            each row; only approved rows continue, rejected rows go to the node&apos;s rejected
+            branch.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -219,11 +379,17 @@ export default function ApprovalReviewPage() {
                         {field.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())}
                       </th>
                     ))}
+                    <th className="px-4 py-3 text-left font-semibold">Decision</th>
                   </tr>
                 </thead>
                 <tbody>
                   {rows.map((row, index) => (
-                    <tr key={index} className="border-t hover:bg-muted/50">
+                    <tr
+                      key={index}
+                      className={`border-t hover:bg-muted/50 ${
+                        decisionOf(index) === 'reject' ? 'bg-red-50 opacity-60' : ''
+                      }`}
+                    >
                       {metadata.allowBulkApproval && (
                         <td className="px-4 py-3">
                           <Checkbox
@@ -234,7 +400,14 @@ export default function ApprovalReviewPage() {
                       )}
                       {displayFields.map((field) => (
                         <td key={field} className="px-4 py-3">
-                          {field === 'generated_content' ? (
+                          {field === 'generated_content' && decisionOf(index) === 'edit' ? (
+                            <Textarea
+                              value={rowDecisions[index]?.generatedContent ?? ''}
+                              onChange={(e) => setEditedContent(index, e.target.value)}
+                              rows={4}
+                              className="max-w-md text-sm"
+                            />
+                          ) : field === 'generated_content' ? (
                             <div className="max-w-md whitespace-pre-wrap text-sm">
                               {row[field]}
                             </div>
@@ -247,6 +420,34 @@ export default function ApprovalReviewPage() {
                           )}
                         </td>
                       ))}
+                      <td className="px-4 py-3">
+                        <div className="flex gap-1">
+                          <Button
+                            variant={decisionOf(index) === 'approve' ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setRowAction(index, 'approve')}
+                            title="Approve row"
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant={decisionOf(index) === 'reject' ? 'destructive' : 'outline'}
+                            size="sm"
+                            onClick={() => setRowAction(index, 'reject')}
+                            title="Reject row"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant={decisionOf(index) === 'edit' ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setRowAction(index, 'edit')}
+                            title="Edit content and approve"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -278,7 +479,12 @@ export default function ApprovalReviewPage() {
         </CardContent>
       </Card>
 
-      <div className="flex gap-4 justify-end">
+      <div className="flex gap-4 justify-end items-center">
+        {!canDecide && (
+          <span className="text-sm text-muted-foreground">
+            You are not an approver of this step or have already voted
+          </span>
+        )}
         <Button
           variant="outline"
           onClick={() => router.push('/workflows')}
@@ -289,7 +495,7 @@ export default function ApprovalReviewPage() {
         <Button
           variant="destructive"
           onClick={handleReject}
-          disabled={processing}
+          disabled={processing || !canDecide}
         >
           {processing ? (
             <>
@@ -299,13 +505,13 @@ export default function ApprovalReviewPage() {
           ) : (
             <>
               <XCircle className="mr-2 h-4 w-4" />
-              Reject Content
+              Reject All
             </>
           )}
         </Button>
         <Button
           onClick={handleApprove}
-          disabled={processing}
+          disabled={processing || !canDecide}
         >
           {processing ? (
             <>
@@ -315,7 +521,7 @@ export default function ApprovalReviewPage() {
           ) : (
             <>
               <CheckCircle2 className="mr-2 h-4 w-4" />
-              Approve & Continue
+              {hasRowDecisions ? 'Submit Decisions' : 'Approve & Continue'}
             </>
           )}
         </Button>
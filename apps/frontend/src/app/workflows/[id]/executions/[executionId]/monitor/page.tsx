@@ -13,8 +13,25 @@ import { WorkflowEditor } from '@/components/workflow-editor';
 import { ExecutionLogsPanel } from '@/components/execution-logs-panel';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Loader2, XCircle, CheckCircle2, StopCircle } from 'lucide-react';
+import {
+  ArrowLeft,
+  Loader2,
+  XCircle,
+  CheckCircle2,
+  StopCircle,
+  Workflow,
+  RotateCcw,
+} from 'lucide-react';
 import { executionsApi } from '@/lib/api';
+import type {
+  ExecutionLink,
+  NodeConfig,
+  NodeExecutionStatus,
+  WorkflowExecution,
+} from '@workflow/shared-types';
+
+// Executions that can be replayed
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled', 'timed_out'];
 
 export default function ExecutionMonitorPage() {
   const params = useParams();
@@ -34,6 +51,15 @@ export default function ExecutionMonitorPage() {
 
   const [isInitializing, setIsInitializing] = useState(true);
   const [isCancelling, setIsCancelling] = useState(false);
+  const [parentExecution, setParentExecution] = useState<ExecutionLink | undefined>();
+  const [childExecutions, setChildExecutions] = useState<ExecutionLink[]>([]);
+  const [nodeRuns, setNodeRuns] = useState<NodeExecutionStatus[]>([]);
+  const [replayOf, setReplayOf] = useState<
+    Pick<WorkflowExecution, 'replayOfExecutionId' | 'replayFromNodeId'>
+  >({});
+  const [isDryRun, setIsDryRun] = useState(false);
+  const [selectedNode, setSelectedNode] = useState<NodeConfig | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
 
   const workflow = workflows.find((w) => w.id === workflowId);
 
@@ -66,6 +92,45 @@ export default function ExecutionMonitorPage() {
     };
   }, [executionId]);
 
+  // Load parent/child executions (sub-workflows are started while the execution runs)
+  useEffect(() => {
+    executionsApi
+      .getById(executionId)
+      .then((execution) => {
+        setParentExecution(execution.parentExecution);
+        setChildExecutions(execution.childExecutions || []);
+        setNodeRuns(execution.nodeExecutions);
+        setIsDryRun(execution.dryRun === true);
+        setReplayOf({
+          replayOfExecutionId: execution.replayOfExecutionId,
+          replayFromNodeId: execution.replayFromNodeId,
+        });
+      })
+      .catch((error) => console.error('Failed to load related executions:', error));
+  }, [executionId, executionStatus]);
+
+  const handleOpenExecution = (link: ExecutionLink) => {
+    router.push(`/workflows/${link.workflowId}/executions/${link.id}/monitor`);
+  };
+
+  // Only nodes that ran can be replayed from (skipped ones never produced an input)
+  const canReplay = FINISHED_STATUSES.includes(executionStatus);
+  const selectedNodeRuns = selectedNode
+    ? nodeRuns.filter((run) => run.nodeId === selectedNode.nodeId && run.status !== 'skipped')
+    : [];
+
+  const handleReplay = async (fromNodeId?: string) => {
+    setIsReplaying(true);
+    try {
+      const replay = await executionsApi.replay(executionId, fromNodeId);
+      router.push(`/workflows/${workflowId}/executions/${replay.id}/monitor`);
+    } catch (error: any) {
+      console.error('Failed to replay execution:', error);
+      alert(error.response?.data?.message || 'Failed to replay execution');
+      setIsReplaying(false);
+    }
+  };
+
   const handleBack = () => {
     stopExecutionMonitoring();
     router.push(`/workflows/${workflowId}/executions`);
@@ -118,6 +183,13 @@ export default function ExecutionMonitorPage() {
             Cancelled
           </Badge>
         );
+      case 'timed_out':
+        return (
+          <Badge className="bg-orange-100 text-orange-800">
+            <XCircle className="w-3 h-3 mr-1" />
+            Timed Out
+          </Badge>
+        );
       default:
         return (
           <Badge className="bg-gray-100 text-gray-800">
@@ -205,6 +277,22 @@ export default function ExecutionMonitorPage() {
             </Button>
           )}
 
+          {/* Replay the whole execution */}
+          {canReplay && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleReplay()}
+              disabled={isReplaying}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Replay
+            </Button>
+          )}
+
+          {/* Side-effecting nodes were only recorded */}
+          {isDryRun && <Badge variant="outline">Dry Run</Badge>}
+
           {/* Execution status */}
           {getStatusIndicator()}
         </div>
@@ -219,8 +307,9 @@ export default function ExecutionMonitorPage() {
             onDefinitionChange={() => {
               // Read-only during execution
             }}
-            onNodeSelect={() => {
-              // Disabled during execution
+            onNodeSelect={(node) => {
+              // Read-only: selecting a node offers replaying from it
+              setSelectedNode(node);
             }}
           />
         </div>
@@ -229,6 +318,96 @@ export default function ExecutionMonitorPage() {
         <div className="w-1/3 bg-white p-6 overflow-y-auto">
           <ExecutionLogsPanel maxHeight="calc(100vh - 200px)" />
 
+          {/* Replay from the selected node */}
+          {canReplay && selectedNode && (
+            <div className="mt-6 p-4 border rounded-lg">
+              <h3 className="font-semibold mb-1">{selectedNode.label || selectedNode.nodeId}</h3>
+              {selectedNodeRuns.length > 0 ? (
+                <>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    {selectedNodeRuns.some((run) => run.reused)
+                      ? 'Output reused from the replayed execution. '
+                      : ''}
+                    Re-runs this node and everything after it, reusing the outputs of the nodes
+                    before it.
+                  </p>
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    onClick={() => handleReplay(selectedNode.nodeId)}
+                    disabled={isReplaying}
+                  >
+                    {isReplaying ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                    )}
+                    Replay from here
+                  </Button>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  This node did not run in this execution
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Parent and sub-workflow executions */}
+          {(parentExecution ||
+            childExecutions.length > 0 ||
+            replayOf.replayOfExecutionId) && (
+            <div className="mt-6 p-4 border rounded-lg">
+              <h3 className="font-semibold mb-3">Related Executions</h3>
+              <div className="space-y-2 text-sm">
+                {replayOf.replayOfExecutionId && (
+                  <button
+                    className="w-full flex justify-between items-center hover:bg-muted/50 rounded p-1 text-left"
+                    onClick={() =>
+                      router.push(
+                        `/workflows/${workflowId}/executions/${replayOf.replayOfExecutionId}/monitor`
+                      )
+                    }
+                  >
+                    <span className="text-muted-foreground">Replay of:</span>
+                    <span className="font-medium flex items-center gap-1">
+                      <RotateCcw className="w-3 h-3" />
+                      {replayOf.replayOfExecutionId.substring(0, 8)}
+                      {replayOf.replayFromNodeId && ` from ${replayOf.replayFromNodeId}`}
+                    </span>
+                  </button>
+                )}
+                {parentExecution && (
+                  <button
+                    className="w-full flex justify-between items-center hover:bg-muted/50 rounded p-1 text-left"
+                    onClick={() => handleOpenExecution(parentExecution)}
+                  >
+                    <span className="text-muted-foreground">Started by:</span>
+                    <span className="font-medium flex items-center gap-1">
+                      <Workflow className="w-3 h-3" />
+                      {parentExecution.workflowName || parentExecution.id.substring(0, 8)}
+                    </span>
+                  </button>
+                )}
+                {childExecutions.map((child) => (
+                  <button
+                    key={child.id}
+                    className="w-full flex justify-between items-center hover:bg-muted/50 rounded p-1 text-left"
+                    onClick={() => handleOpenExecution(child)}
+                  >
+                    <span className="font-medium flex items-center gap-1">
+                      <Workflow className="w-3 h-3" />
+                      {child.workflowName || child.id.substring(0, 8)}
+                    </span>
+                    <span className="text-xs text-muted-foreground capitalize">
+                      {child.status.replace('_', ' ')}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Execution summary */}
           {currentExecution && (
             <div className="mt-6 p-4 border rounded-lg">
@@ -13,7 +13,7 @@ import { executionsApi } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatDate } from '@/lib/utils';
-import type { WorkflowExecution, ExecutionStatus } from '@workflow/shared-types';
+import type { WorkflowExecution, ExecutionStatus, ExecutionQueueStats } from '@workflow/shared-types';
 import { Play, RefreshCw, Eye, ArrowLeft, Loader2 } from 'lucide-react';
 
 export default function ExecutionHistoryPage() {
@@ -30,6 +30,7 @@ export default function ExecutionHistoryPage() {
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [queue, setQueue] = useState<ExecutionQueueStats | null>(null);
 
   const workflow = workflows.find((w) => w.id === workflowId);
 
@@ -47,6 +48,7 @@ export default function ExecutionHistoryPage() {
       const response = await executionsApi.getByWorkflowId(workflowId, page, 20);
       setExecutions(response.data);
       setTotalPages(response.totalPages);
+      setQueue(response.queue);
     } catch (err: any) {
       setError(err.response?.data?.message || 'Failed to fetch executions');
     } finally {
@@ -88,6 +90,9 @@ export default function ExecutionHistoryPage() {
       failed: 'destructive',
       cancelled: 'secondary',
       pending_approval: 'secondary',
+      timed_out: 'destructive',
+      skipped: 'secondary',
+      waiting: 'secondary',
     };
 
     const colors: Record<ExecutionStatus, string> = {
@@ -97,11 +102,14 @@ export default function ExecutionHistoryPage() {
       failed: 'bg-red-100 text-red-800',
       cancelled: 'bg-yellow-100 text-yellow-800',
       pending_approval: 'bg-purple-100 text-purple-800',
+      timed_out: 'bg-orange-100 text-orange-800',
+      skipped: 'bg-gray-100 text-gray-500',
+      waiting: 'bg-amber-100 text-amber-800',
     };
 
     return (
       <Badge variant={variants[status]} className={colors[status]}>
-        {status === 'pending_approval' ? 'Pending Approval' : status}
+        {status === 'pending_approval' ? 'Pending Approval' : status === 'timed_out' ? 'Timed Out' : status}
       </Badge>
     );
   };
@@ -192,6 +200,24 @@ export default function ExecutionHistoryPage() {
         </div>
       )}
 
+      {/* Queue */}
+      {queue && (queue.pending > 0 || queue.running > 0 || queue.maxConcurrency) && (
+        <div className="border rounded-lg p-4 mb-6 flex gap-6 text-sm">
+          <div>
+            <span className="font-medium">{queue.running}</span>
+            {queue.maxConcurrency ? ` / ${queue.maxConcurrency}` : ''} running
+          </div>
+          <div>
+            <span className="font-medium">{queue.pending}</span> queued
+          </div>
+          {queue.maxConcurrencyPerUser && (
+            <div className="text-muted-foreground">
+              At most {queue.maxConcurrencyPerUser} running across all your workflows
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Executions Table */}
       {executions.length === 0 ? (
         <div className="text-center py-12 border-2 border-dashed rounded-lg">
@@ -220,8 +246,34 @@ export default function ExecutionHistoryPage() {
                   <tr key={execution.id} className="border-t hover:bg-muted/50">
                     <td className="p-4">
                       <div className="font-mono text-sm">{execution.id.substring(0, 8)}...</div>
+                      {execution.parentExecutionId && (
+                        <Badge variant="outline" className="mt-1 text-xs">
+                          Sub-workflow
+                        </Badge>
+                      )}
+                      {execution.dryRun && (
+                        <Badge variant="outline" className="mt-1 text-xs">
+                          Dry run
+                        </Badge>
+                      )}
+                      {execution.scheduledFor && (
+                        <Badge variant="outline" className="mt-1 text-xs">
+                          Scheduled
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="mt-1 text-xs">
+                        {execution.workflowVersion ? `v${execution.workflowVersion}` : 'Draft'}
+                      </Badge>
+                    </td>
+                    <td className="p-4">
+                      {getStatusBadge(execution.status)}
+                      {execution.queuePosition && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          #{execution.queuePosition} in queue
+                          {execution.priority ? ` · priority ${execution.priority}` : ''}
+                        </div>
+                      )}
                     </td>
-                    <td className="p-4">{getStatusBadge(execution.status)}</td>
                     <td className="p-4 text-sm text-muted-foreground">
                       {execution.startedAt ? formatDate(execution.startedAt) : 'N/A'}
                     </td>
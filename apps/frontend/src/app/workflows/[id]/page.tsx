@@ -13,17 +13,37 @@ import { Button } from '@/components/ui/button';
 import { WorkflowEditor } from '@/components/workflow-editor';
 import { NodePalette } from '@/components/node-palette';
 import { NodeConfigSidebar } from '@/components/node-config-sidebar';
-import type { WorkflowDefinition, NodeConfig } from '@workflow/shared-types';
+import { WebhooksDialog } from '@/components/webhooks-dialog';
+import { VersionsDialog } from '@/components/versions-dialog';
+import { ValidationIssuesPanel } from '@/components/validation-issues-panel';
+import { workflowsApi } from '@/lib/api';
+import type {
+  WorkflowDefinition,
+  NodeConfig,
+  WorkflowValidationResult,
+} from '@workflow/shared-types';
 
 export default function WorkflowEditorPage() {
   const params = useParams();
   const router = useRouter();
   const workflowId = params.id as string;
 
-  const { currentWorkflow, isLoading, error, fetchWorkflow, updateWorkflow, updateWorkflowLocal } = useWorkflowStore();
+  const {
+    currentWorkflow,
+    isLoading,
+    error,
+    fetchWorkflow,
+    updateWorkflow,
+    updateWorkflowLocal,
+    refreshPublishState,
+  } = useWorkflowStore();
   const { executeWorkflow, isExecuting, connectWebSocket, disconnectWebSocket } = useExecutionStore();
   const [isSaving, setIsSaving] = useState(false);
   const [selectedNode, setSelectedNode] = useState<NodeConfig | null>(null);
+  const [webhooksOpen, setWebhooksOpen] = useState(false);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [validation, setValidation] = useState<WorkflowValidationResult | null>(null);
 
   // Connect to WebSocket for real-time updates
   useEffect(() => {
@@ -53,29 +73,73 @@ export default function WorkflowEditorPage() {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [currentWorkflow, isSaving]);
 
+  // Returns whether the workflow was saved
   const handleSave = async (definition: WorkflowDefinition, silent = false) => {
-    if (!currentWorkflow) return;
+    if (!currentWorkflow) return false;
 
     setIsSaving(true);
     try {
-      await updateWorkflow(currentWorkflow.id, {
+      // Validate first so errors and warnings are listed per node instead of in one message
+      const result = await workflowsApi.validate({ definition, workflowId: currentWorkflow.id });
+      setValidation(result.errors.length > 0 || result.warnings.length > 0 ? result : null);
+      if (!result.valid) {
+        return false;
+      }
+
+      const saved = await updateWorkflow(currentWorkflow.id, {
         name: currentWorkflow.name,
         description: currentWorkflow.description,
         definition,
       });
+      // Saved, but a webhook ID was taken by another workflow meanwhile
+      if (saved.webhookIssues?.length) {
+        setValidation({ ...result, errors: saved.webhookIssues });
+      }
       if (!silent) {
         console.log('Workflow saved successfully');
       }
+      return true;
     } catch (error) {
       console.error('Failed to save workflow:', error);
       if (!silent) {
-        alert('Failed to save workflow');
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        alert(`Failed to save workflow: ${errorMessage}`);
       }
+      return false;
     } finally {
       setIsSaving(false);
     }
   };
 
+  // Bundles carry placeholders instead of credential IDs, so they can be imported elsewhere
+  const handleExport = async () => {
+    if (!currentWorkflow) return;
+
+    const includePinnedData =
+      currentWorkflow.definition.nodes.some((node) => node.pinnedData) &&
+      confirm('Include the pinned sample data of nodes? It may contain real customer data.');
+    try {
+      const bundle = await workflowsApi.exportBundle(currentWorkflow.id, { includePinnedData });
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+      );
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${currentWorkflow.name.replace(/[^\w-]+/g, '-')}.workflow.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      alert(`Failed to export workflow: ${error.response?.data?.message || error.message}`);
+    }
+  };
+
+  const handleSelectIssueNode = (nodeId: string) => {
+    const node = currentWorkflow?.definition.nodes.find((n) => n.nodeId === nodeId);
+    if (node) {
+      setSelectedNode(node);
+    }
+  };
+
   const handleNodeSave = (updatedNode: NodeConfig) => {
     if (!currentWorkflow) return;
 
@@ -91,18 +155,19 @@ export default function WorkflowEditorPage() {
     });
   };
 
-  const handleRun = async () => {
+  // Dry runs record emails, WhatsApp messages, calendar invites and non-GET HTTP calls instead of sending them
+  const handleRun = async (dryRun = false) => {
     if (!currentWorkflow) return;
 
     try {
       console.log('[WorkflowEditor] Starting workflow execution...');
 
-      // First save the current workflow silently
-      await handleSave(currentWorkflow.definition, true);
+      // First save the current workflow silently; invalid workflows are not run
+      if (!(await handleSave(currentWorkflow.definition, true))) return;
 
       // Then execute it using the execution store (with authentication)
       // The execution store's WebSocket listener will auto-redirect to review page if approval is needed
-      const execution = await executeWorkflow(currentWorkflow.id);
+      const execution = await executeWorkflow(currentWorkflow.id, undefined, dryRun);
 
       console.log('[WorkflowEditor] Execution started:', execution.id);
       console.log('[WorkflowEditor] WebSocket will auto-redirect to review page if approval is needed');
@@ -113,6 +178,29 @@ export default function WorkflowEditorPage() {
     }
   };
 
+  // Publishing makes the saved draft the version API keys, schedules and webhooks run
+  const handlePublish = async () => {
+    if (!currentWorkflow) return;
+
+    const note = prompt('What changed in this version? (optional)');
+    if (note === null) return;
+
+    setIsPublishing(true);
+    try {
+      if (!(await handleSave(currentWorkflow.definition, true))) return;
+      const version = await workflowsApi.publish(currentWorkflow.id, note || undefined);
+      console.log(`[WorkflowEditor] Published version ${version.version}`);
+      if (version.webhookIssues?.length) {
+        setValidation({ valid: true, errors: version.webhookIssues, warnings: [] });
+      }
+      await refreshPublishState(currentWorkflow.id);
+    } catch (error: any) {
+      alert(`Failed to publish workflow: ${error.response?.data?.message || error.message}`);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -156,6 +244,13 @@ export default function WorkflowEditorPage() {
             {currentWorkflow.description && (
               <p className="text-sm text-muted-foreground">{currentWorkflow.description}</p>
             )}
+            <p className="text-xs text-muted-foreground">
+              {currentWorkflow.publishedVersion
+                ? `Version ${currentWorkflow.publishedVersion} published${
+                    currentWorkflow.hasUnpublishedChanges ? ' · draft has unpublished changes' : ''
+                  }`
+                : 'Not published yet: every run uses the draft'}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -164,18 +259,104 @@ export default function WorkflowEditorPage() {
             onClick={() => {
               const newName = prompt('Workflow name:', currentWorkflow.name);
               if (newName) {
-                updateWorkflow(currentWorkflow.id, { name: newName });
+                updateWorkflow(currentWorkflow.id, { name: newName }).catch((error) =>
+                  alert(`Failed to rename workflow: ${error.message}`)
+                );
               }
             }}
           >
             Rename
           </Button>
-          <Button variant="default" onClick={handleRun} disabled={isExecuting}>
+          <Button
+            variant="outline"
+            onClick={() => {
+              const currentTimeoutMs = currentWorkflow.definition.settings?.executionTimeoutMs;
+              const value = prompt(
+                'Execution timeout in seconds (leave empty for no timeout):',
+                currentTimeoutMs ? String(currentTimeoutMs / 1000) : ''
+              );
+              if (value === null) return;
+
+              const seconds = parseFloat(value);
+              updateWorkflowLocal(currentWorkflow.id, {
+                definition: {
+                  ...currentWorkflow.definition,
+                  settings: {
+                    ...currentWorkflow.definition.settings,
+                    executionTimeoutMs: seconds > 0 ? Math.round(seconds * 1000) : undefined,
+                  },
+                },
+              });
+            }}
+          >
+            Timeout
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              const settings = currentWorkflow.definition.settings;
+              const maxValue = prompt(
+                'Maximum executions running at once (leave empty for no limit):',
+                settings?.maxConcurrency ? String(settings.maxConcurrency) : ''
+              );
+              if (maxValue === null) return;
+              const priorityValue = prompt(
+                'Queue priority of its executions, -100 to 100 (higher starts first):',
+                String(settings?.priority ?? 0)
+              );
+              if (priorityValue === null) return;
+
+              const maxConcurrency = parseInt(maxValue, 10);
+              const priority = Math.max(-100, Math.min(100, parseInt(priorityValue, 10) || 0));
+              updateWorkflowLocal(currentWorkflow.id, {
+                definition: {
+                  ...currentWorkflow.definition,
+                  settings: {
+                    ...settings,
+                    maxConcurrency: maxConcurrency > 0 ? maxConcurrency : undefined,
+                    priority: priority !== 0 ? priority : undefined,
+                  },
+                },
+              });
+            }}
+          >
+            Concurrency
+          </Button>
+          <Button variant="outline" onClick={() => setWebhooksOpen(true)}>
+            Webhooks
+          </Button>
+          <Button variant="outline" onClick={() => setVersionsOpen(true)}>
+            Versions
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            title="Download the saved draft as a bundle to import into another deployment"
+          >
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleRun(true)}
+            disabled={isExecuting}
+            title="Run without sending emails, WhatsApp messages, calendar invites or non-GET HTTP requests"
+          >
+            Dry Run
+          </Button>
+          <Button variant="default" onClick={() => handleRun()} disabled={isExecuting}>
             {isExecuting ? '⏳ Running...' : '▶ Run'}
           </Button>
           <Button onClick={() => handleSave(currentWorkflow.definition)} disabled={isSaving}>
             {isSaving ? 'Saving...' : 'Save'}
           </Button>
+          <Button
+            variant="secondary"
+            onClick={handlePublish}
+            disabled={isSaving || isPublishing}
+            title="Save, then make this draft the version API keys, schedules and webhooks run"
+          >
+            {isPublishing ? 'Publishing...' : 'Publish'}
+          </Button>
         </div>
       </div>
 
@@ -188,8 +369,9 @@ export default function WorkflowEditorPage() {
             onDefinitionChange={(newDefinition) => {
               // Update local state only (no API call)
               // This happens automatically as nodes are dragged/connected
+              // The editor only knows nodes and edges, so keep variables and settings
               updateWorkflowLocal(currentWorkflow.id, {
-                definition: newDefinition,
+                definition: { ...currentWorkflow.definition, ...newDefinition },
               });
             }}
             onNodeSelect={setSelectedNode}
@@ -200,9 +382,31 @@ export default function WorkflowEditorPage() {
             node={selectedNode}
             onClose={() => setSelectedNode(null)}
             onSave={handleNodeSave}
+            workflowId={currentWorkflow.id}
+            definition={currentWorkflow.definition}
           />
         )}
       </div>
+
+      {validation && (
+        <ValidationIssuesPanel
+          result={validation}
+          onSelectNode={handleSelectIssueNode}
+          onClose={() => setValidation(null)}
+        />
+      )}
+
+      <WebhooksDialog
+        workflowId={currentWorkflow.id}
+        open={webhooksOpen}
+        onOpenChange={setWebhooksOpen}
+      />
+      <VersionsDialog
+        workflowId={currentWorkflow.id}
+        open={versionsOpen}
+        onOpenChange={setVersionsOpen}
+        onRollback={() => refreshPublishState(currentWorkflow.id)}
+      />
     </div>
   );
 }
@@ -5,20 +5,38 @@
 
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
+import type { WorkflowBundle } from '@workflow/shared-types';
 import { useWorkflowStore } from '@/stores/workflow-store';
 import { Button } from '@/components/ui/button';
+import { ImportWorkflowDialog } from '@/components/import-workflow-dialog';
 import { formatDate } from '@/lib/utils';
 
 export default function WorkflowsPage() {
   const { workflows, isLoading, error, fetchWorkflows, createWorkflow, deleteWorkflow } =
     useWorkflowStore();
 
+  const [importBundle, setImportBundle] = useState<WorkflowBundle | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   useEffect(() => {
     fetchWorkflows();
   }, [fetchWorkflows]);
 
+  // Bundles are JSON files downloaded with Export in the editor
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setImportBundle(JSON.parse(await file.text()));
+    } catch {
+      alert('The file is not valid JSON');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
   const handleCreateWorkflow = async () => {
     try {
       const workflow = await createWorkflow('New Workflow', 'Created from UI');
@@ -41,7 +59,19 @@ export default function WorkflowsPage() {
     <div className="container mx-auto p-8">
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-4xl font-bold">My Workflows</h1>
-        <Button onClick={handleCreateWorkflow}>Create Workflow</Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            Import
+          </Button>
+          <Button onClick={handleCreateWorkflow}>Create Workflow</Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => handleImportFile(e.target.files?.[0])}
+        />
       </div>
 
       {error && (
@@ -67,6 +97,18 @@ export default function WorkflowsPage() {
                 <span>{workflow.definition.nodes.length} nodes</span>
                 <span>{formatDate(workflow.updatedAt)}</span>
               </div>
+              {workflow.schedules?.map((schedule) => (
+                <div key={schedule.nodeId} className="text-xs text-muted-foreground mb-4 space-y-1">
+                  <div>
+                    <span className="font-mono">{schedule.cron}</span> ({schedule.timezone})
+                  </div>
+                  <div>
+                    Next run:{' '}
+                    {schedule.isActive && schedule.nextRunAt ? formatDate(schedule.nextRunAt) : '-'}
+                  </div>
+                  <div>Last run: {schedule.lastRunAt ? formatDate(schedule.lastRunAt) : 'never'}</div>
+                </div>
+              ))}
               <div className="flex gap-2">
                 <Link href={`/workflows/${workflow.id}`} className="flex-1">
                   <Button variant="outline" className="w-full">
@@ -89,6 +131,15 @@ export default function WorkflowsPage() {
           ))}
         </div>
       )}
+
+      <ImportWorkflowDialog
+        bundle={importBundle}
+        onClose={() => setImportBundle(null)}
+        onImported={(result) => {
+          setImportBundle(null);
+          window.location.href = `/workflows/${result.workflow.id}`;
+        }}
+      />
     </div>
   );
 }
@@ -7,7 +7,15 @@
 
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { NodeType } from '@workflow/shared-types';
+import {
+  NodeType,
+  ERROR_HANDLE,
+  LOOP_ITEM_HANDLE,
+  LOOP_DONE_HANDLE,
+  SWITCH_DEFAULT_HANDLE,
+  APPROVAL_REJECTED_HANDLE,
+  APPROVAL_TIMEOUT_HANDLE,
+} from '@workflow/shared-types';
 import {
   Zap,
   Globe,
@@ -27,13 +35,19 @@ import {
   ShieldCheck,
   FileText,
   ClipboardCheck,
+  Repeat,
+  Workflow,
+  Split,
+  MinusCircle,
+  Hourglass,
 } from 'lucide-react';
 import { useExecutionStore } from '@/stores/execution-store';
 
 interface CustomNodeData {
   label: string;
   type: NodeType;
-  status?: 'idle' | 'running' | 'success' | 'error';
+  status?: 'idle' | 'running' | 'success' | 'error' | 'skipped' | 'waiting';
+  handles?: { id: string; label: string }[]; // Case branches of switch nodes
 }
 
 const nodeIcons: Record<NodeType, React.ComponentType<{ className?: string }>> = {
@@ -41,12 +55,15 @@ const nodeIcons: Record<NodeType, React.ComponentType<{ className?: string }>> =
   [NodeType.HTTP_REQUEST]: Globe,
   [NodeType.DATA_TRANSFORM]: Code,
   [NodeType.CONDITIONAL]: GitBranch,
+  [NodeType.SWITCH]: Split,
   [NodeType.DELAY]: Clock,
   [NodeType.WEBHOOK]: Webhook,
   [NodeType.EMAIL]: Mail,
   [NodeType.GOOGLE_CALENDAR]: Calendar,
   [NodeType.WHATSAPP]: MessageCircle,
   [NodeType.MANUAL_APPROVAL]: ClipboardCheck,
+  [NodeType.LOOP]: Repeat,
+  [NodeType.EXECUTE_WORKFLOW]: Workflow,
   [NodeType.CSV_UPLOAD]: FileUp,
   [NodeType.AI_CONTENT_GENERATOR]: Sparkles,
   [NodeType.COMPLIANCE_CHECKER]: ShieldCheck,
@@ -74,6 +91,11 @@ const nodeColors: Record<NodeType, { bg: string; border: string; icon: string }>
     border: 'border-yellow-500',
     icon: 'bg-yellow-500',
   },
+  [NodeType.SWITCH]: {
+    bg: 'bg-lime-50',
+    border: 'border-lime-500',
+    icon: 'bg-lime-500',
+  },
   [NodeType.DELAY]: {
     bg: 'bg-orange-50',
     border: 'border-orange-500',
@@ -104,6 +126,16 @@ const nodeColors: Record<NodeType, { bg: string; border: string; icon: string }>
     border: 'border-blue-600',
     icon: 'bg-blue-600',
   },
+  [NodeType.LOOP]: {
+    bg: 'bg-teal-50',
+    border: 'border-teal-500',
+    icon: 'bg-teal-500',
+  },
+  [NodeType.EXECUTE_WORKFLOW]: {
+    bg: 'bg-sky-50',
+    border: 'border-sky-500',
+    icon: 'bg-sky-500',
+  },
   [NodeType.CSV_UPLOAD]: {
     bg: 'bg-cyan-50',
     border: 'border-cyan-500',
@@ -131,6 +163,8 @@ const statusColors: Record<string, string> = {
   running: 'border-blue-500 animate-pulse',
   success: 'border-green-500',
   error: 'border-red-500',
+  skipped: 'border-gray-300 border-dashed opacity-60',
+  waiting: 'border-amber-400 border-dashed',
 };
 
 function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
@@ -156,6 +190,10 @@ function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
         return <XCircle className="w-3 h-3 text-red-500" />;
       case 'retrying':
         return <AlertCircle className="w-3 h-3 text-yellow-500 animate-pulse" />;
+      case 'skipped':
+        return <MinusCircle className="w-3 h-3 text-gray-400" />;
+      case 'waiting':
+        return <Hourglass className="w-3 h-3 text-amber-500" />;
       default:
         return null;
     }
@@ -221,6 +259,48 @@ function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
             className="w-3 h-3 !bg-red-500"
           />
         </>
+      ) : data.type === NodeType.SWITCH ? (
+        <>
+          {/* One branch per case on the right side, default branch at the bottom */}
+          {(data.handles || []).map((handle, index, handles) => (
+            <Handle
+              key={handle.id}
+              type="source"
+              position={Position.Right}
+              id={handle.id}
+              style={{ top: `${((index + 1) / (handles.length + 1)) * 100}%` }}
+              className="w-3 h-3 !bg-lime-500"
+              title={handle.label}
+            />
+          ))}
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            id={SWITCH_DEFAULT_HANDLE}
+            className="w-3 h-3 !bg-gray-500"
+            title="Default"
+          />
+        </>
+      ) : data.type === NodeType.LOOP ? (
+        <>
+          {/* Loop body - right side, runs once per item */}
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={LOOP_ITEM_HANDLE}
+            style={{ top: '40%' }}
+            className="w-3 h-3 !bg-teal-500"
+            title="For each item"
+          />
+          {/* After the loop - bottom, receives the collected results */}
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            id={LOOP_DONE_HANDLE}
+            className="w-3 h-3 !bg-blue-500"
+            title="Done"
+          />
+        </>
       ) : (
         <>
           <Handle type="source" position={Position.Top} className="w-3 h-3 !bg-blue-500" />
@@ -229,6 +309,42 @@ function CustomNode({ data, selected, id }: NodeProps<CustomNodeData>) {
           <Handle type="source" position={Position.Left} className="w-3 h-3 !bg-blue-500" />
         </>
       )}
+
+      {/* Rejected branch - bottom left, receives the rows a reviewer rejected */}
+      {data.type === NodeType.MANUAL_APPROVAL && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id={APPROVAL_REJECTED_HANDLE}
+          style={{ left: '15%' }}
+          className="w-3 h-3 !bg-red-500"
+          title="Rejected rows"
+        />
+      )}
+
+      {/* Timeout branch - bottom, followed when the approval deadline passes */}
+      {data.type === NodeType.MANUAL_APPROVAL && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id={APPROVAL_TIMEOUT_HANDLE}
+          style={{ left: '30%' }}
+          className="w-3 h-3 !bg-amber-500"
+          title="Deadline passed"
+        />
+      )}
+
+      {/* Error branch - bottom right, followed only when the node fails */}
+      {data.type !== NodeType.TRIGGER && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id={ERROR_HANDLE}
+          style={{ left: '85%' }}
+          className="w-3 h-3 !bg-orange-500"
+          title="On error"
+        />
+      )}
     </div>
   );
 }
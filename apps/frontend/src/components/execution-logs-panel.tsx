@@ -110,11 +110,15 @@ export function ExecutionLogsPanel({
                     ? 'bg-green-500'
                     : executionStatus === 'failed'
                     ? 'bg-red-500'
+                    : executionStatus === 'timed_out'
+                    ? 'bg-orange-500'
+                    : executionStatus === 'waiting'
+                    ? 'bg-amber-400'
                     : 'bg-gray-400'
                 }`}
               />
               <span className="text-xs text-muted-foreground capitalize">
-                {executionStatus}
+                {executionStatus.replace('_', ' ')}
               </span>
             </div>
           )}
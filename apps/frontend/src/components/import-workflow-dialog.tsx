@@ -0,0 +1,216 @@
+/**
+ * Import Workflow Dialog
+ * Maps the credential and workflow placeholders of an exported bundle, then imports it
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type {
+  WorkflowBundle,
+  WorkflowBundleReference,
+  WorkflowImportCandidate,
+  WorkflowImportPreview,
+  WorkflowImportResult,
+} from '@workflow/shared-types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { workflowsApi } from '@/lib/api';
+
+type MappedReference = WorkflowBundleReference & { candidates: WorkflowImportCandidate[] };
+
+interface ImportWorkflowDialogProps {
+  bundle: WorkflowBundle | null; // Parsed bundle file; the dialog is open while set
+  onClose: () => void;
+  onImported: (result: WorkflowImportResult) => void;
+}
+
+export function ImportWorkflowDialog({ bundle, onClose, onImported }: ImportWorkflowDialogProps) {
+  const [preview, setPreview] = useState<WorkflowImportPreview | null>(null);
+  const [name, setName] = useState('');
+  const [credentialMapping, setCredentialMapping] = useState<Record<string, string>>({});
+  const [workflowMapping, setWorkflowMapping] = useState<Record<string, string>>({});
+  const [remapNodeIds, setRemapNodeIds] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!bundle) return;
+
+    setPreview(null);
+    setError(null);
+    setIsLoading(true);
+    workflowsApi
+      .previewImport(bundle)
+      .then((result) => {
+        setPreview(result);
+        setName(result.name);
+        // Preselect the only candidate, or the one named like the source record
+        const preselect = (references: MappedReference[]) =>
+          Object.fromEntries(
+            references
+              .map((reference) => {
+                const match =
+                  reference.candidates.length === 1
+                    ? reference.candidates[0]
+                    : reference.candidates.find((candidate) => candidate.name === reference.name);
+                return [reference.placeholder, match?.id || ''];
+              })
+              .filter(([, id]) => id)
+          );
+        setCredentialMapping(preselect(result.credentials));
+        setWorkflowMapping(preselect(result.workflows));
+      })
+      .catch((err: any) => setError(err.response?.data?.message || 'Failed to read the bundle'))
+      .finally(() => setIsLoading(false));
+  }, [bundle]);
+
+  const handleImport = async () => {
+    if (!bundle) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await workflowsApi.importBundle({
+        bundle,
+        name: name || undefined,
+        credentialMapping,
+        workflowMapping,
+        remapNodeIds,
+      });
+      onImported(result);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to import workflow');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderMapping = (
+    reference: MappedReference,
+    mapping: Record<string, string>,
+    setMapping: (mapping: Record<string, string>) => void
+  ) => (
+    <div key={reference.placeholder} className="space-y-1">
+      <Label>
+        {reference.name || reference.placeholder}
+        {reference.integrationType && (
+          <span className="text-muted-foreground"> ({reference.integrationType})</span>
+        )}
+      </Label>
+      <Select
+        value={mapping[reference.placeholder] || ''}
+        onValueChange={(value) => setMapping({ ...mapping, [reference.placeholder]: value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={`Used by ${reference.nodeIds.join(', ')}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {reference.candidates.map((candidate) => (
+            <SelectItem key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {reference.candidates.length === 0 && (
+        <p className="text-xs text-destructive">Nothing to map it to: create it first</p>
+      )}
+    </div>
+  );
+
+  const unmapped = preview
+    ? [
+        ...preview.credentials.filter((reference) => !credentialMapping[reference.placeholder]),
+        ...preview.workflows.filter((reference) => !workflowMapping[reference.placeholder]),
+      ].length
+    : 0;
+
+  return (
+    <Dialog open={!!bundle} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Workflow</DialogTitle>
+          <DialogDescription>
+            Credentials and called workflows only exist in the deployment the bundle came from:
+            choose the ones to use here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <Loader2 className="w-5 h-5 animate-spin mx-auto" />}
+
+        {preview && (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div className="space-y-1">
+              <Label htmlFor="importName">Name</Label>
+              <Input id="importName" value={name} onChange={(e) => setName(e.target.value)} />
+              <p className="text-xs text-muted-foreground">{preview.nodeCount} nodes</p>
+            </div>
+
+            {preview.credentials.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Credentials</h4>
+                {preview.credentials.map((reference) =>
+                  renderMapping(reference, credentialMapping, setCredentialMapping)
+                )}
+              </div>
+            )}
+
+            {preview.workflows.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Called workflows</h4>
+                {preview.workflows.map((reference) =>
+                  renderMapping(reference, workflowMapping, setWorkflowMapping)
+                )}
+              </div>
+            )}
+
+            {preview.takenWebhookIds.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Webhook IDs already in use here get new IDs: {preview.takenWebhookIds.join(', ')}
+              </p>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="remapNodeIds"
+                checked={remapNodeIds}
+                onCheckedChange={(checked) => setRemapNodeIds(checked === true)}
+              />
+              <Label htmlFor="remapNodeIds">Give the nodes new IDs</Label>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!preview || unmapped > 0 || isImporting}>
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
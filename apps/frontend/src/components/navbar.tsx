@@ -14,6 +14,7 @@ export function Navbar() {
 
   const navLinks = [
     { href: '/workflows', label: 'Workflows' },
+    { href: '/approvals', label: 'Approvals' },
     { href: '/api-keys', label: 'API Keys' },
   ];
 
@@ -14,11 +14,20 @@ import {
   NodeType,
   NodeConfig,
   HttpMethod,
+  JoinMode,
+  RetryPolicy,
   TriggerNodeConfig,
   HttpRequestNodeConfig,
   DataTransformNodeConfig,
   ConditionalNodeConfig,
+  SwitchNodeConfig,
+  SwitchCase,
+  SwitchCaseMatch,
   DelayNodeConfig,
+  BusinessHoursCalendar,
+  LoopNodeConfig,
+  ExecuteWorkflowNodeConfig,
+  Workflow,
   WebhookNodeConfig,
   EmailNodeConfig,
   GoogleCalendarNodeConfig,
@@ -27,11 +36,13 @@ import {
   AIContentGeneratorNodeConfig,
   ComplianceCheckerNodeConfig,
   ComplianceReportNodeConfig,
+  WorkflowDefinition,
 } from '@workflow/shared-types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Select,
   SelectContent,
@@ -39,21 +50,66 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { X } from 'lucide-react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { workflowsApi } from '@/lib/api';
+import { NodeTestPanel } from '@/components/node-test-panel';
+
+const DELAY_UNITS = [
+  { value: 'days', label: 'Days', ms: 86400000 },
+  { value: 'hours', label: 'Hours', ms: 3600000 },
+  { value: 'minutes', label: 'Minutes', ms: 60000 },
+  { value: 'seconds', label: 'Seconds', ms: 1000 },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const HOUR_MS = 3600000;
+
+// Hours typed into an SLA field, in milliseconds (empty clears the field)
+function hoursToMs(value: string): number | undefined {
+  const hours = Number(value);
+  return value && hours > 0 ? Math.round(hours * HOUR_MS) : undefined;
+}
+
+// Comma-separated list typed into a field (user IDs, emails, roles)
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
 
 interface NodeConfigSidebarProps {
   node: NodeConfig | null;
   onClose: () => void;
   onSave: (node: NodeConfig) => void;
+  workflowId?: string; // With definition, enables testing the node against pinned data
+  definition?: WorkflowDefinition;
 }
 
-export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarProps) {
+export function NodeConfigSidebar({
+  node,
+  onClose,
+  onSave,
+  workflowId,
+  definition,
+}: NodeConfigSidebarProps) {
   const [editedNode, setEditedNode] = useState<NodeConfig | null>(node);
+  const [availableWorkflows, setAvailableWorkflows] = useState<Workflow[]>([]);
 
   useEffect(() => {
     setEditedNode(node);
   }, [node]);
 
+  // Execute Workflow nodes pick their target from the user's workflows
+  useEffect(() => {
+    if (node?.type !== NodeType.EXECUTE_WORKFLOW) return;
+    workflowsApi
+      .getAll(1, 100)
+      .then((response) => setAvailableWorkflows(response.data))
+      .catch((error) => console.error('Failed to load workflows:', error));
+  }, [node?.type]);
+
   if (!node || !editedNode) {
     return null;
   }
@@ -65,6 +121,19 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
     });
   };
 
+  const updateRetryPolicy = (field: keyof RetryPolicy, value: any) => {
+    setEditedNode((prev) => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        retryPolicy: {
+          ...prev.retryPolicy,
+          [field]: value,
+        },
+      } as NodeConfig;
+    });
+  };
+
   const updateNodeConfig = (configField: string, value: any) => {
     setEditedNode((prev) => {
       if (!prev) return null;
@@ -121,6 +190,41 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
                 </p>
               </div>
             )}
+            {config.triggerType === 'scheduled' && (
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Time Zone</Label>
+                <Input
+                  id="timezone"
+                  placeholder="UTC"
+                  value={config.timezone || ''}
+                  onChange={(e) => updateNodeConfig('timezone', e.target.value || undefined)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  IANA time zone the schedule runs in (e.g., "Asia/Kolkata")
+                </p>
+              </div>
+            )}
+            {config.triggerType === 'scheduled' && (
+              <div className="space-y-2">
+                <Label htmlFor="catchUp">Missed Runs</Label>
+                <Select
+                  value={config.catchUp || 'none'}
+                  onValueChange={(value) => updateNodeConfig('catchUp', value)}
+                >
+                  <SelectTrigger id="catchUp">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Skip</SelectItem>
+                    <SelectItem value="latest">Run the latest once</SelectItem>
+                    <SelectItem value="all">Run all</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Runs missed while the server was down
+                </p>
+              </div>
+            )}
           </>
         );
       }
@@ -195,6 +299,8 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
             />
             <p className="text-xs text-muted-foreground">
               Write JavaScript code to transform data. Input is available as "input" variable.
+              Scripts run in a sandbox with a 1 second time limit: standard built-ins like Math,
+              JSON and Date work, but require, process and timers are not available.
             </p>
           </div>
         );
@@ -220,22 +326,413 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
         );
       }
 
+      case NodeType.SWITCH: {
+        const config = (editedNode as SwitchNodeConfig).config;
+        const cases = config.cases || [];
+        const updateCase = (index: number, changes: Partial<SwitchCase>) => {
+          updateNodeConfig(
+            'cases',
+            cases.map((switchCase, i) => (i === index ? { ...switchCase, ...changes } : switchCase))
+          );
+        };
+        const addCase = () => {
+          // Handles must stay stable once edges are connected, so never reuse a removed one
+          let next = cases.length + 1;
+          while (cases.some((switchCase) => switchCase.handle === `case-${next}`)) next++;
+          updateNodeConfig('cases', [
+            ...cases,
+            { handle: `case-${next}`, label: `Case ${next}`, match: 'equals', value: '' },
+          ]);
+        };
+        const parseBound = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+        return (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="switchExpression">Value Expression</Label>
+              <Input
+                id="switchExpression"
+                placeholder="input.category"
+                value={config.expression || ''}
+                onChange={(e) => updateNodeConfig('expression', e.target.value)}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Cases are checked in order and the first match is followed. If none match, the
+                default (bottom) branch is taken.
+              </p>
+            </div>
+            {cases.map((switchCase, index) => (
+              <div key={switchCase.handle} className="space-y-2 border rounded-md p-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="Label"
+                    value={switchCase.label || ''}
+                    onChange={(e) => updateCase(index, { label: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateNodeConfig('cases', cases.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Select
+                  value={switchCase.match}
+                  onValueChange={(value) => updateCase(index, { match: value as SwitchCaseMatch })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="equals">Equals</SelectItem>
+                    <SelectItem value="regex">Matches regex</SelectItem>
+                    <SelectItem value="range">In range</SelectItem>
+                    <SelectItem value="expression">Expression</SelectItem>
+                  </SelectContent>
+                </Select>
+                {switchCase.match === 'equals' && (
+                  <Input
+                    placeholder="Value"
+                    value={switchCase.value || ''}
+                    onChange={(e) => updateCase(index, { value: e.target.value })}
+                  />
+                )}
+                {switchCase.match === 'regex' && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="^loan-"
+                      value={switchCase.pattern || ''}
+                      onChange={(e) => updateCase(index, { pattern: e.target.value })}
+                      className="font-mono text-sm"
+                    />
+                    <Input
+                      placeholder="flags"
+                      value={switchCase.flags || ''}
+                      onChange={(e) => updateCase(index, { flags: e.target.value || undefined })}
+                      className="w-20 font-mono text-sm"
+                    />
+                  </div>
+                )}
+                {switchCase.match === 'range' && (
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      placeholder="Min (inclusive)"
+                      value={switchCase.min ?? ''}
+                      onChange={(e) => updateCase(index, { min: parseBound(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Max (exclusive)"
+                      value={switchCase.max ?? ''}
+                      onChange={(e) => updateCase(index, { max: parseBound(e.target.value) })}
+                    />
+                  </div>
+                )}
+                {switchCase.match === 'expression' && (
+                  <Input
+                    placeholder="value > 700 && input.verified"
+                    value={switchCase.expression || ''}
+                    onChange={(e) => updateCase(index, { expression: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addCase}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Case
+            </Button>
+          </>
+        );
+      }
+
       case NodeType.DELAY: {
         const config = (editedNode as DelayNodeConfig).config;
+        const mode = config.mode || 'duration';
+        const delayMs = config.delayMs || 0;
+        const delayUnit =
+          DELAY_UNITS.find((unit) => delayMs > 0 && delayMs % unit.ms === 0) ||
+          DELAY_UNITS[DELAY_UNITS.length - 1];
+        const businessHours = config.businessHours;
+        const updateBusinessHours = (changes: Partial<BusinessHoursCalendar>) => {
+          updateNodeConfig('businessHours', { ...businessHours, ...changes });
+        };
+
         return (
-          <div className="space-y-2">
-            <Label htmlFor="delayMs">Delay (milliseconds)</Label>
-            <Input
-              id="delayMs"
-              type="number"
-              placeholder="1000"
-              value={config.delayMs || ''}
-              onChange={(e) => updateNodeConfig('delayMs', parseInt(e.target.value))}
-            />
-            <p className="text-xs text-muted-foreground">
-              {config.delayMs ? `${(config.delayMs / 1000).toFixed(1)} seconds` : 'Enter delay in milliseconds'}
-            </p>
-          </div>
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="delayMode">Wait</Label>
+              <Select value={mode} onValueChange={(value) => updateNodeConfig('mode', value)}>
+                <SelectTrigger id="delayMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="duration">For a duration</SelectItem>
+                  <SelectItem value="until">Until a date and time</SelectItem>
+                  <SelectItem value="time_of_day">Until a time of day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {mode === 'duration' && (
+              <div className="space-y-2">
+                <Label htmlFor="delayAmount">Duration</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="delayAmount"
+                    type="number"
+                    min={0}
+                    placeholder="1"
+                    value={delayMs ? delayMs / delayUnit.ms : ''}
+                    onChange={(e) =>
+                      updateNodeConfig('delayMs', Math.max(0, Number(e.target.value) || 0) * delayUnit.ms)
+                    }
+                  />
+                  <Select
+                    value={delayUnit.value}
+                    onValueChange={(value) => {
+                      const unit = DELAY_UNITS.find((u) => u.value === value) || delayUnit;
+                      updateNodeConfig('delayMs', (delayMs / delayUnit.ms) * unit.ms);
+                    }}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELAY_UNITS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>
+                          {unit.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {mode === 'until' && (
+              <div className="space-y-2">
+                <Label htmlFor="until">Resume At</Label>
+                <Input
+                  id="until"
+                  placeholder="2025-01-31T10:00:00+05:30 or {{input.sendAt}}"
+                  value={config.until || ''}
+                  onChange={(e) => updateNodeConfig('until', e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  ISO date and time (include the offset), or a template that resolves to one
+                </p>
+              </div>
+            )}
+
+            {mode === 'time_of_day' && (
+              <div className="space-y-2">
+                <Label htmlFor="timeOfDay">Time of Day</Label>
+                <Input
+                  id="timeOfDay"
+                  type="time"
+                  value={config.timeOfDay || ''}
+                  onChange={(e) => updateNodeConfig('timeOfDay', e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Resumes at the next occurrence of this time (on a business day, if set below)
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Input
+                id="timezone"
+                placeholder="UTC"
+                value={config.timezone || ''}
+                onChange={(e) => updateNodeConfig('timezone', e.target.value || undefined)}
+              />
+              <p className="text-xs text-muted-foreground">
+                IANA timezone for times of day and business hours, e.g. Asia/Kolkata
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="businessHours"
+                checked={!!businessHours}
+                onCheckedChange={(checked) =>
+                  updateNodeConfig(
+                    'businessHours',
+                    checked === true ? { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' } : undefined
+                  )
+                }
+              />
+              <Label htmlFor="businessHours">Only resume during business hours</Label>
+            </div>
+
+            {businessHours && (
+              <div className="space-y-3 border rounded-md p-3">
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAYS.map((day, index) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      size="sm"
+                      variant={businessHours.days.includes(index) ? 'default' : 'outline'}
+                      onClick={() =>
+                        updateBusinessHours({
+                          days: businessHours.days.includes(index)
+                            ? businessHours.days.filter((d) => d !== index)
+                            : [...businessHours.days, index].sort(),
+                        })
+                      }
+                    >
+                      {day}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    aria-label="Opens at"
+                    value={businessHours.start}
+                    onChange={(e) => updateBusinessHours({ start: e.target.value })}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    aria-label="Closes at"
+                    value={businessHours.end}
+                    onChange={(e) => updateBusinessHours({ end: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="holidays">Holidays</Label>
+                  <Textarea
+                    id="holidays"
+                    key={editedNode.nodeId}
+                    placeholder="2025-01-26, 2025-08-15"
+                    defaultValue={(businessHours.holidays || []).join(', ')}
+                    onBlur={(e) =>
+                      updateBusinessHours({
+                        holidays: e.target.value
+                          .split(/[\s,]+/)
+                          .map((date) => date.trim())
+                          .filter(Boolean),
+                      })
+                    }
+                    rows={2}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Resume times outside business hours move to the next opening time
+                </p>
+              </div>
+            )}
+          </>
+        );
+      }
+
+      case NodeType.LOOP: {
+        const config = (editedNode as LoopNodeConfig).config;
+        return (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="itemsExpression">Items Expression</Label>
+              <Input
+                id="itemsExpression"
+                placeholder="input.rows"
+                value={config.itemsExpression || ''}
+                onChange={(e) => updateNodeConfig('itemsExpression', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Must return an array. Nodes connected to the right handle run once per item; the
+                bottom handle continues with {'{ items, results, count }'}.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="concurrency">Concurrency</Label>
+              <Input
+                id="concurrency"
+                type="number"
+                min={1}
+                placeholder="1"
+                value={config.concurrency || ''}
+                onChange={(e) => updateNodeConfig('concurrency', parseInt(e.target.value) || undefined)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxItems">Max Items</Label>
+              <Input
+                id="maxItems"
+                type="number"
+                min={1}
+                placeholder="1000"
+                value={config.maxItems || ''}
+                onChange={(e) => updateNodeConfig('maxItems', parseInt(e.target.value) || undefined)}
+              />
+            </div>
+          </>
+        );
+      }
+
+      case NodeType.EXECUTE_WORKFLOW: {
+        const config = (editedNode as ExecuteWorkflowNodeConfig).config;
+        return (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="workflowId">Workflow</Label>
+              <Select
+                value={config.workflowId || undefined}
+                onValueChange={(value) => updateNodeConfig('workflowId', value)}
+              >
+                <SelectTrigger id="workflowId">
+                  <SelectValue placeholder="Select a workflow" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableWorkflows.map((workflow) => (
+                    <SelectItem key={workflow.id} value={workflow.id}>
+                      {workflow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inputMapping">Input Mapping (JSON)</Label>
+              <Textarea
+                id="inputMapping"
+                key={editedNode.nodeId}
+                placeholder='{"customerId": "input.customer.id"}'
+                defaultValue={config.inputMapping ? JSON.stringify(config.inputMapping, null, 2) : ''}
+                onBlur={(e) => {
+                  if (!e.target.value.trim()) {
+                    updateNodeConfig('inputMapping', undefined);
+                    return;
+                  }
+                  try {
+                    updateNodeConfig('inputMapping', JSON.parse(e.target.value));
+                  } catch {
+                    // Keep the last valid mapping until the JSON parses
+                  }
+                }}
+                rows={4}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Maps each input field of the sub-workflow to an expression. Leave empty to pass this
+                node's input through unchanged.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="waitForCompletion"
+                checked={config.waitForCompletion !== false}
+                onCheckedChange={(checked) => updateNodeConfig('waitForCompletion', checked === true)}
+              />
+              <Label htmlFor="waitForCompletion">Wait for completion</Label>
+            </div>
+          </>
         );
       }
 
@@ -270,6 +767,67 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhookAuthentication">Authentication</Label>
+              <Select
+                value={config.authentication || 'none'}
+                onValueChange={(value) => updateNodeConfig('authentication', value)}
+              >
+                <SelectTrigger id="webhookAuthentication">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="shared_secret">
+                    Shared secret (X-Webhook-Secret header)
+                  </SelectItem>
+                  <SelectItem value="hmac">
+                    HMAC signature (X-Webhook-Signature header)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The secret is shown under Webhooks once the workflow is saved
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhookResponseMode">Response</Label>
+              <Select
+                value={config.responseMode || 'async'}
+                onValueChange={(value) => updateNodeConfig('responseMode', value)}
+              >
+                <SelectTrigger id="webhookResponseMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="async">Respond right away with the execution ID</SelectItem>
+                  <SelectItem value="sync">Wait and respond with the workflow output</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {config.responseMode === 'sync' && (
+              <div className="space-y-2">
+                <Label htmlFor="webhookResponseTimeout">Response Timeout (seconds)</Label>
+                <Input
+                  id="webhookResponseTimeout"
+                  type="number"
+                  min="1"
+                  max="120"
+                  placeholder="30"
+                  value={config.responseTimeoutMs ? config.responseTimeoutMs / 1000 : ''}
+                  onChange={(e) => {
+                    const seconds = parseFloat(e.target.value);
+                    updateNodeConfig(
+                      'responseTimeoutMs',
+                      seconds > 0 ? Math.round(seconds * 1000) : undefined
+                    );
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Executions still running then are answered with 202 and their ID
+                </p>
+              </div>
+            )}
           </>
         );
       }
@@ -320,6 +878,11 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
                 onChange={(e) => updateNodeConfig('body', e.target.value)}
                 rows={6}
               />
+              <p className="text-xs text-muted-foreground">
+                Use {'{{nodes.<nodeId>.output.field}}'} to reference any earlier node, with filters
+                like {'{{input.amount | currency}}'}, {'{{input.date | date:"DD MMM YYYY"}}'} or{' '}
+                {'{{input.name | default:"Customer" | upper}}'}
+              </p>
             </div>
           </>
         );
@@ -446,6 +1009,10 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
                 onChange={(e) => updateNodeConfig('message', e.target.value)}
                 rows={4}
               />
+              <p className="text-xs text-muted-foreground">
+                Supports templates such as {'{{input.name | default:"Customer"}}'} and{' '}
+                {'{{nodes.<nodeId>.output.items[0].amount | currency}}'}
+              </p>
             </div>
             <div className="space-y-2">
               <Label htmlFor="mediaUrl">Media URL (Optional)</Label>
@@ -774,6 +1341,112 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Approvers: nobody assigned means only the workflow owner decides */}
+            <div className="space-y-2">
+              <Label htmlFor="approvers">Approvers</Label>
+              <Input
+                id="approvers"
+                placeholder="reviewer@example.com, user-id"
+                value={(config.approvers || []).join(', ')}
+                onChange={(e) => updateNodeConfig('approvers', splitList(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approvalRoles">Approver Roles</Label>
+              <Input
+                id="approvalRoles"
+                placeholder="admin, finance"
+                value={(config.approvalRoles || []).join(', ')}
+                onChange={(e) => updateNodeConfig('approvalRoles', splitList(e.target.value))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave both empty to let only the workflow owner decide
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requiredApprovals">Required Approvals</Label>
+              <Input
+                id="requiredApprovals"
+                type="number"
+                min={1}
+                step={1}
+                value={config.requiredApprovals || 1}
+                onChange={(e) =>
+                  updateNodeConfig('requiredApprovals', Math.max(1, parseInt(e.target.value) || 1))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Distinct approvers needed before the workflow continues; one rejection decides
+              </p>
+            </div>
+
+            {/* SLA: deadline, reminders and escalation, in hours */}
+            <div className="space-y-2">
+              <Label htmlFor="deadlineHours">Deadline (hours)</Label>
+              <Input
+                id="deadlineHours"
+                type="number"
+                min={0}
+                step="0.25"
+                placeholder="No deadline"
+                value={config.deadlineMs ? config.deadlineMs / HOUR_MS : ''}
+                onChange={(e) => updateNodeConfig('deadlineMs', hoursToMs(e.target.value))}
+              />
+            </div>
+            {config.deadlineMs > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="timeoutAction">When the Deadline Passes</Label>
+                <Select
+                  value={config.timeoutAction || 'reject'}
+                  onValueChange={(value) => updateNodeConfig('timeoutAction', value)}
+                >
+                  <SelectTrigger id="timeoutAction">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="reject">Reject all rows</SelectItem>
+                    <SelectItem value="approve">Approve all rows</SelectItem>
+                    <SelectItem value="timeout_branch">Continue on the timeout branch</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reminderHours">Remind Every (hours)</Label>
+              <Input
+                id="reminderHours"
+                type="number"
+                min={0}
+                step="0.25"
+                placeholder="No reminders"
+                value={config.reminderIntervalMs ? config.reminderIntervalMs / HOUR_MS : ''}
+                onChange={(e) => updateNodeConfig('reminderIntervalMs', hoursToMs(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="escalationAssignees">Escalate To</Label>
+              <Input
+                id="escalationAssignees"
+                placeholder="manager@example.com, user-id"
+                value={(config.escalationAssignees || []).join(', ')}
+                onChange={(e) => updateNodeConfig('escalationAssignees', splitList(e.target.value))}
+              />
+            </div>
+            {(config.escalationAssignees || []).length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="escalateHours">Escalate After (hours)</Label>
+                <Input
+                  id="escalateHours"
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  placeholder="4"
+                  value={config.escalateAfterMs ? config.escalateAfterMs / HOUR_MS : ''}
+                  onChange={(e) => updateNodeConfig('escalateAfterMs', hoursToMs(e.target.value))}
+                />
+              </div>
+            )}
           </>
         );
       }
@@ -814,6 +1487,119 @@ export function NodeConfigSidebar({ node, onClose, onSave }: NodeConfigSidebarPr
       {/* Configuration Fields */}
       <div className="space-y-4">{renderConfigFields()}</div>
 
+      {/* Execution Settings (shared by all nodes) */}
+      {editedNode.type !== NodeType.TRIGGER && (
+        <div className="space-y-4 pt-4 border-t">
+          <h4 className="font-medium text-sm">Execution Settings</h4>
+          <div className="space-y-2">
+            <Label htmlFor="joinMode">Multiple Inputs</Label>
+            <Select
+              value={editedNode.joinMode || 'merge'}
+              onValueChange={(value) => updateNodeField('joinMode', value as JoinMode)}
+            >
+              <SelectTrigger id="joinMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Wait for all - merge into one object</SelectItem>
+                <SelectItem value="array">Wait for all - collect into an array</SelectItem>
+                <SelectItem value="first">First to arrive</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              How outputs are combined when several nodes connect into this one
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="retryMaxAttempts">Max Attempts</Label>
+              <Input
+                id="retryMaxAttempts"
+                type="number"
+                min={1}
+                placeholder="3"
+                value={editedNode.retryPolicy?.maxAttempts || ''}
+                onChange={(e) =>
+                  updateRetryPolicy('maxAttempts', e.target.value ? parseInt(e.target.value) : undefined)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="retryInitialDelay">Retry Delay (ms)</Label>
+              <Input
+                id="retryInitialDelay"
+                type="number"
+                min={0}
+                placeholder="1000"
+                value={editedNode.retryPolicy?.initialDelayMs ?? ''}
+                onChange={(e) =>
+                  updateRetryPolicy('initialDelayMs', e.target.value ? parseInt(e.target.value) : undefined)
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="retryBackoff">Retry Backoff</Label>
+            <Select
+              value={editedNode.retryPolicy?.backoff || 'linear'}
+              onValueChange={(value) => updateRetryPolicy('backoff', value)}
+            >
+              <SelectTrigger id="retryBackoff">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Fixed</SelectItem>
+                <SelectItem value="linear">Linear</SelectItem>
+                <SelectItem value="exponential">Exponential</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Network, timeout, rate limit and 5xx errors are retried; validation and 4xx errors fail immediately
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="nodeTimeoutMs">Node Timeout (ms)</Label>
+            <Input
+              id="nodeTimeoutMs"
+              type="number"
+              min={0}
+              placeholder="No timeout"
+              value={editedNode.timeoutMs || ''}
+              onChange={(e) =>
+                updateNodeField('timeoutMs', e.target.value ? parseInt(e.target.value) : undefined)
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              Each attempt is aborted and marked as timed out after this long
+            </p>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="continueOnFailure"
+                checked={editedNode.continueOnFailure || false}
+                onCheckedChange={(checked) => updateNodeField('continueOnFailure', checked === true)}
+              />
+              <Label htmlFor="continueOnFailure">Continue on failure</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Pass the error to the next nodes instead of failing the execution. Connect the orange
+              handle to run a separate error branch instead.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Pinned test data and single-node test */}
+      {workflowId && definition && (
+        <NodeTestPanel
+          workflowId={workflowId}
+          definition={definition}
+          node={editedNode}
+          onPinnedDataChange={(pinnedData) => updateNodeField('pinnedData', pinnedData)}
+        />
+      )}
+
       {/* Actions */}
       <div className="flex gap-2 pt-4 border-t">
         <Button onClick={handleSave} className="flex-1">
@@ -25,6 +25,9 @@ import {
   ShieldCheck,
   FileText,
   ClipboardCheck,
+  Repeat,
+  Workflow,
+  Split,
 } from 'lucide-react';
 
 interface NodeTypeConfig {
@@ -64,6 +67,13 @@ const nodeTypes: NodeTypeConfig[] = [
     description: 'Branch based on condition',
     color: 'bg-yellow-500',
   },
+  {
+    type: NodeType.SWITCH,
+    label: 'Switch',
+    icon: Split,
+    description: 'Route to one of many branches',
+    color: 'bg-lime-500',
+  },
   {
     type: NodeType.DELAY,
     label: 'Delay',
@@ -106,6 +116,20 @@ const nodeTypes: NodeTypeConfig[] = [
     description: 'Pause for human review',
     color: 'bg-blue-600',
   },
+  {
+    type: NodeType.LOOP,
+    label: 'Loop',
+    icon: Repeat,
+    description: 'Run nodes for each item',
+    color: 'bg-teal-500',
+  },
+  {
+    type: NodeType.EXECUTE_WORKFLOW,
+    label: 'Execute Workflow',
+    icon: Workflow,
+    description: 'Run another workflow',
+    color: 'bg-sky-500',
+  },
   {
     type: NodeType.CSV_UPLOAD,
     label: 'CSV Upload',
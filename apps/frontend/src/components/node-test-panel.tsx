@@ -0,0 +1,179 @@
+/**
+ * Node Test Panel
+ * Pins sample input/output on a node and runs the node in isolation against it
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type {
+  NodeConfig,
+  NodePinnedData,
+  NodeTestResult,
+  WorkflowDefinition,
+} from '@workflow/shared-types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Pin, Play } from 'lucide-react';
+import { workflowsApi } from '@/lib/api';
+
+const INPUT_SOURCES: Record<NodeTestResult['inputSource'], string> = {
+  request: 'Ran with the given input',
+  pinned_input: 'Ran with the pinned input',
+  parents: "Ran with the parents' pinned output",
+  none: 'Ran without input (pin input here or output on the parent nodes)',
+};
+
+interface NodeTestPanelProps {
+  workflowId: string;
+  definition: WorkflowDefinition; // Current editor state; the tested node replaces its saved version
+  node: NodeConfig;
+  onPinnedDataChange: (pinnedData: NodePinnedData | undefined) => void;
+}
+
+function toJson(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value, null, 2);
+}
+
+export function NodeTestPanel({ workflowId, definition, node, onPinnedDataChange }: NodeTestPanelProps) {
+  const [inputText, setInputText] = useState(toJson(node.pinnedData?.input));
+  const [outputText, setOutputText] = useState(toJson(node.pinnedData?.output));
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [result, setResult] = useState<NodeTestResult | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [dryRun, setDryRun] = useState(true);
+
+  useEffect(() => {
+    setInputText(toJson(node.pinnedData?.input));
+    setOutputText(toJson(node.pinnedData?.output));
+    setResult(null);
+    setTestError(null);
+    // Only reset when another node is selected, not on every edit of this one
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [node.nodeId]);
+
+  // Empty fields unpin; invalid JSON keeps the previous pinned data
+  const pin = (field: keyof NodePinnedData, text: string) => {
+    let value: unknown;
+    try {
+      value = text.trim() ? JSON.parse(text) : undefined;
+    } catch {
+      setJsonError(`Pinned ${field} is not valid JSON`);
+      return;
+    }
+    setJsonError(null);
+
+    const pinnedData = { ...node.pinnedData, [field]: value };
+    const empty = pinnedData.input === undefined && pinnedData.output === undefined;
+    onPinnedDataChange(empty ? undefined : pinnedData);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestError(null);
+    try {
+      const testResult = await workflowsApi.testNode(workflowId, node.nodeId, {
+        definition: {
+          ...definition,
+          nodes: definition.nodes.map((n) => (n.nodeId === node.nodeId ? node : n)),
+        },
+        dryRun,
+      });
+      setResult(testResult);
+    } catch (error: any) {
+      setResult(null);
+      setTestError(error.response?.data?.message || 'Failed to test node');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handlePinOutput = () => {
+    if (result?.output === undefined) return;
+    setOutputText(toJson(result.output));
+    pin('output', toJson(result.output));
+  };
+
+  return (
+    <div className="space-y-4 pt-4 border-t">
+      <h4 className="font-medium text-sm">Test Data</h4>
+      <div className="space-y-2">
+        <Label htmlFor="pinnedInput">Pinned Input (JSON)</Label>
+        <Textarea
+          id="pinnedInput"
+          className="font-mono text-xs"
+          rows={4}
+          placeholder='{"customerId": "C-1001"}'
+          value={inputText}
+          onChange={(e) => setInputText(e.target.value)}
+          onBlur={() => pin('input', inputText)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="pinnedOutput">Pinned Output (JSON)</Label>
+        <Textarea
+          id="pinnedOutput"
+          className="font-mono text-xs"
+          rows={4}
+          placeholder="Used as input when testing the nodes after this one"
+          value={outputText}
+          onChange={(e) => setOutputText(e.target.value)}
+          onBlur={() => pin('output', outputText)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Pinned data is only used by node tests, never by executions
+        </p>
+      </div>
+      {jsonError && <p className="text-xs text-destructive">{jsonError}</p>}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="testDryRun"
+          checked={dryRun}
+          onCheckedChange={(checked) => setDryRun(checked === true)}
+        />
+        <Label htmlFor="testDryRun">Dry run (record messages and non-GET requests)</Label>
+      </div>
+      <Button variant="outline" className="w-full" onClick={handleTest} disabled={isTesting}>
+        {isTesting ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Play className="w-4 h-4 mr-2" />
+        )}
+        Test Node
+      </Button>
+      {testError && <p className="text-xs text-destructive">{testError}</p>}
+
+      {result && (
+        <div className="space-y-2 text-xs">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant={result.success ? 'default' : 'destructive'}>
+              {result.success ? 'Succeeded' : 'Failed'}
+            </Badge>
+            <span className="text-muted-foreground">{result.durationMs}ms</span>
+            {result.outputHandle && <Badge variant="outline">→ {result.outputHandle}</Badge>}
+            {result.nextNodeId && <Badge variant="outline">→ {result.nextNodeId}</Badge>}
+            {result.waitingFor && <Badge variant="outline">Would wait for {result.waitingFor}</Badge>}
+          </div>
+          <p className="text-muted-foreground">{INPUT_SOURCES[result.inputSource]}</p>
+          {result.error && <p className="text-destructive font-mono">{result.error}</p>}
+          {result.output !== undefined && (
+            <>
+              <pre className="bg-muted p-2 rounded-md overflow-auto max-h-64">
+                {toJson(result.output)}
+              </pre>
+              <Button variant="ghost" size="sm" onClick={handlePinOutput}>
+                <Pin className="w-3 h-3 mr-2" />
+                Pin as output
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Validation Issues Panel
+ * Lists the errors and warnings found in a workflow definition when it was saved
+ */
+
+'use client';
+
+import type { WorkflowValidationIssue, WorkflowValidationResult } from '@workflow/shared-types';
+import { AlertTriangle, X, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+// Issues about a node open its settings when clicked
+const ISSUE_CLASS_NAME =
+  'w-full flex items-start gap-2 text-left text-sm px-2 py-1 rounded enabled:hover:bg-muted';
+
+interface ValidationIssuesPanelProps {
+  result: WorkflowValidationResult;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+export function ValidationIssuesPanel({
+  result,
+  onSelectNode,
+  onClose,
+}: ValidationIssuesPanelProps) {
+  const issues = [...result.errors, ...result.warnings];
+
+  const renderIssue = (issue: WorkflowValidationIssue, index: number) => (
+    <li key={index}>
+      <button
+        type="button"
+        className={ISSUE_CLASS_NAME}
+        disabled={!issue.nodeId}
+        onClick={() => issue.nodeId && onSelectNode(issue.nodeId)}
+        title={issue.nodeId ? 'Open node settings' : undefined}
+      >
+        {issue.severity === 'error' ? (
+          <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-500" />
+        ) : (
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-500" />
+        )}
+        <span className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}>
+          {issue.message}
+        </span>
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="border-t bg-background">
+      <div className="flex items-center justify-between px-4 py-2 border-b">
+        <p className="text-sm font-medium">
+          {!result.valid
+            ? `Not saved: ${result.errors.length} error(s), ${result.warnings.length} warning(s)`
+            : result.errors.length > 0
+              ? `Saved, but ${result.errors.length} webhook URL(s) could not be registered`
+              : `Saved with ${result.warnings.length} warning(s)`}
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Hide">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <ul className="max-h-48 overflow-y-auto p-2">{issues.map(renderIssue)}</ul>
+    </div>
+  );
+}
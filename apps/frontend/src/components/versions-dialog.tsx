@@ -0,0 +1,184 @@
+/**
+ * Versions Dialog
+ * Lists a workflow's published versions, compares them with the draft and rolls back
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { WorkflowDefinitionDiff, WorkflowVersion } from '@workflow/shared-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { workflowsApi } from '@/lib/api';
+
+interface VersionsDialogProps {
+  workflowId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRollback: () => void; // Called after an older version was published again
+}
+
+function DiffSummary({ diff }: { diff: WorkflowDefinitionDiff }) {
+  if (!diff.hasChanges) {
+    return <p className="text-xs text-muted-foreground">No differences</p>;
+  }
+
+  return (
+    <ul className="text-xs space-y-1">
+      {diff.nodes.added.map((node) => (
+        <li key={`added-${node.nodeId}`} className="text-green-600">
+          + {node.label || node.nodeId} ({node.type})
+        </li>
+      ))}
+      {diff.nodes.removed.map((node) => (
+        <li key={`removed-${node.nodeId}`} className="text-destructive">
+          − {node.label || node.nodeId} ({node.type})
+        </li>
+      ))}
+      {diff.nodes.changed.map((change) => (
+        <li key={`changed-${change.nodeId}`}>
+          ~ {change.after.label || change.nodeId}: {change.fields.join(', ')}
+        </li>
+      ))}
+      {diff.edges.added.length + diff.edges.removed.length + diff.edges.changed.length > 0 && (
+        <li className="text-muted-foreground">
+          Connections: {diff.edges.added.length} added, {diff.edges.removed.length} removed,{' '}
+          {diff.edges.changed.length} changed
+        </li>
+      )}
+      {diff.settingsChanged && <li className="text-muted-foreground">Settings changed</li>}
+      {diff.variablesChanged && <li className="text-muted-foreground">Variables changed</li>}
+    </ul>
+  );
+}
+
+export function VersionsDialog({
+  workflowId,
+  open,
+  onOpenChange,
+  onRollback,
+}: VersionsDialogProps) {
+  const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<number, WorkflowDefinitionDiff>>({});
+  const [busyVersion, setBusyVersion] = useState<number | null>(null);
+
+  const loadVersions = () => {
+    setIsLoading(true);
+    setError(null);
+    workflowsApi
+      .getVersions(workflowId)
+      .then(setVersions)
+      .catch((err: any) => setError(err.response?.data?.message || 'Failed to load versions'))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setDiffs({});
+    loadVersions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, workflowId]);
+
+  const handleCompare = async (version: number) => {
+    setBusyVersion(version);
+    try {
+      const diff = await workflowsApi.diffVersions(workflowId, version, 'draft');
+      setDiffs((prev) => ({ ...prev, [version]: diff }));
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Failed to compare versions');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    const message = `Publish version ${version} again? The draft in the editor is not changed.`;
+    if (!confirm(message)) return;
+
+    setBusyVersion(version);
+    try {
+      await workflowsApi.rollback(workflowId, version);
+      setDiffs({});
+      loadVersions();
+      onRollback();
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Failed to roll back');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Versions</DialogTitle>
+          <DialogDescription>
+            API keys, schedules, webhooks and sub-workflow calls run the published version. Saving
+            only changes the draft; publish it to make the changes live.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing is published yet, so every run uses the draft.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map((version) => (
+              <div key={version.version} className="border rounded-md p-3 space-y-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.isPublished && <Badge>Published</Badge>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {version.note && <p className="text-muted-foreground">{version.note}</p>}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCompare(version.version)}
+                    disabled={busyVersion === version.version}
+                  >
+                    Compare with draft
+                  </Button>
+                  {!version.isPublished && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRollback(version.version)}
+                      disabled={busyVersion === version.version}
+                    >
+                      Roll back to this version
+                    </Button>
+                  )}
+                </div>
+                {diffs[version.version] && <DiffSummary diff={diffs[version.version]} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
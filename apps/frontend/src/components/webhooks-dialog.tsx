@@ -0,0 +1,170 @@
+/**
+ * Webhooks Dialog
+ * Lists the URLs of a workflow's Webhook nodes with their secrets
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { WebhookTrigger } from '@workflow/shared-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { workflowsApi } from '@/lib/api';
+
+// Webhook URLs are served outside the /api/v1 prefix
+const HOOKS_ORIGIN = new URL(
+  process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api/v1'
+).origin;
+
+const AUTHENTICATION_LABELS: Record<WebhookTrigger['authentication'], string> = {
+  none: 'No authentication',
+  shared_secret: 'Shared secret',
+  hmac: 'HMAC signature',
+};
+
+interface WebhooksDialogProps {
+  workflowId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WebhooksDialog({ workflowId, open, onOpenChange }: WebhooksDialogProps) {
+  const [webhooks, setWebhooks] = useState<WebhookTrigger[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rotating, setRotating] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    setError(null);
+    workflowsApi
+      .getWebhooks(workflowId)
+      .then(setWebhooks)
+      .catch((err: any) => setError(err.response?.data?.message || 'Failed to load webhooks'))
+      .finally(() => setIsLoading(false));
+  }, [open, workflowId]);
+
+  const copy = (key: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const handleRotate = async (webhook: WebhookTrigger) => {
+    if (!confirm('Replace the secret? Requests using the current one will be rejected.')) return;
+
+    setRotating(webhook.nodeId);
+    try {
+      const updated = await workflowsApi.rotateWebhookSecret(workflowId, webhook.nodeId);
+      setWebhooks((prev) => prev.map((w) => (w.nodeId === updated.nodeId ? updated : w)));
+    } catch (err: any) {
+      alert(err.response?.data?.message || 'Failed to rotate secret');
+    } finally {
+      setRotating(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Webhooks</DialogTitle>
+          <DialogDescription>
+            Requests to these URLs start the workflow from their Webhook node, with the request
+            body, headers and query as input. Save the workflow to register new Webhook nodes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This workflow has no Webhook nodes.</p>
+        ) : (
+          <div className="space-y-4">
+            {webhooks.map((webhook) => {
+              const url = `${HOOKS_ORIGIN}${webhook.path}`;
+              return (
+                <div key={webhook.nodeId} className="border rounded-md p-3 space-y-2 text-sm">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge>{webhook.method}</Badge>
+                    <Badge variant="outline">{AUTHENTICATION_LABELS[webhook.authentication]}</Badge>
+                    <Badge variant="outline">
+                      {webhook.responseMode === 'sync'
+                        ? 'Responds with output'
+                        : 'Responds right away'}
+                    </Badge>
+                    {!webhook.isActive && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 bg-muted px-2 py-1 rounded break-all">{url}</code>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => copy(`url-${webhook.nodeId}`, url)}
+                    >
+                      {copied === `url-${webhook.nodeId}` ? 'Copied!' : 'Copy'}
+                    </Button>
+                  </div>
+                  {webhook.authentication !== 'none' && (
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 bg-muted px-2 py-1 rounded break-all">
+                        {webhook.secret}
+                      </code>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copy(`secret-${webhook.nodeId}`, webhook.secret)}
+                      >
+                        {copied === `secret-${webhook.nodeId}` ? 'Copied!' : 'Copy'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRotate(webhook)}
+                        disabled={rotating === webhook.nodeId}
+                        title="Rotate secret"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                  {webhook.authentication === 'shared_secret' && (
+                    <p className="text-xs text-muted-foreground">
+                      Send the secret in the X-Webhook-Secret header
+                    </p>
+                  )}
+                  {webhook.authentication === 'hmac' && (
+                    <p className="text-xs text-muted-foreground">
+                      Send sha256=&lt;hex HMAC-SHA256 of the raw body with the secret&gt; in the
+                      X-Webhook-Signature header
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {webhook.lastReceivedAt
+                      ? `Last request ${new Date(webhook.lastReceivedAt).toLocaleString()}`
+                      : 'No requests yet'}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
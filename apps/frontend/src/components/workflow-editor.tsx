@@ -26,6 +26,12 @@ import ReactFlow, {
   ReactFlowProvider,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
+import {
+  APPROVAL_REJECTED_HANDLE,
+  APPROVAL_TIMEOUT_HANDLE,
+  ERROR_HANDLE,
+  SWITCH_DEFAULT_HANDLE,
+} from '@workflow/shared-types';
 import type { WorkflowDefinition, NodeType, NodeConfig } from '@workflow/shared-types';
 import CustomNode from './custom-node';
 import { useExecutionStore } from '@/stores/execution-store';
@@ -41,6 +47,41 @@ const nodeTypes = {
   custom: CustomNode,
 };
 
+// Edges leaving the error handle are drawn dashed so fallback paths stand out
+const errorEdgeProps = {
+  label: 'on error',
+  style: { stroke: '#f97316', strokeDasharray: '5 5' },
+};
+
+// Edges from a manual approval node's "rejected" handle carry the rejected rows
+const rejectedEdgeProps = {
+  label: 'rejected',
+  style: { stroke: '#ef4444' },
+};
+
+// Edges from a manual approval node's "timeout" handle run when its deadline passes
+const timeoutEdgeProps = {
+  label: 'timeout',
+  style: { stroke: '#f59e0b', strokeDasharray: '5 5' },
+};
+
+// Case branches of a switch node, rendered as one source handle each
+function getSwitchHandles(node?: NodeConfig): { id: string; label: string }[] | undefined {
+  if (node?.type !== 'switch') return undefined;
+  return (node.config.cases || []).map((switchCase) => ({
+    id: switchCase.handle,
+    label: switchCase.label || switchCase.handle,
+  }));
+}
+
+// Edges leaving a switch node are labelled with their case
+function getSwitchEdgeLabel(nodes: NodeConfig[], source: string | null, sourceHandle?: string | null) {
+  const handles = getSwitchHandles(nodes.find((n) => n.nodeId === source));
+  if (!handles || !sourceHandle) return undefined;
+  if (sourceHandle === SWITCH_DEFAULT_HANDLE) return 'default';
+  return handles.find((handle) => handle.id === sourceHandle)?.label;
+}
+
 // Helper function to create default config for node type
 function createDefaultNodeConfig(nodeType: NodeType, nodeId: string, label: string, position: { x: number; y: number }): NodeConfig {
   const baseConfig = {
@@ -75,17 +116,41 @@ function createDefaultNodeConfig(nodeType: NodeType, nodeId: string, label: stri
         type: 'conditional',
         config: { condition: '' },
       } as NodeConfig;
+    case 'switch':
+      return {
+        ...baseConfig,
+        type: 'switch',
+        config: {
+          expression: 'input.category',
+          cases: [{ handle: 'case-1', label: 'Case 1', match: 'equals', value: '' }],
+        },
+      } as NodeConfig;
     case 'delay':
       return {
         ...baseConfig,
         type: 'delay',
-        config: { delayMs: 1000 },
+        config: { mode: 'duration', delayMs: 60000 },
+      } as NodeConfig;
+    case 'loop':
+      return {
+        ...baseConfig,
+        type: 'loop',
+        config: { itemsExpression: 'input.rows', concurrency: 1 },
+      } as NodeConfig;
+    case 'execute_workflow':
+      return {
+        ...baseConfig,
+        type: 'execute_workflow',
+        config: { workflowId: '', waitForCompletion: true },
       } as NodeConfig;
     case 'webhook':
       return {
         ...baseConfig,
         type: 'webhook',
-        config: { webhookId: '', method: 'POST' as any },
+        config: {
+          webhookId: `hook-${Math.random().toString(36).slice(2, 10)}`,
+          method: 'POST' as any,
+        },
       } as NodeConfig;
     case 'email':
       return {
@@ -128,8 +193,8 @@ function createDefaultNodeConfig(nodeType: NodeType, nodeId: string, label: stri
         ...baseConfig,
         type: 'csv_upload',
         config: {
-          fileId: '',
-          anonymize: true,
+          fileUploadId: '',
+          anonymizeData: true,
         },
       } as NodeConfig;
     case 'ai_content_generator':
@@ -200,6 +265,7 @@ function WorkflowEditorInner({ definition, onDefinitionChange, onNodeSelect }: W
             type: node.type,
             status: status?.status,
             error: status?.error,
+            handles: getSwitchHandles(node),
           },
         };
       }),
@@ -214,6 +280,10 @@ function WorkflowEditorInner({ definition, onDefinitionChange, onNodeSelect }: W
         target: edge.target,
         sourceHandle: edge.sourceHandle,
         targetHandle: edge.targetHandle,
+        label: getSwitchEdgeLabel(definition.nodes, edge.source, edge.sourceHandle),
+        ...(edge.sourceHandle === ERROR_HANDLE && errorEdgeProps),
+        ...(edge.sourceHandle === APPROVAL_REJECTED_HANDLE && rejectedEdgeProps),
+        ...(edge.sourceHandle === APPROVAL_TIMEOUT_HANDLE && timeoutEdgeProps),
       })),
     [definition.edges]
   );
@@ -238,6 +308,22 @@ function WorkflowEditorInner({ definition, onDefinitionChange, onNodeSelect }: W
     );
   }, [nodeStatuses, setNodes]);
 
+  // Keep switch node handles in sync with their configured cases
+  useEffect(() => {
+    setNodes((nds) => {
+      let changed = false;
+      const updated = nds.map((node) => {
+        const handles = getSwitchHandles(definition.nodes.find((n) => n.nodeId === node.id));
+        if (!handles || JSON.stringify(handles) === JSON.stringify(node.data.handles)) {
+          return node;
+        }
+        changed = true;
+        return { ...node, data: { ...node.data, handles } };
+      });
+      return changed ? updated : nds;
+    });
+  }, [definition.nodes, setNodes]);
+
   // Mark as initialized after first render
   useEffect(() => {
     isInitialLoadRef.current = false;
@@ -480,10 +566,22 @@ function WorkflowEditorInner({ definition, onDefinitionChange, onNodeSelect }: W
   const onConnect = useCallback(
     (params: Connection) => {
       if (isValidConnection(params)) {
-        setEdges((eds) => addEdge(params, eds));
+        const label = getSwitchEdgeLabel(definition.nodes, params.source, params.sourceHandle);
+        setEdges((eds) =>
+          addEdge(
+            params.sourceHandle === ERROR_HANDLE
+              ? { ...params, ...errorEdgeProps }
+              : params.sourceHandle === APPROVAL_REJECTED_HANDLE
+                ? { ...params, ...rejectedEdgeProps }
+                : params.sourceHandle === APPROVAL_TIMEOUT_HANDLE
+                  ? { ...params, ...timeoutEdgeProps }
+                  : { ...params, label },
+            eds
+          )
+        );
       }
     },
-    [setEdges, isValidConnection]
+    [setEdges, isValidConnection, definition.nodes]
   );
 
   // Handle node changes
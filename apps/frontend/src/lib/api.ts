@@ -11,10 +11,26 @@ import type {
   WorkflowExecution,
   ExecuteWorkflowRequest,
   PaginatedResponse,
+  ExecutionListResponse,
   ApiKey,
   CreateApiKeyRequest,
   UpdateApiKeyRequest,
   ApiKeyUsageStats,
+  ApprovalRowDecision,
+  ApprovalProgress,
+  ApprovalInboxItem,
+  TestNodeRequest,
+  NodeTestResult,
+  WebhookTrigger,
+  WorkflowVersion,
+  WorkflowVersionRef,
+  WorkflowDefinitionDiff,
+  ValidateWorkflowRequest,
+  WorkflowValidationResult,
+  WorkflowBundle,
+  WorkflowImportPreview,
+  ImportWorkflowRequest,
+  WorkflowImportResult,
 } from '@workflow/shared-types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api/v1';
@@ -99,12 +115,123 @@ export const workflowsApi = {
     return response.data;
   },
 
+  /**
+   * Validate a workflow definition without saving it
+   * Errors would block saving; warnings are only informative
+   */
+  async validate(data: ValidateWorkflowRequest): Promise<WorkflowValidationResult> {
+    const response = await apiClient.post<WorkflowValidationResult>('/workflows/validate', data);
+    return response.data;
+  },
+
+  /**
+   * Export a workflow as a portable bundle
+   * Exports the draft unless a published version is given
+   */
+  async exportBundle(
+    id: string,
+    options: { version?: number; includePinnedData?: boolean } = {}
+  ): Promise<WorkflowBundle> {
+    const response = await apiClient.get<WorkflowBundle>(`/workflows/${id}/export`, {
+      params: options,
+    });
+    return response.data;
+  },
+
+  /**
+   * List the credential and workflow placeholders a bundle needs mapped before importing
+   */
+  async previewImport(bundle: WorkflowBundle): Promise<WorkflowImportPreview> {
+    const response = await apiClient.post<WorkflowImportPreview>('/workflows/import/preview', {
+      bundle,
+    });
+    return response.data;
+  },
+
+  /**
+   * Import a bundle as a new workflow
+   */
+  async importBundle(data: ImportWorkflowRequest): Promise<WorkflowImportResult> {
+    const response = await apiClient.post<WorkflowImportResult>('/workflows/import', data);
+    return response.data;
+  },
+
   /**
    * Delete workflow
    */
   async delete(id: string): Promise<void> {
     await apiClient.delete(`/workflows/${id}`);
   },
+
+  /**
+   * Execute a single node against pinned sample data (nothing is persisted)
+   */
+  async testNode(id: string, nodeId: string, data: TestNodeRequest): Promise<NodeTestResult> {
+    const response = await apiClient.post<NodeTestResult>(
+      `/workflows/${id}/nodes/${nodeId}/test`,
+      data
+    );
+    return response.data;
+  },
+  /**
+   * Get the webhook URLs of a workflow's Webhook nodes
+   */
+  async getWebhooks(id: string): Promise<WebhookTrigger[]> {
+    const response = await apiClient.get<WebhookTrigger[]>(`/workflows/${id}/webhooks`);
+    return response.data;
+  },
+
+  /**
+   * Replace the secret of a webhook URL
+   */
+  async rotateWebhookSecret(id: string, nodeId: string): Promise<WebhookTrigger> {
+    const response = await apiClient.post<WebhookTrigger>(
+      `/workflows/${id}/webhooks/${nodeId}/rotate-secret`
+    );
+    return response.data;
+  },
+
+  /**
+   * Get the published versions of a workflow, newest first
+   */
+  async getVersions(id: string): Promise<WorkflowVersion[]> {
+    const response = await apiClient.get<WorkflowVersion[]>(`/workflows/${id}/versions`);
+    return response.data;
+  },
+
+  /**
+   * Publish the saved draft as the next version
+   */
+  async publish(id: string, note?: string): Promise<WorkflowVersion> {
+    const response = await apiClient.post<WorkflowVersion>(`/workflows/${id}/versions`, { note });
+    return response.data;
+  },
+
+  /**
+   * Compare two versions, or a version and the draft
+   * Defaults to the published version against the draft
+   */
+  async diffVersions(
+    id: string,
+    from?: WorkflowVersionRef,
+    to?: WorkflowVersionRef
+  ): Promise<WorkflowDefinitionDiff> {
+    const response = await apiClient.get<WorkflowDefinitionDiff>(
+      `/workflows/${id}/versions/diff`,
+      { params: { from, to } }
+    );
+    return response.data;
+  },
+
+  /**
+   * Publish a copy of an older version
+   */
+  async rollback(id: string, version: number): Promise<WorkflowVersion> {
+    const response = await apiClient.post<WorkflowVersion>(
+      `/workflows/${id}/versions/${version}/rollback`
+    );
+    return response.data;
+  },
 };
 
 /**
@@ -134,8 +261,8 @@ export const executionsApi = {
     workflowId: string,
     page = 1,
     limit = 10
-  ): Promise<PaginatedResponse<WorkflowExecution>> {
-    const response = await apiClient.get<PaginatedResponse<WorkflowExecution>>(
+  ): Promise<ExecutionListResponse> {
+    const response = await apiClient.get<ExecutionListResponse>(
       `/executions/workflow/${workflowId}`,
       {
         params: { page, limit },
@@ -152,18 +279,50 @@ export const executionsApi = {
     return response.data;
   },
 
+  /**
+   * Get approvals waiting for the current user across all workflows
+   */
+  async getApprovalInbox(): Promise<ApprovalInboxItem[]> {
+    const response = await apiClient.get('/executions/approvals/inbox');
+    return response.data;
+  },
+
   /**
    * Approve execution and resume workflow
+   * @param resumeToken - Approval node to approve (needed when several approvals are pending)
+   * @param decisions - Per-row approve/reject/edit decisions; rows without one are approved
    */
-  async approve(executionId: string, comment?: string): Promise<void> {
-    await apiClient.post(`/executions/${executionId}/approve`, { comment });
+  async approve(
+    executionId: string,
+    comment?: string,
+    resumeToken?: string,
+    decisions?: ApprovalRowDecision[]
+  ): Promise<ApprovalProgress> {
+    const response = await apiClient.post(`/executions/${executionId}/approve`, {
+      comment,
+      resumeToken,
+      decisions,
+    });
+    return response.data;
   },
 
   /**
    * Reject execution and stop workflow
+   * @param resumeToken - Approval node to reject (needed when several approvals are pending)
    */
-  async reject(executionId: string, comment?: string): Promise<void> {
-    await apiClient.post(`/executions/${executionId}/reject`, { comment });
+  async reject(executionId: string, comment?: string, resumeToken?: string): Promise<void> {
+    await apiClient.post(`/executions/${executionId}/reject`, { comment, resumeToken });
+  },
+
+  /**
+   * Replay a finished execution as a new execution
+   * @param fromNodeId - Node to re-execute from; upstream nodes reuse their outputs (omit to replay everything)
+   */
+  async replay(executionId: string, fromNodeId?: string): Promise<WorkflowExecution> {
+    const response = await apiClient.post<WorkflowExecution>(`/executions/${executionId}/replay`, {
+      fromNodeId,
+    });
+    return response.data;
   },
 
   /**
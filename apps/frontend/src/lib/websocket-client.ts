@@ -110,6 +110,22 @@ export class WebSocketClient {
       this.emit(WebSocketEvent.EXECUTION_UPDATED, message);
     });
 
+    // Approval SLA events
+    this.socket.on('execution:approval_reminder', (message: WebSocketMessage) => {
+      console.log('[WebSocket] Approval reminder:', message.executionId);
+      this.emit(WebSocketEvent.EXECUTION_UPDATED, message);
+    });
+
+    this.socket.on('execution:approval_escalated', (message: WebSocketMessage) => {
+      console.log('[WebSocket] Approval escalated:', message.executionId);
+      this.emit(WebSocketEvent.EXECUTION_UPDATED, message);
+    });
+
+    this.socket.on('execution:approval_expired', (message: WebSocketMessage) => {
+      console.log('[WebSocket] Approval expired:', message.executionId);
+      this.emit(WebSocketEvent.EXECUTION_UPDATED, message);
+    });
+
     // Listen to node events
     this.socket.on('node:started', (message: WebSocketMessage<{ nodeId: string }>) => {
       console.log('[WebSocket] Node started:', message.data?.nodeId);
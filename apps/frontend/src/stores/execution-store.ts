@@ -10,7 +10,7 @@ import { executionsApi } from '@/lib/api';
 
 interface NodeExecutionStatus {
   nodeId: string;
-  status: 'idle' | 'running' | 'success' | 'error' | 'retrying';
+  status: 'idle' | 'running' | 'success' | 'error' | 'retrying' | 'skipped' | 'waiting';
   output?: unknown;
   error?: string;
   attempt?: number;
@@ -33,7 +33,7 @@ interface ExecutionStore {
 
   // Real-time state
   executionId: string | null;
-  executionStatus: 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
+  executionStatus: 'idle' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timed_out' | 'waiting';
   startedAt?: Date;
   completedAt?: Date;
   nodeStatuses: Record<string, NodeExecutionStatus>;
@@ -42,7 +42,11 @@ interface ExecutionStore {
   isConnected: boolean;
 
   // Existing actions
-  executeWorkflow: (workflowId: string, input?: unknown) => Promise<WorkflowExecution>;
+  executeWorkflow: (
+    workflowId: string,
+    input?: unknown,
+    dryRun?: boolean
+  ) => Promise<WorkflowExecution>;
   fetchExecution: (id: string) => Promise<void>;
   updateExecution: (execution: WorkflowExecution) => void;
   setCurrentExecution: (execution: WorkflowExecution | null) => void;
@@ -76,10 +80,10 @@ export const useExecutionStore = create<ExecutionStore>((set, get) => ({
   isConnected: false,
 
   // Execute workflow
-  executeWorkflow: async (workflowId: string, input?: unknown) => {
+  executeWorkflow: async (workflowId: string, input?: unknown, dryRun?: boolean) => {
     set({ isExecuting: true, error: null });
     try {
-      const execution = await executionsApi.execute({ workflowId, input });
+      const execution = await executionsApi.execute({ workflowId, input, dryRun });
 
       set((state) => ({
         executions: { ...state.executions, [execution.id]: execution },
@@ -209,8 +213,9 @@ export const useExecutionStore = create<ExecutionStore>((set, get) => ({
 
     socket.on('execution:failed', (message) => {
       console.log('Execution failed:', message);
+      const timedOut = message.data.status === 'timed_out';
       set((state) => ({
-        executionStatus: 'failed',
+        executionStatus: timedOut ? 'timed_out' : 'failed',
         completedAt: new Date(message.timestamp),
         error: message.data.error,
         logs: [
@@ -218,7 +223,7 @@ export const useExecutionStore = create<ExecutionStore>((set, get) => ({
           {
             timestamp: new Date(message.timestamp),
             level: 'error',
-            message: `Workflow execution failed: ${message.data.error}`,
+            message: `Workflow execution ${timedOut ? 'timed out' : 'failed'}: ${message.data.error}`,
           },
         ],
       }));
@@ -281,6 +286,63 @@ export const useExecutionStore = create<ExecutionStore>((set, get) => ({
       });
     });
 
+    socket.on('execution:waiting', (message) => {
+      console.log('Execution waiting:', message);
+      set((state) => ({
+        executionStatus: 'waiting',
+        logs: [
+          ...state.logs,
+          {
+            timestamp: new Date(message.timestamp),
+            level: 'info',
+            message: `Workflow execution paused until ${new Date(message.data.resumeAt).toLocaleString()}`,
+          },
+        ],
+      }));
+    });
+
+    socket.on('execution:approval_reminder', (message) => {
+      console.log('Approval reminder:', message);
+      set((state) => ({
+        logs: [
+          ...state.logs,
+          {
+            timestamp: new Date(message.timestamp),
+            level: 'info',
+            message: `Approval at node ${message.data.nodeId} is still pending`,
+          },
+        ],
+      }));
+    });
+
+    socket.on('execution:approval_escalated', (message) => {
+      console.log('Approval escalated:', message);
+      set((state) => ({
+        logs: [
+          ...state.logs,
+          {
+            timestamp: new Date(message.timestamp),
+            level: 'warning',
+            message: `Approval at node ${message.data.nodeId} escalated to ${(message.data.assignees || []).join(', ')}`,
+          },
+        ],
+      }));
+    });
+
+    socket.on('execution:approval_expired', (message) => {
+      console.log('Approval expired:', message);
+      set((state) => ({
+        logs: [
+          ...state.logs,
+          {
+            timestamp: new Date(message.timestamp),
+            level: 'warning',
+            message: `Approval deadline at node ${message.data.nodeId} passed (${message.data.timeoutAction})`,
+          },
+        ],
+      }));
+    });
+
     socket.on('node:started', (message) => {
       console.log('Node started:', message);
       const { nodeId } = message.data;
@@ -355,9 +417,59 @@ export const useExecutionStore = create<ExecutionStore>((set, get) => ({
       }));
     });
 
+    socket.on('node:skipped', (message) => {
+      console.log('Node skipped:', message);
+      const { nodeId } = message.data;
+
+      set((state) => ({
+        nodeStatuses: {
+          ...state.nodeStatuses,
+          [nodeId]: {
+            nodeId,
+            status: 'skipped',
+          },
+        },
+        logs: [
+          ...state.logs,
+          {
+            timestamp: new Date(message.timestamp),
+            level: 'info',
+            message: `Node ${nodeId} skipped (branch not taken)`,
+            nodeId,
+          },
+        ],
+      }));
+    });
+
+    socket.on('node:waiting', (message) => {
+      console.log('Node waiting:', message);
+      const { nodeId, resumeAt, waitingFor } = message.data;
+
+      set((state) => ({
+        nodeStatuses: {
+          ...state.nodeStatuses,
+          [nodeId]: {
+            nodeId,
+            status: 'waiting',
+          },
+        },
+        logs: [
+          ...state.logs,
+          {
+            timestamp: new Date(message.timestamp),
+            level: 'info',
+            message: resumeAt
+              ? `Node ${nodeId} waiting until ${new Date(resumeAt).toLocaleString()}`
+              : `Node ${nodeId} waiting for ${waitingFor}`,
+            nodeId,
+          },
+        ],
+      }));
+    });
+
     socket.on('node:retry', (message) => {
       console.log('Node retry:', message);
-      const { nodeId, attempt, maxRetries, error } = message.data;
+      const { nodeId, attempt, maxRetries, delayMs, error } = message.data;
 
       set((state) => ({
         nodeStatuses: {
@@ -375,7 +487,9 @@ export const useExecutionStore = create<ExecutionStore>((set, get) => ({
           {
             timestamp: new Date(message.timestamp),
             level: 'warning',
-            message: `Node ${nodeId} retrying (attempt ${attempt}/${maxRetries})`,
+            message: `Node ${nodeId} retrying (attempt ${attempt}/${maxRetries})${
+              delayMs !== undefined ? ` in ${Math.round(delayMs / 1000)}s` : ''
+            }`,
             nodeId,
           },
         ],
@@ -26,12 +26,13 @@ interface WorkflowStore {
   updateWorkflow: (
     id: string,
     updates: { name?: string; description?: string; definition?: WorkflowDefinition }
-  ) => Promise<void>;
+  ) => Promise<Workflow>;
   updateWorkflowLocal: (
     id: string,
     updates: { name?: string; description?: string; definition?: WorkflowDefinition }
   ) => void;
   deleteWorkflow: (id: string) => Promise<void>;
+  refreshPublishState: (id: string) => Promise<void>;
   setCurrentWorkflow: (workflow: Workflow | null) => void;
   clearError: () => void;
 }
@@ -123,11 +124,14 @@ export const useWorkflowStore = create<WorkflowStore>((set) => ({
         currentWorkflow: state.currentWorkflow?.id === id ? updated : state.currentWorkflow,
         isLoading: false,
       }));
-    } catch (error) {
-      set({
-        error: error instanceof Error ? error.message : 'Failed to update workflow',
-        isLoading: false,
-      });
+      return updated;
+    } catch (error: any) {
+      // Rethrow so the editor can show why the save was rejected (e.g. invalid templates)
+      // without replacing the editor with the error screen
+      set({ isLoading: false });
+      throw new Error(
+        error.response?.data?.message || error.message || 'Failed to update workflow'
+      );
     }
   },
 
@@ -172,6 +176,23 @@ export const useWorkflowStore = create<WorkflowStore>((set) => ({
     }
   },
 
+  // Reload which version is published, keeping the local (possibly unsaved) definition
+  refreshPublishState: async (id: string) => {
+    const workflow = await workflowsApi.getById(id);
+    const publishState = {
+      publishedVersion: workflow.publishedVersion,
+      hasUnpublishedChanges: workflow.hasUnpublishedChanges,
+    };
+
+    set((state) => ({
+      workflows: state.workflows.map((w) => (w.id === id ? { ...w, ...publishState } : w)),
+      currentWorkflow:
+        state.currentWorkflow?.id === id
+          ? { ...state.currentWorkflow, ...publishState }
+          : state.currentWorkflow,
+    }));
+  },
+
   // Set current workflow
   setCurrentWorkflow: (workflow: Workflow | null) => {
     set({ currentWorkflow: workflow });
@@ -16,12 +16,15 @@ export enum NodeType {
   HTTP_REQUEST = 'http_request',
   DATA_TRANSFORM = 'data_transform',
   CONDITIONAL = 'conditional',
+  SWITCH = 'switch',
   DELAY = 'delay',
   WEBHOOK = 'webhook',
   EMAIL = 'email',
   GOOGLE_CALENDAR = 'google_calendar',
   WHATSAPP = 'whatsapp',
   MANUAL_APPROVAL = 'manual_approval',
+  LOOP = 'loop',
+  EXECUTE_WORKFLOW = 'execute_workflow',
   // BFSI-specific nodes
   CSV_UPLOAD = 'csv_upload',
   AI_CONTENT_GENERATOR = 'ai_content_generator',
@@ -40,6 +43,46 @@ export enum HttpMethod {
   DELETE = 'DELETE',
 }
 
+/**
+ * How a node with several incoming edges combines its parents' outputs
+ * - merge: wait for all parents, shallow-merge object outputs into one object
+ *   (non-object outputs are stored under their parent's node ID)
+ * - array: wait for all parents, pass their outputs as an array in edge order
+ * - first: run as soon as the first parent completes, using only its output
+ */
+export type JoinMode = 'merge' | 'array' | 'first';
+
+/**
+ * Kinds of node errors used to decide whether a failed attempt is retried
+ * - network: connection refused/reset, DNS failures
+ * - timeout: request or node timed out
+ * - rate_limit: HTTP 429 / provider throttling
+ * - server_error: HTTP 5xx
+ * - client_error: HTTP 4xx (other than 429), not found, forbidden, unauthorized
+ * - unknown: anything that could not be classified
+ */
+export type NodeErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'rate_limit'
+  | 'server_error'
+  | 'client_error'
+  | 'unknown';
+
+/**
+ * Per-node retry policy honored by the workflow engine
+ * Omitted fields fall back to the engine defaults
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first one (default: 3, or 1 for nodes with side effects; 1 = never retry)
+  backoff?: 'fixed' | 'linear' | 'exponential'; // Delay growth between attempts (default: linear)
+  initialDelayMs?: number; // Delay before the first retry (default: 1000)
+  maxDelayMs?: number; // Upper bound for a single delay (default: 30000)
+  jitter?: boolean; // Randomize delays ("full jitter") to avoid retry storms (default: false)
+  retryOn?: NodeErrorKind[]; // Error kinds that are retried (default: everything except client_error)
+  retryOnStatusCodes?: number[]; // HTTP status codes that are retried (overrides retryOn for HTTP errors)
+}
+
 /**
  * Base interface for all node configurations
  * Each node type extends this with specific configuration
@@ -49,6 +92,20 @@ export interface BaseNodeConfig {
   type: NodeType;
   label: string;
   position: { x: number; y: number };
+  joinMode?: JoinMode; // Only used when the node has several incoming edges (default: merge)
+  retryPolicy?: RetryPolicy; // How failed attempts are retried (default: 3 attempts, linear backoff; 1 attempt for nodes with side effects)
+  timeoutMs?: number; // Abort a single attempt of this node after this many milliseconds (Loop nodes: the whole loop, body included)
+  continueOnFailure?: boolean; // Pass the error to the normal outputs instead of failing the execution
+  pinnedData?: NodePinnedData; // Sample data for single-node tests; executions ignore it
+}
+
+/**
+ * Sample data pinned on a node for testing nodes in isolation
+ * A tested node runs with its pinned input, or else with the pinned outputs of its parents
+ */
+export interface NodePinnedData {
+  input?: unknown;
+  output?: unknown;
 }
 
 /**
@@ -90,14 +147,118 @@ export interface ConditionalNodeConfig extends BaseNodeConfig {
   };
 }
 
+/**
+ * How a Switch case is matched against the switch value
+ */
+export type SwitchCaseMatch = 'equals' | 'regex' | 'range' | 'expression';
+
+/**
+ * A branch of a Switch node
+ */
+export interface SwitchCase {
+  handle: string; // Source handle of the branch
+  label?: string;
+  match: SwitchCaseMatch;
+  value?: string; // equals: compared with the switch value as a string
+  pattern?: string; // regex: tested against the switch value
+  flags?: string; // regex flags, e.g. "i"
+  min?: number; // range: inclusive lower bound
+  max?: number; // range: exclusive upper bound
+  expression?: string; // expression: truthy result matches, the switch value is available as "value"
+}
+
+/**
+ * Configuration for Switch nodes
+ * Routes to the first case that matches, or to the default branch
+ */
+export interface SwitchNodeConfig extends BaseNodeConfig {
+  type: NodeType.SWITCH;
+  config: {
+    expression: string; // Expression for the value to switch on, e.g. "input.category"
+    cases: SwitchCase[]; // Checked in order
+  };
+}
+
+/**
+ * Source handle of a Switch node's default branch
+ */
+export const SWITCH_DEFAULT_HANDLE = 'default';
+
+/**
+ * How a Delay node computes when to continue
+ * - duration: wait delayMs
+ * - until: wait until an absolute date/time (ISO string, templates allowed)
+ * - time_of_day: wait until the next occurrence of a wall-clock time in the node's timezone
+ */
+export type DelayMode = 'duration' | 'until' | 'time_of_day';
+
+/**
+ * Working days and hours a Delay node may resume in
+ * Resume times outside the calendar are moved to the next business-hours opening
+ */
+export interface BusinessHoursCalendar {
+  days: number[]; // Working days, 0 = Sunday ... 6 = Saturday
+  start: string; // Opening time "HH:mm"
+  end: string; // Closing time "HH:mm"
+  holidays?: string[]; // Non-working dates "YYYY-MM-DD"
+}
+
 /**
  * Configuration for Delay nodes
- * Pauses execution for a specified duration
+ * Pauses execution until the computed resume time; the execution is persisted as waiting
+ * and resumed by the scheduler, so waits can last days
  */
 export interface DelayNodeConfig extends BaseNodeConfig {
   type: NodeType.DELAY;
   config: {
-    delayMs: number;
+    mode?: DelayMode; // Default: duration
+    delayMs?: number; // duration: how long to wait
+    until?: string; // until: ISO date/time, e.g. "2025-01-31T10:00:00+05:30" or "{{input.sendAt}}"
+    timeOfDay?: string; // time_of_day: "HH:mm"
+    timezone?: string; // IANA timezone for time_of_day and businessHours (default: UTC)
+    businessHours?: BusinessHoursCalendar;
+  };
+}
+
+/**
+ * Configuration for Loop nodes
+ * Runs every node reachable from the "item" handle once per array item,
+ * then continues from the "done" handle with the collected results
+ */
+export interface LoopNodeConfig extends BaseNodeConfig {
+  type: NodeType.LOOP;
+  config: {
+    itemsExpression: string; // Expression returning the array to iterate, e.g. "input.rows"
+    concurrency?: number; // Items processed in parallel (default: 1)
+    maxItems?: number; // Fail instead of iterating more items than this (default: 1000)
+  };
+}
+
+/**
+ * Source handles of Loop nodes
+ */
+export const LOOP_ITEM_HANDLE = 'item';
+export const LOOP_DONE_HANDLE = 'done';
+
+/**
+ * Output of a Loop node, passed to the nodes after the "done" handle
+ */
+export interface LoopNodeOutput {
+  items: unknown[];
+  results: unknown[]; // Output of the last node of each iteration, in item order
+  count: number;
+}
+
+/**
+ * Configuration for Execute Workflow nodes
+ * Runs another saved workflow as a child execution
+ */
+export interface ExecuteWorkflowNodeConfig extends BaseNodeConfig {
+  type: NodeType.EXECUTE_WORKFLOW;
+  config: {
+    workflowId: string; // Workflow to run (must belong to the same user)
+    inputMapping?: Record<string, string>; // Child input field -> expression (default: pass the input through)
+    waitForCompletion?: boolean; // Wait for the child and return its output (default: true)
   };
 }
 
@@ -110,21 +271,65 @@ export interface TriggerNodeConfig extends BaseNodeConfig {
   config: {
     triggerType: 'manual' | 'scheduled' | 'webhook';
     schedule?: string; // Cron expression for scheduled triggers
+    timezone?: string; // IANA time zone the schedule is evaluated in (default UTC), e.g. "Asia/Kolkata"
+    catchUp?: ScheduleCatchUpPolicy; // Runs missed while the scheduler was down (default none)
   };
 }
 
+/**
+ * What a schedule does with runs it missed while no scheduler was up
+ * - none: skip them and wait for the next run
+ * - latest: run once for the most recent missed run
+ * - all: run every missed run (up to a limit)
+ */
+export type ScheduleCatchUpPolicy = 'none' | 'latest' | 'all';
+
 /**
  * Configuration for Webhook nodes
- * Receives external HTTP requests
+ * Receives external HTTP requests at /hooks/:webhookId and starts the workflow from this node
+ * with the request's body, headers and query as input
  */
 export interface WebhookNodeConfig extends BaseNodeConfig {
   type: NodeType.WEBHOOK;
   config: {
-    webhookId: string;
+    webhookId: string; // Unique across all workflows; letters, digits, "-" and "_"
     method: HttpMethod;
+    authentication?: WebhookAuthentication; // Default none
+    responseMode?: WebhookResponseMode; // Default async
+    responseTimeoutMs?: number; // Sync mode: how long to wait for the workflow (default 30000)
   };
 }
 
+/**
+ * How inbound webhook requests are verified
+ * - none: anyone with the URL can call it
+ * - shared_secret: the X-Webhook-Secret header must hold the webhook's secret
+ * - hmac: X-Webhook-Signature must be "sha256=" + hex HMAC-SHA256 of the raw body with the secret
+ */
+export type WebhookAuthentication = 'none' | 'shared_secret' | 'hmac';
+
+/**
+ * How inbound webhook requests are answered
+ * - async: 202 with the execution ID right away
+ * - sync: wait for the execution and respond with the workflow output
+ */
+export type WebhookResponseMode = 'async' | 'sync';
+
+/**
+ * Inbound webhook URL of a Webhook node
+ */
+export interface WebhookTrigger {
+  webhookId: string;
+  nodeId: string;
+  path: string; // e.g. "/hooks/new-lead"
+  method: HttpMethod;
+  authentication: WebhookAuthentication;
+  responseMode: WebhookResponseMode;
+  secret: string;
+  isActive: boolean;
+  lastReceivedAt?: Date;
+}
+
 /**
  * Configuration for Email nodes
  * Sends emails via SendGrid
@@ -189,10 +394,91 @@ export interface ManualApprovalNodeConfig extends BaseNodeConfig {
     dataFields?: string[]; // Which fields from input to show for review
     requireComment?: boolean; // Require comment when approving/rejecting
     allowBulkApproval?: boolean; // Allow approving all items at once
-    approvalRoles?: string[]; // Which user roles can approve (optional)
+    approvers?: string[]; // User IDs or emails who may decide (none and no approvalRoles: the execution owner)
+    approvalRoles?: string[]; // Users with one of these roles may decide as well
+    requiredApprovals?: number; // Approvals from distinct approvers needed before rows continue (default: 1)
+    deadlineMs?: number; // Time reviewers have to decide, counted from when the node pauses
+    timeoutAction?: ApprovalTimeoutAction; // What happens once the deadline passes (default: reject)
+    reminderIntervalMs?: number; // Remind reviewers this often until the approval is decided
+    escalateAfterMs?: number; // Escalate once the approval has been pending this long
+    escalationAssignees?: string[]; // User IDs or emails the approval is escalated to
   };
 }
 
+/**
+ * What happens to a Manual Approval node nobody decided before its deadline
+ * - reject: reject every row (follows the "rejected" branch if wired, otherwise cancels the execution)
+ * - approve: approve every row
+ * - timeout_branch: continue along the "timeout" handle with the undecided rows
+ */
+export type ApprovalTimeoutAction = 'reject' | 'approve' | 'timeout_branch';
+
+/**
+ * Source handle of Manual Approval nodes that receives the rejected rows
+ */
+export const APPROVAL_REJECTED_HANDLE = 'rejected';
+
+/**
+ * Source handle of Manual Approval nodes followed when the deadline passes with timeoutAction
+ * "timeout_branch"
+ */
+export const APPROVAL_TIMEOUT_HANDLE = 'timeout';
+
+/**
+ * What a reviewer decided for a row; "edit" approves the row with new generated content
+ */
+export type ApprovalRowAction = 'approve' | 'reject' | 'edit';
+
+/**
+ * Reviewer decision on one row of a Manual Approval node
+ */
+export interface ApprovalRowDecision {
+  rowIndex: number; // Index of the row in the reviewed data
+  action: ApprovalRowAction;
+  generatedContent?: string; // Replacement generated_content (required for "edit")
+}
+
+/**
+ * Outcome of a decided Manual Approval node (approvalSummary in its output)
+ * Approved and edited rows continue in `rows`, rejected rows in `rejectedRows`
+ */
+export interface ApprovalSummary {
+  approved: number; // Includes edited rows
+  rejected: number;
+  edited: number;
+  reviewedBy: string;
+  reviewedAt: string;
+  comment?: string;
+  expired?: boolean; // Decided by the node's timeoutAction after its deadline passed
+}
+
+/**
+ * Progress of an approval after a reviewer's vote
+ */
+export interface ApprovalProgress {
+  decided: boolean; // False while the approval waits for more approvers (requiredApprovals)
+  approvals: number; // Approve votes so far
+  requiredApprovals: number;
+}
+
+/**
+ * Approval waiting for a decision from the current user (approval inbox)
+ */
+export interface ApprovalInboxItem {
+  executionId: string;
+  workflowId: string;
+  workflowName: string;
+  nodeId: string;
+  resumeToken: string | null;
+  title?: string;
+  rowCount: number;
+  requiredApprovals: number;
+  approvals: number; // Approve votes so far
+  approvalDueAt?: Date;
+  escalatedAt?: Date;
+  pausedAt: Date; // When the approval node paused
+}
+
 /**
  * Configuration for CSV Upload nodes
  * Handles CSV file upload with encryption and PII anonymization
@@ -276,12 +562,15 @@ export type NodeConfig =
   | HttpRequestNodeConfig
   | DataTransformNodeConfig
   | ConditionalNodeConfig
+  | SwitchNodeConfig
   | DelayNodeConfig
   | WebhookNodeConfig
   | EmailNodeConfig
   | GoogleCalendarNodeConfig
   | WhatsAppNodeConfig
   | ManualApprovalNodeConfig
+  | LoopNodeConfig
+  | ExecuteWorkflowNodeConfig
   | CSVUploadNodeConfig
   | AIContentGeneratorNodeConfig
   | ComplianceCheckerNodeConfig
@@ -294,10 +583,30 @@ export interface WorkflowEdge {
   id: string;
   source: string; // Source node ID
   target: string; // Target node ID
-  sourceHandle?: string; // For conditional nodes (true/false outputs)
+  sourceHandle?: string; // For conditional (true/false) and switch (case) outputs, or ERROR_HANDLE on any node
   targetHandle?: string;
 }
 
+/**
+ * Source handle every node exposes for its error branch
+ * Edges leaving this handle only run when the node fails (after retries)
+ */
+export const ERROR_HANDLE = 'error';
+
+/**
+ * Output passed down the error branch (or to normal outputs with continueOnFailure)
+ */
+export interface NodeErrorOutput {
+  error: {
+    message: string;
+    kind?: NodeErrorKind;
+    nodeId: string;
+    nodeType: NodeType;
+    timedOut?: boolean;
+  };
+  input?: unknown; // Input the node failed on, e.g. for a dead-letter record
+}
+
 // ============================================================================
 // Workflow Definition and Execution
 // ============================================================================
@@ -310,6 +619,16 @@ export interface WorkflowDefinition {
   nodes: NodeConfig[];
   edges: WorkflowEdge[];
   variables?: Record<string, unknown>; // Global workflow variables
+  settings?: WorkflowSettings;
+}
+
+/**
+ * Workflow-level execution settings
+ */
+export interface WorkflowSettings {
+  executionTimeoutMs?: number; // Deadline for a whole execution; time spent waiting for approval is not counted
+  maxConcurrency?: number; // Executions of this workflow running at once; more stay pending in the queue (unset = no limit)
+  priority?: number; // Default queue priority of its executions (higher starts first, default 0)
 }
 
 /**
@@ -322,6 +641,9 @@ export enum ExecutionStatus {
   FAILED = 'failed',
   CANCELLED = 'cancelled',
   PENDING_APPROVAL = 'pending_approval',
+  TIMED_OUT = 'timed_out',
+  SKIPPED = 'skipped', // Node executions only: the node was on a branch that was not taken
+  WAITING = 'waiting', // Paused by a Delay node until its resume time
 }
 
 /**
@@ -334,6 +656,11 @@ export interface NodeExecutionStatus {
   completedAt?: Date;
   output?: unknown;
   error?: string;
+  resumeAt?: Date; // Set while a Delay node is waiting
+  waitingFor?: string; // External signal a waiting node is paused for (e.g. "approval")
+  resumeToken?: string; // Identifies the waiting node when its signal (e.g. an approval decision) is sent
+  approvalDueAt?: Date; // Deadline of a waiting approval (see ManualApprovalNodeConfig.deadlineMs)
+  reused?: boolean; // Output copied from the replayed execution instead of running the node
 }
 
 /**
@@ -348,7 +675,29 @@ export interface WorkflowExecution {
   input?: unknown;
   output?: unknown;
   error?: string;
+  resumeAt?: Date; // Set while the execution is waiting on a Delay node
   nodeExecutions: NodeExecutionStatus[];
+  parentExecutionId?: string; // Set when started by an Execute Workflow node
+  parentExecution?: ExecutionLink;
+  childExecutions?: ExecutionLink[]; // Executions started by this execution's Execute Workflow nodes
+  replayOfExecutionId?: string; // Set when this execution replays another one
+  replayFromNodeId?: string; // Node the replay re-executed from (unset = the whole workflow)
+  dryRun?: boolean; // Side-effecting nodes were recorded instead of executed
+  priority?: number; // Queue priority (higher starts first)
+  queuePosition?: number; // While pending: position among the workflow's queued executions (1 = next)
+  scheduledFor?: Date; // Set when started by a schedule: the scheduled run time
+  workflowVersion?: number; // Published version it ran (unset = the draft)
+}
+
+/**
+ * Reference to a related (parent or child) execution
+ */
+export interface ExecutionLink {
+  id: string;
+  workflowId: string;
+  workflowName?: string;
+  status: ExecutionStatus;
+  nodeId?: string; // Execute Workflow node that started the child execution
 }
 
 // ============================================================================
@@ -386,6 +735,227 @@ export interface Workflow {
   userId: string;
   createdAt: Date;
   updatedAt: Date;
+  schedules?: WorkflowSchedule[]; // Schedules of its scheduled Trigger nodes
+  publishedVersion?: number; // Version run by API keys, schedules, webhooks and sub-workflows (unset = the draft)
+  hasUnpublishedChanges?: boolean; // The draft (definition) differs from the published version
+  webhookIssues?: WorkflowValidationIssue[]; // Returned by saves: webhook URLs that couldn't be registered
+}
+
+/**
+ * Cron schedule of a scheduled Trigger node
+ */
+export interface WorkflowSchedule {
+  nodeId: string;
+  cron: string;
+  timezone: string;
+  catchUp: ScheduleCatchUpPolicy;
+  isActive: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date; // Scheduled time of the last run
+  lastExecutionId?: string;
+}
+
+/**
+ * Published version of a workflow
+ * A workflow's definition is its draft, edited in the editor; publishing snapshots it as the
+ * next version, and only the published version runs outside the editor
+ */
+export interface WorkflowVersion {
+  version: number; // 1, 2, ... per workflow
+  note?: string;
+  publishedBy?: string; // User ID
+  createdAt: Date;
+  isPublished: boolean;
+  definition?: WorkflowDefinition; // Only included when a single version is requested
+  webhookIssues?: WorkflowValidationIssue[]; // Returned by publishes: webhook URLs that couldn't be registered
+}
+
+/**
+ * Request to publish a workflow's draft
+ */
+export interface PublishWorkflowRequest {
+  note?: string;
+}
+
+/**
+ * A published version number, or the draft
+ */
+export type WorkflowVersionRef = number | 'draft';
+
+/**
+ * Differences between two definitions of a workflow
+ */
+export interface WorkflowDefinitionDiff {
+  from: WorkflowVersionRef;
+  to: WorkflowVersionRef;
+  nodes: {
+    added: NodeConfig[];
+    removed: NodeConfig[];
+    changed: WorkflowNodeChange[];
+  };
+  edges: {
+    added: WorkflowEdge[];
+    removed: WorkflowEdge[];
+    changed: WorkflowEdgeChange[];
+  };
+  settingsChanged: boolean;
+  variablesChanged: boolean;
+  hasChanges: boolean;
+}
+
+/**
+ * Node present in both definitions of a diff, with different contents
+ */
+export interface WorkflowNodeChange {
+  nodeId: string;
+  fields: string[]; // Top-level node fields that differ, e.g. ["config", "position"]
+  before: NodeConfig;
+  after: NodeConfig;
+}
+
+/**
+ * Edge present in both definitions of a diff, with different endpoints or handles
+ */
+export interface WorkflowEdgeChange {
+  edgeId: string;
+  fields: string[];
+  before: WorkflowEdge;
+  after: WorkflowEdge;
+}
+
+/**
+ * Problem found when validating a workflow definition
+ * Errors block saving and publishing; warnings are shown in the editor only
+ */
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  code: WorkflowValidationCode;
+  message: string;
+  nodeId?: string; // Node the issue is about, if any
+  edgeId?: string; // Edge the issue is about, if any
+  path?: string; // Field the issue is about, e.g. "config.credentialId"
+}
+
+export type WorkflowValidationCode =
+  | 'invalid_structure' // Missing nodes/edges arrays, duplicate IDs, dangling edges
+  | 'unknown_node_type'
+  | 'invalid_config' // Node fields that don't match the node type's schema
+  | 'unknown_field' // Field the node type's schema doesn't describe
+  | 'invalid_settings'
+  | 'invalid_template'
+  | 'missing_trigger'
+  | 'multiple_triggers'
+  | 'trigger_has_inputs'
+  | 'cycle'
+  | 'unreachable_node'
+  | 'unwired_handle' // Branch of a Conditional, Switch, Loop or approval node with no edge
+  | 'unknown_handle' // Edge from a handle the source node doesn't have
+  | 'invalid_credential' // Missing, inactive or another user's credential
+  | 'invalid_webhook' // Webhook ID used twice or by another workflow
+  | 'invalid_sub_workflow'; // Execute Workflow target missing or not owned
+
+/**
+ * Result of validating a workflow definition
+ */
+export interface WorkflowValidationResult {
+  valid: boolean; // No errors (warnings allowed)
+  errors: WorkflowValidationIssue[];
+  warnings: WorkflowValidationIssue[];
+}
+
+/**
+ * Request to validate a workflow definition without saving it
+ */
+export interface ValidateWorkflowRequest {
+  definition: WorkflowDefinition;
+  workflowId?: string; // Workflow the definition belongs to, if saved already
+}
+
+/**
+ * Format name and version of workflow bundles
+ * The version is raised when the format changes incompatibly; imports accept bundles up to it
+ */
+export const WORKFLOW_BUNDLE_FORMAT = 'workflow-bundle';
+export const WORKFLOW_BUNDLE_VERSION = 1;
+
+/**
+ * Portable export of a workflow, for moving it between deployments
+ * Credential and sub-workflow IDs only exist in the deployment they came from, so the
+ * definition holds placeholders (e.g. "credential:1") instead, described in credentials and
+ * workflows; importing maps each placeholder to a record of the target deployment
+ */
+export interface WorkflowBundle {
+  format: typeof WORKFLOW_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string; // ISO date
+  source?: {
+    workflowId: string;
+    version?: number; // Published version exported (unset = the draft)
+  };
+  workflow: {
+    name: string;
+    description?: string;
+    definition: WorkflowDefinition;
+  };
+  credentials: WorkflowBundleReference[];
+  workflows: WorkflowBundleReference[]; // Workflows called by Execute Workflow nodes
+}
+
+/**
+ * Credential or workflow a bundle's nodes refer to through a placeholder
+ */
+export interface WorkflowBundleReference {
+  placeholder: string; // Value of the nodes' credentialId/workflowId, e.g. "credential:1"
+  name?: string; // Name in the source deployment, to help pick the matching record
+  integrationType?: string; // Credentials only: e.g. "email", "whatsapp"
+  nodeIds: string[]; // Nodes using it
+}
+
+/**
+ * Request to preview the import of a bundle
+ */
+export interface PreviewWorkflowImportRequest {
+  bundle: WorkflowBundle;
+}
+
+/**
+ * What importing a bundle needs: the placeholders to map, with the records they can map to
+ */
+export interface WorkflowImportPreview {
+  name: string;
+  description?: string;
+  nodeCount: number;
+  credentials: Array<WorkflowBundleReference & { candidates: WorkflowImportCandidate[] }>;
+  workflows: Array<WorkflowBundleReference & { candidates: WorkflowImportCandidate[] }>;
+  takenWebhookIds: string[]; // Webhook IDs used in this deployment already (new ones are generated)
+}
+
+/**
+ * Record of the importing user a placeholder can be mapped to
+ */
+export interface WorkflowImportCandidate {
+  id: string;
+  name: string;
+}
+
+/**
+ * Request to import a bundle as a new workflow
+ */
+export interface ImportWorkflowRequest {
+  bundle: WorkflowBundle;
+  name?: string; // Defaults to the bundle's workflow name
+  credentialMapping?: Record<string, string>; // Placeholder -> credential ID
+  workflowMapping?: Record<string, string>; // Placeholder -> workflow ID
+  remapNodeIds?: boolean; // Give every node a new ID (edges and nodes.<id> templates follow)
+}
+
+/**
+ * Workflow created by an import, with the IDs that were changed on the way
+ */
+export interface WorkflowImportResult {
+  workflow: Workflow;
+  nodeIdMap: Record<string, string>; // Old node ID -> new one (empty unless remapNodeIds)
+  webhookIdMap: Record<string, string>; // Taken webhook ID -> generated one
 }
 
 /**
@@ -394,6 +964,34 @@ export interface Workflow {
 export interface ExecuteWorkflowRequest {
   workflowId: string;
   input?: unknown;
+  dryRun?: boolean; // Record side-effecting nodes (email, WhatsApp, calendar, non-GET HTTP) instead of executing them
+  priority?: number; // Queue priority; defaults to the workflow's settings.priority
+}
+
+/**
+ * Request to test a single node in isolation
+ */
+export interface TestNodeRequest {
+  definition?: WorkflowDefinition; // Unsaved editor state (defaults to the saved definition)
+  input?: unknown; // Overrides the pinned input
+  dryRun?: boolean; // Record side-effecting nodes instead of executing them
+}
+
+/**
+ * Result of testing a single node; nothing is persisted and no downstream node runs
+ */
+export interface NodeTestResult {
+  nodeId: string;
+  success: boolean;
+  input: unknown; // Input the node ran with
+  inputSource: 'request' | 'pinned_input' | 'parents' | 'none';
+  output?: unknown;
+  error?: string;
+  outputHandle?: string; // Branch the node would continue on
+  nextNodeId?: string;
+  waitingFor?: string; // Signal the node would pause for in an execution (e.g. "approval")
+  resumeAt?: Date; // When a Delay node would continue
+  durationMs: number;
 }
 
 /**
@@ -407,6 +1005,23 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+/**
+ * Queue state of a workflow's executions
+ */
+export interface ExecutionQueueStats {
+  pending: number; // Executions waiting for a worker
+  running: number;
+  maxConcurrency?: number; // Workflow limit (settings.maxConcurrency)
+  maxConcurrencyPerUser?: number; // Limit across all workflows of the owner
+}
+
+/**
+ * Page of a workflow's executions with its queue state
+ */
+export interface ExecutionListResponse extends PaginatedResponse<WorkflowExecution> {
+  queue: ExecutionQueueStats;
+}
+
 // ============================================================================
 // WebSocket Event Types
 // ============================================================================
@@ -422,6 +1037,8 @@ export enum WebSocketEvent {
   NODE_STARTED = 'node:started',
   NODE_COMPLETED = 'node:completed',
   NODE_FAILED = 'node:failed',
+  NODE_SKIPPED = 'node:skipped',
+  NODE_WAITING = 'node:waiting',
 }
 
 /**
@@ -456,6 +1073,21 @@ export interface NodeFailedMessage extends WebSocketMessage<{ nodeId: string; er
   event: WebSocketEvent.NODE_FAILED;
 }
 
+/**
+ * Message when a node is skipped because none of its incoming branches were taken
+ */
+export interface NodeSkippedMessage extends WebSocketMessage<{ nodeId: string }> {
+  event: WebSocketEvent.NODE_SKIPPED;
+}
+
+/**
+ * Message when a Delay node pauses the execution until its resume time
+ */
+export interface NodeWaitingMessage
+  extends WebSocketMessage<{ nodeId: string; resumeAt?: string; waitingFor?: string }> {
+  event: WebSocketEvent.NODE_WAITING;
+}
+
 /**
  * Message when execution completes
  */
@@ -470,6 +1102,8 @@ export type WebSocketEventMessage =
   | NodeStartedMessage
   | NodeCompletedMessage
   | NodeFailedMessage
+  | NodeSkippedMessage
+  | NodeWaitingMessage
   | ExecutionCompletedMessage
   | WebSocketMessage;
 